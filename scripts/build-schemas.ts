@@ -0,0 +1,58 @@
+/**
+ * Build script to generate component schemas from an upstream spec dump.
+ *
+ * The dump is produced by the Expanso/Benthos binary and checked in as
+ * schemas/components.json:
+ *
+ *   expanso-edge list --format json > schemas/components.json
+ *   expanso-edge jsonschema > schemas/components.json
+ *
+ * Hand-written schemas in src/component-schemas.ts are layered over the
+ * generated ones at runtime, so their descriptions act as overrides.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { convertSchemaDump, type GeneratedSchemas } from '../src/schema-import';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DUMP_FILE = path.join(__dirname, '..', 'schemas', 'components.json');
+const OUTPUT_FILE = path.join(__dirname, '..', 'src', 'component-schemas-data.ts');
+
+function main() {
+  // Regenerating without the dump would silently wipe the generated schemas
+  if (!fs.existsSync(DUMP_FILE)) {
+    console.error(`Error: ${DUMP_FILE} not found`);
+    console.error('Dump the component specs first: expanso-edge list --format json > schemas/components.json');
+    process.exit(1);
+  }
+
+  console.log(`Loading schema dump from ${DUMP_FILE}...`);
+  const schemas: GeneratedSchemas = convertSchemaDump(JSON.parse(fs.readFileSync(DUMP_FILE, 'utf-8')));
+
+  // Sort components by name for stable diffs
+  for (const category of Object.keys(schemas) as Array<keyof GeneratedSchemas>) {
+    schemas[category] = Object.fromEntries(
+      Object.entries(schemas[category]).sort(([a], [b]) => a.localeCompare(b))
+    );
+  }
+
+  const output = `/**
+ * AUTO-GENERATED FILE - DO NOT EDIT DIRECTLY
+ * Generated by scripts/build-schemas.ts from schemas/components.json
+ * Run 'npm run build:schemas' to regenerate.
+ */
+
+import type { GeneratedSchemas } from './schema-import';
+
+export const GENERATED_SCHEMAS: GeneratedSchemas = ${JSON.stringify(schemas, null, 2)};
+`;
+
+  fs.writeFileSync(OUTPUT_FILE, output);
+  const counts = Object.entries(schemas).map(([category, entries]) => `${category}: ${Object.keys(entries).length}`);
+  console.log(`Generated ${OUTPUT_FILE} (${counts.join(', ')})`);
+}
+
+main();
@@ -2,19 +2,49 @@
 /**
  * Index llms.txt content into Cloudflare Vectorize
  *
- * Usage: npm run index
+ * Usage: npm run index [-- --dry-run] [-- --target=local --store=<file>]
  *
  * Requires CLOUDFLARE_API_TOKEN environment variable.
- * Account ID is read from wrangler.toml automatically.
+ * Account ID is read from wrangler.toml automatically. Resources are discovered
+ * from the llms.txt index of each domain in DOCS_DOMAINS.
+ *
+ * Indexing is incremental: a manifest of chunk content hashes is kept with
+ * the vectors, only new or changed chunks are embedded, and vectors for
+ * chunks that no longer exist are deleted. --dry-run prints that diff without
+ * writing. --target=local keeps vectors, manifest and BM25 index in a JSON
+ * file (default .vector-store.json) instead of Vectorize and KV.
  */
 
-import { readFileSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { PIPELINE_EXAMPLES, getExampleSearchText } from '../src/examples-registry';
+import { BM25_INDEX_KEY, buildBm25Index, carryOverDocuments, isBm25Index } from '../src/bm25';
+import { splitSections } from '../src/doc-sections';
+import { crawlResources, parseDomains } from '../src/resource-registry';
+import { buildRegistryChunks, type SearchType } from '../src/registry-chunks';
+import {
+  createCloudflareTarget,
+  createLocalTarget,
+  formatDiff,
+  loadManifest,
+  sourcesOnDomains,
+  syncIndex,
+  type IndexTarget,
+} from '../src/index-sync';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+const DEFAULT_LOCAL_STORE = join(__dirname, '..', '.vector-store.json');
+
+function getFlag(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const arg = process.argv.slice(2).find((a) => a === `--${name}` || a.startsWith(prefix));
+  if (arg === undefined) return undefined;
+  return arg.startsWith(prefix) ? arg.slice(prefix.length) : 'true';
+}
+
 function getAccountIdFromWrangler(): string {
   try {
     const wranglerPath = join(__dirname, '..', 'wrangler.toml');
@@ -27,29 +57,29 @@ function getAccountIdFromWrangler(): string {
   return process.env.CLOUDFLARE_ACCOUNT_ID || '';
 }
 
-const RESOURCES = [
-  // expanso.io
-  'https://expanso.io/llms.txt',
-  'https://expanso.io/llms/product.txt',
-  'https://expanso.io/llms/industries.txt',
-  'https://expanso.io/llms/use-cases.txt',
-  'https://expanso.io/llms/comparisons.txt',
-
-  // docs.expanso.io
-  'https://docs.expanso.io/llms.txt',
-  'https://docs.expanso.io/llms/getting-started.txt',
-  'https://docs.expanso.io/llms/cli.txt',
-  'https://docs.expanso.io/llms/components.txt',
-  'https://docs.expanso.io/llms/operations.txt',
-  'https://docs.expanso.io/llms/guides.txt',
-
-  // examples.expanso.io
-  'https://examples.expanso.io/llms.txt',
-  'https://examples.expanso.io/llms/data-routing.txt',
-  'https://examples.expanso.io/llms/data-security.txt',
-  'https://examples.expanso.io/llms/data-transformation.txt',
-  'https://examples.expanso.io/llms/log-processing.txt',
-];
+function getKvNamespaceIdFromWrangler(): string {
+  try {
+    const wranglerPath = join(__dirname, '..', 'wrangler.toml');
+    const content = readFileSync(wranglerPath, 'utf-8');
+    const match = content.match(/binding\s*=\s*"CONTENT_CACHE"\s*\n\s*id\s*=\s*"([^"]+)"/);
+    if (match) return match[1];
+  } catch {
+    // Fall through to env var
+  }
+  return process.env.CONTENT_CACHE_NAMESPACE_ID || '';
+}
+
+function getDocsDomainsFromWrangler(): string[] {
+  try {
+    const wranglerPath = join(__dirname, '..', 'wrangler.toml');
+    const content = readFileSync(wranglerPath, 'utf-8');
+    const match = content.match(/DOCS_DOMAINS\s*=\s*"([^"]+)"/);
+    if (match) return parseDomains(match[1]);
+  } catch {
+    // Fall through to env var
+  }
+  return parseDomains(process.env.DOCS_DOMAINS);
+}
 
 interface Chunk {
   id: string;
@@ -60,25 +90,55 @@ interface Chunk {
     title: string;
     snippet: string;
     section: string;
-    type: 'doc' | 'example';
+    type: SearchType;
+    /** Character offsets of the section in the source file */
+    start?: number;
+    end?: number;
   };
 }
 
 async function main() {
+  const dryRun = getFlag('dry-run') === 'true';
+  const targetName = getFlag('target') ?? 'cloudflare';
   const accountId = getAccountIdFromWrangler();
-  const apiToken = process.env.CLOUDFLARE_API_TOKEN;
+  const apiToken = process.env.CLOUDFLARE_API_TOKEN || '';
+
+  let target: IndexTarget;
+  if (targetName === 'local') {
+    const storePath = getFlag('store') ?? DEFAULT_LOCAL_STORE;
+    target = createLocalTarget({
+      read: async () => (existsSync(storePath) ? readFileSync(storePath, 'utf-8') : null),
+      write: async (text) => writeFileSync(storePath, text),
+    });
+    console.log(`Using local vector store ${storePath}`);
+  } else if (targetName === 'cloudflare') {
+    const namespaceId = getKvNamespaceIdFromWrangler();
+    if (!accountId || !apiToken || !namespaceId) {
+      console.error('Missing CLOUDFLARE_ACCOUNT_ID or CONTENT_CACHE namespace (in wrangler.toml) or CLOUDFLARE_API_TOKEN env var');
+      process.exit(1);
+    }
+    target = createCloudflareTarget({ accountId, apiToken, indexName: 'expanso-docs', namespaceId });
+  } else {
+    console.error(`Unknown target "${targetName}", use cloudflare or local`);
+    process.exit(1);
+  }
 
-  if (!accountId || !apiToken) {
+  // Embeddings always come from Workers AI
+  if (!dryRun && (!accountId || !apiToken)) {
     console.error('Missing CLOUDFLARE_ACCOUNT_ID (in wrangler.toml) or CLOUDFLARE_API_TOKEN env var');
     process.exit(1);
   }
 
   const startTime = Date.now();
-  console.log('Fetching content in parallel...');
+  console.log('Discovering resources from llms.txt indexes...');
+  const discovery = await crawlResources(getDocsDomainsFromWrangler());
+  const resources = discovery.resources.map((r) => r.uri);
+
+  console.log(`Fetching ${resources.length} resources in parallel...`);
 
   // Fetch all URLs in parallel
   const fetchResults = await Promise.allSettled(
-    RESOURCES.map(async (uri) => {
+    resources.map(async (uri) => {
       const response = await fetch(uri);
       if (!response.ok) return null;
       return { uri, content: await response.text() };
@@ -86,17 +146,33 @@ async function main() {
   );
 
   const chunks: Chunk[] = [];
+  const unavailable: string[] = [];
+  fetchResults.forEach((result, i) => {
+    if (result.status === 'rejected' || !result.value) unavailable.push(resources[i]);
+  });
+  // Pages of a domain that couldn't be crawled aren't in the list at all
+  if (discovery.unreachable.length > 0) {
+    console.warn(`Could not crawl ${discovery.unreachable.join(', ')}, keeping the pages indexed from there`);
+    for (const source of sourcesOnDomains(await loadManifest(target), discovery.unreachable)) {
+      if (!unavailable.includes(source)) unavailable.push(source);
+    }
+  }
+  if (unavailable.length > 0) {
+    console.warn(`Could not fetch ${unavailable.length} resources, keeping their existing vectors: ${unavailable.join(', ')}`);
+  }
+
   for (const result of fetchResults) {
     if (result.status === 'rejected' || !result.value) continue;
 
     const { uri, content } = result.value;
     const domain = new URL(uri).hostname;
     const title = extractTitle(content);
-    const sections = splitByHeadings(content);
+    // Skip near-empty sections
+    const sections = splitSections(uri, content).filter((s) => s.content.length > 50);
 
     for (const section of sections) {
       chunks.push({
-        id: generateId(uri, section.heading),
+        id: section.id,
         text: section.content,
         metadata: {
           uri,
@@ -105,12 +181,14 @@ async function main() {
           snippet: section.content.slice(0, 200),
           section: section.heading,
           type: 'doc',
+          start: section.start,
+          end: section.end,
         },
       });
     }
   }
 
-  console.log(`Fetched ${RESOURCES.length} URLs, created ${chunks.length} doc chunks in ${Date.now() - startTime}ms`);
+  console.log(`Fetched ${resources.length} URLs, created ${chunks.length} doc chunks in ${Date.now() - startTime}ms`);
 
   // Add pipeline examples to chunks
   console.log(`Adding ${PIPELINE_EXAMPLES.length} pipeline examples...`);
@@ -130,97 +208,61 @@ async function main() {
     });
   }
 
-  console.log(`Total chunks to index: ${chunks.length} (${chunks.filter(c => c.metadata.type === 'doc').length} docs + ${chunks.filter(c => c.metadata.type === 'example').length} examples)`);
+  // Component schemas, Bloblang reference and compatibility rules
+  const registryChunks = buildRegistryChunks();
+  console.log(`Adding ${registryChunks.length} registry chunks...`);
+  chunks.push(...(registryChunks as Chunk[]));
+
+  const counts = new Map<string, number>();
+  for (const chunk of chunks) counts.set(chunk.metadata.type, (counts.get(chunk.metadata.type) ?? 0) + 1);
+  console.log(`Total chunks to index: ${chunks.length} (${[...counts].map(([type, count]) => `${count} ${type}`).join(', ')})`);
 
   if (chunks.length === 0) {
     console.log('No chunks to index');
     return;
   }
 
-  console.log('Generating embeddings and upserting (parallel batches)...');
-
-  // Process in larger batches, run embedding + upsert in parallel per batch
-  const batchSize = 20; // Larger batches = fewer API calls
-  const batches: Chunk[][] = [];
-  for (let i = 0; i < chunks.length; i += batchSize) {
-    batches.push(chunks.slice(i, i + batchSize));
+  const diff = await syncIndex(target, chunks, {
+    embed: (texts) => generateEmbeddings(texts, accountId, apiToken),
+    model: EMBEDDING_MODEL,
+    dryRun,
+    unavailableSources: unavailable,
+    log: (message) => console.log(message),
+  });
+  console.log(formatDiff(diff));
+
+  if (dryRun) {
+    console.log('\nDry run, nothing written');
+    return;
   }
 
-  // Process batches with limited concurrency (2 at a time to avoid rate limits)
-  const concurrency = 2;
-  for (let i = 0; i < batches.length; i += concurrency) {
-    const batchGroup = batches.slice(i, i + concurrency);
-
-    await Promise.all(
-      batchGroup.map(async (batch) => {
-        const embeddings = await generateEmbeddings(
-          batch.map((c) => c.text),
-          accountId,
-          apiToken
-        );
-
-        const vectors = batch.map((chunk, idx) => ({
-          id: chunk.id,
-          values: embeddings[idx],
-          metadata: chunk.metadata,
-        }));
-
-        await upsertVectors(vectors, accountId, apiToken);
-      })
-    );
-
-    const processed = Math.min((i + concurrency) * batchSize, chunks.length);
-    console.log(`  ${processed}/${chunks.length} chunks indexed`);
+  // The BM25 keyword index covers the same chunks, keyed by the same IDs.
+  // Like their vectors, sections of unfetched sources come from the last run.
+  let keywordIndex = buildBm25Index(chunks.map((chunk) => ({ id: chunk.id, text: chunk.text, ...chunk.metadata })));
+  if (unavailable.length > 0) {
+    const previous = await readKeywordIndex(target);
+    if (previous) keywordIndex = carryOverDocuments(keywordIndex, previous, (document) => unavailable.includes(document.uri));
   }
+  await target.putValue(BM25_INDEX_KEY, JSON.stringify(keywordIndex));
+  console.log(`Stored BM25 index (${Object.keys(keywordIndex.postings).length} terms)`);
 
   console.log(`\nDone in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
 }
 
-function extractTitle(content: string): string {
-  const match = content.match(/^#\s+(.+)$/m);
-  return match ? match[1] : 'Untitled';
-}
-
-function splitByHeadings(content: string): Array<{ heading: string; content: string }> {
-  const lines = content.split('\n');
-  const sections: Array<{ heading: string; content: string }> = [];
-  let currentHeading = 'Introduction';
-  let currentContent: string[] = [];
-
-  for (const line of lines) {
-    const h2Match = line.match(/^##\s+(.+)$/);
-    if (h2Match) {
-      if (currentContent.length > 0) {
-        sections.push({
-          heading: currentHeading,
-          content: currentContent.join('\n').trim(),
-        });
-      }
-      currentHeading = h2Match[1];
-      currentContent = [];
-    } else {
-      currentContent.push(line);
-    }
-  }
-
-  // Add last section
-  if (currentContent.length > 0) {
-    sections.push({
-      heading: currentHeading,
-      content: currentContent.join('\n').trim(),
-    });
+async function readKeywordIndex(target: IndexTarget) {
+  const text = await target.getValue(BM25_INDEX_KEY);
+  if (!text) return null;
+  try {
+    const index = JSON.parse(text);
+    return isBm25Index(index) ? index : null;
+  } catch {
+    return null;
   }
-
-  // Filter out empty sections and merge small ones
-  return sections.filter((s) => s.content.length > 50);
 }
 
-function generateId(uri: string, section: string): string {
-  const base = uri.replace(/https?:\/\//, '').replace(/[^a-zA-Z0-9]/g, '_').slice(0, 30);
-  const sectionSlug = section.toLowerCase().replace(/[^a-zA-Z0-9]/g, '_').slice(0, 25);
-  const id = `${base}_${sectionSlug}`;
-  // Vectorize max ID is 64 bytes
-  return id.slice(0, 64);
+function extractTitle(content: string): string {
+  const match = content.match(/^#\s+(.+)$/m);
+  return match ? match[1] : 'Untitled';
 }
 
 async function generateEmbeddings(
@@ -229,7 +271,7 @@ async function generateEmbeddings(
   apiToken: string
 ): Promise<number[][]> {
   const response = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/run/@cf/baai/bge-base-en-v1.5`,
+    `https://api.cloudflare.com/client/v4/accounts/${accountId}/ai/run/${EMBEDDING_MODEL}`,
     {
       method: 'POST',
       headers: {
@@ -248,27 +290,4 @@ async function generateEmbeddings(
   return (result as { result: { data: number[][] } }).result.data;
 }
 
-async function upsertVectors(
-  vectors: Array<{ id: string; values: number[]; metadata: Record<string, string> }>,
-  accountId: string,
-  apiToken: string
-): Promise<void> {
-  const response = await fetch(
-    `https://api.cloudflare.com/client/v4/accounts/${accountId}/vectorize/v2/indexes/expanso-docs/upsert`,
-    {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiToken}`,
-        'Content-Type': 'application/x-ndjson',
-      },
-      body: vectors.map((v) => JSON.stringify(v)).join('\n'),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Vectorize upsert error: ${response.status} - ${error}`);
-  }
-}
-
 main().catch(console.error);
@@ -4,6 +4,8 @@
  * Uses the PostHog API directly since posthog-node may not work in Workers runtime.
  */
 
+import { redactSecrets } from './secret-scanner';
+
 const POSTHOG_HOST = 'https://us.i.posthog.com';
 
 interface AnalyticsEvent {
@@ -160,9 +162,9 @@ export async function trackYamlGenerated(
     distinctId,
     properties: {
       yaml_id: yamlId,
-      yaml_preview: yaml.slice(0, 500), // Short preview for PostHog
+      yaml_preview: redactSecrets(yaml).slice(0, 500), // Short preview for PostHog
       yaml_length: yaml.length,
-      user_message: userMessage.slice(0, 500),
+      user_message: redactSecrets(userMessage).slice(0, 500),
       validator_valid: validationResult.valid,
       validator_errors: validationResult.errors,
       validator_error_count: validationResult.errors.length,
@@ -188,10 +190,10 @@ export async function trackYamlFeedback(
     event: 'yaml_feedback',
     distinctId,
     properties: {
-      yaml_content: yaml.slice(0, 2000), // Truncate for storage
+      yaml_content: redactSecrets(yaml).slice(0, 2000), // Truncate for storage
       yaml_length: yaml.length,
       user_reported_valid: isValid,
-      user_message: userMessage.slice(0, 500),
+      user_message: redactSecrets(userMessage).slice(0, 500),
       validator_errors: validationResult?.errors || [],
       validator_warnings: validationResult?.warnings || [],
       validator_error_count: validationResult?.errors?.length || 0,
@@ -0,0 +1,184 @@
+/**
+ * Tests for reading zip, tar and tar.gz uploads
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectArchiveFormat, readArchive, readYamlFiles } from './archive';
+
+const encoder = new TextEncoder();
+
+async function compress(data: Uint8Array, format: 'gzip' | 'deflate-raw'): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Build a zip archive; CRCs are left as zero since the reader doesn't check them
+ */
+async function buildZip(files: Record<string, string>, deflate = false): Promise<Uint8Array> {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const data = deflate ? await compress(raw, 'deflate-raw') : raw;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, deflate ? 8 : 0, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, deflate ? 8 : 0, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directory = concat(centrals);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, directory.length, true);
+  ev.setUint32(16, offset, true);
+
+  return concat([...locals, directory, end]);
+}
+
+function writeAscii(block: Uint8Array, offset: number, text: string): void {
+  block.set(encoder.encode(text), offset);
+}
+
+/**
+ * Build a ustar archive with a directory entry before the files
+ */
+function buildTar(files: Record<string, string>): Uint8Array {
+  const blocks: Uint8Array[] = [];
+  const entries: Array<[string, string, string]> = [
+    ['pipelines/', '', '5'],
+    ...Object.entries(files).map(([name, content]): [string, string, string] => [name, content, '0']),
+  ];
+
+  for (const [name, content, type] of entries) {
+    const data = encoder.encode(content);
+    const header = new Uint8Array(512);
+    writeAscii(header, 0, name);
+    writeAscii(header, 124, data.length.toString(8).padStart(11, '0'));
+    writeAscii(header, 156, type);
+    writeAscii(header, 257, 'ustar');
+    blocks.push(header);
+
+    const body = new Uint8Array(Math.ceil(data.length / 512) * 512);
+    body.set(data);
+    blocks.push(body);
+  }
+
+  blocks.push(new Uint8Array(1024));
+  return concat(blocks);
+}
+
+const FILES = {
+  'resources.yaml': 'cache_resources:\n  - label: lookups\n    memory: {}\n',
+  'pipelines/orders.yml': 'input:\n  stdin: {}\noutput:\n  stdout: {}\n',
+  'README.md': '# Pipelines\n',
+};
+
+describe('Archive Reader', () => {
+  it('should detect archive formats from magic bytes', async () => {
+    expect(detectArchiveFormat(await buildZip(FILES))).toBe('zip');
+    expect(detectArchiveFormat(buildTar(FILES))).toBe('tar');
+    expect(detectArchiveFormat(await compress(buildTar(FILES), 'gzip'))).toBe('tar.gz');
+    expect(detectArchiveFormat(encoder.encode('input:\n  stdin: {}\n'))).toBeNull();
+  });
+
+  it('should read stored and deflated zip entries', async () => {
+    for (const deflate of [false, true]) {
+      const entries = await readArchive(await buildZip(FILES, deflate));
+      expect(entries.map(entry => entry.name)).toEqual(Object.keys(FILES));
+      expect(new TextDecoder().decode(entries[0].data)).toBe(FILES['resources.yaml']);
+    }
+  });
+
+  it('should read regular files from tar and tar.gz archives', async () => {
+    const tar = buildTar(FILES);
+    for (const archive of [tar, await compress(tar, 'gzip')]) {
+      const entries = await readArchive(archive);
+      expect(entries.map(entry => entry.name)).toEqual(Object.keys(FILES));
+      expect(new TextDecoder().decode(entries[1].data)).toBe(FILES['pipelines/orders.yml']);
+    }
+  });
+
+  it('should keep only YAML files, skipping hidden files and macOS metadata', async () => {
+    const files = await readYamlFiles(await buildZip({
+      ...FILES,
+      '.github/workflows/ci.yaml': 'on: push\n',
+      '__MACOSX/pipelines/._orders.yml': 'binary',
+      './local.yaml': 'input:\n  stdin: {}\n',
+    }));
+    expect(Object.keys(files).sort()).toEqual(['local.yaml', 'pipelines/orders.yml', 'resources.yaml']);
+  });
+
+  it('should stop inflating once an entry passes the size limit', async () => {
+    const big = 'a: ' + 'x'.repeat(200_000) + '\n';
+    await expect(readYamlFiles(await buildZip({ 'big.yaml': big }, true), { maxFileBytes: 100_000 }))
+      .rejects.toThrow('big.yaml is larger than 100000 bytes when decompressed');
+
+    const tarGz = await compress(buildTar({ 'big.yaml': big }), 'gzip');
+    expect(tarGz.length).toBeLessThan(2_000);
+    await expect(readYamlFiles(tarGz, { maxTotalBytes: 100_000 }))
+      .rejects.toThrow('Archive is larger than 100000 bytes when decompressed');
+  });
+
+  it('should skip unwanted entries without decompressing them', async () => {
+    const zip = await buildZip({ ...FILES, 'assets/blob.bin': 'b'.repeat(200_000) }, true);
+    const files = await readYamlFiles(zip, { maxFileBytes: 100_000 });
+    expect(Object.keys(files).sort()).toEqual(['pipelines/orders.yml', 'resources.yaml']);
+  });
+
+  it('should enforce the file limit while reading', async () => {
+    const many = Object.fromEntries(Array.from({ length: 5 }, (_, i) => [`p${i}.yaml`, 'input: {}\n']));
+    await expect(readYamlFiles(buildTar(many), { maxFiles: 3 })).rejects.toThrow('Too many files: more than 3');
+    expect(Object.keys(await readYamlFiles(buildTar(many), { maxFiles: 5 }))).toHaveLength(5);
+  });
+
+  it('should reject tar entries with a negative or oversized size', async () => {
+    for (const size of ['-0001000', '77777777777', '12x']) {
+      const tar = buildTar({ 'notes.txt': 'skipped\n' });
+      const header = tar.subarray(512, 1024);
+      header.fill(0, 124, 136);
+      writeAscii(header, 124, size);
+      await expect(readYamlFiles(tar)).rejects.toThrow('Invalid tar archive: bad size for notes.txt');
+    }
+  });
+
+  it('should reject data that is not an archive', async () => {
+    await expect(readArchive(encoder.encode('not an archive'))).rejects.toThrow('Unrecognised archive');
+  });
+});
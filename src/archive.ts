@@ -0,0 +1,291 @@
+/**
+ * Archive Reader
+ *
+ * Reads the files out of zip, tar and gzipped tar uploads for batch
+ * validation. Uses DecompressionStream, so it runs in the Worker without
+ * extra dependencies. Zip entries may be stored or deflated.
+ *
+ * Uploads are untrusted, so decompression is streamed against byte limits
+ * and entries the caller doesn't want are skipped before being inflated.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ArchiveEntry {
+  /** Path inside the archive, e.g. "pipelines/orders.yaml" */
+  name: string;
+  data: Uint8Array;
+}
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+export interface ArchiveOptions {
+  /** Entries to read; others are skipped without being decompressed */
+  accept?: (name: string) => boolean;
+  /** Most entries to accept before giving up */
+  maxFiles?: number;
+  /** Most decompressed bytes in one entry */
+  maxFileBytes?: number;
+  /** Most decompressed bytes overall, including the tar inside a tar.gz */
+  maxTotalBytes?: number;
+}
+
+export const MAX_ARCHIVE_FILE_BYTES = 1024 * 1024;
+export const MAX_ARCHIVE_TOTAL_BYTES = 16 * 1024 * 1024;
+
+/** Running totals checked against the options while reading */
+interface ArchiveBudget {
+  accept: (name: string) => boolean;
+  maxFiles: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+  files: number;
+  bytes: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Inflate data, aborting as soon as the output passes limit bytes
+ */
+async function decompress(data: Uint8Array, format: 'gzip' | 'deflate-raw', limit: number, name: string): Promise<Uint8Array> {
+  const result = await readStream(new Blob([data]).stream().pipeThrough(new DecompressionStream(format)), limit);
+  if (!result) throw new Error(`${name} is larger than ${limit} bytes when decompressed`);
+  return result;
+}
+
+/**
+ * Count an accepted entry against the file limit
+ */
+function takeFile(budget: ArchiveBudget): void {
+  budget.files++;
+  if (budget.files > budget.maxFiles) {
+    throw new Error(`Too many files: more than ${budget.maxFiles}`);
+  }
+}
+
+/**
+ * Bytes the next entry may decompress to
+ */
+function remainingBytes(budget: ArchiveBudget): number {
+  return Math.min(budget.maxFileBytes, budget.maxTotalBytes - budget.bytes);
+}
+
+/**
+ * Count an entry's size against the per-file and total limits
+ */
+function takeBytes(budget: ArchiveBudget, name: string, size: number): void {
+  if (size > budget.maxFileBytes) {
+    throw new Error(`${name} is larger than ${budget.maxFileBytes} bytes`);
+  }
+  budget.bytes += size;
+  if (budget.bytes > budget.maxTotalBytes) {
+    throw new Error(`Archive contents are larger than ${budget.maxTotalBytes} bytes`);
+  }
+}
+
+function readAscii(data: Uint8Array, start: number, length: number): string {
+  let text = '';
+  for (let i = start; i < start + length && data[i] !== 0; i++) {
+    text += String.fromCharCode(data[i]);
+  }
+  return text;
+}
+
+/**
+ * Detect the archive format from its magic bytes
+ */
+export function detectArchiveFormat(data: Uint8Array): ArchiveFormat | null {
+  if (data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04) return 'zip';
+  if (data[0] === 0x1f && data[1] === 0x8b) return 'tar.gz';
+  if (data.length >= 512 && readAscii(data, 257, 5) === 'ustar') return 'tar';
+  return null;
+}
+
+// ============================================================================
+// Zip
+// ============================================================================
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_FILE_HEADER = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Read a zip archive via its central directory, which has reliable sizes
+ * even when local headers use data descriptors
+ */
+async function readZip(data: Uint8Array, budget: ArchiveBudget): Promise<ArchiveEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end of central directory record sits in the last 64 KiB (comment included)
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Invalid zip archive: end of central directory not found');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ArchiveEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_FILE_HEADER) {
+      throw new Error('Invalid zip archive: bad central directory entry');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !budget.accept(name)) continue;
+    takeFile(budget);
+    if (view.getUint32(localOffset, true) !== ZIP_LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid zip archive: bad local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(dataStart, dataStart + compressedSize);
+
+    let entry: Uint8Array;
+    if (method === 0) {
+      entry = raw;
+    } else if (method === 8) {
+      entry = await decompress(raw, 'deflate-raw', remainingBytes(budget), name);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+    takeBytes(budget, name, entry.length);
+    entries.push({ name, data: entry });
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// Tar
+// ============================================================================
+
+function readTar(data: Uint8Array, budget: ArchiveBudget): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+
+  while (offset + 512 <= data.length) {
+    const name = readAscii(data, offset, 100);
+    // Two zero blocks end the archive
+    if (!name) break;
+
+    const sizeField = readAscii(data, offset + 124, 12).trim() || '0';
+    const size = /^[0-7]+$/.test(sizeField) ? parseInt(sizeField, 8) : NaN;
+    const type = String.fromCharCode(data[offset + 156]);
+    const prefix = readAscii(data, offset + 257, 5) === 'ustar' ? readAscii(data, offset + 345, 155) : '';
+    const start = offset + 512;
+
+    // Regular files only ('0' or NUL for old tars); skips directories, links and pax headers
+    const path = prefix ? `${prefix}/${name}` : name;
+    // A negative or oversized entry would stop the offset advancing or read past the end
+    if (!Number.isSafeInteger(size) || start + size > data.length) {
+      throw new Error(`Invalid tar archive: bad size for ${path}`);
+    }
+    if ((type === '0' || type === '\0') && budget.accept(path)) {
+      takeFile(budget);
+      takeBytes(budget, path, size);
+      entries.push({ name: path, data: data.subarray(start, start + size) });
+    }
+    offset = start + Math.ceil(size / 512) * 512;
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Read a stream into memory, or return null (and cancel it) once it passes
+ * limit bytes. Also used to bound request bodies before they're parsed.
+ */
+export async function readStream(stream: ReadableStream<Uint8Array>, limit: number): Promise<Uint8Array | null> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Read the files in a zip, tar or tar.gz archive, within the size and
+ * count limits
+ */
+export async function readArchive(data: Uint8Array, options: ArchiveOptions = {}): Promise<ArchiveEntry[]> {
+  const budget: ArchiveBudget = {
+    accept: options.accept ?? (() => true),
+    maxFiles: options.maxFiles ?? Infinity,
+    maxFileBytes: options.maxFileBytes ?? MAX_ARCHIVE_FILE_BYTES,
+    maxTotalBytes: options.maxTotalBytes ?? MAX_ARCHIVE_TOTAL_BYTES,
+    files: 0,
+    bytes: 0,
+  };
+
+  switch (detectArchiveFormat(data)) {
+    case 'zip':
+      return readZip(data, budget);
+    case 'tar':
+      return readTar(data, budget);
+    case 'tar.gz':
+      return readTar(await decompress(data, 'gzip', budget.maxTotalBytes, 'Archive'), budget);
+    default:
+      throw new Error('Unrecognised archive: expected zip, tar or tar.gz');
+  }
+}
+
+const cleanName = (name: string) => name.replace(/^\.\//, '');
+
+function isYamlFile(name: string): boolean {
+  const path = cleanName(name);
+  return /\.ya?ml$/i.test(path) && !path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+}
+
+/**
+ * Read the YAML files in an archive as a map of path to content, skipping
+ * hidden files and macOS metadata
+ */
+export async function readYamlFiles(
+  data: Uint8Array,
+  options: Omit<ArchiveOptions, 'accept'> = {}
+): Promise<Record<string, string>> {
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  for (const entry of await readArchive(data, { ...options, accept: isYamlFile })) {
+    files[cleanName(entry.name)] = decoder.decode(entry.data);
+  }
+  return files;
+}
@@ -66,7 +66,7 @@ output:
         expect(result.fixesApplied).toContain('Component: "elastic" → "elasticsearch_v8"');
       });
 
-      it('should fix "blobl" to "bloblang" in processors', () => {
+      it('should fix "blobl" to "bloblang", then to its replacement "mapping"', () => {
         const yaml = `
 input:
   kafka:
@@ -79,8 +79,9 @@ output:
   stdout: {}
 `;
         const result = applyAutoFixes(yaml);
-        expect(result.fixedYaml).toContain('bloblang:');
+        expect(result.fixedYaml).toContain('- mapping: root = this');
         expect(result.fixesApplied).toContain('Component: "blobl" → "bloblang"');
+        expect(result.fixesApplied).toContain('Deprecated component: "bloblang" → "mapping"');
       });
 
       it('should fix "map" to "mapping" in processors', () => {
@@ -270,6 +271,59 @@ output:
       });
     });
 
+    describe('Deprecated components and fields (HIGH confidence)', () => {
+      it('should rename deprecated components and fields with drop-in replacements', () => {
+        const yaml = `
+input:
+  stdin: {}
+pipeline:
+  processors:
+    - bloblang: root = this
+output:
+  stdout: {}
+cache_resources:
+  - label: shared
+    redis:
+      url: redis://localhost:6379
+      expiration: 1h
+`;
+        const result = applyAutoFixes(yaml);
+        expect(result.fixedYaml).toContain('    - mapping: root = this');
+        expect(result.fixedYaml).toContain('      default_ttl: 1h');
+        expect(result.fixesApplied).toEqual([
+          'Deprecated component: "bloblang" → "mapping"',
+          'Deprecated field: "expiration" → "default_ttl"',
+        ]);
+      });
+
+      it('should not rename when the replacement is missing on the target version', () => {
+        const yaml = `
+input:
+  stdin: {}
+pipeline:
+  processors:
+    - bloblang: root = this
+output:
+  stdout: {}
+`;
+        const result = applyAutoFixes(yaml, { targetVersion: '4.0.0' });
+        expect(result.fixesApplied).toHaveLength(0);
+        expect(applyAutoFixes(yaml, { targetVersion: '4.5.0' }).fixedYaml).toContain('- mapping:');
+      });
+
+      it('should leave deprecations that need manual migration alone', () => {
+        const yaml = `
+input:
+  nats_stream:
+    urls: [nats://localhost:4222]
+    cluster_id: test
+output:
+  stdout: {}
+`;
+        expect(applyAutoFixes(yaml).fixesApplied).toHaveLength(0);
+      });
+    });
+
     describe('Suggested fixes (medium/low confidence)', () => {
       it('should suggest "http" disambiguation', () => {
         const yaml = `
@@ -0,0 +1,128 @@
+/**
+ * Tests for batch validation across pipeline files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validatePipelineBatch, formatBatchResult } from './batch-validator';
+
+const RESOURCES = `cache_resources:
+  - label: lookups
+    memory: {}
+rate_limit_resources:
+  - label: api_limit
+    local:
+      count: 10
+      interval: 1s
+`;
+
+const ORDERS = `input:
+  stdin: {}
+pipeline:
+  processors:
+    - cache:
+        resource: lookups
+        operator: get
+        key: \${! this.id }
+    - rate_limit:
+        resource: api_limit
+output:
+  stdout: {}
+`;
+
+describe('Batch Validator', () => {
+  it('should resolve resource references declared in resource files', () => {
+    const result = validatePipelineBatch({
+      'resources.yaml': RESOURCES,
+      'pipelines/orders.yaml': ORDERS,
+    });
+
+    expect(result.files['pipelines/orders.yaml'].errors).toEqual([]);
+    // The shared resources satisfy the compatibility checks too
+    expect(result.files['pipelines/orders.yaml'].compatibility_warnings).toBeUndefined();
+    expect(result.files['resources.yaml']).toMatchObject({ kind: 'resources', valid: true });
+    expect(result.files['resources.yaml'].warnings).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report references that no file declares', () => {
+    const result = validatePipelineBatch({
+      'resources.yaml': RESOURCES,
+      'pipelines/orders.yaml': ORDERS.replace('resource: lookups', 'resource: missing'),
+    });
+
+    const errors = result.files['pipelines/orders.yaml'].errors;
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      path: 'pipeline.processors[0].cache.resource',
+      message: 'Unknown cache resource "missing"',
+      suggestion: 'Declared cache resources: lookups',
+      line: 6,
+    });
+    expect(result.valid).toBe(false);
+  });
+
+  it('should not share resources declared inside a pipeline file', () => {
+    const result = validatePipelineBatch({
+      'a.yaml': `${ORDERS.replace(/    - rate_limit:\n        resource: api_limit\n/, '')}cache_resources:\n  - label: lookups\n    memory: {}\n`,
+      'b.yaml': ORDERS.replace(/    - rate_limit:\n        resource: api_limit\n/, ''),
+    });
+
+    expect(result.files['a.yaml'].valid).toBe(true);
+    expect(result.files['b.yaml'].errors[0].message).toBe('Unknown cache resource "lookups"');
+  });
+
+  it('should flag labels declared in more than one resource file', () => {
+    const result = validatePipelineBatch({
+      'a-resources.yaml': RESOURCES,
+      'b-resources.yaml': 'cache_resources:\n  - label: lookups\n    memory: {}\n',
+    });
+
+    expect(result.files['a-resources.yaml'].valid).toBe(true);
+    expect(result.files['b-resources.yaml'].errors).toEqual([
+      expect.objectContaining({
+        path: 'cache_resources[0].label',
+        message: 'Duplicate cache resource label "lookups"',
+        line: 2,
+      }),
+    ]);
+    expect(result.files['b-resources.yaml'].errors[0].suggestion).toContain('a-resources.yaml: cache_resources[0]');
+  });
+
+  it('should still require input and output in pipeline files', () => {
+    const result = validatePipelineBatch({
+      'broken.yaml': 'pipeline:\n  processors:\n    - mapping: root = this\n',
+    });
+    expect(result.files['broken.yaml'].kind).toBe('pipeline');
+    expect(result.files['broken.yaml'].errors.map(e => e.message)).toContain('Missing required "input" section');
+  });
+
+  it('should summarize the batch', () => {
+    const result = validatePipelineBatch({
+      'resources.yaml': RESOURCES,
+      'orders.yaml': ORDERS,
+      'broken.yaml': 'input:\n  kafka_magic: {}\noutput:\n  stdout: {}\n',
+    });
+
+    expect(result.summary).toEqual({
+      total_files: 3,
+      pipeline_files: 2,
+      resource_files: 1,
+      valid_files: 2,
+      invalid_files: 1,
+      error_count: 1,
+      warning_count: 0,
+      shared_resources: 2,
+    });
+    const text = formatBatchResult(result);
+    expect(text).toContain('✗ 1 of 3 files failed validation');
+    expect(text).toContain('✓ resources.yaml (resources)');
+    expect(text).toContain('input.kafka_magic (line 2): Unknown input type: "kafka_magic"');
+  });
+
+  it('should check every file against the target version', () => {
+    const result = validatePipelineBatch({
+      'franz.yaml': 'input:\n  kafka_franz:\n    seed_brokers: [localhost:9092]\n    topics: [events]\noutput:\n  stdout: {}\n',
+    }, { targetVersion: '3.50.0' });
+    expect(result.files['franz.yaml'].valid).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Batch Validation
+ *
+ * Validates a repository of pipeline files at once. Files that only declare
+ * resources (cache_resources, rate_limit_resources, ...) are shared: their
+ * labels resolve `resource` references in every other file. Returns per-file
+ * results and a summary.
+ */
+
+import {
+  validatePipelineYaml,
+  listDeclaredResources,
+  RESOURCE_SECTIONS,
+  type SharedResources,
+  type ValidatePipelineOptions,
+  type ValidationError,
+  type ValidationResult,
+} from './pipeline-validator';
+import { parseYamlSource } from './yaml-source';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BatchFileResult extends ValidationResult {
+  /** "resources" files only declare shared resources */
+  kind: 'pipeline' | 'resources';
+}
+
+export interface BatchSummary {
+  total_files: number;
+  pipeline_files: number;
+  resource_files: number;
+  valid_files: number;
+  invalid_files: number;
+  error_count: number;
+  warning_count: number;
+  /** Labels declared in resource files, available to every file */
+  shared_resources: number;
+}
+
+export interface BatchValidationResult {
+  valid: boolean;
+  files: Record<string, BatchFileResult>;
+  summary: BatchSummary;
+}
+
+// Keep a single request bounded
+export const MAX_BATCH_FILES = 200;
+export const MAX_BATCH_BYTES = 8 * 1024 * 1024;
+
+const PIPELINE_KEYS = ['input', 'output', 'pipeline'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * A resource file declares resources and has no input, output or pipeline
+ */
+function isResourceFile(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return !keys.some(key => PIPELINE_KEYS.includes(key))
+    && RESOURCE_SECTIONS.some(({ section }) => keys.includes(section));
+}
+
+// ============================================================================
+// Batch Validator
+// ============================================================================
+
+/**
+ * Validate a map of filename to YAML, resolving resource references across
+ * files
+ */
+export function validatePipelineBatch(
+  files: Record<string, string>,
+  options: Pick<ValidatePipelineOptions, 'targetVersion' | 'lint'> = {}
+): BatchValidationResult {
+  const names = Object.keys(files).sort();
+  if (names.length > MAX_BATCH_FILES) {
+    throw new Error(`Too many files: ${names.length} (max ${MAX_BATCH_FILES})`);
+  }
+
+  // Collect resources from resource files; the first declaration of a label wins
+  const shared: SharedResources = {};
+  const duplicates: Record<string, ValidationError[]> = {};
+  const resourceFiles = new Set<string>();
+  for (const name of names) {
+    const source = parseYamlSource(files[name]);
+    if (source.error || !isResourceFile(source.value)) continue;
+    resourceFiles.add(name);
+
+    for (const resource of listDeclaredResources(source.value)) {
+      const labels = shared[resource.kind] ??= {};
+      const existing = labels[resource.label];
+      if (existing) {
+        (duplicates[name] ??= []).push({
+          path: `${resource.path}.label`,
+          message: `Duplicate ${resource.kind} resource label "${resource.label}"`,
+          suggestion: `Labels must be unique across resource files; "${resource.label}" is already declared in ${existing}`,
+          ...source.locate(`${resource.path}.label`),
+        });
+      } else {
+        labels[resource.label] = `${name}: ${resource.path}`;
+      }
+    }
+  }
+
+  const results: Record<string, BatchFileResult> = {};
+  for (const name of names) {
+    const resourcesOnly = resourceFiles.has(name);
+    const result = validatePipelineYaml(files[name], {
+      targetVersion: options.targetVersion,
+      lint: options.lint,
+      sharedResources: shared,
+      resourcesOnly,
+    });
+    if (duplicates[name]) {
+      result.errors.push(...duplicates[name]);
+      result.valid = false;
+    }
+    results[name] = { kind: resourcesOnly ? 'resources' : 'pipeline', ...result };
+  }
+
+  const all = Object.values(results);
+  const validFiles = all.filter(result => result.valid).length;
+  return {
+    valid: validFiles === all.length,
+    files: results,
+    summary: {
+      total_files: all.length,
+      pipeline_files: all.length - resourceFiles.size,
+      resource_files: resourceFiles.size,
+      valid_files: validFiles,
+      invalid_files: all.length - validFiles,
+      error_count: all.reduce((sum, result) => sum + result.errors.length, 0),
+      warning_count: all.reduce((sum, result) => sum + result.warnings.length, 0),
+      shared_resources: Object.values(shared).reduce((sum, labels) => sum + Object.keys(labels ?? {}).length, 0),
+    },
+  };
+}
+
+/**
+ * Format a batch result for human-readable output
+ */
+export function formatBatchResult(result: BatchValidationResult): string {
+  const { summary } = result;
+  const lines = [
+    result.valid
+      ? `✓ All ${summary.total_files} files are valid`
+      : `✗ ${summary.invalid_files} of ${summary.total_files} files failed validation`,
+    `  ${summary.pipeline_files} pipelines, ${summary.resource_files} resource files, ` +
+      `${summary.shared_resources} shared resources, ${summary.error_count} errors, ${summary.warning_count} warnings`,
+  ];
+
+  for (const [name, file] of Object.entries(result.files)) {
+    lines.push('');
+    lines.push(`${file.valid ? '✓' : '✗'} ${name}${file.kind === 'resources' ? ' (resources)' : ''}`);
+    for (const error of file.errors) {
+      const location = error.line ? ` (line ${error.line})` : '';
+      lines.push(`  • ${error.path}${location}: ${error.message}`);
+      if (error.suggestion) {
+        lines.push(`    → Fix: ${error.suggestion}`);
+      }
+    }
+    for (const warning of file.warnings) {
+      lines.push(`  ⚠ ${warning}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,1401 @@
+/**
+ * Bloblang Builtins
+ *
+ * Runtime values plus the function and method implementations used by the
+ * Bloblang evaluator. Covers every item in the Bloblang reference
+ * (src/bloblang-reference.ts); behaviour follows the reference signatures
+ * and examples.
+ *
+ * Values are plain JSON plus Date (timestamps) and Uint8Array (bytes).
+ * Builtins throw plain Errors; the evaluator attaches source offsets.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  addIso8601,
+  formatGoLayout,
+  formatRfc3339,
+  formatStrftime,
+  parseGoDuration,
+  parseGoLayout,
+  parseStrptime,
+  toTimestamp,
+  withZone,
+} from './bloblang-time';
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/** Assigning this removes the target field (or drops the message at root) */
+export const DELETED = Symbol('deleted');
+
+/** Result of an if without else or a match without a matching case */
+export const NOTHING = Symbol('nothing');
+
+/** A lambda or query argument, called with the value to evaluate against */
+export type BloblangQuery = (value: unknown) => Promise<unknown>;
+
+/**
+ * Per-evaluation state available to functions and methods
+ */
+export interface BloblangRuntime {
+  /** The input document (what this refers to at the top level) */
+  input: unknown;
+  /** Raw message content */
+  content: Uint8Array;
+  metadata: Record<string, unknown>;
+  env: Record<string, string>;
+  now: Date;
+  hostname: string;
+  /** Error message of the input message, if it failed upstream */
+  error: string | null;
+  /** Run a named map (from a map definition) against a value */
+  applyMap(name: string, value: unknown): Promise<unknown>;
+  /** counter() state, keyed by call site offset */
+  counters: Map<number, number>;
+}
+
+type FunctionImpl = (args: unknown[], runtime: BloblangRuntime, site: number) => unknown;
+type MethodImpl = (target: unknown, args: unknown[], runtime: BloblangRuntime) => unknown;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Bloblang type name of a value, as returned by .type()
+ */
+export function typeName(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value === DELETED) return 'delete';
+  if (value === NOTHING) return 'nothing';
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'string') return 'string';
+  if (value instanceof Uint8Array) return 'bytes';
+  if (value instanceof Date) return 'timestamp';
+  if (typeof value === 'function') return 'query';
+  if (Array.isArray(value)) return 'array';
+  return 'object';
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeName(value) === 'object';
+}
+
+/**
+ * Convert a runtime value to plain JSON for output
+ */
+export function toJsonValue(value: unknown): unknown {
+  if (value === undefined || value === DELETED || value === NOTHING) return null;
+  if (value instanceof Date) return formatRfc3339(value);
+  if (value instanceof Uint8Array) return textDecoder.decode(value);
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (isObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = toJsonValue(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+function stableStringify(value: unknown): string {
+  const json = toJsonValue(value);
+  if (Array.isArray(json)) return `[${json.map(stableStringify).join(',')}]`;
+  if (isObject(json)) {
+    const keys = Object.keys(json).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(json[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(json);
+}
+
+/**
+ * Structural equality used by ==, !=, contains, unique and match
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function expectString(value: unknown, context: string): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Uint8Array) return textDecoder.decode(value);
+  throw new Error(`${context} expected string value, got ${typeName(value)}`);
+}
+
+function expectNumber(value: unknown, context: string): number {
+  if (typeof value === 'number') return value;
+  throw new Error(`${context} expected number value, got ${typeName(value)}`);
+}
+
+function expectInteger(value: unknown, context: string): number {
+  const number = expectNumber(value, context);
+  if (!Number.isInteger(number)) {
+    throw new Error(`${context} expected integer value, got ${number}`);
+  }
+  return number;
+}
+
+function expectArray(value: unknown, context: string): unknown[] {
+  if (Array.isArray(value)) return value;
+  throw new Error(`${context} expected array value, got ${typeName(value)}`);
+}
+
+function expectObject(value: unknown, context: string): Record<string, unknown> {
+  if (isObject(value)) return value;
+  throw new Error(`${context} expected object value, got ${typeName(value)}`);
+}
+
+function expectBool(value: unknown, context: string): boolean {
+  if (typeof value === 'boolean') return value;
+  throw new Error(`${context} expected bool value, got ${typeName(value)}`);
+}
+
+function expectQuery(value: unknown, context: string): BloblangQuery {
+  if (typeof value === 'function') return value as BloblangQuery;
+  throw new Error(`${context} expected a query argument (x -> expression)`);
+}
+
+function expectTimestamp(value: unknown, context: string): Date {
+  const timestamp = toTimestamp(value);
+  if (!timestamp) {
+    throw new Error(`${context} expected timestamp value, got ${typeName(value)}`);
+  }
+  return timestamp;
+}
+
+function toBytes(value: unknown, context: string): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (typeof value === 'string') return textEncoder.encode(value);
+  throw new Error(`${context} expected string or bytes value, got ${typeName(value)}`);
+}
+
+/**
+ * Render a value as a string the way .string() does
+ */
+export function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Uint8Array) return textDecoder.decode(value);
+  if (value instanceof Date) return formatRfc3339(value);
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(toJsonValue(value));
+}
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+function splitPath(path: string): string[] {
+  return path === '' ? [] : path.split('.');
+}
+
+function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of splitPath(path)) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)];
+    } else if (isObject(current)) {
+      current = current[segment];
+    } else {
+      return null;
+    }
+    if (current === undefined) return null;
+  }
+  return current;
+}
+
+function hasPath(value: unknown, path: string): boolean {
+  let current = value;
+  for (const segment of splitPath(path)) {
+    if (Array.isArray(current) && /^\d+$/.test(segment) && Number(segment) < current.length) {
+      current = current[Number(segment)];
+    } else if (isObject(current) && segment in current) {
+      current = current[segment];
+    } else {
+      return false;
+    }
+  }
+  return true;
+}
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let current = target;
+  path.forEach((segment, i) => {
+    if (i === path.length - 1) {
+      current[segment] = value;
+      return;
+    }
+    if (!isObject(current[segment])) current[segment] = {};
+    current = current[segment] as Record<string, unknown>;
+  });
+}
+
+function deletePath(target: unknown, path: string[]): void {
+  let current = target;
+  for (const segment of path.slice(0, -1)) {
+    if (!isObject(current)) return;
+    current = current[segment];
+  }
+  if (isObject(current)) delete current[path[path.length - 1]];
+}
+
+export function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) result[key] = clone(item);
+    return result as T;
+  }
+  return value;
+}
+
+// ============================================================================
+// Random Identifiers
+// ============================================================================
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return bytes;
+}
+
+const BASE62 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const CROCKFORD32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const NANOID_ALPHABET = '_-0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+function ksuid(now: Date): string {
+  const bytes = new Uint8Array(20);
+  const timestamp = Math.floor(now.getTime() / 1000) - 1400000000;
+  new DataView(bytes.buffer).setUint32(0, timestamp);
+  bytes.set(randomBytes(16), 4);
+  let number = bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+  let result = '';
+  while (number > 0n) {
+    result = BASE62[Number(number % 62n)] + result;
+    number /= 62n;
+  }
+  return result.padStart(27, '0');
+}
+
+function ulid(now: Date): string {
+  let time = now.getTime();
+  let timePart = '';
+  for (let i = 0; i < 10; i++) {
+    timePart = CROCKFORD32[time % 32] + timePart;
+    time = Math.floor(time / 32);
+  }
+  const random = randomBytes(16);
+  let randomPart = '';
+  for (let i = 0; i < 16; i++) randomPart += CROCKFORD32[random[i] % 32];
+  return timePart + randomPart;
+}
+
+const FAKE_FIRST_NAMES = ['James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'Wei', 'Aisha'];
+const FAKE_LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Chen', 'Okafor'];
+const FAKE_WORDS = ['alpha', 'bravo', 'delta', 'ember', 'harbor', 'lumen', 'orbit', 'quartz', 'river', 'summit'];
+
+function pick<T>(items: T[]): T {
+  return items[randomBytes(1)[0] % items.length];
+}
+
+function randomDigits(count: number): string {
+  return Array.from(randomBytes(count), (b) => String(b % 10)).join('');
+}
+
+const FAKE_GENERATORS: Record<string, () => string> = {
+  email: () => `${pick(FAKE_FIRST_NAMES).toLowerCase()}.${pick(FAKE_LAST_NAMES).toLowerCase()}@example.com`,
+  name: () => `${pick(FAKE_FIRST_NAMES)} ${pick(FAKE_LAST_NAMES)}`,
+  first_name: () => pick(FAKE_FIRST_NAMES),
+  last_name: () => pick(FAKE_LAST_NAMES),
+  username: () => `${pick(FAKE_WORDS)}${randomDigits(3)}`,
+  phone_number: () => `${randomDigits(3)}-${randomDigits(3)}-${randomDigits(4)}`,
+  ipv4: () => Array.from(randomBytes(4)).join('.'),
+  url: () => `https://${pick(FAKE_WORDS)}.example.com/${pick(FAKE_WORDS)}`,
+  word: () => pick(FAKE_WORDS),
+  sentence: () => `${Array.from({ length: 6 }, () => pick(FAKE_WORDS)).join(' ')}.`,
+  uuid_hyphenated: () => crypto.randomUUID(),
+};
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(text: string): Uint8Array {
+  if (text.length % 2 !== 0 || /[^0-9a-fA-F]/.test(text)) {
+    throw new Error('invalid hex string');
+  }
+  const bytes = new Uint8Array(text.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(text.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const normalized = text.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  let binary: string;
+  try {
+    binary = atob(padded);
+  } catch {
+    throw new Error('invalid base64 string');
+  }
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function toAscii85(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 4) {
+    const chunk = bytes.slice(i, i + 4);
+    const padded = new Uint8Array(4);
+    padded.set(chunk);
+    let value = new DataView(padded.buffer).getUint32(0);
+    if (value === 0 && chunk.length === 4) {
+      result += 'z';
+      continue;
+    }
+    let encoded = '';
+    for (let j = 0; j < 5; j++) {
+      encoded = String.fromCharCode((value % 85) + 33) + encoded;
+      value = Math.floor(value / 85);
+    }
+    result += encoded.slice(0, chunk.length + 1);
+  }
+  return result;
+}
+
+function fromAscii85(text: string): Uint8Array {
+  const chars = text.replace(/\s/g, '').replace(/z/g, '!!!!!');
+  const output: number[] = [];
+  for (let i = 0; i < chars.length; i += 5) {
+    const chunk = chars.slice(i, i + 5);
+    const padded = chunk.padEnd(5, 'u');
+    let value = 0;
+    for (const ch of padded) {
+      const digit = ch.charCodeAt(0) - 33;
+      if (digit < 0 || digit > 84) throw new Error('invalid ascii85 string');
+      value = value * 85 + digit;
+    }
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value >>> 0);
+    output.push(...bytes.slice(0, chunk.length - 1));
+  }
+  return Uint8Array.from(output);
+}
+
+function encode(bytes: Uint8Array, scheme: string): string {
+  switch (scheme) {
+    case 'base64': return toBase64(bytes);
+    case 'base64url': return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_');
+    case 'base64rawurl': return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    case 'hex': return toHex(bytes);
+    case 'ascii85': return toAscii85(bytes);
+    default: throw new Error(`unsupported encoding scheme "${scheme}"`);
+  }
+}
+
+function decode(text: string, scheme: string): Uint8Array {
+  switch (scheme) {
+    case 'base64':
+    case 'base64url':
+    case 'base64rawurl': return fromBase64(text);
+    case 'hex': return fromHex(text);
+    case 'ascii85': return fromAscii85(text);
+    default: throw new Error(`unsupported encoding scheme "${scheme}"`);
+  }
+}
+
+type CompressionFormat = 'gzip' | 'deflate' | 'deflate-raw';
+
+const COMPRESSION_FORMATS: Record<string, CompressionFormat> = {
+  gzip: 'gzip',
+  zlib: 'deflate',
+  flate: 'deflate-raw',
+};
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(transform));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function compressionFormat(algorithm: string): CompressionFormat {
+  const format = COMPRESSION_FORMATS[algorithm];
+  if (!format) {
+    throw new Error(`unsupported compression algorithm "${algorithm}" (supported: ${Object.keys(COMPRESSION_FORMATS).join(', ')})`);
+  }
+  return format;
+}
+
+// MD5 is not part of WebCrypto
+function md5(bytes: Uint8Array): Uint8Array {
+  const shifts = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+  const constants = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+  const length = ((bytes.length + 8) >>> 6) * 64 + 64;
+  const padded = new Uint8Array(length);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(length - 8, (bytes.length * 8) >>> 0, true);
+  view.setUint32(length - 4, Math.floor(bytes.length / 0x20000000), true);
+
+  let a0 = 0x67452301, b0 = 0xefcdab89, c0 = 0x98badcfe, d0 = 0x10325476;
+  for (let offset = 0; offset < length; offset += 64) {
+    let a = a0, b = b0, c = c0, d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number, g: number;
+      if (i < 16) { f = (b & c) | (~b & d); g = i; }
+      else if (i < 32) { f = (d & b) | (~d & c); g = (5 * i + 1) % 16; }
+      else if (i < 48) { f = b ^ c ^ d; g = (3 * i + 5) % 16; }
+      else { f = c ^ (b | ~d); g = (7 * i) % 16; }
+      const shift = shifts[(i >> 4) * 4 + (i % 4)];
+      const sum = (a + f + constants[i] + view.getUint32(offset + g * 4, true)) >>> 0;
+      a = d; d = c; c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) >>> 0;
+    }
+    a0 = (a0 + a) >>> 0; b0 = (b0 + b) >>> 0; c0 = (c0 + c) >>> 0; d0 = (d0 + d) >>> 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const out = new DataView(digest.buffer);
+  [a0, b0, c0, d0].forEach((word, i) => out.setUint32(i * 4, word, true));
+  return digest;
+}
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha512: 'SHA-512',
+};
+
+async function hash(bytes: Uint8Array, algorithm: string): Promise<Uint8Array> {
+  if (algorithm === 'md5') return md5(bytes);
+  const digest = DIGEST_ALGORITHMS[algorithm];
+  if (!digest) {
+    throw new Error(`unsupported hash algorithm "${algorithm}" (supported: md5, ${Object.keys(DIGEST_ALGORITHMS).join(', ')})`);
+  }
+  return new Uint8Array(await crypto.subtle.digest(digest, bytes));
+}
+
+async function hmac(bytes: Uint8Array, algorithm: string, key: Uint8Array): Promise<Uint8Array> {
+  const digest = DIGEST_ALGORITHMS[algorithm];
+  if (!digest) {
+    throw new Error(`unsupported HMAC algorithm "${algorithm}" (supported: ${Object.keys(DIGEST_ALGORITHMS).join(', ')})`);
+  }
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: digest }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, bytes));
+}
+
+/**
+ * Run AES in one of the schemes Web Crypto shares with Go: ctr (the IV is
+ * the initial counter block) and gcm (the IV is the nonce, the tag is
+ * appended). Keys and IVs are raw bytes, as in Benthos.
+ */
+async function aes(
+  bytes: Uint8Array,
+  [scheme, key, iv]: unknown[],
+  usage: 'encrypt' | 'decrypt'
+): Promise<Uint8Array> {
+  const context = `${usage}_aes`;
+  const name = expectString(scheme, context);
+  const raw = toBytes(key, context);
+  const vector = toBytes(iv, context);
+  if (![16, 24, 32].includes(raw.length)) {
+    throw new Error('AES key must be 16, 24 or 32 bytes');
+  }
+
+  let params: { name: string; counter?: Uint8Array; length?: number; iv?: Uint8Array };
+  if (name === 'ctr') {
+    if (vector.length !== 16) throw new Error('AES ctr IV must be 16 bytes');
+    params = { name: 'AES-CTR', counter: vector, length: 128 };
+  } else if (name === 'gcm') {
+    params = { name: 'AES-GCM', iv: vector };
+  } else if (name === 'ofb' || name === 'cbc') {
+    throw new Error(`AES scheme "${name}" is not supported by the local evaluator (supported: ctr, gcm)`);
+  } else {
+    throw new Error(`unknown AES scheme "${name}" (expected ctr, gcm, ofb or cbc)`);
+  }
+
+  const cryptoKey = await crypto.subtle.importKey('raw', raw, params.name, false, [usage]);
+  try {
+    return new Uint8Array(await crypto.subtle[usage](params, cryptoKey, bytes));
+  } catch {
+    throw new Error(`failed to ${usage} value`);
+  }
+}
+
+// ============================================================================
+// Parsing Helpers
+// ============================================================================
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new Error(`failed to parse value as JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function parseCsv(text: string, delimiter = ',', headerRow = true): Array<Record<string, string>> | string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  if (!headerRow) return rows;
+  const [header, ...records] = rows;
+  if (!header) return [];
+  return records.map((record, index) => {
+    if (record.length !== header.length) {
+      throw new Error(`record ${index + 1} has ${record.length} fields, expected ${header.length}`);
+    }
+    const result: Record<string, string> = {};
+    header.forEach((name, i) => { result[name] = record[i]; });
+    return result;
+  });
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (whole, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(Number(entity.slice(1)));
+    return XML_ENTITIES[entity] ?? whole;
+  });
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Parse XML into an object: attributes become "-name" keys, text inside
+ * elements with attributes or children becomes "#text", repeated elements
+ * become arrays
+ */
+function parseXml(text: string): Record<string, unknown> {
+  let pos = 0;
+  const source = text
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '');
+
+  const addChild = (target: Record<string, unknown>, name: string, value: unknown) => {
+    if (!(name in target)) target[name] = value;
+    else if (Array.isArray(target[name])) (target[name] as unknown[]).push(value);
+    else target[name] = [target[name], value];
+  };
+
+  const parseElement = (): { name: string; value: unknown } => {
+    const open = /^<([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(source.slice(pos));
+    if (!open) throw new Error(`failed to parse XML at offset ${pos}`);
+    pos += open[0].length;
+
+    const element: Record<string, unknown> = {};
+    for (const attr of open[2].matchAll(/([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      element[`-${attr[1]}`] = decodeXmlEntities(attr[2] ?? attr[3]);
+    }
+    if (open[3] === '/') {
+      return { name: open[1], value: Object.keys(element).length > 0 ? element : '' };
+    }
+
+    let textContent = '';
+    let hasChildren = false;
+    for (;;) {
+      if (pos >= source.length) throw new Error(`unclosed XML element <${open[1]}>`);
+      if (source.startsWith('</', pos)) {
+        const close = /^<\/([^>\s]+)\s*>/.exec(source.slice(pos));
+        if (!close || close[1] !== open[1]) throw new Error(`mismatched closing tag for <${open[1]}>`);
+        pos += close[0].length;
+        break;
+      }
+      if (source.startsWith('<![CDATA[', pos)) {
+        const end = source.indexOf(']]>', pos);
+        textContent += source.slice(pos + 9, end);
+        pos = end + 3;
+        continue;
+      }
+      if (source[pos] === '<') {
+        const child = parseElement();
+        addChild(element, child.name, child.value);
+        hasChildren = true;
+        continue;
+      }
+      const next = source.indexOf('<', pos);
+      textContent += decodeXmlEntities(source.slice(pos, next === -1 ? source.length : next));
+      pos = next === -1 ? source.length : next;
+    }
+
+    const trimmed = textContent.trim();
+    if (!hasChildren && Object.keys(element).length === 0) {
+      return { name: open[1], value: trimmed };
+    }
+    if (trimmed) element['#text'] = trimmed;
+    return { name: open[1], value: element };
+  };
+
+  pos = source.search(/\S/);
+  if (pos === -1) throw new Error('empty XML document');
+  const root = parseElement();
+  return { [root.name]: root.value };
+}
+
+/**
+ * Turn numeric and boolean strings in parsed XML into numbers and bools
+ */
+function castXml(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(castXml);
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, castXml(item)]));
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+function formatXml(value: unknown): string {
+  const render = (name: string, item: unknown): string => {
+    if (Array.isArray(item)) return item.map((entry) => render(name, entry)).join('');
+    if (isObject(item)) {
+      let attributes = '';
+      let children = '';
+      for (const [key, child] of Object.entries(item)) {
+        if (key.startsWith('-')) attributes += ` ${key.slice(1)}="${escapeXml(stringify(child))}"`;
+        else if (key === '#text') children += escapeXml(stringify(child));
+        else children += render(key, child);
+      }
+      return `<${name}${attributes}>${children}</${name}>`;
+    }
+    return `<${name}>${escapeXml(stringify(item))}</${name}>`;
+  };
+
+  const root = expectObject(value, 'format_xml');
+  return Object.entries(root).map(([name, item]) => render(name, item)).join('');
+}
+
+/**
+ * Convert a Go (RE2) pattern to a JavaScript RegExp
+ */
+function compileRegex(pattern: string, global = false): RegExp {
+  let source = pattern;
+  let flags = global ? 'g' : '';
+  const inline = /^\(\?([ims]+)\)/.exec(source);
+  if (inline) {
+    flags += inline[1];
+    source = source.slice(inline[0].length);
+  }
+  source = source.replace(/\(\?P</g, '(?<');
+  try {
+    return new RegExp(source, flags);
+  } catch (err) {
+    throw new Error(`invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function matchObject(match: RegExpMatchArray): Record<string, string> {
+  if (match.groups && Object.keys(match.groups).length > 0) {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(match.groups)) result[name] = value ?? '';
+    return result;
+  }
+  const result: Record<string, string> = {};
+  match.forEach((value, i) => { result[String(i)] = value ?? ''; });
+  return result;
+}
+
+/**
+ * Minimal Go fmt.Sprintf: %s %v %d %f %x %X %q %t %e %g with width/precision
+ */
+function sprintf(format: string, args: unknown[]): string {
+  let index = 0;
+  return format.replace(/%([-+ 0#]*)(\d+)?(?:\.(\d+))?([svdfqxXteg%T])/g, (_whole, flags: string, width, precision, verb: string) => {
+    if (verb === '%') return '%';
+    if (index >= args.length) return `%!${verb}(MISSING)`;
+    const arg = args[index++];
+    let text: string;
+    switch (verb) {
+      case 'd': text = typeof arg === 'number' ? String(Math.trunc(arg)) : `%!d(${typeName(arg)}=${stringify(arg)})`; break;
+      case 'f': text = typeof arg === 'number' ? arg.toFixed(precision !== undefined ? Number(precision) : 6) : `%!f(${typeName(arg)}=${stringify(arg)})`; break;
+      case 'e': text = typeof arg === 'number' ? arg.toExponential(precision !== undefined ? Number(precision) : 6) : stringify(arg); break;
+      case 'g': text = typeof arg === 'number' ? String(arg) : stringify(arg); break;
+      case 'x':
+      case 'X': {
+        const hex = typeof arg === 'number' ? Math.trunc(arg).toString(16) : toHex(toBytes(stringify(arg), 'format'));
+        text = verb === 'X' ? hex.toUpperCase() : hex;
+        break;
+      }
+      case 'q': text = JSON.stringify(stringify(arg)); break;
+      case 't': text = String(arg); break;
+      case 'T': text = typeName(arg); break;
+      default: text = stringify(arg);
+    }
+    if (width !== undefined && text.length < Number(width)) {
+      const fill = flags.includes('0') && !flags.includes('-') ? '0' : ' ';
+      text = flags.includes('-') ? text.padEnd(Number(width), ' ') : text.padStart(Number(width), fill);
+    }
+    return text;
+  });
+}
+
+export function compareValues(a: unknown, b: unknown, context: string): number {
+  if (typeof a === 'number' && typeof b === 'number') return Math.sign(a - b);
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  const ta = toTimestamp(a);
+  const tb = toTimestamp(b);
+  if (a instanceof Date || b instanceof Date) {
+    if (ta && tb) return Math.sign(ta.getTime() - tb.getTime());
+  }
+  throw new Error(`${context} cannot compare ${typeName(a)} with ${typeName(b)}`);
+}
+
+function mergeValues(a: unknown, b: unknown): unknown {
+  if (isObject(a) && isObject(b)) {
+    const result: Record<string, unknown> = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+      result[key] = key in result ? mergeValues(result[key], value) : value;
+    }
+    return result;
+  }
+  if (Array.isArray(a)) return Array.isArray(b) ? [...a, ...b] : [...a, b];
+  if (Array.isArray(b)) return [a, ...b];
+  return [a, b];
+}
+
+function collapse(value: unknown, prefix: string, result: Record<string, unknown>, includeEmpty: boolean): void {
+  if (isObject(value) && Object.keys(value).length > 0) {
+    for (const [key, item] of Object.entries(value)) collapse(item, prefix ? `${prefix}.${key}` : key, result, includeEmpty);
+    return;
+  }
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, i) => collapse(item, prefix ? `${prefix}.${i}` : String(i), result, includeEmpty));
+    return;
+  }
+  // Empty objects and arrays are dropped unless include_empty is set
+  if (!includeEmpty && (isObject(value) || Array.isArray(value))) return;
+  if (prefix) result[prefix] = value;
+}
+
+/**
+ * Merge for .assign(): objects merge key by key, anything else is replaced
+ */
+function assignValues(a: unknown, b: unknown): unknown {
+  if (isObject(a) && isObject(b)) {
+    const result: Record<string, unknown> = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+      result[key] = key in result ? assignValues(result[key], value) : value;
+    }
+    return result;
+  }
+  return b;
+}
+
+/**
+ * Stable merge sort with an async "a sorts before b" test
+ */
+async function sortWith(items: unknown[], before: (a: unknown, b: unknown) => Promise<boolean>): Promise<unknown[]> {
+  if (items.length < 2) return items;
+  const middle = items.length >> 1;
+  const left = await sortWith(items.slice(0, middle), before);
+  const right = await sortWith(items.slice(middle), before);
+  const result: unknown[] = [];
+  while (left.length > 0 && right.length > 0) {
+    result.push((await before(right[0], left[0])) ? right.shift() : left.shift());
+  }
+  return [...result, ...left, ...right];
+}
+
+// Default layout of ts_format: RFC 3339 with nanoseconds
+const DEFAULT_TIMESTAMP_FORMAT = '2006-01-02T15:04:05.999999999Z07:00';
+
+function roundHalfAway(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+function sortedEntries(value: Record<string, unknown>): Array<[string, unknown]> {
+  return Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+function numbersOf(value: unknown, context: string): number[] {
+  return expectArray(value, context).map((item) => expectNumber(item, context));
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+export const FUNCTIONS: Record<string, FunctionImpl> = {
+  // General
+  deleted: () => DELETED,
+  throw: ([reason]) => {
+    throw new Error(expectString(reason, 'throw'));
+  },
+  range: ([start, stop, step = 1]) => {
+    const from = expectInteger(start, 'range');
+    const to = expectInteger(stop, 'range');
+    const by = expectInteger(step, 'range');
+    if (by === 0) throw new Error('range step must not be zero');
+    if ((to - from) / by > 100000) throw new Error('range is too large');
+    const result: number[] = [];
+    for (let i = from; by > 0 ? i < to : i > to; i += by) result.push(i);
+    return result;
+  },
+  counter: ([min = 1, max = Number.MAX_SAFE_INTEGER, set], runtime, site) => {
+    const low = expectInteger(min, 'counter');
+    const high = expectInteger(max, 'counter');
+    const previous = runtime.counters.get(site);
+    let next: number;
+    if (set === DELETED) next = low;
+    else if (set !== undefined && set !== null) next = expectInteger(set, 'counter');
+    else next = previous === undefined || previous >= high ? low : previous + 1;
+    runtime.counters.set(site, next);
+    return next;
+  },
+  uuid_v4: () => crypto.randomUUID(),
+  ksuid: (_args, runtime) => ksuid(runtime.now),
+  nanoid: ([size = 21, alphabet = NANOID_ALPHABET]) => {
+    const length = expectInteger(size, 'nanoid');
+    const chars = [...expectString(alphabet, 'nanoid')];
+    if (chars.length === 0) throw new Error('nanoid alphabet must not be empty');
+    return Array.from(randomBytes(length), (b) => chars[b % chars.length]).join('');
+  },
+  ulid: ([encoding = 'crockford'], runtime) => {
+    if (expectString(encoding, 'ulid') !== 'crockford') {
+      throw new Error(`ulid encoding "${encoding}" is not supported by the local evaluator (supported: crockford)`);
+    }
+    return ulid(runtime.now);
+  },
+  // The seed only matters for reproducing Benthos' sequence, which isn't possible here
+  random_int: ([_seed, min = 0, max = Number.MAX_SAFE_INTEGER]) => {
+    const low = expectInteger(min, 'random_int');
+    const high = expectInteger(max, 'random_int');
+    if (high < low) throw new Error('random_int max must be greater than min');
+    const random = new DataView(randomBytes(8).buffer).getBigUint64(0);
+    return low + Number(random % BigInt(high - low + 1));
+  },
+
+  // Environment
+  env: ([name], runtime) => runtime.env[expectString(name, 'env')] ?? null,
+  file: () => {
+    throw new Error('file() is not available in the local evaluator');
+  },
+  hostname: (_args, runtime) => runtime.hostname,
+  now: (_args, runtime) => new Date(runtime.now.getTime()),
+  timestamp_unix: (_args, runtime) => Math.floor(runtime.now.getTime() / 1000),
+  timestamp_unix_milli: (_args, runtime) => runtime.now.getTime(),
+  timestamp_unix_micro: (_args, runtime) => runtime.now.getTime() * 1000,
+  timestamp_unix_nano: (_args, runtime) => runtime.now.getTime() * 1_000_000,
+
+  // Message
+  content: (_args, runtime) => runtime.content,
+  json: ([path], runtime) => (path === undefined ? runtime.input : getPath(runtime.input, expectString(path, 'json'))),
+  metadata: ([key], runtime) => (key === undefined ? { ...runtime.metadata } : runtime.metadata[expectString(key, 'metadata')] ?? null),
+  meta: ([key], runtime) => (key === undefined ? { ...runtime.metadata } : runtime.metadata[expectString(key, 'meta')] ?? null),
+  error: (_args, runtime) => runtime.error,
+  errored: (_args, runtime) => runtime.error !== null,
+  batch_index: () => 0,
+  batch_size: () => 1,
+
+  // Fake data
+  fake: ([kind]) => {
+    const name = expectString(kind, 'fake');
+    const generator = FAKE_GENERATORS[name];
+    if (!generator) {
+      throw new Error(`unsupported fake type "${name}" (supported: ${Object.keys(FAKE_GENERATORS).join(', ')})`);
+    }
+    return generator();
+  },
+};
+
+// ============================================================================
+// Methods
+// ============================================================================
+
+export const METHODS: Record<string, MethodImpl> = {
+  // String
+  capitalize: (target) => expectString(target, 'capitalize').replace(/(^|[^\p{L}\p{N}'])(\p{L})/gu, (_m, pre: string, ch: string) => pre + ch.toUpperCase()),
+  lowercase: (target) => expectString(target, 'lowercase').toLowerCase(),
+  uppercase: (target) => expectString(target, 'uppercase').toUpperCase(),
+  trim: (target, [cutset]) => {
+    const text = expectString(target, 'trim');
+    if (cutset === undefined) return text.trim();
+    const chars = new Set(expectString(cutset, 'trim'));
+    let start = 0;
+    let end = text.length;
+    while (start < end && chars.has(text[start])) start++;
+    while (end > start && chars.has(text[end - 1])) end--;
+    return text.slice(start, end);
+  },
+  trim_prefix: (target, [prefix]) => {
+    const text = expectString(target, 'trim_prefix');
+    const p = expectString(prefix, 'trim_prefix');
+    return text.startsWith(p) ? text.slice(p.length) : text;
+  },
+  trim_suffix: (target, [suffix]) => {
+    const text = expectString(target, 'trim_suffix');
+    const s = expectString(suffix, 'trim_suffix');
+    return s && text.endsWith(s) ? text.slice(0, -s.length) : text;
+  },
+  split: (target, [delimiter, emptyAsNull = false]) => {
+    const parts = expectString(target, 'split').split(expectString(delimiter, 'split'));
+    return expectBool(emptyAsNull, 'split') ? parts.map((part) => (part === '' ? null : part)) : parts;
+  },
+  replace_all: (target, [from, to]) =>
+    expectString(target, 'replace_all').split(expectString(from, 'replace_all')).join(expectString(to, 'replace_all')),
+  replace_all_many: (target, [pairs]) => {
+    const text = expectString(target, 'replace_all_many');
+    const list = expectArray(pairs, 'replace_all_many').map((item) => expectString(item, 'replace_all_many'));
+    if (list.length % 2 !== 0) throw new Error('replace_all_many expects an even number of old/new values');
+    let result = '';
+    let i = 0;
+    outer: while (i < text.length) {
+      for (let p = 0; p < list.length; p += 2) {
+        if (list[p] && text.startsWith(list[p], i)) {
+          result += list[p + 1];
+          i += list[p].length;
+          continue outer;
+        }
+      }
+      result += text[i++];
+    }
+    return result;
+  },
+  contains: (target, [value]) => {
+    if (Array.isArray(target)) return target.some((item) => valuesEqual(item, value));
+    if (isObject(target)) return Object.values(target).some((item) => valuesEqual(item, value));
+    return expectString(target, 'contains').includes(expectString(value, 'contains'));
+  },
+  has_prefix: (target, [prefix]) => expectString(target, 'has_prefix').startsWith(expectString(prefix, 'has_prefix')),
+  has_suffix: (target, [suffix]) => expectString(target, 'has_suffix').endsWith(expectString(suffix, 'has_suffix')),
+  index_of: (target, [value]) => expectString(target, 'index_of').indexOf(expectString(value, 'index_of')),
+  length: (target) => {
+    if (typeof target === 'string') return [...target].length;
+    if (target instanceof Uint8Array || Array.isArray(target)) return target.length;
+    if (isObject(target)) return Object.keys(target).length;
+    throw new Error(`length expected string, array or object value, got ${typeName(target)}`);
+  },
+  slice: (target, [start, end]) => {
+    const from = expectInteger(start, 'slice');
+    const to = end === undefined ? undefined : expectInteger(end, 'slice');
+    if (Array.isArray(target)) return target.slice(from, to);
+    return expectString(target, 'slice').slice(from, to);
+  },
+  escape_html: (target) =>
+    expectString(target, 'escape_html')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/'/g, '&#39;')
+      .replace(/"/g, '&#34;'),
+  escape_url_query: (target) => encodeURIComponent(expectString(target, 'escape_url_query')),
+  unescape_url_query: (target) => {
+    try {
+      return decodeURIComponent(expectString(target, 'unescape_url_query').replace(/\+/g, ' '));
+    } catch {
+      throw new Error('invalid URL escape sequence');
+    }
+  },
+  format: (target, args) => sprintf(expectString(target, 'format'), args),
+  quote: (target) => JSON.stringify(expectString(target, 'quote')),
+  unquote: (target) => {
+    const text = expectString(target, 'unquote');
+    if (!/^".*"$/s.test(text)) throw new Error('unquote expected a quoted string');
+    return parseJson(text) as string;
+  },
+  reverse: (target) => {
+    if (Array.isArray(target)) return [...target].reverse();
+    return [...expectString(target, 'reverse')].reverse().join('');
+  },
+
+  // Array
+  map_each: async (target, [fn]) => {
+    const query = expectQuery(fn, 'map_each');
+    if (isObject(target)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(target)) {
+        const mapped = await query({ key, value });
+        if (mapped === DELETED) continue;
+        result[key] = mapped === NOTHING ? value : mapped;
+      }
+      return result;
+    }
+    const result: unknown[] = [];
+    for (const item of expectArray(target, 'map_each')) {
+      const mapped = await query(item);
+      if (mapped === DELETED) continue;
+      result.push(mapped === NOTHING ? item : mapped);
+    }
+    return result;
+  },
+  map_each_key: async (target, [fn]) => {
+    const query = expectQuery(fn, 'map_each_key');
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(expectObject(target, 'map_each_key'))) {
+      const mapped = await query(key);
+      if (mapped === DELETED) continue;
+      result[mapped === NOTHING ? key : expectString(mapped, 'map_each_key')] = value;
+    }
+    return result;
+  },
+  filter: async (target, [fn]) => {
+    const query = expectQuery(fn, 'filter');
+    if (isObject(target)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(target)) {
+        if (expectBool(await query({ key, value }), 'filter')) result[key] = value;
+      }
+      return result;
+    }
+    const result: unknown[] = [];
+    for (const item of expectArray(target, 'filter')) {
+      if (expectBool(await query(item), 'filter')) result.push(item);
+    }
+    return result;
+  },
+  fold: async (target, [initial, fn]) => {
+    const query = expectQuery(fn, 'fold');
+    let tally = initial;
+    for (const value of expectArray(target, 'fold')) {
+      tally = await query({ tally, value });
+    }
+    return tally;
+  },
+  flatten: (target) => expectArray(target, 'flatten').flatMap((item) => (Array.isArray(item) ? item : [item])),
+  sort: async (target, [compare]) => {
+    const items = [...expectArray(target, 'sort')];
+    if (compare === undefined) return items.sort((a, b) => compareValues(a, b, 'sort'));
+    const query = expectQuery(compare, 'sort');
+    return sortWith(items, async (left, right) => expectBool(await query({ left, right }), 'sort'));
+  },
+  sort_by: async (target, [fn]) => {
+    const query = expectQuery(fn, 'sort_by');
+    const items = expectArray(target, 'sort_by');
+    const keyed: Array<{ key: unknown; item: unknown }> = [];
+    for (const item of items) keyed.push({ key: await query(item), item });
+    keyed.sort((a, b) => compareValues(a.key, b.key, 'sort_by'));
+    return keyed.map((entry) => entry.item);
+  },
+  unique: async (target, [emit]) => {
+    const query = emit === undefined ? undefined : expectQuery(emit, 'unique');
+    const seen = new Set<string>();
+    const result: unknown[] = [];
+    for (const item of expectArray(target, 'unique')) {
+      const key = stableStringify(query ? await query(item) : item);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.push(item);
+    }
+    return result;
+  },
+  append: (target, items) => [...expectArray(target, 'append'), ...items],
+  concat: (target, others) => {
+    const result = [...expectArray(target, 'concat')];
+    for (const other of others) result.push(...expectArray(other, 'concat'));
+    return result;
+  },
+  all: async (target, [fn]) => {
+    const query = expectQuery(fn, 'all');
+    for (const item of expectArray(target, 'all')) {
+      if (!expectBool(await query(item), 'all')) return false;
+    }
+    return true;
+  },
+  any: async (target, [fn]) => {
+    const query = expectQuery(fn, 'any');
+    for (const item of expectArray(target, 'any')) {
+      if (expectBool(await query(item), 'any')) return true;
+    }
+    return false;
+  },
+  sum: (target) => numbersOf(target, 'sum').reduce((total, n) => total + n, 0),
+  min: (target) => {
+    const numbers = numbersOf(target, 'min');
+    if (numbers.length === 0) throw new Error('min expected a non-empty array');
+    return Math.min(...numbers);
+  },
+  max: (target) => {
+    const numbers = numbersOf(target, 'max');
+    if (numbers.length === 0) throw new Error('max expected a non-empty array');
+    return Math.max(...numbers);
+  },
+  join: (target, [separator = '']) =>
+    expectArray(target, 'join').map((item) => expectString(item, 'join')).join(expectString(separator, 'join')),
+  index: (target, [idx]) => {
+    const i = expectInteger(idx, 'index');
+    const items = expectArray(target, 'index');
+    const position = i < 0 ? items.length + i : i;
+    if (position < 0 || position >= items.length) {
+      throw new Error(`index ${i} is out of bounds for array of length ${items.length}`);
+    }
+    return items[position];
+  },
+  first: (target) => {
+    const items = expectArray(target, 'first');
+    if (items.length === 0) throw new Error('first expected a non-empty array');
+    return items[0];
+  },
+  last: (target) => {
+    const items = expectArray(target, 'last');
+    if (items.length === 0) throw new Error('last expected a non-empty array');
+    return items[items.length - 1];
+  },
+  enumerated: (target) => expectArray(target, 'enumerated').map((item, i) => [i, item]),
+  zip: (target, others) => {
+    const first = expectArray(target, 'zip');
+    const arrays = others.map((other) => expectArray(other, 'zip'));
+    if (arrays.some((array) => array.length !== first.length)) {
+      throw new Error("can't zip arrays of different lengths");
+    }
+    return first.map((item, i) => [item, ...arrays.map((array) => array[i])]);
+  },
+
+  // Object
+  keys: (target) => sortedEntries(expectObject(target, 'keys')).map(([key]) => key),
+  values: (target) => sortedEntries(expectObject(target, 'values')).map(([, value]) => value),
+  get: (target, [path]) => getPath(target, expectString(path, 'get')),
+  merge: (target, [other]) => mergeValues(clone(target), clone(other)),
+  assign: (target, [other]) => assignValues(clone(target), clone(other)),
+  with: (target, paths) => {
+    const source = expectObject(target, 'with');
+    const result: Record<string, unknown> = {};
+    for (const path of paths) {
+      const segments = splitPath(expectString(path, 'with'));
+      if (hasPath(source, segments.join('.'))) setPath(result, segments, clone(getPath(source, segments.join('.'))));
+    }
+    return result;
+  },
+  without: (target, paths) => {
+    const result = clone(expectObject(target, 'without'));
+    for (const path of paths) deletePath(result, splitPath(expectString(path, 'without')));
+    return result;
+  },
+  exists: (target, [path]) => hasPath(target, expectString(path, 'exists')),
+  collapse: (target, [includeEmpty = false]) => {
+    const result: Record<string, unknown> = {};
+    collapse(target, '', result, expectBool(includeEmpty, 'collapse'));
+    return result;
+  },
+  explode: (target, [path]) => {
+    const segments = splitPath(expectString(path, 'explode'));
+    const value = getPath(target, segments.join('.'));
+    // One copy of the document per element, with the element at path
+    const copyWith = (item: unknown) => {
+      if (segments.length === 0) return clone(item);
+      const document = clone(expectObject(target, 'explode'));
+      setPath(document, segments, clone(item));
+      return document;
+    };
+    if (Array.isArray(value)) return value.map(copyWith);
+    if (isObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, copyWith(item)]));
+    }
+    throw new Error(`explode expected array or object value at "${path}", got ${typeName(value)}`);
+  },
+  key_values: (target) => sortedEntries(expectObject(target, 'key_values')).map(([key, value]) => ({ key, value })),
+
+  // Parsing
+  parse_json: (target) => parseJson(expectString(target, 'parse_json')),
+  format_json: (target, [indent = '    ', noIndent = false, escapeHtml = true]) => {
+    const spacing = expectBool(noIndent, 'format_json') ? undefined : expectString(indent, 'format_json');
+    const text = JSON.stringify(toJsonValue(target), null, spacing);
+    // Go's encoder escapes HTML characters by default
+    return expectBool(escapeHtml, 'format_json')
+      ? text.replace(/</g, '\\u003c').replace(/>/g, '\\u003e').replace(/&/g, '\\u0026')
+      : text;
+  },
+  parse_yaml: (target) => {
+    try {
+      return parseYaml(expectString(target, 'parse_yaml')) ?? null;
+    } catch (err) {
+      throw new Error(`failed to parse value as YAML: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  },
+  format_yaml: (target) => stringifyYaml(toJsonValue(target)),
+  parse_xml: (target, [cast = false]) => {
+    const parsed = parseXml(expectString(target, 'parse_xml'));
+    return expectBool(cast, 'parse_xml') ? castXml(parsed) : parsed;
+  },
+  format_xml: (target) => formatXml(target),
+  parse_csv: (target, [headerRow = true, delimiter = ',']) => {
+    const separator = expectString(delimiter, 'parse_csv');
+    if ([...separator].length !== 1) throw new Error('parse_csv delimiter must be a single character');
+    return parseCsv(expectString(target, 'parse_csv'), separator, expectBool(headerRow, 'parse_csv'));
+  },
+  parse_url: (target) => {
+    let url: URL;
+    try {
+      url = new URL(expectString(target, 'parse_url'));
+    } catch {
+      throw new Error('failed to parse value as a URL');
+    }
+    const result: Record<string, unknown> = {
+      scheme: url.protocol.replace(/:$/, ''),
+      host: url.host,
+      path: decodeURIComponent(url.pathname),
+      raw_query: url.search.replace(/^\?/, ''),
+      fragment: decodeURIComponent(url.hash.replace(/^#/, '')),
+    };
+    if (url.username) {
+      result.user = { name: decodeURIComponent(url.username), password: decodeURIComponent(url.password) };
+    }
+    return result;
+  },
+  parse_form_url_encoded: (target) => {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of new URLSearchParams(expectString(target, 'parse_form_url_encoded'))) {
+      if (!(key in result)) result[key] = value;
+      else if (Array.isArray(result[key])) (result[key] as unknown[]).push(value);
+      else result[key] = [result[key], value];
+    }
+    return result;
+  },
+
+  // Type coercion
+  string: (target) => stringify(target),
+  number: (target, [fallback]) => {
+    if (typeof target === 'number') return target;
+    const text = typeof target === 'string' || target instanceof Uint8Array ? expectString(target, 'number').trim() : '';
+    const number = Number(text);
+    if (text === '' || isNaN(number)) {
+      if (fallback !== undefined) return expectNumber(fallback, 'number');
+      throw new Error(typeof target === 'string' ? `failed to parse "${text}" as a number` : `number expected string value, got ${typeName(target)}`);
+    }
+    return number;
+  },
+  bool: (target, [fallback]) => {
+    if (typeof target === 'boolean') return target;
+    if (typeof target === 'number') return target !== 0;
+    const text = typeof target === 'string' || target instanceof Uint8Array ? expectString(target, 'bool') : undefined;
+    if (text !== undefined && ['1', 't', 'T', 'true', 'TRUE', 'True'].includes(text)) return true;
+    if (text !== undefined && ['0', 'f', 'F', 'false', 'FALSE', 'False'].includes(text)) return false;
+    if (fallback !== undefined) return expectBool(fallback, 'bool');
+    throw new Error(text !== undefined ? `failed to parse "${text}" as a bool` : `bool expected string value, got ${typeName(target)}`);
+  },
+  bytes: (target) => (target instanceof Uint8Array ? target : textEncoder.encode(stringify(target))),
+  type: (target) => typeName(target),
+  not_null: (target) => {
+    if (target === null || target === undefined) throw new Error('value is null');
+    return target;
+  },
+  not_empty: (target) => {
+    const empty =
+      (typeof target === 'string' && target === '') ||
+      ((Array.isArray(target) || target instanceof Uint8Array) && target.length === 0) ||
+      (isObject(target) && Object.keys(target).length === 0);
+    if (empty) throw new Error('value is empty');
+    if (target === null || target === undefined) throw new Error('value is null');
+    return target;
+  },
+
+  // Timestamps
+  ts_format: (target, [layout = DEFAULT_TIMESTAMP_FORMAT, tz]) => {
+    const date = expectTimestamp(target, 'ts_format');
+    return formatGoLayout(date, expectString(layout, 'ts_format'), tz === undefined ? undefined : expectString(tz, 'ts_format'));
+  },
+  ts_parse: (target, [layout]) => parseGoLayout(expectString(target, 'ts_parse'), expectString(layout, 'ts_parse')),
+  ts_strftime: (target, [format, tz]) => {
+    const date = expectTimestamp(target, 'ts_strftime');
+    return formatStrftime(date, expectString(format, 'ts_strftime'), tz === undefined ? undefined : expectString(tz, 'ts_strftime'));
+  },
+  ts_strptime: (target, [format]) => parseStrptime(expectString(target, 'ts_strptime'), expectString(format, 'ts_strptime')),
+  ts_unix: (target) => Math.floor(expectTimestamp(target, 'ts_unix').getTime() / 1000),
+  ts_unix_milli: (target) => expectTimestamp(target, 'ts_unix_milli').getTime(),
+  ts_tz: (target, [tz]) => withZone(expectTimestamp(target, 'ts_tz'), expectString(tz, 'ts_tz')),
+  ts_add_iso8601: (target, [duration]) =>
+    addIso8601(expectTimestamp(target, 'ts_add_iso8601'), expectString(duration, 'ts_add_iso8601')),
+  parse_duration: (target) => parseGoDuration(expectString(target, 'parse_duration')),
+  // Deprecated names of the ts_ methods
+  format_timestamp: (target, args, runtime) => METHODS.ts_format(target, args, runtime),
+  format_timestamp_strftime: (target, args, runtime) => METHODS.ts_strftime(target, args, runtime),
+  format_timestamp_unix: (target, args, runtime) => METHODS.ts_unix(target, args, runtime),
+  parse_timestamp: (target, args, runtime) => METHODS.ts_parse(target, args, runtime),
+  parse_timestamp_strptime: (target, args, runtime) => METHODS.ts_strptime(target, args, runtime),
+
+  // Encoding
+  encode: (target, [scheme]) => encode(toBytes(target, 'encode'), expectString(scheme, 'encode')),
+  decode: (target, [scheme]) => decode(expectString(target, 'decode'), expectString(scheme, 'decode')),
+  // The level is ignored: CompressionStream has no level setting
+  compress: (target, [algorithm]) =>
+    pipeBytes(toBytes(target, 'compress'), new CompressionStream(compressionFormat(expectString(algorithm, 'compress')))),
+  decompress: async (target, [algorithm]) => {
+    const bytes = toBytes(target, 'decompress');
+    const format = compressionFormat(expectString(algorithm, 'decompress'));
+    try {
+      return await pipeBytes(bytes, new DecompressionStream(format));
+    } catch (err) {
+      throw new Error(`failed to decompress: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  },
+  // The polynomial only applies to crc32, which isn't supported
+  hash: (target, [algorithm, key]) => {
+    const bytes = toBytes(target, 'hash');
+    const name = expectString(algorithm, 'hash');
+    return key === undefined ? hash(bytes, name) : hmac(bytes, name, toBytes(key, 'hash'));
+  },
+  encrypt_aes: (target, args) => aes(toBytes(target, 'encrypt_aes'), args, 'encrypt'),
+  decrypt_aes: (target, args) => aes(toBytes(target, 'decrypt_aes'), args, 'decrypt'),
+
+  // Regex
+  re_match: (target, [pattern]) => compileRegex(expectString(pattern, 're_match')).test(expectString(target, 're_match')),
+  re_find_all: (target, [pattern]) =>
+    [...expectString(target, 're_find_all').matchAll(compileRegex(expectString(pattern, 're_find_all'), true))].map((m) => m[0]),
+  re_find_object: (target, [pattern]) => {
+    const match = expectString(target, 're_find_object').match(compileRegex(expectString(pattern, 're_find_object')));
+    return match ? matchObject(match) : {};
+  },
+  re_find_all_object: (target, [pattern]) =>
+    [...expectString(target, 're_find_all_object').matchAll(compileRegex(expectString(pattern, 're_find_all_object'), true))]
+      .map(matchObject),
+  re_replace_all: (target, [pattern, replacement]) => {
+    // Go expands $1, ${1}, $name and ${name}
+    const jsReplacement = expectString(replacement, 're_replace_all')
+      .replace(/\$\{(\d+)\}/g, '$$$1')
+      .replace(/\$\{([A-Za-z_]\w*)\}/g, '$$<$1>')
+      .replace(/\$([A-Za-z_]\w*)/g, '$$<$1>');
+    return expectString(target, 're_replace_all').replace(compileRegex(expectString(pattern, 're_replace_all'), true), jsReplacement);
+  },
+
+  // Number
+  abs: (target) => Math.abs(expectNumber(target, 'abs')),
+  ceil: (target) => Math.ceil(expectNumber(target, 'ceil')),
+  floor: (target) => Math.floor(expectNumber(target, 'floor')),
+  round: (target) => roundHalfAway(expectNumber(target, 'round')),
+  log: (target) => Math.log(expectNumber(target, 'log')),
+  log10: (target) => Math.log10(expectNumber(target, 'log10')),
+  compare: (target, [other]) => compareValues(target, other, 'compare'),
+
+  // Maps
+  apply: (target, [name], runtime) => runtime.applyMap(expectString(name, 'apply'), target),
+};
@@ -0,0 +1,195 @@
+/**
+ * Tests for the Bloblang Evaluator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateBloblang } from './bloblang-evaluator';
+import { BLOBLANG_REFERENCE } from './bloblang-reference';
+
+const NOW = new Date('2024-01-15T10:00:00Z');
+
+// Examples whose documented result is random
+const NONDETERMINISTIC = ['uuid_v4', 'nanoid', 'fake'];
+
+/**
+ * Split a reference example into the mapping and its documented result,
+ * if the comment after # is JSON
+ */
+function parseExample(example: string): { mapping: string; expected?: unknown } {
+  const [mapping, comment] = example.split(/\s+#\s+/);
+  if (comment === undefined) return { mapping };
+  try {
+    return { mapping, expected: JSON.parse(comment) };
+  } catch {
+    return { mapping };
+  }
+}
+
+describe('Bloblang Evaluator', () => {
+  describe('reference examples', () => {
+    for (const item of BLOBLANG_REFERENCE) {
+      const { mapping, expected } = parseExample(item.example);
+      if (expected === undefined || NONDETERMINISTIC.includes(item.name)) continue;
+
+      it(`${item.name}: ${mapping}`, async () => {
+        const result = await evaluateBloblang({ mapping, input: {}, now: NOW });
+        expect(result.errors).toEqual([]);
+        // root.x = ... examples document the value of x
+        const field = /^root\.(\w+) =/.exec(mapping)?.[1];
+        const output = field ? (result.output as Record<string, unknown>)[field] : result.output;
+        expect(output).toEqual(expected);
+      });
+    }
+  });
+
+  it('should leave the input unchanged when root is never assigned', async () => {
+    const result = await evaluateBloblang({ mapping: 'meta topic = "events"', input: { a: 1 } });
+    expect(result.output).toEqual({ a: 1 });
+    expect(result.metadata).toEqual({ topic: 'events' });
+  });
+
+  it('should support let, metadata and field deletion', async () => {
+    const mapping = `let total = this.price * this.qty
+root = this
+root.total = $total
+root.secret = deleted()
+root.topic = @kafka_topic`;
+    const result = await evaluateBloblang({
+      mapping,
+      input: { price: 2, qty: 3, secret: 'x' },
+      metadata: { kafka_topic: 'orders' },
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.output).toEqual({ price: 2, qty: 3, total: 6, topic: 'orders' });
+  });
+
+  it('should delete the message when root is deleted', async () => {
+    const result = await evaluateBloblang({
+      mapping: 'root = if this.skip { deleted() } else { this }',
+      input: { skip: true },
+    });
+    expect(result.deleted).toBe(true);
+    expect(result.output).toBeNull();
+  });
+
+  it('should evaluate match with literal and boolean cases', async () => {
+    const mapping = `root.size = match this.n {
+  0 => "none"
+  this < 10 => "small"
+  _ => "large"
+}`;
+    const sizes = await Promise.all(
+      [0, 5, 50].map(async (n) => (await evaluateBloblang({ mapping, input: { n } })).output)
+    );
+    expect(sizes).toEqual([{ size: 'none' }, { size: 'small' }, { size: 'large' }]);
+  });
+
+  it('should skip assignments from if expressions without else', async () => {
+    const result = await evaluateBloblang({
+      mapping: 'root = this\nroot.flag = if this.a > 5 { "big" }',
+      input: { a: 1 },
+    });
+    expect(result.output).toEqual({ a: 1 });
+  });
+
+  it('should apply named maps', async () => {
+    const mapping = `map person {
+  root.full = this.first + " " + this.last
+}
+root.owner = this.owner.apply("person")`;
+    const result = await evaluateBloblang({ mapping, input: { owner: { first: 'Ada', last: 'Lovelace' } } });
+    expect(result.output).toEqual({ owner: { full: 'Ada Lovelace' } });
+  });
+
+  it('should stop maps that apply themselves', async () => {
+    const mapping = `map loop {
+  root.next = this.apply("loop")
+}
+root = this.apply("loop").catch("recovered")`;
+    const result = await evaluateBloblang({ mapping, input: {} });
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message).toContain('more than 64 levels deep');
+    expect(result.output).toBeNull();
+  });
+
+  it('should recover from errors with catch, or and |', async () => {
+    const mapping = `root.a = this.raw.parse_json().catch("invalid")
+root.b = this.missing.or("default")
+root.c = this.raw.number() | 0`;
+    const result = await evaluateBloblang({ mapping, input: { raw: 'not json' } });
+    expect(result.output).toEqual({ a: 'invalid', b: 'default', c: 0 });
+  });
+
+  it('should report runtime errors with offsets in the mapping', async () => {
+    const mapping = 'root.id = this.id\nroot.name = this.name.uppercase()';
+    const result = await evaluateBloblang({ mapping, input: { id: 1, name: 42 } });
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].message).toContain('expected string value, got number');
+    expect(mapping.slice(result.errors[0].start, result.errors[0].end)).toBe('uppercase()');
+  });
+
+  it('should report lint errors without running the mapping', async () => {
+    const mapping = 'root.id = this.id.toUpperCase()';
+    const result = await evaluateBloblang({ mapping, input: { id: 'x' } });
+    expect(result.errors[0].message).toBe('Unknown Bloblang method: .toUpperCase()');
+    expect(mapping.slice(result.errors[0].start, result.errors[0].end)).toBe('toUpperCase');
+  });
+
+  it('should round-trip bytes through encoding and compression', async () => {
+    const mapping = `root.b64 = this.text.encode("base64")
+root.back = this.text.compress("gzip").decompress("gzip").string()
+root.md5 = this.text.hash("md5").encode("hex")`;
+    const result = await evaluateBloblang({ mapping, input: { text: 'hello' } });
+    expect(result.output).toEqual({
+      b64: 'aGVsbG8=',
+      back: 'hello',
+      md5: '5d41402abc4b2a76b9719d911017c592',
+    });
+  });
+
+  it('should format timestamps with Go layouts', async () => {
+    const result = await evaluateBloblang({
+      mapping: 'root = now().ts_format("2006-01-02 15:04")',
+      now: NOW,
+    });
+    expect(result.output).toBe('2024-01-15 10:00');
+  });
+
+  it('should accept the Benthos forms of sort, unique and explode', async () => {
+    const mapping = `root.desc = this.nums.sort(left > right)
+root.first = this.people.unique(p -> p.team).map_each(p -> p.name)
+root.rows = this.explode("tags")`;
+    const result = await evaluateBloblang({
+      mapping,
+      input: {
+        nums: [2, 3, 1],
+        people: [{ name: 'a', team: 'x' }, { name: 'b', team: 'x' }, { name: 'c', team: 'y' }],
+        tags: ['t1', 't2'],
+      },
+    });
+    expect(result.errors).toEqual([]);
+    const output = result.output as Record<string, unknown>;
+    expect(output.desc).toEqual([3, 2, 1]);
+    expect(output.first).toEqual(['a', 'c']);
+    expect(output.rows).toHaveLength(2);
+    expect((output.rows as Array<Record<string, unknown>>).map((row) => row.tags)).toEqual(['t1', 't2']);
+  });
+
+  it('should round-trip AES ctr with an explicit key and IV', async () => {
+    const mapping = `let key = "2b7e151628aed2a6abf7158809cf4f3c".decode("hex")
+let iv = "f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff".decode("hex")
+root = this.text.encrypt_aes("ctr", $key, $iv).decrypt_aes("ctr", $key, $iv).string()`;
+    const result = await evaluateBloblang({ mapping, input: { text: 'hello' } });
+    expect(result.errors).toEqual([]);
+    expect(result.output).toBe('hello');
+  });
+
+  it('should run deprecated timestamp methods as their ts_ replacements', async () => {
+    const result = await evaluateBloblang({
+      mapping: 'root = now().format_timestamp("2006-01-02")',
+      now: NOW,
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.output).toBe('2024-01-15');
+  });
+});
@@ -0,0 +1,550 @@
+/**
+ * Bloblang Evaluator
+ *
+ * Runs a Bloblang mapping against a sample input without an Expanso or
+ * Benthos binary. Mappings are parsed by bloblang-parser, checked by the
+ * linter, then interpreted statement by statement. Execution stops at the
+ * first error, which is reported with its offsets inside the mapping.
+ */
+
+import {
+  DELETED,
+  FUNCTIONS,
+  METHODS,
+  NOTHING,
+  clone,
+  compareValues,
+  isObject,
+  toJsonValue,
+  typeName,
+  valuesEqual,
+  type BloblangQuery,
+  type BloblangRuntime,
+} from './bloblang-builtins';
+import { lintBloblang } from './bloblang-linter';
+import {
+  parseBloblang,
+  type BloblangArgument,
+  type BloblangExpression,
+  type BloblangStatement,
+} from './bloblang-parser';
+import { BLOBLANG_REFERENCE, type BloblangItem } from './bloblang-reference';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BloblangEvalOptions {
+  mapping: string;
+  /** Input document (this); strings are also used as the raw content */
+  input?: unknown;
+  /** Input message metadata */
+  metadata?: Record<string, unknown>;
+  /** Values returned by env() */
+  env?: Record<string, string>;
+  /** Fixed clock for now() and the timestamp functions */
+  now?: Date;
+  /** Starting value of root, e.g. the original message in a branch result_map */
+  root?: unknown;
+  /** Error flagged on the input message, read by error() and errored() */
+  error?: string | null;
+}
+
+export interface BloblangEvalError {
+  message: string;
+  /** 0-based offsets inside the mapping */
+  start: number;
+  end: number;
+}
+
+export interface BloblangEvalResult {
+  /** The output document (null when the message was deleted) */
+  output: unknown;
+  /** True when the mapping deleted the message (root = deleted()) */
+  deleted: boolean;
+  metadata: Record<string, unknown>;
+  errors: BloblangEvalError[];
+}
+
+/** fatal errors (limits) can't be recovered with catch, or and | */
+type LocatedError = Error & { start: number; end: number; fatal?: boolean };
+
+interface EvalRuntime extends BloblangRuntime {
+  /** Expressions evaluated so far, checked against MAX_STEPS */
+  steps: number;
+}
+
+interface Scope {
+  /** What this refers to */
+  context: unknown;
+  /** Names bound by lambdas (x -> ...) */
+  names: Record<string, unknown>;
+  /** $variables declared with let */
+  variables: Record<string, unknown>;
+  /** The document being built (what root refers to); undefined until assigned */
+  output: { value: unknown };
+}
+
+// ============================================================================
+// Reference Lookup
+// ============================================================================
+
+const REFERENCE_FUNCTIONS = new Map<string, BloblangItem>();
+const REFERENCE_METHODS = new Map<string, BloblangItem>();
+for (const item of BLOBLANG_REFERENCE) {
+  (item.type === 'function' ? REFERENCE_FUNCTIONS : REFERENCE_METHODS).set(item.name, item);
+}
+
+// Methods whose target is evaluated lazily so errors can be recovered
+const RECOVERY_METHODS = ['catch', 'or'];
+
+// Limits that stop runaway mappings (e.g. a map applying itself) before
+// they exhaust the worker
+const MAX_APPLY_DEPTH = 64;
+const MAX_STEPS = 1_000_000;
+
+function locate(err: unknown, node: { start: number; end: number }): LocatedError {
+  if (err instanceof Error && 'start' in err) return err as LocatedError;
+  const message = err instanceof Error ? err.message : String(err);
+  const fatal = err instanceof Error && (err as LocatedError).fatal === true;
+  return Object.assign(new Error(message), { start: node.start, end: node.end, fatal });
+}
+
+function fail(message: string, node: { start: number; end: number }): never {
+  throw locate(new Error(message), node);
+}
+
+function failFatal(message: string, node: { start: number; end: number }): never {
+  throw Object.assign(locate(new Error(message), node), { fatal: true });
+}
+
+/**
+ * Rethrow errors that recovery must not swallow
+ */
+function rethrowFatal(err: unknown): void {
+  if (err instanceof Error && (err as LocatedError).fatal) throw err;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Evaluate a mapping against an input document
+ */
+export async function evaluateBloblang(options: BloblangEvalOptions): Promise<BloblangEvalResult> {
+  const metadata: Record<string, unknown> = { ...(options.metadata ?? {}) };
+  const input = options.input === undefined ? null : options.input;
+  const result = (errors: BloblangEvalError[], output: unknown = null, deleted = false): BloblangEvalResult => ({
+    output: deleted ? null : toJsonValue(output),
+    deleted,
+    metadata: toJsonValue(metadata) as Record<string, unknown>,
+    errors,
+  });
+
+  const diagnostics = lintBloblang(options.mapping, {
+    functions: Object.keys(FUNCTIONS),
+    methods: Object.keys(METHODS),
+  });
+  if (diagnostics.length > 0) {
+    return result(diagnostics.map(({ message, start, end }) => ({ message, start, end })));
+  }
+
+  const { statements } = parseBloblang(options.mapping);
+  const maps = new Map<string, BloblangStatement[]>();
+  for (const statement of statements) {
+    if (statement.kind === 'map') maps.set(statement.name, statement.body);
+  }
+
+  let depth = 0;
+  const runtime: EvalRuntime = {
+    input,
+    content: new TextEncoder().encode(typeof input === 'string' ? input : JSON.stringify(input)),
+    metadata,
+    env: options.env ?? {},
+    now: options.now ?? new Date(),
+    hostname: 'localhost',
+    error: options.error ?? null,
+    counters: new Map(),
+    steps: 0,
+    applyMap: async (name, value) => {
+      const body = maps.get(name);
+      if (!body) throw new Error(`map "${name}" was not found`);
+      if (depth >= MAX_APPLY_DEPTH) {
+        throw Object.assign(new Error(`maps were applied more than ${MAX_APPLY_DEPTH} levels deep (recursive map "${name}"?)`), { fatal: true });
+      }
+      const scope: Scope = { context: value, names: {}, variables: {}, output: { value: undefined } };
+      depth++;
+      try {
+        await executeStatements(body, scope, runtime);
+      } finally {
+        depth--;
+      }
+      return scope.output.value === undefined ? null : scope.output.value;
+    },
+  };
+
+  const scope: Scope = { context: input, names: {}, variables: {}, output: { value: clone(options.root) } };
+  try {
+    await executeStatements(statements, scope, runtime);
+  } catch (err) {
+    const located = locate(err, { start: 0, end: options.mapping.length });
+    return result([{ message: located.message, start: located.start, end: located.end }]);
+  }
+
+  if (scope.output.value === DELETED) return result([], null, true);
+  // A mapping that never assigns root leaves the document unchanged
+  return result([], scope.output.value === undefined ? input : scope.output.value);
+}
+
+async function executeStatements(statements: BloblangStatement[], scope: Scope, runtime: EvalRuntime): Promise<void> {
+  for (const statement of statements) {
+    // Nothing can be assigned to a deleted message
+    if (scope.output.value === DELETED) return;
+
+    switch (statement.kind) {
+      case 'map':
+        break;
+
+      case 'import':
+        fail('import is not supported by the local evaluator', statement);
+
+      case 'let': {
+        const value = await evaluate(statement.value, scope, runtime);
+        if (value === DELETED) delete scope.variables[statement.name];
+        else if (value !== NOTHING) scope.variables[statement.name] = value;
+        break;
+      }
+
+      case 'if': {
+        let body = statement.otherwise;
+        for (const branch of statement.branches) {
+          if (await evaluateCondition(branch.condition, scope, runtime)) {
+            body = branch.body;
+            break;
+          }
+        }
+        if (body) await executeStatements(body, scope, runtime);
+        break;
+      }
+
+      case 'expression':
+        assignRoot(scope, [], await evaluate(statement.expression, scope, runtime));
+        break;
+
+      case 'assignment': {
+        const value = await evaluate(statement.value, scope, runtime);
+        if (statement.target.type === 'root') {
+          assignRoot(scope, statement.target.path, value);
+        } else {
+          assignMeta(runtime.metadata, statement.target.key, value, statement);
+        }
+        break;
+      }
+    }
+  }
+}
+
+function assignRoot(scope: Scope, path: string[], value: unknown): void {
+  if (value === NOTHING) return;
+
+  if (path.length === 0) {
+    scope.output.value = value === DELETED ? DELETED : clone(value);
+    return;
+  }
+
+  if (!isObject(scope.output.value)) scope.output.value = {};
+  let current = scope.output.value as Record<string, unknown>;
+  for (const segment of path.slice(0, -1)) {
+    if (!isObject(current[segment])) {
+      if (value === DELETED) return;
+      current[segment] = {};
+    }
+    current = current[segment] as Record<string, unknown>;
+  }
+
+  const key = path[path.length - 1];
+  if (value === DELETED) delete current[key];
+  else current[key] = clone(value);
+}
+
+function assignMeta(
+  metadata: Record<string, unknown>,
+  key: string | undefined,
+  value: unknown,
+  node: { start: number; end: number }
+): void {
+  if (value === NOTHING) return;
+
+  if (key !== undefined) {
+    if (value === DELETED) delete metadata[key];
+    else metadata[key] = clone(value);
+    return;
+  }
+
+  // meta = {...} replaces all metadata, meta = deleted() clears it
+  if (value !== DELETED && !isObject(value)) {
+    fail(`meta assignment expected an object, got ${typeName(value)}`, node);
+  }
+  for (const existing of Object.keys(metadata)) delete metadata[existing];
+  if (value !== DELETED) Object.assign(metadata, clone(value));
+}
+
+async function evaluateCondition(expr: BloblangExpression, scope: Scope, runtime: EvalRuntime): Promise<boolean> {
+  const value = await evaluate(expr, scope, runtime);
+  if (typeof value !== 'boolean') {
+    fail(`expected bool value in condition, got ${typeName(value)}`, expr);
+  }
+  return value;
+}
+
+async function evaluate(expr: BloblangExpression, scope: Scope, runtime: EvalRuntime): Promise<unknown> {
+  if (++runtime.steps > MAX_STEPS) {
+    failFatal(`mapping exceeded the evaluation limit of ${MAX_STEPS} steps`, expr);
+  }
+
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+
+    case 'array': {
+      const items: unknown[] = [];
+      for (const item of expr.items) {
+        const value = await evaluate(item, scope, runtime);
+        if (value !== DELETED && value !== NOTHING) items.push(value);
+      }
+      return items;
+    }
+
+    case 'object': {
+      const object: Record<string, unknown> = {};
+      for (const entry of expr.entries) {
+        const key = await evaluate(entry.key, scope, runtime);
+        if (typeof key !== 'string') {
+          fail(`object keys must be strings, got ${typeName(key)}`, entry.key);
+        }
+        const value = await evaluate(entry.value, scope, runtime);
+        if (value !== DELETED && value !== NOTHING) object[key] = value;
+      }
+      return object;
+    }
+
+    case 'this':
+      return scope.context;
+
+    case 'root':
+      return scope.output.value === undefined || scope.output.value === DELETED ? null : scope.output.value;
+
+    case 'variable':
+      if (!(expr.name in scope.variables)) fail(`variable "${expr.name}" is undefined`, expr);
+      return scope.variables[expr.name];
+
+    case 'metadata':
+      return expr.name === '' ? { ...runtime.metadata } : runtime.metadata[expr.name] ?? null;
+
+    case 'field': {
+      if (expr.target === null && expr.name in scope.names) return scope.names[expr.name];
+      const target = expr.target === null ? scope.context : await evaluate(expr.target, scope, runtime);
+      if (Array.isArray(target) && /^\d+$/.test(expr.name)) return target[Number(expr.name)] ?? null;
+      if (isObject(target)) return target[expr.name] ?? null;
+      return null;
+    }
+
+    case 'call': {
+      const impl = FUNCTIONS[expr.name];
+      if (!impl) fail(`function ${expr.name}() is not supported by the local evaluator`, expr);
+      const args = await evaluateArguments(REFERENCE_FUNCTIONS.get(expr.name), expr.args, scope, runtime);
+      try {
+        return await impl(args, runtime, expr.start);
+      } catch (err) {
+        throw locate(err, expr);
+      }
+    }
+
+    case 'method':
+      return evaluateMethod(expr, scope, runtime);
+
+    case 'context': {
+      const target = await evaluate(expr.target, scope, runtime);
+      return toQuery(expr.body, scope, runtime)(target);
+    }
+
+    case 'lambda':
+      fail('unexpected lambda: only methods that take a query accept x -> expression', expr);
+
+    case 'unary': {
+      const operand = await evaluate(expr.operand, scope, runtime);
+      if (expr.op === '!') {
+        if (typeof operand !== 'boolean') fail(`cannot negate ${typeName(operand)} value`, expr);
+        return !operand;
+      }
+      if (typeof operand !== 'number') fail(`cannot negate ${typeName(operand)} value`, expr);
+      return -operand;
+    }
+
+    case 'binary':
+      return evaluateBinary(expr, scope, runtime);
+
+    case 'if': {
+      for (const branch of expr.branches) {
+        if (await evaluateCondition(branch.condition, scope, runtime)) {
+          return evaluate(branch.body, scope, runtime);
+        }
+      }
+      return expr.otherwise ? evaluate(expr.otherwise, scope, runtime) : NOTHING;
+    }
+
+    case 'match': {
+      const subject = expr.subject ? await evaluate(expr.subject, scope, runtime) : scope.context;
+      const caseScope: Scope = { ...scope, context: subject };
+      for (const matchCase of expr.cases) {
+        if (matchCase.pattern === null) return evaluate(matchCase.body, caseScope, runtime);
+        // Literal patterns are compared with the subject, anything else must be a bool query
+        const isLiteral = ['literal', 'array', 'object'].includes(matchCase.pattern.kind);
+        const pattern = await evaluate(matchCase.pattern, caseScope, runtime);
+        if (isLiteral ? valuesEqual(pattern, subject) : pattern === true) {
+          return evaluate(matchCase.body, caseScope, runtime);
+        }
+        if (!isLiteral && typeof pattern !== 'boolean') {
+          fail(`match case expected bool value, got ${typeName(pattern)}`, matchCase.pattern);
+        }
+      }
+      return NOTHING;
+    }
+  }
+}
+
+async function evaluateMethod(
+  expr: Extract<BloblangExpression, { kind: 'method' }>,
+  scope: Scope,
+  runtime: EvalRuntime
+): Promise<unknown> {
+  if (RECOVERY_METHODS.includes(expr.name)) {
+    let target: unknown;
+    try {
+      target = await evaluate(expr.target, scope, runtime);
+    } catch (err) {
+      rethrowFatal(err);
+      return evaluate(expr.args[0].value, scope, runtime);
+    }
+    if (expr.name === 'or' && (target === null || target === undefined)) {
+      return evaluate(expr.args[0].value, scope, runtime);
+    }
+    return target;
+  }
+
+  const impl = METHODS[expr.name];
+  if (!impl) fail(`method .${expr.name}() is not supported by the local evaluator`, expr);
+
+  const target = await evaluate(expr.target, scope, runtime);
+  const args = await evaluateArguments(REFERENCE_METHODS.get(expr.name), expr.args, scope, runtime);
+  try {
+    return await impl(target, args, runtime);
+  } catch (err) {
+    throw locate(err, { start: expr.nameStart, end: expr.end });
+  }
+}
+
+/**
+ * Evaluate call arguments in parameter order. Named arguments are placed
+ * by the reference parameter list; lambda parameters become queries.
+ */
+async function evaluateArguments(
+  item: BloblangItem | undefined,
+  args: BloblangArgument[],
+  scope: Scope,
+  runtime: EvalRuntime
+): Promise<unknown[]> {
+  const params = item?.parameters ?? [];
+  const ordered: Array<BloblangArgument | undefined> = args.some((arg) => arg.name !== undefined)
+    ? params.map((param) => args.find((arg) => arg.name === param.name))
+    : args;
+
+  const values: unknown[] = [];
+  for (const [i, arg] of ordered.entries()) {
+    if (!arg) {
+      values.push(undefined);
+      continue;
+    }
+    values.push(params[i]?.type === 'lambda' ? toQuery(arg.value, scope, runtime) : await evaluate(arg.value, scope, runtime));
+  }
+  return values;
+}
+
+/**
+ * x -> body binds x; any other expression runs with the value as this
+ */
+function toQuery(expr: BloblangExpression, scope: Scope, runtime: EvalRuntime): BloblangQuery {
+  if (expr.kind === 'lambda') {
+    return (value) => evaluate(expr.body, { ...scope, names: { ...scope.names, [expr.param]: value } }, runtime);
+  }
+  return (value) => evaluate(expr, { ...scope, context: value }, runtime);
+}
+
+async function evaluateBinary(
+  expr: Extract<BloblangExpression, { kind: 'binary' }>,
+  scope: Scope,
+  runtime: EvalRuntime
+): Promise<unknown> {
+  // Coalesce: fall back to the right side when the left errors or is null
+  if (expr.op === '|') {
+    try {
+      const left = await evaluate(expr.left, scope, runtime);
+      if (left !== null && left !== undefined) return left;
+    } catch (err) {
+      rethrowFatal(err);
+      // fall through to the right side
+    }
+    return evaluate(expr.right, scope, runtime);
+  }
+
+  if (expr.op === '&&' || expr.op === '||') {
+    const left = await evaluateCondition(expr.left, scope, runtime);
+    if (expr.op === '&&' ? !left : left) return left;
+    return evaluateCondition(expr.right, scope, runtime);
+  }
+
+  const left = await evaluate(expr.left, scope, runtime);
+  const right = await evaluate(expr.right, scope, runtime);
+
+  switch (expr.op) {
+    case '==':
+      return valuesEqual(left, right);
+    case '!=':
+      return !valuesEqual(left, right);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      let order: number;
+      try {
+        order = compareValues(left, right, expr.op);
+      } catch (err) {
+        throw locate(err, expr);
+      }
+      return expr.op === '<' ? order < 0 : expr.op === '<=' ? order <= 0 : expr.op === '>' ? order > 0 : order >= 0;
+    }
+    case '+':
+      if (typeof left === 'number' && typeof right === 'number') return left + right;
+      if (typeof left === 'string' && typeof right === 'string') return left + right;
+      return fail(`cannot add ${typeName(left)} and ${typeName(right)}`, expr);
+  }
+
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    fail(`cannot apply ${expr.op} to ${typeName(left)} and ${typeName(right)}`, expr);
+  }
+  switch (expr.op) {
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      if (right === 0) fail('attempted to divide by zero', expr);
+      return left / right;
+    case '%':
+      if (right === 0) fail('attempted to divide by zero', expr);
+      return Math.trunc(left) % Math.trunc(right);
+    default:
+      return fail(`unsupported operator ${expr.op}`, expr);
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Tests for the Bloblang Linter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lintBloblang } from './bloblang-linter';
+
+describe('Bloblang Linter', () => {
+  it('should accept a valid mapping', () => {
+    const mapping = `root = this
+root.id = uuid_v4()
+root.name = this.name.trim().uppercase()
+root.parts = this.path.split("/")
+root.when = now()`;
+    expect(lintBloblang(mapping)).toEqual([]);
+  });
+
+  it('should report unknown methods with exact offsets', () => {
+    const mapping = 'root.data = this.payload.parseJson()';
+    const [diagnostic] = lintBloblang(mapping);
+    expect(diagnostic.code).toBe('unknown_method');
+    expect(diagnostic.name).toBe('parseJson');
+    expect(mapping.slice(diagnostic.start, diagnostic.end)).toBe('parseJson');
+  });
+
+  it('should report unknown functions', () => {
+    const mapping = 'root.id = generate_uuid()';
+    const [diagnostic] = lintBloblang(mapping);
+    expect(diagnostic.code).toBe('unknown_function');
+    expect(mapping.slice(diagnostic.start, diagnostic.end)).toBe('generate_uuid');
+  });
+
+  it('should find unknown methods inside lambdas, let and match', () => {
+    const mapping = `let n = this.name.toUpperCase()
+root.tags = this.tags.map_each(t -> t.toLower())
+root.kind = match this.type {
+  "a" => this.fooBar()
+  _ => "other"
+}`;
+    const names = lintBloblang(mapping).map((d) => d.name);
+    expect(names).toEqual(['toUpperCase', 'toLower', 'fooBar']);
+  });
+
+  it('should not flag method names inside strings', () => {
+    expect(lintBloblang('root.hint = "call .parseJson() first"')).toEqual([]);
+  });
+
+  it('should accept extra names from options', () => {
+    const mapping = 'root = this.custom_method()';
+    expect(lintBloblang(mapping)).toHaveLength(1);
+    expect(lintBloblang(mapping, { methods: ['custom_method'] })).toEqual([]);
+  });
+
+  describe('arity', () => {
+    it('should report missing required arguments', () => {
+      const [diagnostic] = lintBloblang('root = this.text.replace_all("a")');
+      expect(diagnostic.code).toBe('missing_argument');
+      expect(diagnostic.message).toContain('"new"');
+    });
+
+    it('should report too many arguments', () => {
+      const mapping = 'root = this.name.uppercase("x")';
+      const [diagnostic] = lintBloblang(mapping);
+      expect(diagnostic.code).toBe('too_many_arguments');
+      expect(mapping.slice(diagnostic.start, diagnostic.end)).toBe('"x"');
+    });
+
+    it('should allow optional and variadic parameters', () => {
+      expect(lintBloblang('root = range(0, 10)')).toEqual([]);
+      expect(lintBloblang('root = range(0, 10, 2)')).toEqual([]);
+      expect(lintBloblang('root = this.without("a", "b", "c")')).toEqual([]);
+    });
+
+    it('should check named parameters', () => {
+      const mapping = 'root = range(start: 0, stpo: 5)';
+      const diagnostics = lintBloblang(mapping);
+      const unknown = diagnostics.find((d) => d.code === 'unknown_parameter');
+      expect(mapping.slice(unknown!.start, unknown!.end)).toBe('stpo');
+      expect(diagnostics.find((d) => d.code === 'missing_argument')?.message).toContain('"stop"');
+    });
+
+    it('should accept the optional parameters Benthos allows', () => {
+      const mapping = `root.rows = this.events.explode("tags")
+root.ok = this.flag.bool(false)
+root.n = this.count.number(0)
+root.parts = this.path.split(",", true)
+root.merged = this.a.assign({"b": 1})
+root.sorted = this.items.sort(left > right)
+root.text = this.doc.format_json()`;
+      expect(lintBloblang(mapping)).toEqual([]);
+    });
+
+    it('should reject mixed named and positional arguments', () => {
+      expect(lintBloblang('root = range(0, stop: 5)')[0].code).toBe('mixed_arguments');
+    });
+  });
+
+  it('should report syntax errors', () => {
+    const [diagnostic] = lintBloblang('root = this.foo(');
+    expect(diagnostic.code).toBe('syntax');
+    expect(diagnostic.message).toContain('Syntax error');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Bloblang Linter
+ *
+ * Checks a parsed Bloblang mapping against the function and method reference:
+ * unknown names, argument counts and named parameters. Every diagnostic
+ * carries the character offsets of the offending token inside the mapping.
+ */
+
+import { parseBloblang, walkBloblang, type BloblangArgument } from './bloblang-parser';
+import { BLOBLANG_REFERENCE, type BloblangItem } from './bloblang-reference';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BloblangDiagnosticCode =
+  | 'syntax'
+  | 'unknown_function'
+  | 'unknown_method'
+  | 'too_many_arguments'
+  | 'missing_argument'
+  | 'unknown_parameter'
+  | 'mixed_arguments';
+
+export interface BloblangDiagnostic {
+  code: BloblangDiagnosticCode;
+  message: string;
+  suggestion?: string;
+  /** Function or method name the diagnostic is about */
+  name?: string;
+  /** 0-based offsets inside the mapping */
+  start: number;
+  end: number;
+}
+
+export interface BloblangLintOptions {
+  /** Names accepted as functions in addition to the reference */
+  functions?: Iterable<string>;
+  /** Names accepted as methods in addition to the reference */
+  methods?: Iterable<string>;
+}
+
+// ============================================================================
+// Reference Lookup
+// ============================================================================
+
+const REFERENCE_FUNCTIONS = new Map<string, BloblangItem>();
+const REFERENCE_METHODS = new Map<string, BloblangItem>();
+for (const item of BLOBLANG_REFERENCE) {
+  (item.type === 'function' ? REFERENCE_FUNCTIONS : REFERENCE_METHODS).set(item.name, item);
+}
+
+// ============================================================================
+// Linting
+// ============================================================================
+
+/**
+ * Parse and lint a mapping. Syntax errors are reported first; name and
+ * arity checks still run on whatever parsed successfully.
+ */
+export function lintBloblang(source: string, options: BloblangLintOptions = {}): BloblangDiagnostic[] {
+  const parsed = parseBloblang(source);
+  const diagnostics: BloblangDiagnostic[] = parsed.errors.map((error) => ({
+    code: 'syntax',
+    message: `Syntax error: ${error.message}`,
+    start: error.start,
+    end: error.end,
+  }));
+
+  const functions = new Set([...REFERENCE_FUNCTIONS.keys(), ...(options.functions ?? [])]);
+  const methods = new Set([...REFERENCE_METHODS.keys(), ...(options.methods ?? [])]);
+
+  walkBloblang(parsed.statements, (expr) => {
+    if (expr.kind === 'call') {
+      if (!functions.has(expr.name)) {
+        diagnostics.push({
+          code: 'unknown_function',
+          message: `Unknown Bloblang function: ${expr.name}()`,
+          suggestion: 'Check Bloblang documentation for valid function names',
+          name: expr.name,
+          start: expr.nameStart,
+          end: expr.nameEnd,
+        });
+        return;
+      }
+      const item = REFERENCE_FUNCTIONS.get(expr.name);
+      if (item) {
+        checkArguments(item, `${expr.name}()`, expr.args, expr, diagnostics);
+      }
+    }
+
+    if (expr.kind === 'method') {
+      if (!methods.has(expr.name)) {
+        diagnostics.push({
+          code: 'unknown_method',
+          message: `Unknown Bloblang method: .${expr.name}()`,
+          suggestion: 'Check Bloblang documentation for valid method names',
+          name: expr.name,
+          start: expr.nameStart,
+          end: expr.nameEnd,
+        });
+        return;
+      }
+      const item = REFERENCE_METHODS.get(expr.name);
+      if (item) {
+        checkArguments(item, `.${expr.name}()`, expr.args, expr, diagnostics);
+      }
+    }
+  });
+
+  return diagnostics.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Check a call's arguments against the reference parameters
+ */
+function checkArguments(
+  item: BloblangItem,
+  label: string,
+  args: BloblangArgument[],
+  call: { nameStart: number; nameEnd: number; end: number },
+  diagnostics: BloblangDiagnostic[]
+): void {
+  const params = item.parameters ?? [];
+  const variadic = params.some((param) => item.signature.includes(`...${param.name}`));
+  const named = args.filter((arg) => arg.name !== undefined);
+  const positional = args.filter((arg) => arg.name === undefined);
+  const base = { name: item.name, suggestion: `Signature: ${item.signature}` };
+
+  if (named.length > 0 && positional.length > 0) {
+    diagnostics.push({
+      ...base,
+      code: 'mixed_arguments',
+      message: `${label} cannot mix named and positional arguments`,
+      start: args[0].start,
+      end: args[args.length - 1].end,
+    });
+    return;
+  }
+
+  if (named.length > 0) {
+    const paramNames = params.map((param) => param.name);
+    for (const arg of named) {
+      if (!paramNames.includes(arg.name as string)) {
+        diagnostics.push({
+          ...base,
+          code: 'unknown_parameter',
+          message: `Unknown parameter "${arg.name}" for ${label}`,
+          suggestion: paramNames.length > 0
+            ? `Valid parameters: ${paramNames.join(', ')}`
+            : `${label} takes no arguments`,
+          start: arg.start,
+          end: arg.start + (arg.name as string).length,
+        });
+      }
+    }
+    for (const param of params) {
+      if (!param.optional && !named.some((arg) => arg.name === param.name)) {
+        diagnostics.push({
+          ...base,
+          code: 'missing_argument',
+          message: `Missing required argument "${param.name}" for ${label}`,
+          start: call.nameStart,
+          end: call.end,
+        });
+      }
+    }
+    return;
+  }
+
+  if (!variadic && positional.length > params.length) {
+    const extra = positional[params.length];
+    diagnostics.push({
+      ...base,
+      code: 'too_many_arguments',
+      message: params.length === 0
+        ? `${label} takes no arguments but got ${positional.length}`
+        : `${label} takes at most ${params.length} argument${params.length === 1 ? '' : 's'} but got ${positional.length}`,
+      start: extra.start,
+      end: positional[positional.length - 1].end,
+    });
+  }
+
+  const required = params.filter((param) => !param.optional);
+  if (positional.length < required.length) {
+    const missing = required.slice(positional.length).map((param) => `"${param.name}"`);
+    diagnostics.push({
+      ...base,
+      code: 'missing_argument',
+      message: `Missing required argument${missing.length === 1 ? '' : 's'} ${missing.join(', ')} for ${label}`,
+      start: call.nameStart,
+      end: call.end,
+    });
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Tests for the Bloblang Parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { tokenizeBloblang, parseBloblang, walkBloblang, type BloblangExpression } from './bloblang-parser';
+
+function collectCalls(source: string): string[] {
+  const names: string[] = [];
+  walkBloblang(parseBloblang(source).statements, (expr) => {
+    if (expr.kind === 'call') names.push(`${expr.name}()`);
+    if (expr.kind === 'method') names.push(`.${expr.name}()`);
+  });
+  return names;
+}
+
+describe('Bloblang Parser', () => {
+  describe('tokenizeBloblang', () => {
+    it('should produce identifiers, punctuation and strings with offsets', () => {
+      const { tokens, errors } = tokenizeBloblang('root.id = "a\\"b"');
+      expect(errors).toEqual([]);
+      expect(tokens.map((t) => t.value)).toEqual(['root', '.', 'id', '=', 'a"b', '']);
+      expect(tokens[4]).toMatchObject({ type: 'string', start: 10, end: 16 });
+    });
+
+    it('should skip comments but keep newlines', () => {
+      const { tokens } = tokenizeBloblang('root = this # copy\nroot.a = 1');
+      expect(tokens.filter((t) => t.type === 'newline')).toHaveLength(1);
+      expect(tokens.some((t) => t.value.includes('copy'))).toBe(false);
+    });
+
+    it('should read numeric path segments without fractions', () => {
+      const { tokens } = tokenizeBloblang('this.items.0.name');
+      expect(tokens.map((t) => t.value)).toEqual(['this', '.', 'items', '.', '0', '.', 'name', '']);
+    });
+
+    it('should report unterminated strings', () => {
+      expect(tokenizeBloblang('root = "oops').errors[0].message).toContain('Unterminated');
+    });
+  });
+
+  describe('parseBloblang', () => {
+    it('should parse assignments, let and meta statements', () => {
+      const { statements, errors } = parseBloblang('let id = uuid_v4()\nmeta key = $id\nroot.user."full name" = this.name');
+      expect(errors).toEqual([]);
+      expect(statements.map((s) => s.kind)).toEqual(['let', 'assignment', 'assignment']);
+      expect(statements[1]).toMatchObject({ target: { type: 'meta', key: 'key' } });
+      expect(statements[2]).toMatchObject({ target: { type: 'root', path: ['user', 'full name'] } });
+    });
+
+    it('should parse method chains across lines', () => {
+      const { statements, errors } = parseBloblang('root = this.name\n  .trim()\n  .uppercase()');
+      expect(errors).toEqual([]);
+      const value = (statements[0] as { value: BloblangExpression }).value;
+      expect(value).toMatchObject({ kind: 'method', name: 'uppercase', target: { kind: 'method', name: 'trim' } });
+    });
+
+    it('should respect operator precedence', () => {
+      const { statements } = parseBloblang('root = 1 + 2 * 3 == 7 && this.ok');
+      const value = (statements[0] as { value: BloblangExpression }).value;
+      expect(value).toMatchObject({
+        kind: 'binary',
+        op: '&&',
+        left: { kind: 'binary', op: '==', left: { kind: 'binary', op: '+' } },
+      });
+    });
+
+    it('should find calls inside lambdas, match cases and if expressions', () => {
+      const calls = collectCalls(`root.tags = this.tags.map_each(t -> t.lowercase())
+root.kind = match this.type {
+  "a" => now()
+  _ => deleted()
+}
+root.size = if this.items.length() > 5 { "big" } else { "small" }`);
+      expect(calls).toEqual(
+        expect.arrayContaining(['.map_each()', '.lowercase()', 'now()', 'deleted()', '.length()'])
+      );
+    });
+
+    it('should not treat text inside string literals as calls', () => {
+      expect(collectCalls('root.msg = "use .fakeMethod() here"')).toEqual([]);
+    });
+
+    it('should parse named arguments', () => {
+      const { statements } = parseBloblang('root = range(start: 0, stop: 5)');
+      const value = (statements[0] as { value: BloblangExpression }).value;
+      expect(value).toMatchObject({ kind: 'call', args: [{ name: 'start' }, { name: 'stop' }] });
+    });
+
+    it('should parse map definitions and statement-level if', () => {
+      const { statements, errors } = parseBloblang(`map clean {
+  root = this.trim()
+}
+if this.x == 1 {
+  root.flag = true
+} else {
+  root.flag = false
+}`);
+      expect(errors).toEqual([]);
+      expect(statements.map((s) => s.kind)).toEqual(['map', 'if']);
+    });
+
+    it('should parse object and array literals spanning lines', () => {
+      const { errors } = parseBloblang(`root = {
+  "id": this.id,
+  "tags": [
+    "a",
+    "b"
+  ]
+}`);
+      expect(errors).toEqual([]);
+    });
+
+    it('should report syntax errors with offsets and keep parsing', () => {
+      const source = 'root.a = )\nroot.b = this.x.parseJson()';
+      const { statements, errors } = parseBloblang(source);
+      expect(errors).toHaveLength(1);
+      expect(source.slice(errors[0].start, errors[0].end)).toBe(')');
+      expect(statements).toHaveLength(1);
+      expect(statements[0]).toMatchObject({ kind: 'assignment', target: { path: ['b'] } });
+    });
+  });
+});
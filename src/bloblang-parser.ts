@@ -0,0 +1,875 @@
+/**
+ * Bloblang Parser
+ *
+ * Tokenizer and recursive-descent parser for Bloblang mappings. Produces an
+ * AST where every node carries its start and end offset in the mapping, so
+ * linters can point at the exact call or token that is wrong.
+ *
+ * Syntax errors are collected (not thrown); the parser skips to the next
+ * statement and keeps going so one mistake doesn't hide the rest.
+ */
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+export type BloblangTokenType =
+  | 'ident'
+  | 'number'
+  | 'string'
+  | 'variable'
+  | 'metadata'
+  | 'punct'
+  | 'newline'
+  | 'eof';
+
+export interface BloblangToken {
+  type: BloblangTokenType;
+  /** Identifier name, punctuation, number text or decoded string value */
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface BloblangSyntaxError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+// Longest first so "==" wins over "="
+const PUNCTUATION = [
+  '==', '!=', '<=', '>=', '&&', '||', '->', '=>',
+  '(', ')', '[', ']', '{', '}', ',', ':', '.', '=',
+  '<', '>', '+', '-', '*', '/', '%', '!', '|',
+];
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+};
+
+/**
+ * Split a mapping into tokens. Comments are dropped; newlines are kept
+ * because they terminate statements.
+ */
+export function tokenizeBloblang(source: string): { tokens: BloblangToken[]; errors: BloblangSyntaxError[] } {
+  const tokens: BloblangToken[] = [];
+  const errors: BloblangSyntaxError[] = [];
+  let pos = 0;
+
+  const isIdentStart = (ch: string) => /[A-Za-z_]/.test(ch);
+  const isIdentPart = (ch: string) => /[A-Za-z0-9_]/.test(ch);
+  const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    const start = pos;
+
+    if (ch === '\n') {
+      tokens.push({ type: 'newline', value: '\n', start, end: pos + 1 });
+      pos++;
+      continue;
+    }
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      pos++;
+      continue;
+    }
+    if (ch === '#') {
+      while (pos < source.length && source[pos] !== '\n') pos++;
+      continue;
+    }
+
+    // Raw strings: """..."""
+    if (source.startsWith('"""', pos)) {
+      const close = source.indexOf('"""', pos + 3);
+      if (close === -1) {
+        errors.push({ message: 'Unterminated triple-quoted string', start, end: source.length });
+        pos = source.length;
+        break;
+      }
+      tokens.push({ type: 'string', value: source.slice(pos + 3, close), start, end: close + 3 });
+      pos = close + 3;
+      continue;
+    }
+
+    if (ch === '"') {
+      let value = '';
+      pos++;
+      let closed = false;
+      while (pos < source.length && source[pos] !== '\n') {
+        const c = source[pos];
+        if (c === '"') {
+          closed = true;
+          pos++;
+          break;
+        }
+        if (c === '\\' && pos + 1 < source.length) {
+          const esc = source[pos + 1];
+          if (esc === 'u' && /^[0-9a-fA-F]{4}$/.test(source.slice(pos + 2, pos + 6))) {
+            value += String.fromCharCode(parseInt(source.slice(pos + 2, pos + 6), 16));
+            pos += 6;
+            continue;
+          }
+          value += STRING_ESCAPES[esc] ?? esc;
+          pos += 2;
+          continue;
+        }
+        value += c;
+        pos++;
+      }
+      if (!closed) {
+        errors.push({ message: 'Unterminated string literal', start, end: pos });
+      }
+      tokens.push({ type: 'string', value, start, end: pos });
+      continue;
+    }
+
+    if (isDigit(ch)) {
+      while (pos < source.length && isDigit(source[pos])) pos++;
+      // Path segments like this.items.0.name never have a fraction
+      const previous = tokens[tokens.length - 1];
+      const afterDot = previous?.type === 'punct' && previous.value === '.' && previous.end === start;
+      if (!afterDot && source[pos] === '.' && isDigit(source[pos + 1] ?? '')) {
+        pos++;
+        while (pos < source.length && isDigit(source[pos])) pos++;
+      }
+      tokens.push({ type: 'number', value: source.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      while (pos < source.length && isIdentPart(source[pos])) pos++;
+      tokens.push({ type: 'ident', value: source.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (ch === '$' || ch === '@') {
+      pos++;
+      while (pos < source.length && isIdentPart(source[pos])) pos++;
+      const name = source.slice(start + 1, pos);
+      if (ch === '$' && !name) {
+        errors.push({ message: 'Expected a variable name after "$"', start, end: pos });
+      }
+      tokens.push({ type: ch === '$' ? 'variable' : 'metadata', value: name, start, end: pos });
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((p) => source.startsWith(p, pos));
+    if (punct) {
+      tokens.push({ type: 'punct', value: punct, start, end: pos + punct.length });
+      pos += punct.length;
+      continue;
+    }
+
+    errors.push({ message: `Unexpected character "${ch}"`, start, end: pos + 1 });
+    pos++;
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return { tokens, errors };
+}
+
+// ============================================================================
+// AST
+// ============================================================================
+
+interface NodeBase {
+  start: number;
+  end: number;
+}
+
+export interface BloblangArgument extends NodeBase {
+  /** Set for named arguments: fn(name: value) */
+  name?: string;
+  value: BloblangExpression;
+}
+
+export type BloblangExpression =
+  | (NodeBase & { kind: 'literal'; value: string | number | boolean | null })
+  | (NodeBase & { kind: 'array'; items: BloblangExpression[] })
+  | (NodeBase & { kind: 'object'; entries: Array<{ key: BloblangExpression; value: BloblangExpression }> })
+  | (NodeBase & { kind: 'this' })
+  | (NodeBase & { kind: 'root' })
+  | (NodeBase & { kind: 'variable'; name: string })
+  | (NodeBase & { kind: 'metadata'; name: string })
+  /** Field access; target is null for bare identifiers (implicitly this) */
+  | (NodeBase & { kind: 'field'; target: BloblangExpression | null; name: string })
+  | (NodeBase & { kind: 'call'; name: string; args: BloblangArgument[]; nameStart: number; nameEnd: number })
+  | (NodeBase & {
+      kind: 'method';
+      target: BloblangExpression;
+      name: string;
+      args: BloblangArgument[];
+      nameStart: number;
+      nameEnd: number;
+    })
+  /** this.(expr): evaluate expr with target as context */
+  | (NodeBase & { kind: 'context'; target: BloblangExpression; body: BloblangExpression })
+  | (NodeBase & { kind: 'lambda'; param: string; body: BloblangExpression })
+  | (NodeBase & { kind: 'unary'; op: '!' | '-'; operand: BloblangExpression })
+  | (NodeBase & { kind: 'binary'; op: string; left: BloblangExpression; right: BloblangExpression })
+  | (NodeBase & {
+      kind: 'if';
+      branches: Array<{ condition: BloblangExpression; body: BloblangExpression }>;
+      otherwise?: BloblangExpression;
+    })
+  | (NodeBase & {
+      kind: 'match';
+      subject?: BloblangExpression;
+      /** pattern is null for the wildcard case (_) */
+      cases: Array<{ pattern: BloblangExpression | null; body: BloblangExpression }>;
+    });
+
+export type BloblangAssignTarget =
+  | { type: 'root'; path: string[] }
+  | { type: 'meta'; key?: string };
+
+export type BloblangStatement =
+  | (NodeBase & { kind: 'assignment'; target: BloblangAssignTarget; value: BloblangExpression })
+  | (NodeBase & { kind: 'let'; name: string; value: BloblangExpression })
+  | (NodeBase & { kind: 'map'; name: string; body: BloblangStatement[] })
+  | (NodeBase & { kind: 'import'; path: string })
+  | (NodeBase & {
+      kind: 'if';
+      branches: Array<{ condition: BloblangExpression; body: BloblangStatement[] }>;
+      otherwise?: BloblangStatement[];
+    })
+  /** A bare expression, e.g. a whole mapping that is just a query */
+  | (NodeBase & { kind: 'expression'; expression: BloblangExpression });
+
+export interface ParsedBloblang {
+  statements: BloblangStatement[];
+  errors: BloblangSyntaxError[];
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+// Binary operators from lowest to highest precedence
+const BINARY_PRECEDENCE: string[][] = [
+  ['|'],
+  ['||'],
+  ['&&'],
+  ['==', '!=', '<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+// Thrown to unwind to the statement loop after a syntax error is recorded
+const ABORT = Symbol('bloblang-parse-abort');
+
+/**
+ * Parse a Bloblang mapping into statements
+ */
+export function parseBloblang(source: string): ParsedBloblang {
+  const { tokens, errors } = tokenizeBloblang(source);
+  let index = 0;
+  // Inside (), [] and {} literals newlines are insignificant
+  let nesting = 0;
+
+  const skipNewlines = () => {
+    while (tokens[index].type === 'newline') index++;
+  };
+
+  const peek = (ahead = 0): BloblangToken => {
+    if (nesting > 0) skipNewlines();
+    let i = index;
+    for (let n = 0; n < ahead; n++) {
+      i = Math.min(i + 1, tokens.length - 1);
+      if (nesting > 0) {
+        while (tokens[i].type === 'newline') i++;
+      }
+    }
+    return tokens[i];
+  };
+
+  const advance = (): BloblangToken => {
+    const token = peek();
+    if (token.type !== 'eof') index++;
+    return token;
+  };
+
+  const isPunct = (token: BloblangToken, value: string) => token.type === 'punct' && token.value === value;
+  const isKeyword = (token: BloblangToken, value: string) => token.type === 'ident' && token.value === value;
+
+  const describe = (token: BloblangToken) => {
+    switch (token.type) {
+      case 'eof': return 'end of mapping';
+      case 'newline': return 'end of line';
+      case 'string': return 'string literal';
+      case 'variable': return `$${token.value}`;
+      case 'metadata': return `@${token.value}`;
+      default: return `"${token.value}"`;
+    }
+  };
+
+  const fail = (message: string, token: BloblangToken): never => {
+    errors.push({ message, start: token.start, end: Math.max(token.end, token.start + 1) });
+    throw ABORT;
+  };
+
+  const expectPunct = (value: string): BloblangToken => {
+    const token = peek();
+    if (!isPunct(token, value)) {
+      fail(`Expected "${value}" but found ${describe(token)}`, token);
+    }
+    return advance();
+  };
+
+  // Run a parse step with newline handling reset, e.g. for block bodies
+  const withNesting = <T>(level: number, fn: () => T): T => {
+    const saved = nesting;
+    nesting = level;
+    try {
+      return fn();
+    } finally {
+      nesting = saved;
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // Statements
+  // --------------------------------------------------------------------------
+
+  const parseStatements = (terminator: 'eof' | '}'): BloblangStatement[] => {
+    const statements: BloblangStatement[] = [];
+
+    for (;;) {
+      skipNewlines();
+      const token = tokens[index];
+      if (token.type === 'eof' || (terminator === '}' && isPunct(token, '}'))) {
+        break;
+      }
+
+      try {
+        statements.push(parseStatement());
+        const after = tokens[index];
+        if (after.type !== 'newline' && after.type !== 'eof' && !(terminator === '}' && isPunct(after, '}'))) {
+          fail(`Unexpected ${describe(after)} after statement`, after);
+        }
+      } catch (err) {
+        if (err !== ABORT) throw err;
+        recover(terminator);
+      }
+    }
+
+    return statements;
+  };
+
+  // Skip to the next line that is not inside an unclosed bracket
+  const recover = (terminator: 'eof' | '}') => {
+    nesting = 0;
+    let depth = 0;
+    while (tokens[index].type !== 'eof') {
+      const token = tokens[index];
+      if (token.type === 'newline' && depth <= 0) return;
+      if (token.type === 'punct') {
+        if (token.value === '(' || token.value === '[' || token.value === '{') depth++;
+        if (token.value === ')' || token.value === ']' || token.value === '}') {
+          if (depth === 0 && terminator === '}' && token.value === '}') return;
+          depth--;
+        }
+      }
+      index++;
+    }
+  };
+
+  const parseStatement = (): BloblangStatement => {
+    const token = peek();
+
+    if (isKeyword(token, 'let')) {
+      advance();
+      const nameToken = advance();
+      if (nameToken.type !== 'ident' && nameToken.type !== 'string') {
+        fail(`Expected a variable name after "let" but found ${describe(nameToken)}`, nameToken);
+      }
+      expectPunct('=');
+      const value = parseExpression();
+      return { kind: 'let', name: nameToken.value, value, start: token.start, end: value.end };
+    }
+
+    if (isKeyword(token, 'map') && peek(1).type === 'ident' && isPunct(peek(2), '{')) {
+      advance();
+      const name = advance().value;
+      expectPunct('{');
+      const body = withNesting(0, () => parseStatements('}'));
+      const close = expectPunct('}');
+      return { kind: 'map', name, body, start: token.start, end: close.end };
+    }
+
+    if (isKeyword(token, 'import') && peek(1).type === 'string') {
+      advance();
+      const path = advance();
+      return { kind: 'import', path: path.value, start: token.start, end: path.end };
+    }
+
+    if (isKeyword(token, 'if')) {
+      return parseIfStatement();
+    }
+
+    if (isKeyword(token, 'meta') && !isPunct(peek(1), '(') && !isPunct(peek(1), '.')) {
+      advance();
+      let key: string | undefined;
+      const keyToken = peek();
+      if (keyToken.type === 'ident' || keyToken.type === 'string') {
+        key = advance().value;
+      }
+      expectPunct('=');
+      const value = parseExpression();
+      return { kind: 'assignment', target: { type: 'meta', key }, value, start: token.start, end: value.end };
+    }
+
+    const target = scanAssignTarget();
+    if (target) {
+      expectPunct('=');
+      const value = parseExpression();
+      return { kind: 'assignment', target, value, start: token.start, end: value.end };
+    }
+
+    const expression = parseExpression();
+    return { kind: 'expression', expression, start: expression.start, end: expression.end };
+  };
+
+  // Look ahead for "path.to.field =" and consume the path if found
+  const scanAssignTarget = (): BloblangAssignTarget | null => {
+    let i = index;
+    const first = tokens[i];
+    if (first.type !== 'ident' || first.value === 'this') return null;
+
+    const path: string[] = first.value === 'root' ? [] : [first.value];
+    i++;
+    while (isPunct(tokens[i], '.')) {
+      const segment = tokens[i + 1];
+      if (segment.type !== 'ident' && segment.type !== 'string' && segment.type !== 'number') return null;
+      path.push(segment.value);
+      i += 2;
+    }
+    if (!isPunct(tokens[i], '=')) return null;
+
+    index = i;
+    return { type: 'root', path };
+  };
+
+  const parseIfStatement = (): BloblangStatement => {
+    const start = advance().start;
+    const branches: Array<{ condition: BloblangExpression; body: BloblangStatement[] }> = [];
+    let otherwise: BloblangStatement[] | undefined;
+    let end = start;
+
+    for (;;) {
+      const condition = parseExpression();
+      expectPunct('{');
+      const body = withNesting(0, () => parseStatements('}'));
+      end = expectPunct('}').end;
+      branches.push({ condition, body });
+
+      if (!peekElse()) break;
+      advance();
+      if (isKeyword(peek(), 'if')) {
+        advance();
+        continue;
+      }
+      expectPunct('{');
+      otherwise = withNesting(0, () => parseStatements('}'));
+      end = expectPunct('}').end;
+      break;
+    }
+
+    return { kind: 'if', branches, otherwise, start, end };
+  };
+
+  // "else" may sit on the line after a closing brace
+  const peekElse = (): boolean => {
+    let i = index;
+    while (tokens[i].type === 'newline') i++;
+    if (!isKeyword(tokens[i], 'else')) return false;
+    index = i;
+    return true;
+  };
+
+  // --------------------------------------------------------------------------
+  // Expressions
+  // --------------------------------------------------------------------------
+
+  const parseExpression = (): BloblangExpression => parseBinary(0);
+
+  const parseBinary = (level: number): BloblangExpression => {
+    if (level >= BINARY_PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    for (;;) {
+      const token = peek();
+      if (token.type !== 'punct' || !BINARY_PRECEDENCE[level].includes(token.value)) break;
+      advance();
+      // Operators may be followed by a line break
+      skipNewlines();
+      const right = parseBinary(level + 1);
+      left = { kind: 'binary', op: token.value, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseUnary = (): BloblangExpression => {
+    const token = peek();
+    if (isPunct(token, '!') || isPunct(token, '-')) {
+      advance();
+      const operand = parseUnary();
+      return { kind: 'unary', op: token.value as '!' | '-', operand, start: token.start, end: operand.end };
+    }
+    return parsePostfix(parsePrimary());
+  };
+
+  const parsePostfix = (initial: BloblangExpression): BloblangExpression => {
+    let expr = initial;
+
+    for (;;) {
+      // Method chains may continue on the next line
+      let i = index;
+      while (tokens[i].type === 'newline') i++;
+      if (!isPunct(tokens[i], '.')) break;
+      index = i + 1;
+
+      const token = peek();
+      if (isPunct(token, '(')) {
+        advance();
+        const body = withNesting(nesting + 1, () => parseExpression());
+        const close = expectPunct(')');
+        expr = { kind: 'context', target: expr, body, start: expr.start, end: close.end };
+        continue;
+      }
+
+      if (token.type !== 'ident' && token.type !== 'string' && token.type !== 'number') {
+        fail(`Expected a field or method name after "." but found ${describe(token)}`, token);
+      }
+      advance();
+
+      if (token.type === 'ident' && isPunct(peek(), '(')) {
+        const { args, end } = parseArguments();
+        expr = {
+          kind: 'method',
+          target: expr,
+          name: token.value,
+          args,
+          nameStart: token.start,
+          nameEnd: token.end,
+          start: expr.start,
+          end,
+        };
+        continue;
+      }
+
+      expr = { kind: 'field', target: expr, name: token.value, start: expr.start, end: token.end };
+    }
+
+    return expr;
+  };
+
+  const parseArguments = (): { args: BloblangArgument[]; end: number } => {
+    return withNesting(nesting + 1, () => {
+      expectPunct('(');
+      const args: BloblangArgument[] = [];
+      while (!isPunct(peek(), ')')) {
+        const token = peek();
+        if (token.type === 'ident' && isPunct(peek(1), ':')) {
+          advance();
+          advance();
+          const value = parseExpression();
+          args.push({ name: token.value, value, start: token.start, end: value.end });
+        } else {
+          const value = parseExpression();
+          args.push({ value, start: value.start, end: value.end });
+        }
+        if (!isPunct(peek(), ',')) break;
+        advance();
+      }
+      const close = expectPunct(')');
+      return { args, end: close.end };
+    });
+  };
+
+  const parsePrimary = (): BloblangExpression => {
+    const token = peek();
+
+    switch (token.type) {
+      case 'number':
+        advance();
+        return { kind: 'literal', value: Number(token.value), start: token.start, end: token.end };
+
+      case 'string':
+        advance();
+        return { kind: 'literal', value: token.value, start: token.start, end: token.end };
+
+      case 'variable':
+        advance();
+        return { kind: 'variable', name: token.value, start: token.start, end: token.end };
+
+      case 'metadata':
+        advance();
+        return { kind: 'metadata', name: token.value, start: token.start, end: token.end };
+
+      case 'punct':
+        if (token.value === '(') {
+          advance();
+          const inner = withNesting(nesting + 1, () => {
+            const expr = parseExpression();
+            expectPunct(')');
+            return expr;
+          });
+          return inner;
+        }
+        if (token.value === '[') return parseArray();
+        if (token.value === '{') return parseObject();
+        return fail(`Unexpected ${describe(token)}`, token);
+
+      case 'ident':
+        return parseIdentifier();
+
+      default:
+        return fail(`Expected an expression but found ${describe(token)}`, token);
+    }
+  };
+
+  const parseIdentifier = (): BloblangExpression => {
+    const token = advance();
+    const next = peek();
+
+    switch (token.value) {
+      case 'true':
+      case 'false':
+        return { kind: 'literal', value: token.value === 'true', start: token.start, end: token.end };
+      case 'null':
+        return { kind: 'literal', value: null, start: token.start, end: token.end };
+      case 'this':
+        return { kind: 'this', start: token.start, end: token.end };
+      case 'root':
+        if (!isPunct(next, '(')) return { kind: 'root', start: token.start, end: token.end };
+        break;
+      case 'if':
+        return parseIfExpression(token);
+      case 'match':
+        return parseMatch(token);
+    }
+
+    if (isPunct(next, '->')) {
+      advance();
+      skipNewlines();
+      const body = parseExpression();
+      return { kind: 'lambda', param: token.value, body, start: token.start, end: body.end };
+    }
+
+    if (isPunct(next, '(')) {
+      const { args, end } = parseArguments();
+      return {
+        kind: 'call',
+        name: token.value,
+        args,
+        nameStart: token.start,
+        nameEnd: token.end,
+        start: token.start,
+        end,
+      };
+    }
+
+    // Bare identifiers are fields of the context: foo == this.foo
+    return { kind: 'field', target: null, name: token.value, start: token.start, end: token.end };
+  };
+
+  const parseArray = (): BloblangExpression => {
+    return withNesting(nesting + 1, () => {
+      const open = expectPunct('[');
+      const items: BloblangExpression[] = [];
+      while (!isPunct(peek(), ']')) {
+        items.push(parseExpression());
+        if (!isPunct(peek(), ',')) break;
+        advance();
+      }
+      const close = expectPunct(']');
+      return { kind: 'array', items, start: open.start, end: close.end } as BloblangExpression;
+    });
+  };
+
+  const parseObject = (): BloblangExpression => {
+    return withNesting(nesting + 1, () => {
+      const open = expectPunct('{');
+      const entries: Array<{ key: BloblangExpression; value: BloblangExpression }> = [];
+      while (!isPunct(peek(), '}')) {
+        const key = parseExpression();
+        expectPunct(':');
+        const value = parseExpression();
+        entries.push({ key, value });
+        if (!isPunct(peek(), ',')) break;
+        advance();
+      }
+      const close = expectPunct('}');
+      return { kind: 'object', entries, start: open.start, end: close.end } as BloblangExpression;
+    });
+  };
+
+  // Block body of an if expression or match case: { expr }
+  const parseBlockExpression = (): { body: BloblangExpression; end: number } => {
+    expectPunct('{');
+    return withNesting(nesting + 1, () => {
+      const body = parseExpression();
+      const close = expectPunct('}');
+      return { body, end: close.end };
+    });
+  };
+
+  const parseIfExpression = (keyword: BloblangToken): BloblangExpression => {
+    const branches: Array<{ condition: BloblangExpression; body: BloblangExpression }> = [];
+    let otherwise: BloblangExpression | undefined;
+    let end = keyword.end;
+
+    for (;;) {
+      const condition = parseExpression();
+      const block = parseBlockExpression();
+      branches.push({ condition, body: block.body });
+      end = block.end;
+
+      if (!(nesting > 0 ? isKeyword(peek(), 'else') : peekElse())) break;
+      advance();
+      if (isKeyword(peek(), 'if')) {
+        advance();
+        continue;
+      }
+      const elseBlock = parseBlockExpression();
+      otherwise = elseBlock.body;
+      end = elseBlock.end;
+      break;
+    }
+
+    return { kind: 'if', branches, otherwise, start: keyword.start, end };
+  };
+
+  const parseMatch = (keyword: BloblangToken): BloblangExpression => {
+    const subject = isPunct(peek(), '{') ? undefined : parseExpression();
+    expectPunct('{');
+
+    // Cases are separated by newlines or commas
+    return withNesting(0, () => {
+      const cases: Array<{ pattern: BloblangExpression | null; body: BloblangExpression }> = [];
+      for (;;) {
+        skipNewlines();
+        if (isPunct(peek(), '}')) break;
+
+        const patternToken = peek();
+        const pattern = isKeyword(patternToken, '_') ? (advance(), null) : parseExpression();
+        expectPunct('=>');
+        skipNewlines();
+        const body = parseExpression();
+        cases.push({ pattern, body });
+
+        const separator = peek();
+        if (isPunct(separator, ',')) {
+          advance();
+        } else if (separator.type !== 'newline' && !isPunct(separator, '}')) {
+          fail(`Expected "," or a new line between match cases but found ${describe(separator)}`, separator);
+        }
+      }
+      const close = expectPunct('}');
+      return { kind: 'match', subject, cases, start: keyword.start, end: close.end } as BloblangExpression;
+    });
+  };
+
+  const statements = parseStatements('eof');
+  return { statements, errors };
+}
+
+// ============================================================================
+// Traversal
+// ============================================================================
+
+/**
+ * Visit every expression in a parsed mapping, depth first
+ */
+export function walkBloblang(
+  statements: BloblangStatement[],
+  visit: (expr: BloblangExpression) => void
+): void {
+  const walkExpr = (expr: BloblangExpression): void => {
+    visit(expr);
+    switch (expr.kind) {
+      case 'array':
+        expr.items.forEach(walkExpr);
+        break;
+      case 'object':
+        for (const entry of expr.entries) {
+          walkExpr(entry.key);
+          walkExpr(entry.value);
+        }
+        break;
+      case 'field':
+        if (expr.target) walkExpr(expr.target);
+        break;
+      case 'call':
+        expr.args.forEach((arg) => walkExpr(arg.value));
+        break;
+      case 'method':
+        walkExpr(expr.target);
+        expr.args.forEach((arg) => walkExpr(arg.value));
+        break;
+      case 'context':
+        walkExpr(expr.target);
+        walkExpr(expr.body);
+        break;
+      case 'lambda':
+        walkExpr(expr.body);
+        break;
+      case 'unary':
+        walkExpr(expr.operand);
+        break;
+      case 'binary':
+        walkExpr(expr.left);
+        walkExpr(expr.right);
+        break;
+      case 'if':
+        for (const branch of expr.branches) {
+          walkExpr(branch.condition);
+          walkExpr(branch.body);
+        }
+        if (expr.otherwise) walkExpr(expr.otherwise);
+        break;
+      case 'match':
+        if (expr.subject) walkExpr(expr.subject);
+        for (const c of expr.cases) {
+          if (c.pattern) walkExpr(c.pattern);
+          walkExpr(c.body);
+        }
+        break;
+    }
+  };
+
+  const walkStatements = (list: BloblangStatement[]): void => {
+    for (const statement of list) {
+      switch (statement.kind) {
+        case 'assignment':
+        case 'let':
+          walkExpr(statement.value);
+          break;
+        case 'map':
+          walkStatements(statement.body);
+          break;
+        case 'if':
+          for (const branch of statement.branches) {
+            walkExpr(branch.condition);
+            walkStatements(branch.body);
+          }
+          if (statement.otherwise) walkStatements(statement.otherwise);
+          break;
+        case 'expression':
+          walkExpr(statement.expression);
+          break;
+      }
+    }
+  };
+
+  walkStatements(statements);
+}
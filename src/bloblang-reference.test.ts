@@ -144,7 +144,7 @@ describe('get_bloblang_reference MCP tool', () => {
       const item = getBloblangItem('parse_json');
       expect(item).toBeDefined();
       expect(item?.type).toBe('method');
-      expect(item?.signature).toContain('.parse_json()');
+      expect(item?.signature).toContain('.parse_json(use_number?: bool)');
     });
 
     it('should return undefined for unknown item', () => {
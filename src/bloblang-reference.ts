@@ -5,6 +5,8 @@
  * Used by the get_bloblang_reference MCP tool for accurate code generation.
  */
 
+import { describeDeprecation, type VersionInfo } from './versioning';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -17,7 +19,7 @@ export interface BloblangParameter {
   default?: string;
 }
 
-export interface BloblangItem {
+export interface BloblangItem extends VersionInfo {
   name: string;
   type: 'function' | 'method';
   category: BloblangCategory;
@@ -63,9 +65,9 @@ const BLOBLANG_FUNCTIONS: BloblangItem[] = [
     name: 'throw',
     type: 'function',
     category: 'general',
-    signature: 'throw(reason: string) -> error',
+    signature: 'throw(why: string) -> error',
     description: 'Throws an error with the given reason, causing message processing to fail',
-    parameters: [{ name: 'reason', type: 'string', optional: false }],
+    parameters: [{ name: 'why', type: 'string', optional: false }],
     returns: 'error',
     example: 'root = if this.age < 0 { throw("age cannot be negative") } else { this }',
   },
@@ -87,8 +89,13 @@ const BLOBLANG_FUNCTIONS: BloblangItem[] = [
     name: 'counter',
     type: 'function',
     category: 'general',
-    signature: 'counter() -> int',
-    description: 'Returns an incrementing counter starting from 1',
+    signature: 'counter(min?: int, max?: int, set?: int) -> int',
+    description: 'Returns an incrementing counter starting from min; it resets to min after passing max, and set replaces the value',
+    parameters: [
+      { name: 'min', type: 'int', optional: true, default: '1' },
+      { name: 'max', type: 'int', optional: true, default: 'max_int' },
+      { name: 'set', type: 'int', optional: true },
+    ],
     returns: 'int',
     example: 'root.id = counter()  # 1, 2, 3, ...',
   },
@@ -114,9 +121,12 @@ const BLOBLANG_FUNCTIONS: BloblangItem[] = [
     name: 'nanoid',
     type: 'function',
     category: 'general',
-    signature: 'nanoid(size?: int) -> string',
+    signature: 'nanoid(length?: int, alphabet?: string) -> string',
     description: 'Generates a compact, URL-friendly unique ID',
-    parameters: [{ name: 'size', type: 'int', optional: true, default: '21' }],
+    parameters: [
+      { name: 'length', type: 'int', optional: true, default: '21' },
+      { name: 'alphabet', type: 'string', optional: true },
+    ],
     returns: 'string',
     example: 'root.id = nanoid()  # "V1StGXR8_Z5jdHi6B-myT"',
   },
@@ -124,8 +134,12 @@ const BLOBLANG_FUNCTIONS: BloblangItem[] = [
     name: 'ulid',
     type: 'function',
     category: 'general',
-    signature: 'ulid() -> string',
+    signature: 'ulid(encoding?: string, random_source?: string) -> string',
     description: 'Generates a Universally Unique Lexicographically Sortable Identifier',
+    parameters: [
+      { name: 'encoding', type: 'string', optional: true, default: '"crockford"' },
+      { name: 'random_source', type: 'string', optional: true, default: '"secure_random"' },
+    ],
     returns: 'string',
     example: 'root.id = ulid()',
   },
@@ -133,14 +147,15 @@ const BLOBLANG_FUNCTIONS: BloblangItem[] = [
     name: 'random_int',
     type: 'function',
     category: 'general',
-    signature: 'random_int(min?: int, max?: int) -> int',
+    signature: 'random_int(seed?: int, min?: int, max?: int) -> int',
     description: 'Generates a random integer between min and max (inclusive)',
     parameters: [
+      { name: 'seed', type: 'int', optional: true, default: 'timestamp_unix_nano()' },
       { name: 'min', type: 'int', optional: true, default: '0' },
       { name: 'max', type: 'int', optional: true, default: 'max_int' },
     ],
     returns: 'int',
-    example: 'root.dice = random_int(1, 6)',
+    example: 'root.dice = random_int(min: 1, max: 6)',
   },
 
   // Environment Functions
@@ -148,9 +163,12 @@ const BLOBLANG_FUNCTIONS: BloblangItem[] = [
     name: 'env',
     type: 'function',
     category: 'environment',
-    signature: 'env(name: string) -> string',
+    signature: 'env(name: string, no_cache?: bool) -> string',
     description: 'Returns the value of an environment variable',
-    parameters: [{ name: 'name', type: 'string', optional: false }],
+    parameters: [
+      { name: 'name', type: 'string', optional: false },
+      { name: 'no_cache', type: 'bool', optional: true, default: 'false' },
+    ],
     returns: 'string',
     example: 'root.api_key = env("API_KEY")',
   },
@@ -158,9 +176,12 @@ const BLOBLANG_FUNCTIONS: BloblangItem[] = [
     name: 'file',
     type: 'function',
     category: 'environment',
-    signature: 'file(path: string) -> string',
+    signature: 'file(path: string, no_cache?: bool) -> string',
     description: 'Reads the contents of a file at the given path',
-    parameters: [{ name: 'path', type: 'string', optional: false }],
+    parameters: [
+      { name: 'path', type: 'string', optional: false },
+      { name: 'no_cache', type: 'bool', optional: true, default: 'false' },
+    ],
     returns: 'string',
     example: 'root.cert = file("/etc/ssl/cert.pem")',
   },
@@ -291,13 +312,14 @@ const BLOBLANG_FUNCTIONS: BloblangItem[] = [
     name: 'fake',
     type: 'function',
     category: 'fake',
-    signature: 'fake(type: string) -> string',
+    signature: 'fake(function?: string) -> string',
     description: 'Generates fake data of the specified type for testing',
     parameters: [
       {
-        name: 'type',
+        name: 'function',
         type: 'string',
-        optional: false,
+        optional: true,
+        default: '""',
         description:
           'One of: name, first_name, last_name, email, phone, address, city, country, company, job_title, paragraph, sentence, word, url, ipv4, ipv6, uuid, username, password, credit_card, date, time, timezone, latitude, longitude',
       },
@@ -374,9 +396,12 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'split',
     type: 'method',
     category: 'string',
-    signature: '.split(delimiter: string) -> array',
+    signature: '.split(delimiter: string, empty_as_null?: bool) -> array',
     description: 'Splits the string by delimiter into an array',
-    parameters: [{ name: 'delimiter', type: 'string', optional: false }],
+    parameters: [
+      { name: 'delimiter', type: 'string', optional: false },
+      { name: 'empty_as_null', type: 'bool', optional: true, default: 'false' },
+    ],
     returns: 'array<string>',
     example: '"a,b,c".split(",")  # ["a", "b", "c"]',
   },
@@ -397,9 +422,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'replace_all_many',
     type: 'method',
     category: 'string',
-    signature: '.replace_all_many(pairs: array) -> string',
+    signature: '.replace_all_many(values: array) -> string',
     description: 'Replaces multiple pairs of old->new values',
-    parameters: [{ name: 'pairs', type: 'array', optional: false }],
+    parameters: [{ name: 'values', type: 'array', optional: false }],
     returns: 'string',
     example: '"hello".replace_all_many(["h", "H", "e", "E"])  # "HEllo"',
   },
@@ -407,9 +432,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'contains',
     type: 'method',
     category: 'string',
-    signature: '.contains(substr: string) -> bool',
+    signature: '.contains(value: any) -> bool',
     description: 'Returns true if string contains the substring',
-    parameters: [{ name: 'substr', type: 'string', optional: false }],
+    parameters: [{ name: 'value', type: 'any', optional: false }],
     returns: 'bool',
     example: '"hello world".contains("world")  # true',
   },
@@ -417,9 +442,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'has_prefix',
     type: 'method',
     category: 'string',
-    signature: '.has_prefix(prefix: string) -> bool',
+    signature: '.has_prefix(value: string) -> bool',
     description: 'Returns true if string starts with prefix',
-    parameters: [{ name: 'prefix', type: 'string', optional: false }],
+    parameters: [{ name: 'value', type: 'string', optional: false }],
     returns: 'bool',
     example: '"hello".has_prefix("he")  # true',
   },
@@ -427,9 +452,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'has_suffix',
     type: 'method',
     category: 'string',
-    signature: '.has_suffix(suffix: string) -> bool',
+    signature: '.has_suffix(value: string) -> bool',
     description: 'Returns true if string ends with suffix',
-    parameters: [{ name: 'suffix', type: 'string', optional: false }],
+    parameters: [{ name: 'value', type: 'string', optional: false }],
     returns: 'bool',
     example: '"hello.txt".has_suffix(".txt")  # true',
   },
@@ -437,9 +462,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'index_of',
     type: 'method',
     category: 'string',
-    signature: '.index_of(substr: string) -> int',
+    signature: '.index_of(value: string) -> int',
     description: 'Returns the index of first occurrence of substr, or -1',
-    parameters: [{ name: 'substr', type: 'string', optional: false }],
+    parameters: [{ name: 'value', type: 'string', optional: false }],
     returns: 'int',
     example: '"hello".index_of("l")  # 2',
   },
@@ -456,11 +481,11 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'slice',
     type: 'method',
     category: 'string',
-    signature: '.slice(start: int, end?: int) -> string',
+    signature: '.slice(low: int, high?: int) -> string',
     description: 'Returns substring from start to end (exclusive)',
     parameters: [
-      { name: 'start', type: 'int', optional: false },
-      { name: 'end', type: 'int', optional: true },
+      { name: 'low', type: 'int', optional: false },
+      { name: 'high', type: 'int', optional: true },
     ],
     returns: 'string',
     example: '"hello".slice(1, 4)  # "ell"',
@@ -535,9 +560,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'map_each',
     type: 'method',
     category: 'array',
-    signature: '.map_each(fn: lambda) -> array',
+    signature: '.map_each(query: lambda) -> array',
     description: 'Transforms each element using the lambda function',
-    parameters: [{ name: 'fn', type: 'lambda', optional: false, description: 'x -> expression' }],
+    parameters: [{ name: 'query', type: 'lambda', optional: false, description: 'x -> expression' }],
     returns: 'array',
     example: '[1, 2, 3].map_each(x -> x * 2)  # [2, 4, 6]',
   },
@@ -545,9 +570,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'map_each_key',
     type: 'method',
     category: 'object',
-    signature: '.map_each_key(fn: lambda) -> object',
+    signature: '.map_each_key(query: lambda) -> object',
     description: 'Transforms each key in an object using the lambda',
-    parameters: [{ name: 'fn', type: 'lambda', optional: false }],
+    parameters: [{ name: 'query', type: 'lambda', optional: false }],
     returns: 'object',
     example: '{"a": 1}.map_each_key(k -> k.uppercase())  # {"A": 1}',
   },
@@ -555,9 +580,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'filter',
     type: 'method',
     category: 'array',
-    signature: '.filter(fn: lambda) -> array',
+    signature: '.filter(test: lambda) -> array',
     description: 'Returns elements where lambda returns true',
-    parameters: [{ name: 'fn', type: 'lambda', optional: false, description: 'x -> bool' }],
+    parameters: [{ name: 'test', type: 'lambda', optional: false, description: 'x -> bool' }],
     returns: 'array',
     example: '[1, 2, 3, 4].filter(x -> x > 2)  # [3, 4]',
   },
@@ -565,14 +590,14 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'fold',
     type: 'method',
     category: 'array',
-    signature: '.fold(initial: any, fn: lambda) -> any',
+    signature: '.fold(initial: any, query: lambda) -> any',
     description: 'Reduces array to single value using accumulator',
     parameters: [
       { name: 'initial', type: 'any', optional: false },
-      { name: 'fn', type: 'lambda', optional: false, description: '(acc, x) -> new_acc' },
+      { name: 'query', type: 'lambda', optional: false, description: 'item -> new tally (item.tally, item.value)' },
     ],
     returns: 'any',
-    example: '[1, 2, 3].fold(0, (acc, x) -> acc + x)  # 6',
+    example: '[1, 2, 3].fold(0, item -> item.tally + item.value)  # 6',
   },
   {
     name: 'flatten',
@@ -587,19 +612,19 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'sort',
     type: 'method',
     category: 'array',
-    signature: '.sort(descending?: bool) -> array',
-    description: 'Sorts array elements',
-    parameters: [{ name: 'descending', type: 'bool', optional: true, default: 'false' }],
+    signature: '.sort(compare?: lambda) -> array',
+    description: 'Sorts an array ascending, or by a compare query over left and right that is true when left sorts first',
+    parameters: [{ name: 'compare', type: 'lambda', optional: true }],
     returns: 'array',
-    example: '[3, 1, 2].sort()  # [1, 2, 3]',
+    example: '[3, 1, 2].sort(left > right)  # [3, 2, 1]',
   },
   {
     name: 'sort_by',
     type: 'method',
     category: 'array',
-    signature: '.sort_by(fn: lambda) -> array',
+    signature: '.sort_by(query: lambda) -> array',
     description: 'Sorts array by value returned from lambda',
-    parameters: [{ name: 'fn', type: 'lambda', optional: false }],
+    parameters: [{ name: 'query', type: 'lambda', optional: false }],
     returns: 'array',
     example: '[{"n": 3}, {"n": 1}].sort_by(x -> x.n)  # [{"n": 1}, {"n": 3}]',
   },
@@ -607,8 +632,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'unique',
     type: 'method',
     category: 'array',
-    signature: '.unique() -> array',
+    signature: '.unique(emit?: lambda) -> array',
     description: 'Returns array with duplicate elements removed',
+    parameters: [{ name: 'emit', type: 'lambda', optional: true }],
     returns: 'array',
     example: '[1, 2, 2, 3].unique()  # [1, 2, 3]',
   },
@@ -626,9 +652,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'concat',
     type: 'method',
     category: 'array',
-    signature: '.concat(other: array) -> array',
+    signature: '.concat(...arrays: array) -> array',
     description: 'Concatenates two arrays',
-    parameters: [{ name: 'other', type: 'array', optional: false }],
+    parameters: [{ name: 'arrays', type: 'array', optional: false }],
     returns: 'array',
     example: '[1, 2].concat([3, 4])  # [1, 2, 3, 4]',
   },
@@ -636,9 +662,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'all',
     type: 'method',
     category: 'array',
-    signature: '.all(fn: lambda) -> bool',
+    signature: '.all(test: lambda) -> bool',
     description: 'Returns true if lambda is true for all elements',
-    parameters: [{ name: 'fn', type: 'lambda', optional: false }],
+    parameters: [{ name: 'test', type: 'lambda', optional: false }],
     returns: 'bool',
     example: '[2, 4, 6].all(x -> x % 2 == 0)  # true',
   },
@@ -646,9 +672,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'any',
     type: 'method',
     category: 'array',
-    signature: '.any(fn: lambda) -> bool',
+    signature: '.any(test: lambda) -> bool',
     description: 'Returns true if lambda is true for any element',
-    parameters: [{ name: 'fn', type: 'lambda', optional: false }],
+    parameters: [{ name: 'test', type: 'lambda', optional: false }],
     returns: 'bool',
     example: '[1, 2, 3].any(x -> x > 2)  # true',
   },
@@ -683,9 +709,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'join',
     type: 'method',
     category: 'array',
-    signature: '.join(separator: string) -> string',
+    signature: '.join(delimiter?: string) -> string',
     description: 'Joins array elements into string with separator',
-    parameters: [{ name: 'separator', type: 'string', optional: false }],
+    parameters: [{ name: 'delimiter', type: 'string', optional: true, default: '""' }],
     returns: 'string',
     example: '["a", "b", "c"].join(",")  # "a,b,c"',
   },
@@ -693,9 +719,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'index',
     type: 'method',
     category: 'array',
-    signature: '.index(idx: int) -> any',
+    signature: '.index(index: int) -> any',
     description: 'Returns element at index (negative counts from end)',
-    parameters: [{ name: 'idx', type: 'int', optional: false }],
+    parameters: [{ name: 'index', type: 'int', optional: false }],
     returns: 'any',
     example: '["a", "b", "c"].index(1)  # "b"',
   },
@@ -730,9 +756,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'zip',
     type: 'method',
     category: 'array',
-    signature: '.zip(other: array) -> array',
+    signature: '.zip(...arrays: array) -> array',
     description: 'Zips two arrays into array of pairs',
-    parameters: [{ name: 'other', type: 'array', optional: false }],
+    parameters: [{ name: 'arrays', type: 'array', optional: false }],
     returns: 'array',
     example: '[1, 2].zip(["a", "b"])  # [[1, "a"], [2, "b"]]',
   },
@@ -770,9 +796,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'merge',
     type: 'method',
     category: 'object',
-    signature: '.merge(other: object) -> object',
-    description: 'Merges objects, other values override',
-    parameters: [{ name: 'other', type: 'object', optional: false }],
+    signature: '.merge(with: any) -> object',
+    description: 'Merges objects; colliding values are combined into an array',
+    parameters: [{ name: 'with', type: 'any', optional: false }],
     returns: 'object',
     example: '{"a": 1}.merge({"b": 2})  # {"a": 1, "b": 2}',
   },
@@ -780,22 +806,19 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'assign',
     type: 'method',
     category: 'object',
-    signature: '.assign(key: string, value: any) -> object',
-    description: 'Returns new object with key set to value',
-    parameters: [
-      { name: 'key', type: 'string', optional: false },
-      { name: 'value', type: 'any', optional: false },
-    ],
+    signature: '.assign(with: any) -> object',
+    description: 'Merges an object into this one; unlike merge, colliding values are replaced rather than combined into arrays',
+    parameters: [{ name: 'with', type: 'any', optional: false }],
     returns: 'object',
-    example: '{"a": 1}.assign("b", 2)  # {"a": 1, "b": 2}',
+    example: '{"a": 1, "b": 2}.assign({"b": 3})  # {"a": 1, "b": 3}',
   },
   {
     name: 'with',
     type: 'method',
     category: 'object',
-    signature: '.with(...keys: string) -> object',
+    signature: '.with(...paths: string) -> object',
     description: 'Returns object with only specified keys',
-    parameters: [{ name: 'keys', type: 'string', optional: false }],
+    parameters: [{ name: 'paths', type: 'string', optional: false }],
     returns: 'object',
     example: '{"a": 1, "b": 2, "c": 3}.with("a", "b")  # {"a": 1, "b": 2}',
   },
@@ -803,9 +826,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'without',
     type: 'method',
     category: 'object',
-    signature: '.without(...keys: string) -> object',
+    signature: '.without(...paths: string) -> object',
     description: 'Returns object without specified keys',
-    parameters: [{ name: 'keys', type: 'string', optional: false }],
+    parameters: [{ name: 'paths', type: 'string', optional: false }],
     returns: 'object',
     example: '{"a": 1, "b": 2, "c": 3}.without("c")  # {"a": 1, "b": 2}',
   },
@@ -823,8 +846,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'collapse',
     type: 'method',
     category: 'object',
-    signature: '.collapse() -> object',
+    signature: '.collapse(include_empty?: bool) -> object',
     description: 'Flattens nested object into dot-notation keys',
+    parameters: [{ name: 'include_empty', type: 'bool', optional: true, default: 'false' }],
     returns: 'object',
     example: '{"a": {"b": 1}}.collapse()  # {"a.b": 1}',
   },
@@ -832,10 +856,11 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'explode',
     type: 'method',
     category: 'object',
-    signature: '.explode() -> object',
-    description: 'Expands dot-notation keys into nested object',
-    returns: 'object',
-    example: '{"a.b": 1}.explode()  # {"a": {"b": 1}}',
+    signature: '.explode(path: string) -> any',
+    description: 'Expands an array or object at path into one copy of the document per element',
+    parameters: [{ name: 'path', type: 'string', optional: false }],
+    returns: 'array | object',
+    example: '{"id": 1, "tags": ["a", "b"]}.explode("tags")  # [{"id": 1, "tags": "a"}, {"id": 1, "tags": "b"}]',
   },
   {
     name: 'key_values',
@@ -852,20 +877,25 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'parse_json',
     type: 'method',
     category: 'parsing',
-    signature: '.parse_json() -> any',
+    signature: '.parse_json(use_number?: bool) -> any',
     description: 'Parses JSON string into object/array',
+    parameters: [{ name: 'use_number', type: 'bool', optional: true, default: 'false' }],
     returns: 'any',
-    example: '\'{"a": 1}\'.parse_json()  # {"a": 1}',
+    example: '"{\\"a\\": 1}".parse_json()  # {"a": 1}',
   },
   {
     name: 'format_json',
     type: 'method',
     category: 'parsing',
-    signature: '.format_json(indent?: bool) -> string',
+    signature: '.format_json(indent?: string, no_indent?: bool, escape_html?: bool) -> string',
     description: 'Serializes value to JSON string',
-    parameters: [{ name: 'indent', type: 'bool', optional: true, default: 'false' }],
+    parameters: [
+      { name: 'indent', type: 'string', optional: true, default: '"    "' },
+      { name: 'no_indent', type: 'bool', optional: true, default: 'false' },
+      { name: 'escape_html', type: 'bool', optional: true, default: 'true' },
+    ],
     returns: 'string',
-    example: '{"a": 1}.format_json()  # \'{"a":1}\'',
+    example: '{"a": 1}.format_json(no_indent: true)  # "{\\"a\\":1}"',
   },
   {
     name: 'parse_yaml',
@@ -889,8 +919,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'parse_xml',
     type: 'method',
     category: 'parsing',
-    signature: '.parse_xml() -> object',
+    signature: '.parse_xml(cast?: bool) -> object',
     description: 'Parses XML string into object',
+    parameters: [{ name: 'cast', type: 'bool', optional: true, default: 'false' }],
     returns: 'object',
     example: '"<a>1</a>".parse_xml()  # {"a": "1"}',
   },
@@ -907,8 +938,13 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'parse_csv',
     type: 'method',
     category: 'parsing',
-    signature: '.parse_csv() -> array',
+    signature: '.parse_csv(parse_header_row?: bool, delimiter?: string, lazy_quotes?: bool) -> array',
     description: 'Parses CSV string into array of objects',
+    parameters: [
+      { name: 'parse_header_row', type: 'bool', optional: true, default: 'true' },
+      { name: 'delimiter', type: 'string', optional: true, default: '","' },
+      { name: 'lazy_quotes', type: 'bool', optional: true, default: 'false' },
+    ],
     returns: 'array',
     example: '"a,b\\n1,2".parse_csv()  # [{"a": "1", "b": "2"}]',
   },
@@ -945,8 +981,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'number',
     type: 'method',
     category: 'type',
-    signature: '.number() -> number',
+    signature: '.number(default?: number) -> number',
     description: 'Converts value to number',
+    parameters: [{ name: 'default', type: 'number', optional: true }],
     returns: 'number',
     example: '"123".number()  # 123',
   },
@@ -954,8 +991,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'bool',
     type: 'method',
     category: 'type',
-    signature: '.bool() -> bool',
+    signature: '.bool(default?: bool) -> bool',
     description: 'Converts value to boolean',
+    parameters: [{ name: 'default', type: 'bool', optional: true }],
     returns: 'bool',
     example: '"true".bool()  # true',
   },
@@ -999,9 +1037,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'or',
     type: 'method',
     category: 'type',
-    signature: '.or(default: any) -> any',
+    signature: '.or(fallback: any) -> any',
     description: 'Returns value or default if null/error',
-    parameters: [{ name: 'default', type: 'any', optional: false }],
+    parameters: [{ name: 'fallback', type: 'any', optional: false }],
     returns: 'any',
     example: 'this.optional_field.or("default")',
   },
@@ -1021,10 +1059,10 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'ts_format',
     type: 'method',
     category: 'timestamp',
-    signature: '.ts_format(layout: string, tz?: string) -> string',
+    signature: '.ts_format(format?: string, tz?: string) -> string',
     description: 'Formats timestamp using Go layout string',
     parameters: [
-      { name: 'layout', type: 'string', optional: false, description: 'Go time layout or preset' },
+      { name: 'format', type: 'string', optional: true, default: '"2006-01-02T15:04:05.999999999Z07:00"', description: 'Go time layout or preset' },
       { name: 'tz', type: 'string', optional: true },
     ],
     returns: 'string',
@@ -1034,9 +1072,9 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'ts_parse',
     type: 'method',
     category: 'timestamp',
-    signature: '.ts_parse(layout: string) -> timestamp',
+    signature: '.ts_parse(format: string) -> timestamp',
     description: 'Parses string to timestamp using Go layout',
-    parameters: [{ name: 'layout', type: 'string', optional: false }],
+    parameters: [{ name: 'format', type: 'string', optional: false }],
     returns: 'timestamp',
     example: '"2024-01-15".ts_parse("2006-01-02")',
   },
@@ -1044,9 +1082,12 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'ts_strftime',
     type: 'method',
     category: 'timestamp',
-    signature: '.ts_strftime(format: string) -> string',
+    signature: '.ts_strftime(format: string, tz?: string) -> string',
     description: 'Formats timestamp using strftime format',
-    parameters: [{ name: 'format', type: 'string', optional: false }],
+    parameters: [
+      { name: 'format', type: 'string', optional: false },
+      { name: 'tz', type: 'string', optional: true },
+    ],
     returns: 'string',
     example: 'now().ts_strftime("%Y-%m-%d")  # "2024-01-15"',
   },
@@ -1108,6 +1149,68 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     example: '"1h30m".parse_duration()  # 5400000000000',
   },
 
+  // Deprecated Timestamp Methods (still accepted, replaced by the ts_ methods)
+  {
+    name: 'format_timestamp',
+    type: 'method',
+    category: 'timestamp',
+    signature: '.format_timestamp(format?: string, tz?: string) -> string',
+    description: 'Formats timestamp using Go layout string',
+    parameters: [
+      { name: 'format', type: 'string', optional: true, default: '"2006-01-02T15:04:05.999999999Z07:00"' },
+      { name: 'tz', type: 'string', optional: true },
+    ],
+    returns: 'string',
+    example: 'now().format_timestamp("2006-01-02")',
+    deprecation: { replacement: 'ts_format' },
+  },
+  {
+    name: 'format_timestamp_strftime',
+    type: 'method',
+    category: 'timestamp',
+    signature: '.format_timestamp_strftime(format: string, tz?: string) -> string',
+    description: 'Formats timestamp using strftime format',
+    parameters: [
+      { name: 'format', type: 'string', optional: false },
+      { name: 'tz', type: 'string', optional: true },
+    ],
+    returns: 'string',
+    example: 'now().format_timestamp_strftime("%Y-%m-%d")',
+    deprecation: { replacement: 'ts_strftime' },
+  },
+  {
+    name: 'format_timestamp_unix',
+    type: 'method',
+    category: 'timestamp',
+    signature: '.format_timestamp_unix() -> int',
+    description: 'Returns Unix timestamp in seconds',
+    returns: 'int',
+    example: 'this.created_at.format_timestamp_unix()',
+    deprecation: { replacement: 'ts_unix' },
+  },
+  {
+    name: 'parse_timestamp',
+    type: 'method',
+    category: 'timestamp',
+    signature: '.parse_timestamp(format: string) -> timestamp',
+    description: 'Parses string to timestamp using Go layout',
+    parameters: [{ name: 'format', type: 'string', optional: false }],
+    returns: 'timestamp',
+    example: '"2024-01-15".parse_timestamp("2006-01-02")',
+    deprecation: { replacement: 'ts_parse' },
+  },
+  {
+    name: 'parse_timestamp_strptime',
+    type: 'method',
+    category: 'timestamp',
+    signature: '.parse_timestamp_strptime(format: string) -> timestamp',
+    description: 'Parses string to timestamp using strftime format',
+    parameters: [{ name: 'format', type: 'string', optional: false }],
+    returns: 'timestamp',
+    example: '"2024-01-15".parse_timestamp_strptime("%Y-%m-%d")',
+    deprecation: { replacement: 'ts_strptime' },
+  },
+
   // Encoding Methods
   {
     name: 'encode',
@@ -1135,10 +1238,11 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'compress',
     type: 'method',
     category: 'encoding',
-    signature: '.compress(algorithm: string) -> bytes',
+    signature: '.compress(algorithm: string, level?: int) -> bytes',
     description: 'Compresses bytes using specified algorithm',
     parameters: [
       { name: 'algorithm', type: 'string', optional: false, description: 'gzip, zlib, flate, snappy, lz4, zstd' },
+      { name: 'level', type: 'int', optional: true, default: '-1' },
     ],
     returns: 'bytes',
     example: '"data".bytes().compress("gzip")',
@@ -1157,10 +1261,12 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'hash',
     type: 'method',
     category: 'encoding',
-    signature: '.hash(algorithm: string) -> bytes',
+    signature: '.hash(algorithm: string, key?: string, polynomial?: string) -> bytes',
     description: 'Computes hash of bytes',
     parameters: [
       { name: 'algorithm', type: 'string', optional: false, description: 'md5, sha1, sha256, sha512, xxhash64' },
+      { name: 'key', type: 'string', optional: true, description: 'HMAC key' },
+      { name: 'polynomial', type: 'string', optional: true, default: '"IEEE"' },
     ],
     returns: 'bytes',
     example: '"hello".bytes().hash("sha256").encode("hex")',
@@ -1169,21 +1275,29 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 'encrypt_aes',
     type: 'method',
     category: 'encoding',
-    signature: '.encrypt_aes(key: string) -> bytes',
-    description: 'Encrypts bytes using AES-GCM',
-    parameters: [{ name: 'key', type: 'string', optional: false }],
+    signature: '.encrypt_aes(scheme: string, key: string, iv: string) -> bytes',
+    description: 'Encrypts bytes with AES in the given scheme (ctr, gcm, ofb or cbc)',
+    parameters: [
+      { name: 'scheme', type: 'string', optional: false },
+      { name: 'key', type: 'string', optional: false },
+      { name: 'iv', type: 'string', optional: false },
+    ],
     returns: 'bytes',
-    example: '"secret".bytes().encrypt_aes(env("AES_KEY"))',
+    example: '"secret".encrypt_aes("ctr", env("AES_KEY").decode("hex"), env("AES_IV").decode("hex"))',
   },
   {
     name: 'decrypt_aes',
     type: 'method',
     category: 'encoding',
-    signature: '.decrypt_aes(key: string) -> bytes',
-    description: 'Decrypts AES-GCM encrypted bytes',
-    parameters: [{ name: 'key', type: 'string', optional: false }],
+    signature: '.decrypt_aes(scheme: string, key: string, iv: string) -> bytes',
+    description: 'Decrypts bytes encrypted with AES in the given scheme (ctr, gcm, ofb or cbc)',
+    parameters: [
+      { name: 'scheme', type: 'string', optional: false },
+      { name: 'key', type: 'string', optional: false },
+      { name: 'iv', type: 'string', optional: false },
+    ],
     returns: 'bytes',
-    example: 'this.encrypted.decrypt_aes(env("AES_KEY"))',
+    example: 'this.encrypted.decode("base64").decrypt_aes("ctr", env("AES_KEY").decode("hex"), env("AES_IV").decode("hex"))',
   },
 
   // Regex Methods
@@ -1231,11 +1345,11 @@ const BLOBLANG_METHODS: BloblangItem[] = [
     name: 're_replace_all',
     type: 'method',
     category: 'regex',
-    signature: '.re_replace_all(pattern: string, replacement: string) -> string',
+    signature: '.re_replace_all(pattern: string, value: string) -> string',
     description: 'Replaces all matches of pattern with replacement',
     parameters: [
       { name: 'pattern', type: 'string', optional: false },
-      { name: 'replacement', type: 'string', optional: false },
+      { name: 'value', type: 'string', optional: false },
     ],
     returns: 'string',
     example: '"hello123".re_replace_all("[0-9]+", "XXX")  # "helloXXX"',
@@ -1375,6 +1489,9 @@ export function formatBloblangReference(items: BloblangItem[]): string {
     lines.push(`Type: ${item.type} | Category: ${item.category}`);
     lines.push(`Signature: \`${item.signature}\``);
     lines.push(item.description);
+    if (item.deprecation || item.deprecated) {
+      lines.push(describeDeprecation(item.name, item));
+    }
     if (item.parameters && item.parameters.length > 0) {
       lines.push('Parameters:');
       for (const param of item.parameters) {
@@ -0,0 +1,532 @@
+/**
+ * Bloblang Time Helpers
+ *
+ * Timestamp formatting and parsing for the Bloblang evaluator: Go reference
+ * layouts (2006-01-02T15:04:05Z07:00), strftime/strptime specifiers, Go and
+ * ISO 8601 durations, and IANA time zones via Intl.
+ */
+
+// ============================================================================
+// Time Zones
+// ============================================================================
+
+// Timestamps are Dates; a zone set by ts_tz() is remembered per instance
+const TIMESTAMP_ZONES = new WeakMap<Date, string>();
+
+/**
+ * Attach a time zone to a timestamp (used when formatting)
+ */
+export function withZone(date: Date, tz: string): Date {
+  zonedParts(date, tz); // throws on unknown zones
+  const zoned = new Date(date.getTime());
+  TIMESTAMP_ZONES.set(zoned, tz);
+  return zoned;
+}
+
+/**
+ * Get the time zone attached to a timestamp, UTC by default
+ */
+export function zoneOf(date: Date): string {
+  return TIMESTAMP_ZONES.get(date) ?? 'UTC';
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  weekday: number; // 0 = Sunday
+  offsetMinutes: number;
+  zoneName: string;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Break a timestamp into calendar fields in the given zone
+ */
+function zonedParts(date: Date, tz: string): ZonedParts {
+  if (isNaN(date.getTime())) {
+    throw new Error('invalid timestamp');
+  }
+
+  if (tz === 'UTC' || tz === 'Z') {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      millisecond: date.getUTCMilliseconds(),
+      weekday: date.getUTCDay(),
+      offsetMinutes: 0,
+      zoneName: 'UTC',
+    };
+  }
+
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      timeZoneName: 'short',
+    });
+  } catch {
+    throw new Error(`unknown time zone "${tz}"`);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  const fields = {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+  const asUtc = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+  const offsetMinutes = Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+
+  return {
+    ...fields,
+    millisecond: date.getUTCMilliseconds(),
+    weekday: new Date(asUtc).getUTCDay(),
+    offsetMinutes,
+    zoneName: parts.timeZoneName ?? tz,
+  };
+}
+
+function pad(value: number, width = 2): string {
+  return String(Math.abs(value)).padStart(width, '0');
+}
+
+function formatOffset(minutes: number, separator: string, withMinutes = true): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const hours = pad(Math.floor(Math.abs(minutes) / 60));
+  return withMinutes ? `${sign}${hours}${separator}${pad(Math.abs(minutes) % 60)}` : `${sign}${hours}`;
+}
+
+/**
+ * Format a timestamp as RFC 3339 in its attached zone
+ */
+export function formatRfc3339(date: Date): string {
+  return formatGoLayout(date, '2006-01-02T15:04:05.999999999Z07:00');
+}
+
+// ============================================================================
+// Go Layouts
+// ============================================================================
+
+/**
+ * Named layouts accepted by ts_format/ts_parse
+ */
+const GO_LAYOUT_PRESETS: Record<string, string> = {
+  ANSIC: 'Mon Jan _2 15:04:05 2006',
+  RFC822: '02 Jan 06 15:04 MST',
+  RFC822Z: '02 Jan 06 15:04 -0700',
+  RFC850: 'Monday, 02-Jan-06 15:04:05 MST',
+  RFC1123: 'Mon, 02 Jan 2006 15:04:05 MST',
+  RFC1123Z: 'Mon, 02 Jan 2006 15:04:05 -0700',
+  RFC3339: '2006-01-02T15:04:05Z07:00',
+  RFC3339Nano: '2006-01-02T15:04:05.999999999Z07:00',
+  Kitchen: '3:04PM',
+  DateTime: '2006-01-02 15:04:05',
+  DateOnly: '2006-01-02',
+  TimeOnly: '15:04:05',
+};
+
+// Longest first so "2006" wins over "2"
+const GO_LAYOUT_TOKENS = [
+  '.000000000', '.999999999', '.000000', '.999999', '.000', '.999',
+  'January', 'Monday', 'Z07:00', '-07:00', 'Z0700', '-0700',
+  '2006', 'Jan', 'Mon', 'MST', 'Z07', '-07',
+  '01', '02', '_2', '15', '03', '04', '05', '06', 'PM', 'pm',
+  '1', '2', '3', '4', '5',
+];
+
+function tokenizeGoLayout(layout: string): string[] {
+  const resolved = GO_LAYOUT_PRESETS[layout] ?? layout;
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < resolved.length) {
+    const token = GO_LAYOUT_TOKENS.find((t) => resolved.startsWith(t, i));
+    if (token) {
+      tokens.push(token);
+      i += token.length;
+    } else {
+      tokens.push(resolved[i]);
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Format a timestamp with a Go reference layout
+ */
+export function formatGoLayout(date: Date, layout: string, tz = zoneOf(date)): string {
+  const p = zonedParts(date, tz);
+  const hour12 = p.hour % 12 === 0 ? 12 : p.hour % 12;
+  const nanos = p.millisecond * 1_000_000;
+
+  return tokenizeGoLayout(layout)
+    .map((token) => {
+      switch (token) {
+        case '2006': return pad(p.year, 4);
+        case '06': return pad(p.year % 100);
+        case 'January': return MONTHS[p.month - 1];
+        case 'Jan': return MONTHS[p.month - 1].slice(0, 3);
+        case '01': return pad(p.month);
+        case '1': return String(p.month);
+        case 'Monday': return WEEKDAYS[p.weekday];
+        case 'Mon': return WEEKDAYS[p.weekday].slice(0, 3);
+        case '02': return pad(p.day);
+        case '_2': return String(p.day).padStart(2, ' ');
+        case '2': return String(p.day);
+        case '15': return pad(p.hour);
+        case '03': return pad(hour12);
+        case '3': return String(hour12);
+        case '04': return pad(p.minute);
+        case '4': return String(p.minute);
+        case '05': return pad(p.second);
+        case '5': return String(p.second);
+        case 'PM': return p.hour < 12 ? 'AM' : 'PM';
+        case 'pm': return p.hour < 12 ? 'am' : 'pm';
+        case 'MST': return p.zoneName;
+        case 'Z07:00': return p.offsetMinutes === 0 ? 'Z' : formatOffset(p.offsetMinutes, ':');
+        case 'Z0700': return p.offsetMinutes === 0 ? 'Z' : formatOffset(p.offsetMinutes, '');
+        case 'Z07': return p.offsetMinutes === 0 ? 'Z' : formatOffset(p.offsetMinutes, '', false);
+        case '-07:00': return formatOffset(p.offsetMinutes, ':');
+        case '-0700': return formatOffset(p.offsetMinutes, '');
+        case '-07': return formatOffset(p.offsetMinutes, '', false);
+        case '.000': return `.${pad(p.millisecond, 3)}`;
+        case '.000000': return `.${pad(nanos / 1000, 6)}`;
+        case '.000000000': return `.${pad(nanos, 9)}`;
+        case '.999':
+        case '.999999':
+        case '.999999999': {
+          const digits = token.length - 1;
+          const fraction = pad(nanos, 9).slice(0, digits).replace(/0+$/, '');
+          return fraction ? `.${fraction}` : '';
+        }
+        default: return token;
+      }
+    })
+    .join('');
+}
+
+interface ParsedFields {
+  year?: number;
+  month?: number;
+  day?: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  nanos?: number;
+  pm?: boolean;
+  offsetMinutes?: number;
+}
+
+function parseOffset(text: string): number {
+  if (text === 'Z') return 0;
+  const match = text.match(/^([+-])(\d{2}):?(\d{2})?$/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3] ?? 0);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function buildDate(fields: ParsedFields, source: string): Date {
+  let hour = fields.hour ?? 0;
+  if (fields.pm !== undefined) {
+    hour = (hour % 12) + (fields.pm ? 12 : 0);
+  }
+  const ms = Date.UTC(
+    fields.year ?? 0,
+    (fields.month ?? 1) - 1,
+    fields.day ?? 1,
+    hour,
+    fields.minute ?? 0,
+    fields.second ?? 0,
+    Math.floor((fields.nanos ?? 0) / 1_000_000)
+  ) - (fields.offsetMinutes ?? 0) * 60000;
+
+  const date = new Date(ms);
+  if (isNaN(date.getTime())) {
+    throw new Error(`failed to parse "${source}" as a timestamp`);
+  }
+  return date;
+}
+
+/**
+ * Parse a string using a Go reference layout
+ */
+export function parseGoLayout(text: string, layout: string): Date {
+  const fields: ParsedFields = {};
+  const setters: Array<(value: string) => void> = [];
+  let pattern = '^';
+
+  const capture = (regex: string, set: (value: string) => void) => {
+    pattern += `(${regex})`;
+    setters.push(set);
+  };
+  const monthIndex = (name: string) => MONTHS.findIndex((m) => m.toLowerCase().startsWith(name.toLowerCase())) + 1;
+
+  for (const token of tokenizeGoLayout(layout)) {
+    switch (token) {
+      case '2006': capture('\\d{4}', (v) => { fields.year = Number(v); }); break;
+      case '06': capture('\\d{2}', (v) => { fields.year = 2000 + Number(v); }); break;
+      case 'January': capture('[A-Za-z]+', (v) => { fields.month = monthIndex(v); }); break;
+      case 'Jan': capture('[A-Za-z]{3}', (v) => { fields.month = monthIndex(v); }); break;
+      case '01': capture('\\d{2}', (v) => { fields.month = Number(v); }); break;
+      case '1': capture('\\d{1,2}', (v) => { fields.month = Number(v); }); break;
+      case 'Monday': capture('[A-Za-z]+', () => {}); break;
+      case 'Mon': capture('[A-Za-z]{3}', () => {}); break;
+      case '02': capture('\\d{2}', (v) => { fields.day = Number(v); }); break;
+      case '_2': capture(' ?\\d{1,2}', (v) => { fields.day = Number(v.trim()); }); break;
+      case '2': capture('\\d{1,2}', (v) => { fields.day = Number(v); }); break;
+      case '15': capture('\\d{2}', (v) => { fields.hour = Number(v); }); break;
+      case '03': capture('\\d{2}', (v) => { fields.hour = Number(v); }); break;
+      case '3': capture('\\d{1,2}', (v) => { fields.hour = Number(v); }); break;
+      case '04': capture('\\d{2}', (v) => { fields.minute = Number(v); }); break;
+      case '4': capture('\\d{1,2}', (v) => { fields.minute = Number(v); }); break;
+      case '05':
+      case '5':
+        capture(token === '05' ? '\\d{2}' : '\\d{1,2}', (v) => { fields.second = Number(v); });
+        // Go accepts fractional seconds after the seconds field even if the layout omits them
+        capture('(?:[.,]\\d+)?', (v) => { if (v) fields.nanos = Number(v.slice(1).padEnd(9, '0').slice(0, 9)); });
+        break;
+      case 'PM':
+      case 'pm': capture('[AaPp][Mm]', (v) => { fields.pm = v.toLowerCase() === 'pm'; }); break;
+      case 'MST': capture('[A-Za-z]{1,5}', (v) => { if (v === 'UTC' || v === 'GMT') fields.offsetMinutes = 0; }); break;
+      case 'Z07:00':
+      case 'Z0700':
+      case 'Z07': capture('Z|[+-]\\d{2}(?::?\\d{2})?', (v) => { fields.offsetMinutes = parseOffset(v); }); break;
+      case '-07:00':
+      case '-0700':
+      case '-07': capture('[+-]\\d{2}(?::?\\d{2})?', (v) => { fields.offsetMinutes = parseOffset(v); }); break;
+      case '.000':
+      case '.000000':
+      case '.000000000':
+      case '.999':
+      case '.999999':
+      case '.999999999':
+        capture('(?:[.,]\\d+)?', (v) => { if (v) fields.nanos = Number(v.slice(1).padEnd(9, '0').slice(0, 9)); });
+        break;
+      default:
+        pattern += token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const match = new RegExp(`${pattern}$`).exec(text);
+  if (!match) {
+    throw new Error(`failed to parse "${text}" with layout "${layout}"`);
+  }
+  setters.forEach((set, i) => set(match[i + 1]));
+  return buildDate(fields, text);
+}
+
+// ============================================================================
+// strftime
+// ============================================================================
+
+/**
+ * Format a timestamp with strftime specifiers (%Y-%m-%d %H:%M:%S)
+ */
+export function formatStrftime(date: Date, format: string, tz = zoneOf(date)): string {
+  const p = zonedParts(date, tz);
+  const hour12 = p.hour % 12 === 0 ? 12 : p.hour % 12;
+  const startOfYear = Date.UTC(p.year, 0, 1);
+  const dayOfYear = Math.floor((Date.UTC(p.year, p.month - 1, p.day) - startOfYear) / 86400000) + 1;
+
+  return format.replace(/%([a-zA-Z%])/g, (whole, spec: string) => {
+    switch (spec) {
+      case 'Y': return pad(p.year, 4);
+      case 'y': return pad(p.year % 100);
+      case 'm': return pad(p.month);
+      case 'd': return pad(p.day);
+      case 'e': return String(p.day).padStart(2, ' ');
+      case 'H': return pad(p.hour);
+      case 'I': return pad(hour12);
+      case 'M': return pad(p.minute);
+      case 'S': return pad(p.second);
+      case 'f': return pad(p.millisecond * 1000, 6);
+      case 'L': return pad(p.millisecond, 3);
+      case 'p': return p.hour < 12 ? 'AM' : 'PM';
+      case 'b':
+      case 'h': return MONTHS[p.month - 1].slice(0, 3);
+      case 'B': return MONTHS[p.month - 1];
+      case 'a': return WEEKDAYS[p.weekday].slice(0, 3);
+      case 'A': return WEEKDAYS[p.weekday];
+      case 'j': return pad(dayOfYear, 3);
+      case 'z': return formatOffset(p.offsetMinutes, '');
+      case 'Z': return p.zoneName;
+      case 'F': return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}`;
+      case 'T': return `${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+      case 's': return String(Math.floor(date.getTime() / 1000));
+      case '%': return '%';
+      default: return whole;
+    }
+  });
+}
+
+/**
+ * Parse a string with strftime specifiers
+ */
+export function parseStrptime(text: string, format: string): Date {
+  const fields: ParsedFields = {};
+  const setters: Array<(value: string) => void> = [];
+  let pattern = '^';
+  let epochSeconds: number | undefined;
+
+  const capture = (regex: string, set: (value: string) => void) => {
+    pattern += `(${regex})`;
+    setters.push(set);
+  };
+  const monthIndex = (name: string) => MONTHS.findIndex((m) => m.toLowerCase().startsWith(name.toLowerCase())) + 1;
+
+  for (let i = 0; i < format.length; i++) {
+    const ch = format[i];
+    if (ch !== '%' || i === format.length - 1) {
+      pattern += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      continue;
+    }
+    const spec = format[++i];
+    switch (spec) {
+      case 'Y': capture('\\d{4}', (v) => { fields.year = Number(v); }); break;
+      case 'y': capture('\\d{2}', (v) => { fields.year = 2000 + Number(v); }); break;
+      case 'm': capture('\\d{1,2}', (v) => { fields.month = Number(v); }); break;
+      case 'd':
+      case 'e': capture(' ?\\d{1,2}', (v) => { fields.day = Number(v.trim()); }); break;
+      case 'H':
+      case 'I': capture('\\d{1,2}', (v) => { fields.hour = Number(v); }); break;
+      case 'M': capture('\\d{1,2}', (v) => { fields.minute = Number(v); }); break;
+      case 'S': capture('\\d{1,2}', (v) => { fields.second = Number(v); }); break;
+      case 'f': capture('\\d{1,9}', (v) => { fields.nanos = Number(v.padEnd(9, '0')); }); break;
+      case 'L': capture('\\d{3}', (v) => { fields.nanos = Number(v) * 1_000_000; }); break;
+      case 'p': capture('[AaPp][Mm]', (v) => { fields.pm = v.toLowerCase() === 'pm'; }); break;
+      case 'b':
+      case 'h':
+      case 'B': capture('[A-Za-z]+', (v) => { fields.month = monthIndex(v); }); break;
+      case 'a':
+      case 'A': capture('[A-Za-z]+', () => {}); break;
+      case 'j': capture('\\d{3}', () => {}); break;
+      case 'z': capture('Z|[+-]\\d{2}:?\\d{2}', (v) => { fields.offsetMinutes = parseOffset(v); }); break;
+      case 'Z': capture('[A-Za-z]{1,5}', () => {}); break;
+      case 'F':
+        capture('\\d{4}-\\d{2}-\\d{2}', (v) => {
+          const [y, m, d] = v.split('-').map(Number);
+          Object.assign(fields, { year: y, month: m, day: d });
+        });
+        break;
+      case 'T':
+        capture('\\d{2}:\\d{2}:\\d{2}', (v) => {
+          const [h, min, s] = v.split(':').map(Number);
+          Object.assign(fields, { hour: h, minute: min, second: s });
+        });
+        break;
+      case 's': capture('-?\\d+', (v) => { epochSeconds = Number(v); }); break;
+      case '%': pattern += '%'; break;
+      default:
+        throw new Error(`unsupported strptime specifier "%${spec}"`);
+    }
+  }
+
+  const match = new RegExp(`${pattern}$`).exec(text);
+  if (!match) {
+    throw new Error(`failed to parse "${text}" with format "${format}"`);
+  }
+  setters.forEach((set, i) => set(match[i + 1]));
+  if (epochSeconds !== undefined) {
+    return new Date(epochSeconds * 1000);
+  }
+  return buildDate(fields, text);
+}
+
+// ============================================================================
+// Durations
+// ============================================================================
+
+const GO_DURATION_UNITS: Record<string, number> = {
+  ns: 1,
+  us: 1_000,
+  'µs': 1_000,
+  ms: 1_000_000,
+  s: 1_000_000_000,
+  m: 60_000_000_000,
+  h: 3_600_000_000_000,
+};
+
+/**
+ * Parse a Go duration string ("1h30m", "500ms") to nanoseconds
+ */
+export function parseGoDuration(text: string): number {
+  const trimmed = text.trim();
+  if (trimmed === '0') return 0;
+
+  const sign = trimmed.startsWith('-') ? -1 : 1;
+  const body = trimmed.replace(/^[+-]/, '');
+  const parts = [...body.matchAll(/(\d+(?:\.\d+)?)(ns|us|µs|ms|s|m|h)/g)];
+  if (parts.length === 0 || parts.map((p) => p[0]).join('') !== body) {
+    throw new Error(`invalid duration "${text}"`);
+  }
+  return sign * parts.reduce((total, p) => total + Math.round(Number(p[1]) * GO_DURATION_UNITS[p[2]]), 0);
+}
+
+/**
+ * Add an ISO 8601 duration (P1DT2H, P1Y2M, -PT30M) to a timestamp
+ */
+export function addIso8601(date: Date, duration: string): Date {
+  const match = duration.match(
+    /^([+-])?P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/
+  );
+  if (!match || duration.replace(/^[+-]/, '') === 'P' || duration.endsWith('T')) {
+    throw new Error(`invalid ISO 8601 duration "${duration}"`);
+  }
+
+  const sign = match[1] === '-' ? -1 : 1;
+  const [years, months, weeks, days, hours, minutes, seconds] = match.slice(2).map((v) => Number(v ?? 0) * sign);
+
+  const result = new Date(date.getTime());
+  result.setUTCFullYear(result.getUTCFullYear() + years, result.getUTCMonth() + months);
+  const ms = ((weeks * 7 + days) * 86400 + hours * 3600 + minutes * 60 + seconds) * 1000;
+  const shifted = new Date(result.getTime() + ms);
+  const tz = TIMESTAMP_ZONES.get(date);
+  if (tz) TIMESTAMP_ZONES.set(shifted, tz);
+  return shifted;
+}
+
+// ============================================================================
+// Coercion
+// ============================================================================
+
+/**
+ * Interpret a value as a timestamp: Dates, RFC 3339 strings and
+ * unix seconds are accepted
+ */
+export function toTimestamp(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return new Date(value * 1000);
+  if (typeof value === 'string') {
+    if (!/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
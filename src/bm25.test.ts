@@ -0,0 +1,63 @@
+/**
+ * Tests for the BM25 keyword index and reciprocal-rank fusion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildBm25Index, carryOverDocuments, isBm25Index, reciprocalRankFusion, searchBm25, tokenize } from './bm25';
+
+function chunk(id: string, title: string, text: string, domain = 'docs.expanso.io') {
+  return { id, uri: `https://${domain}/llms/${id}.txt`, title, section: title, domain, snippet: text.slice(0, 50), type: 'doc', text };
+}
+
+const CHUNKS = [
+  chunk('kafka', 'Kafka Inputs', 'Use the kafka_franz input to consume from Kafka topics with consumer groups.'),
+  chunk('mapping', 'Bloblang Mapping', 'Parse JSON strings with parse_json and format timestamps in a mapping processor.'),
+  chunk('http', 'HTTP Server', 'The http_server input receives webhooks. Respond with sync_response.'),
+  chunk('routing', 'Data Routing', 'Fan out messages to several outputs with a switch output.', 'examples.expanso.io'),
+];
+
+describe('BM25 Index', () => {
+  it('should keep snake_case identifiers whole and split them', () => {
+    expect(tokenize('Use the kafka_franz input')).toEqual(['use', 'kafka_franz', 'kafka', 'franz', 'input']);
+  });
+
+  it('should rank exact identifier matches first', () => {
+    const index = buildBm25Index(CHUNKS);
+    expect(searchBm25(index, 'parse_json')[0].document.id).toBe('mapping');
+    expect(searchBm25(index, 'kafka_franz consumer')[0].document.id).toBe('kafka');
+  });
+
+  it('should filter by domain and limit results', () => {
+    const index = buildBm25Index(CHUNKS);
+    expect(searchBm25(index, 'output messages', { domain: 'docs.expanso.io' }).map(m => m.document.id))
+      .not.toContain('routing');
+    expect(searchBm25(index, 'input', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('should carry documents over from a previous index', () => {
+    const previous = buildBm25Index(CHUNKS);
+    const current = buildBm25Index([CHUNKS[0], chunk('mapping', 'Bloblang Mapping', 'Rewritten without the old terms.')]);
+    const merged = carryOverDocuments(current, previous, document => document.id !== 'kafka' && document.id !== 'routing');
+
+    expect(merged.documents.map(d => d.id)).toEqual(['kafka', 'mapping', 'http']);
+    expect(searchBm25(merged, 'webhooks')[0].document.id).toBe('http');
+    expect(searchBm25(merged, 'parse_json')).toEqual([]);
+    expect(searchBm25(merged, 'kafka_franz')[0].document.id).toBe('kafka');
+  });
+
+  it('should survive a JSON round trip and ignore prototype keys', () => {
+    const index = JSON.parse(JSON.stringify(buildBm25Index(CHUNKS)));
+    expect(isBm25Index(index)).toBe(true);
+    expect(searchBm25(index, 'constructor toString')).toEqual([]);
+    expect(searchBm25(index, 'webhooks')[0].document).toEqual({
+      id: 'http', uri: CHUNKS[2].uri, title: 'HTTP Server', section: 'HTTP Server',
+      domain: 'docs.expanso.io', snippet: CHUNKS[2].snippet, type: 'doc',
+    });
+  });
+
+  it('should fuse rankings so items ranked well by both come first', () => {
+    const fused = reciprocalRankFusion([['a', 'b', 'c'], ['b', 'd', 'a']]);
+    expect(fused.map(r => r.id)).toEqual(['b', 'a', 'd', 'c']);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62);
+  });
+});
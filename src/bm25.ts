@@ -0,0 +1,214 @@
+/**
+ * BM25 Keyword Index
+ *
+ * Keyword retrieval over the chunked documentation. scripts/index-content.ts
+ * builds the index from the same chunks it embeds and stores it in KV under
+ * BM25_INDEX_KEY; handleSearch fuses its ranking with Vectorize's using
+ * reciprocal-rank fusion. Exact identifiers like `kafka_franz` or
+ * `parse_json` rank well here even when their embeddings don't.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Bm25Document {
+  /** Chunk ID, shared with the Vectorize index */
+  id: string;
+  uri: string;
+  title: string;
+  section: string;
+  domain: string;
+  snippet: string;
+  type: string;
+  /** Character offsets of the section in the source file */
+  start?: number;
+  end?: number;
+}
+
+export interface Bm25Index {
+  version: 1;
+  /** Average document length in tokens */
+  averageLength: number;
+  documents: Bm25Document[];
+  /** Token count per document, parallel to documents */
+  lengths: number[];
+  /** term -> [document index, term frequency] pairs */
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface Bm25Match {
+  document: Bm25Document;
+  score: number;
+}
+
+export const BM25_INDEX_KEY = 'search:bm25';
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Rank constant from the original reciprocal-rank fusion paper
+export const RRF_K = 60;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'when', 'which', 'with', 'you', 'your',
+]);
+
+// ============================================================================
+// Tokenizing
+// ============================================================================
+
+/**
+ * Split text into lowercase terms. Snake-case identifiers are kept whole and
+ * also split into their parts, so `kafka_franz` matches both `kafka_franz`
+ * and `kafka`.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.toLowerCase().match(/[a-z0-9]+(?:_[a-z0-9]+)*/g) ?? []) {
+    if (STOP_WORDS.has(word)) continue;
+    terms.push(word);
+    if (word.includes('_')) {
+      terms.push(...word.split('_').filter(part => part && !STOP_WORDS.has(part)));
+    }
+  }
+  return terms;
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+/**
+ * Build an index from chunks; the chunk text is indexed but not stored
+ */
+export function buildBm25Index(chunks: Array<Bm25Document & { text: string }>): Bm25Index {
+  const postings: Record<string, Array<[number, number]>> = {};
+  const documents: Bm25Document[] = [];
+  const lengths: number[] = [];
+
+  chunks.forEach(({ text, ...document }, index) => {
+    // Titles and section headings are indexed alongside the body
+    const terms = tokenize(`${document.title} ${document.section} ${text}`);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    for (const [term, count] of frequencies) {
+      if (!Object.hasOwn(postings, term)) postings[term] = [];
+      postings[term].push([index, count]);
+    }
+    documents.push(document);
+    lengths.push(terms.length);
+  });
+
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    version: 1,
+    averageLength: documents.length > 0 ? total / documents.length : 0,
+    documents,
+    lengths,
+    postings,
+  };
+}
+
+/**
+ * Copy documents from a previous index into a new one, with their postings,
+ * e.g. for sources that could not be fetched this time. Documents whose ID
+ * is already in the new index are skipped.
+ */
+export function carryOverDocuments(
+  index: Bm25Index,
+  previous: Bm25Index,
+  keep: (document: Bm25Document) => boolean
+): Bm25Index {
+  const ids = new Set(index.documents.map(document => document.id));
+  const documents = [...index.documents];
+  const lengths = [...index.lengths];
+  // previous document index -> new document index
+  const moved = new Map<number, number>();
+
+  previous.documents.forEach((document, i) => {
+    if (ids.has(document.id) || !keep(document)) return;
+    moved.set(i, documents.length);
+    documents.push(document);
+    lengths.push(previous.lengths[i]);
+  });
+  if (moved.size === 0) return index;
+
+  const postings: Record<string, Array<[number, number]>> = {};
+  for (const [term, entries] of Object.entries(index.postings)) postings[term] = [...entries];
+  for (const [term, entries] of Object.entries(previous.postings)) {
+    for (const [document, frequency] of entries) {
+      const target = moved.get(document);
+      if (target === undefined) continue;
+      if (!Object.hasOwn(postings, term)) postings[term] = [];
+      postings[term].push([target, frequency]);
+    }
+  }
+
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return { version: 1, averageLength: total / documents.length, documents, lengths, postings };
+}
+
+/**
+ * Rank documents against a query, best first
+ */
+export function searchBm25(
+  index: Bm25Index,
+  query: string,
+  options: { limit?: number; domain?: string; type?: string } = {}
+): Bm25Match[] {
+  const { limit = 10, domain, type } = options;
+  const count = index.documents.length;
+  const scores = new Map<number, number>();
+
+  for (const term of new Set(tokenize(query))) {
+    if (!Object.hasOwn(index.postings, term)) continue;
+    const postings = index.postings[term];
+    const idf = Math.log(1 + (count - postings.length + 0.5) / (postings.length + 0.5));
+    for (const [document, frequency] of postings) {
+      const norm = 1 - B + B * (index.lengths[document] / (index.averageLength || 1));
+      const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * norm);
+      scores.set(document, (scores.get(document) ?? 0) + score);
+    }
+  }
+
+  return [...scores]
+    .map(([document, score]) => ({ document: index.documents[document], score }))
+    .filter(match => !domain || match.document.domain.includes(domain))
+    .filter(match => !type || match.document.type === type)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Whether a value read from KV looks like an index this code can search
+ */
+export function isBm25Index(value: unknown): value is Bm25Index {
+  if (!value || typeof value !== 'object') return false;
+  const index = value as Partial<Bm25Index>;
+  return index.version === 1 && Array.isArray(index.documents) && Array.isArray(index.lengths) &&
+    !!index.postings && typeof index.postings === 'object';
+}
+
+// ============================================================================
+// Fusion
+// ============================================================================
+
+/**
+ * Reciprocal-rank fusion: each ranking adds 1 / (k + rank) for the IDs it
+ * contains, so items ranked well by several retrievers come first. Only
+ * ranks are used, which makes BM25 and cosine scores comparable.
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + rank + 1));
+    });
+  }
+  return [...scores]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -894,8 +894,9 @@ export function getChatHtml(): string {
     }
 
     async function validateCode() {
-      var yaml = codeEditor.value.trim();
-      if (!yaml) {
+      // Send the editor text untrimmed so error line numbers match the editor
+      var yaml = codeEditor.value;
+      if (!yaml.trim()) {
         validationResult.className = 'validation-result invalid';
         validationResult.textContent = 'No YAML to validate';
         validationResult.style.display = 'block';
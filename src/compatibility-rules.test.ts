@@ -5,6 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   checkPipelineCompatibility,
+  checkPipelineCompatibilityWithOptions,
   parsePipelineForCompatibility,
   checkCompatibility,
   formatCompatibilityWarnings,
@@ -34,6 +35,16 @@ describe('Compatibility Rules', () => {
       const uniqueIds = new Set(ids);
       expect(uniqueIds.size).toBe(ids.length);
     });
+
+    it('should report the config path a warning is about', () => {
+      const warnings = checkPipelineCompatibility({
+        input: { stdin: {} },
+        pipeline: { processors: [{ mapping: 'root = this' }, { http: { url: 'https://api.example.com' } }] },
+        output: { stdout: {} },
+      });
+      const warning = warnings.find(w => w.rule === 'http-without-retry');
+      expect(warning?.path).toBe('pipeline.processors[1].http');
+    });
   });
 
   describe('Sync Response Patterns', () => {
@@ -486,6 +497,26 @@ describe('Compatibility Rules', () => {
       expect(logWarning).toBeDefined();
       expect(logWarning?.severity).toBe('warning');
     });
+
+    it('should report each hard-coded secret at its own path', () => {
+      const config = {
+        input: {
+          kafka: {
+            addresses: ['localhost:9092'],
+            topics: ['test'],
+            sasl: { mechanism: 'PLAIN', user: 'app', password: 'hunter2' },
+          },
+        },
+        output: { sql_insert: { driver: 'postgres', dsn: 'postgres://app:s3cret@db:5432/orders', table: 'orders' } },
+      };
+
+      const warnings = checkPipelineCompatibility(config);
+      const secrets = warnings.filter(w => w.rule === 'hardcoded-secret');
+
+      expect(secrets.map(w => w.path)).toEqual(['input.kafka.sasl.password', 'output.sql_insert.dsn']);
+      expect(secrets[0].severity).toBe('warning');
+      expect(secrets[0].suggestion).toContain('${KAFKA_SASL_PASSWORD}');
+    });
   });
 
   describe('Messaging Patterns', () => {
@@ -786,6 +817,39 @@ describe('Compatibility Rules', () => {
     });
   });
 
+  describe('Rule options', () => {
+    const config = {
+      input: { stdin: {} },
+      pipeline: { processors: [{ http: { url: 'http://internal.example.com/lookup' } }] },
+      output: { stdout: {} },
+    };
+
+    it('should drop rules turned off and record the suppression', () => {
+      const { warnings, suppressed } = checkPipelineCompatibilityWithOptions(config, { rules: { 'http-without-tls': 'off' } });
+      expect(warnings.find(w => w.rule === 'http-without-tls')).toBeUndefined();
+      expect(suppressed).toEqual([{ rule: 'http-without-tls', source: 'config', path: 'pipeline.processors[0].http' }]);
+    });
+
+    it('should apply severity overrides', () => {
+      const { warnings } = checkPipelineCompatibilityWithOptions(config, { rules: { 'http-without-tls': 'error' } });
+      expect(warnings.find(w => w.rule === 'http-without-tls')?.severity).toBe('error');
+    });
+
+    it('should suppress rules on the commented node and its children only', () => {
+      const { warnings, suppressed } = checkPipelineCompatibilityWithOptions(config, {
+        suppressions: [
+          { rules: ['http-without-tls'], path: 'pipeline.processors[0]', line: 4 },
+          { rules: ['http-without-retry'], path: 'pipeline.processors[1]', line: 9 },
+        ],
+      });
+      expect(warnings.map(w => w.rule)).not.toContain('http-without-tls');
+      expect(warnings.map(w => w.rule)).toContain('http-without-retry');
+      expect(suppressed).toEqual([
+        { rule: 'http-without-tls', source: 'comment', path: 'pipeline.processors[0].http', line: 4 },
+      ]);
+    });
+  });
+
   describe('Suggestions are helpful', () => {
     it('should provide actionable suggestions for all rules with suggestions', () => {
       for (const rule of COMPATIBILITY_RULES) {
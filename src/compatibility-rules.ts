@@ -6,6 +6,9 @@
  * build more robust pipelines.
  */
 
+import type { SourceRange } from './yaml-source';
+import { findSecrets } from './secret-scanner';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -15,6 +18,52 @@ export interface CompatibilityWarning {
   severity: 'error' | 'warning' | 'info';
   message: string;
   suggestion?: string;
+  /** Config path the warning is about (e.g., "pipeline.processors[2].http") */
+  path?: string;
+  /** Source position, filled in by validatePipelineYaml */
+  line?: number;
+  column?: number;
+  range?: SourceRange;
+}
+
+/**
+ * Severity a project assigns to a rule; "off" disables it
+ */
+export type RuleSeverity = 'off' | CompatibilityWarning['severity'];
+
+/**
+ * An `# expanso-lint: disable=<rule-id>` comment, resolved to the config path
+ * of the node it annotates. Applies to that node and everything under it.
+ */
+export interface InlineSuppression {
+  rules: string[];
+  path: string;
+  /** Line of the comment */
+  line: number;
+}
+
+export interface CompatibilityOptions {
+  /** Per-project severity overrides, by rule id */
+  rules?: Record<string, RuleSeverity>;
+  suppressions?: InlineSuppression[];
+  /** Organization rules compiled from declarative definitions */
+  customRules?: CustomCompatibilityRule[];
+}
+
+/**
+ * A warning that was not reported because of a comment or the rule config
+ */
+export interface AppliedSuppression {
+  rule: string;
+  source: 'comment' | 'config';
+  path?: string;
+  /** Line of the suppressing comment */
+  line?: number;
+}
+
+export interface CompatibilityResult {
+  warnings: CompatibilityWarning[];
+  suppressed: AppliedSuppression[];
 }
 
 export interface ParsedPipeline {
@@ -49,6 +98,22 @@ export interface CompatibilityCheck {
   severity: 'error' | 'warning' | 'info';
   message: string;
   suggestion?: string;
+  /** Resolves the config path to report the warning at */
+  path?: (pipeline: ParsedPipeline) => string | undefined;
+  /** For rules that can fire more than once: one warning per match */
+  matches?: (pipeline: ParsedPipeline) => Array<{ path: string; message: string; suggestion?: string }>;
+}
+
+/**
+ * A rule defined as data (see custom-rules.ts). Unlike the built-in checks it
+ * can report several warnings, one per matching node.
+ */
+export interface CustomCompatibilityRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: CompatibilityWarning['severity'];
+  evaluate: (pipeline: ParsedPipeline) => CompatibilityWarning[];
 }
 
 // ============================================================================
@@ -173,6 +238,44 @@ function hasRateLimitResources(pipeline: ParsedPipeline): boolean {
     'rate_limit_resources' in pipeline.raw;
 }
 
+/**
+ * Path to the input component (e.g., "input.kafka")
+ */
+function inputPath(pipeline: ParsedPipeline): string | undefined {
+  return pipeline.input ? `input.${pipeline.input.type}` : undefined;
+}
+
+/**
+ * Path to the output component (e.g., "output.aws_s3")
+ */
+function outputPath(pipeline: ParsedPipeline): string | undefined {
+  return pipeline.output ? `output.${pipeline.output.type}` : undefined;
+}
+
+/**
+ * Path to the input batching config
+ */
+function inputBatchingPath(pipeline: ParsedPipeline): string | undefined {
+  return pipeline.input ? `input.${pipeline.input.type}.batching` : undefined;
+}
+
+/**
+ * Path to the processors list, for rules about the processors as a whole
+ */
+function processorsPath(pipeline: ParsedPipeline): string | undefined {
+  return pipeline.processors ? 'pipeline.processors' : undefined;
+}
+
+/**
+ * Path resolver for the first top-level processor of a type
+ */
+function processorPath(type: string): (pipeline: ParsedPipeline) => string | undefined {
+  return (pipeline) => {
+    const index = pipeline.processors?.findIndex(p => p.type === type) ?? -1;
+    return index === -1 ? undefined : `pipeline.processors[${index}].${type}`;
+  };
+}
+
 // ============================================================================
 // Compatibility Rules
 // ============================================================================
@@ -188,6 +291,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
     condition: (pipeline) =>
       pipeline.output?.type === 'sync_response' &&
       pipeline.input?.type !== 'http_server',
+    path: outputPath,
     severity: 'error',
     message: 'sync_response output requires http_server input to work correctly',
     suggestion: 'Change input to http_server or use a different output type',
@@ -201,6 +305,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       pipeline.input?.type === 'http_server' &&
       pipeline.output?.type !== 'sync_response' &&
       !hasProcessor(pipeline, 'sync_response'),
+    path: inputPath,
     severity: 'info',
     message: 'http_server input without sync_response will not return responses to clients',
     suggestion: 'Add sync_response output or processor if you need request-reply pattern',
@@ -213,6 +318,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
     condition: (pipeline) =>
       (pipeline.output?.type === 'sync_response' || hasProcessor(pipeline, 'sync_response')) &&
       inputHasBatching(pipeline),
+    path: inputBatchingPath,
     severity: 'error',
     message: 'Batching on input is incompatible with sync_response pattern',
     suggestion: 'Remove batching from input when using sync_response',
@@ -229,6 +335,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       inputHasBatching(pipeline) &&
       pipeline.output?.type !== undefined &&
       !outputSupportsBatching(pipeline.output.type),
+    path: outputPath,
     severity: 'warning',
     message: `Output type may not efficiently handle batched messages`,
     suggestion: 'Consider adding batching to output or removing from input',
@@ -252,6 +359,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       // Warn if input has batching but output doesn't
       return inputBatch !== undefined && outputBatch === undefined;
     },
+    path: outputPath,
     severity: 'info',
     message: 'Kafka input has batching but output does not - consider output batching for efficiency',
     suggestion: 'Add batching to kafka output: batching: { count: 100, period: 1s }',
@@ -270,6 +378,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
         batchCount > 1000 &&
         smallOutputs.includes(pipeline.output?.type ?? '');
     },
+    path: inputBatchingPath,
     severity: 'warning',
     message: 'Large batch size (>1000) may cause issues with HTTP-based outputs',
     suggestion: 'Consider reducing batch size or using batching on output with byte_size limit',
@@ -285,6 +394,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       return batchConfig?.count !== undefined &&
         batchConfig?.period === undefined;
     },
+    path: inputBatchingPath,
     severity: 'info',
     message: 'Count-based batching without time period may cause messages to wait indefinitely',
     suggestion: 'Add period to batching: batching: { count: 100, period: 10s }',
@@ -317,6 +427,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       }
       return false;
     },
+    path: inputPath,
     severity: 'warning',
     message: 'CSV input already produces structured data - parse_json() is unnecessary',
     suggestion: 'Access CSV fields directly: root.field = this.column_name',
@@ -336,6 +447,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const hasDecompress = hasProcessor(pipeline, 'decompress');
       return hasCompress && !hasDecompress;
     },
+    path: processorPath('compress'),
     severity: 'error',
     message: 'Compressed data sent to JSON-based output will cause errors',
     suggestion: 'Add decompress processor before JSON output or use a binary-compatible output',
@@ -351,6 +463,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
         hasProcessor(pipeline, 'schema_registry_decode');
       return hasAvro && !hasSchemaRegistry;
     },
+    path: processorPath('avro'),
     severity: 'info',
     message: 'Using Avro processor without schema registry may cause schema evolution issues',
     suggestion: 'Consider using schema_registry_encode/decode for schema management',
@@ -366,6 +479,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const config = protoProc.config as Record<string, unknown>;
       return !config?.message && !config?.import_paths;
     },
+    path: processorPath('protobuf'),
     severity: 'error',
     message: 'Protobuf processor requires message type and schema configuration',
     suggestion: 'Add message type and import_paths to protobuf processor config',
@@ -389,6 +503,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
     name: 'Cache Processor Without Resource',
     description: 'Cache processor needs a defined cache resource',
     condition: (pipeline) => usesCacheProcessor(pipeline) && !hasCacheResources(pipeline),
+    path: processorPath('cache'),
     severity: 'error',
     message: 'Cache processor used without cache_resources definition',
     suggestion: 'Add cache_resources section with cache configuration',
@@ -402,6 +517,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const hasRateLimit = hasProcessor(pipeline, 'rate_limit');
       return hasRateLimit && !hasRateLimitResources(pipeline);
     },
+    path: processorPath('rate_limit'),
     severity: 'error',
     message: 'Rate limit processor used without rate_limit_resources definition',
     suggestion: 'Add rate_limit_resources section with rate limit configuration',
@@ -435,6 +551,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       }
       return false;
     },
+    path: processorPath('cache'),
     severity: 'info',
     message: 'Multiple cache operations on same resource - ensure key patterns do not conflict',
     suggestion: 'Consider using different key prefixes or separate cache resources',
@@ -453,6 +570,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const config = httpProc.config as Record<string, unknown>;
       return config?.retries === undefined && config?.retry === undefined;
     },
+    path: processorPath('http'),
     severity: 'info',
     message: 'HTTP processor without explicit retry configuration may fail on transient errors',
     suggestion: 'Add retries: 3 and retry_period: 1s to http processor config',
@@ -467,6 +585,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const hasCatch = hasProcessor(pipeline, 'catch');
       return hasTry && !hasCatch;
     },
+    path: processorPath('try'),
     severity: 'warning',
     message: 'try processor without catch - errors will propagate unhandled',
     suggestion: 'Add catch processor after try to handle errors gracefully',
@@ -486,6 +605,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       });
       return catchIndex !== -1 && tryIndex !== -1 && catchIndex < tryIndex;
     },
+    path: processorPath('catch'),
     severity: 'error',
     message: 'catch processor appears before try - catch must come after try',
     suggestion: 'Reorder processors: try should come before catch',
@@ -514,6 +634,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
         return false;
       });
     },
+    path: processorPath('parallel'),
     severity: 'warning',
     message: 'Blocking operations (http, sleep, subprocess) in parallel may exhaust resources',
     suggestion: 'Consider limiting parallel cap or using async patterns',
@@ -529,6 +650,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const config = parallelProc.config as Record<string, unknown>;
       return config?.cap === undefined;
     },
+    path: processorPath('parallel'),
     severity: 'warning',
     message: 'Parallel processor without cap may spawn unlimited goroutines',
     suggestion: 'Add cap to parallel processor: parallel: { cap: 10, processors: [...] }',
@@ -545,6 +667,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const branches = config?.branches as Record<string, unknown>;
       return branches && Object.keys(branches).length > 10;
     },
+    path: processorPath('workflow'),
     severity: 'info',
     message: 'Large workflow DAG (>10 branches) may be hard to debug and maintain',
     suggestion: 'Consider splitting into multiple pipelines or simplifying the workflow',
@@ -565,6 +688,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       }
       return parseCount > 2;
     },
+    path: processorsPath,
     severity: 'info',
     message: 'Multiple parse_json() calls detected - consider parsing once and storing in variable',
     suggestion: 'Use let: let data = this.parse_json(); then access $data.field',
@@ -585,6 +709,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       // Check for parallel or workflow that might reorder
       return hasProcessor(pipeline, 'parallel');
     },
+    path: processorPath('parallel'),
     severity: 'warning',
     message: 'CDC source with parallel processing may cause out-of-order updates',
     suggestion: 'Ensure ordering is preserved by using sequential processing or key-based partitioning',
@@ -603,6 +728,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const nonIdempotent = ['file', 'stdout', 'http_client'];
       return nonIdempotent.includes(pipeline.output?.type ?? '');
     },
+    path: outputPath,
     severity: 'warning',
     message: 'CDC source to non-idempotent output may cause duplicates on replay',
     suggestion: 'Use outputs that support upsert/idempotent writes (Kafka key, ES id, MongoDB upsert)',
@@ -623,6 +749,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       // Check if URL is HTTP without localhost
       return url.startsWith('http://') && !url.includes('localhost') && !url.includes('127.0.0.1');
     },
+    path: processorPath('http'),
     severity: 'warning',
     message: 'HTTP processor using non-TLS connection to external host',
     suggestion: 'Use HTTPS for external connections to protect data in transit',
@@ -641,11 +768,23 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const sensitivePatterns = ['password', 'secret', 'token', 'key', 'credential', 'ssn'];
       return sensitivePatterns.some(p => message.toLowerCase().includes(p));
     },
+    path: processorPath('log'),
     severity: 'warning',
     message: 'Log processor may expose sensitive data - review logged fields',
     suggestion: 'Redact sensitive fields before logging or use field-level masking',
   },
 
+  {
+    id: 'hardcoded-secret',
+    name: 'Hard-coded Secret',
+    description: 'Passwords, keys and connection string credentials should come from environment variables',
+    condition: (pipeline) => findSecrets(pipeline.raw).length > 0,
+    matches: (pipeline) => findSecrets(pipeline.raw),
+    severity: 'warning',
+    message: 'Hard-coded credential in pipeline config',
+    suggestion: 'Use environment variable interpolation, e.g. password: ${KAFKA_PASSWORD}',
+  },
+
   // ============================================================================
   // MESSAGING PATTERNS (27-28)
   // ============================================================================
@@ -660,6 +799,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const config = pipeline.input.config as Record<string, unknown>;
       return !config?.consumer_group;
     },
+    path: inputPath,
     severity: 'info',
     message: 'Kafka input without consumer_group will not commit offsets',
     suggestion: 'Add consumer_group for reliable offset tracking and scaling',
@@ -675,6 +815,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const config = natsProc.config as Record<string, unknown>;
       return !config?.timeout;
     },
+    path: processorPath('nats_request_reply'),
     severity: 'warning',
     message: 'NATS request-reply without timeout may hang indefinitely',
     suggestion: 'Add timeout: 5s to nats_request_reply processor',
@@ -696,6 +837,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       const lastCase = cases[cases.length - 1];
       return lastCase?.check !== undefined;
     },
+    path: outputPath,
     severity: 'warning',
     message: 'Switch output without default case - unmatched messages will error',
     suggestion: 'Add a default case without check: - output: drop: {}',
@@ -727,6 +869,7 @@ export const COMPATIBILITY_RULES: CompatibilityCheck[] = [
       }
       return hasFast && hasSlow;
     },
+    path: outputPath,
     severity: 'info',
     message: 'Fan-out broker with mixed output speeds - slow outputs may bottleneck fast ones',
     suggestion: 'Consider using broker with pattern: fan_out_sequential or separate pipelines',
@@ -745,12 +888,24 @@ export function checkCompatibility(pipeline: ParsedPipeline): CompatibilityWarni
 
   for (const rule of COMPATIBILITY_RULES) {
     try {
-      if (rule.condition(pipeline)) {
+      if (rule.condition(pipeline) && rule.matches) {
+        for (const match of rule.matches(pipeline)) {
+          warnings.push({
+            rule: rule.id,
+            severity: rule.severity,
+            message: match.message,
+            suggestion: match.suggestion ?? rule.suggestion,
+            path: match.path,
+          });
+        }
+      } else if (rule.condition(pipeline)) {
+        const path = rule.path?.(pipeline);
         warnings.push({
           rule: rule.id,
           severity: rule.severity,
           message: rule.message,
           suggestion: rule.suggestion,
+          ...(path ? { path } : {}),
         });
       }
     } catch {
@@ -853,12 +1008,70 @@ export function parsePipelineForCompatibility(config: Record<string, unknown>):
   return pipeline;
 }
 
+/**
+ * Whether a config path is the suppressed node or inside it
+ */
+function isWithin(path: string, node: string): boolean {
+  return path === node || path.startsWith(`${node}.`) || path.startsWith(`${node}[`);
+}
+
+/**
+ * Apply per-project rule severities and inline suppressions to warnings,
+ * recording what was suppressed and why
+ */
+export function applyRuleOptions(
+  warnings: CompatibilityWarning[],
+  options: CompatibilityOptions = {}
+): CompatibilityResult {
+  const result: CompatibilityResult = { warnings: [], suppressed: [] };
+
+  for (const warning of warnings) {
+    const severity = options.rules?.[warning.rule];
+    if (severity === 'off') {
+      result.suppressed.push({ rule: warning.rule, source: 'config', ...(warning.path ? { path: warning.path } : {}) });
+      continue;
+    }
+
+    const comment = warning.path
+      ? options.suppressions?.find(s => s.rules.includes(warning.rule) && isWithin(warning.path!, s.path))
+      : undefined;
+    if (comment) {
+      result.suppressed.push({ rule: warning.rule, source: 'comment', path: warning.path, line: comment.line });
+      continue;
+    }
+
+    result.warnings.push(severity ? { ...warning, severity } : warning);
+  }
+
+  return result;
+}
+
 /**
  * Check a raw pipeline config object for compatibility issues
  */
 export function checkPipelineCompatibility(config: Record<string, unknown>): CompatibilityWarning[] {
+  return checkPipelineCompatibilityWithOptions(config).warnings;
+}
+
+/**
+ * Check a raw pipeline config object for compatibility issues, including any
+ * custom rules. Rules can be disabled or re-graded per project and silenced
+ * per node with comments; the result lists what was suppressed.
+ */
+export function checkPipelineCompatibilityWithOptions(
+  config: Record<string, unknown>,
+  options: CompatibilityOptions = {}
+): CompatibilityResult {
   const parsed = parsePipelineForCompatibility(config);
-  return checkCompatibility(parsed);
+  const warnings = checkCompatibility(parsed);
+  for (const rule of options.customRules ?? []) {
+    try {
+      warnings.push(...rule.evaluate(parsed));
+    } catch {
+      // Same as the built-in rules: skip rules that fail to evaluate
+    }
+  }
+  return applyRuleOptions(warnings, options);
 }
 
 /**
@@ -892,3 +1105,22 @@ export function formatCompatibilityWarnings(warnings: CompatibilityWarning[]): s
 
   return lines.join('\n');
 }
+
+/**
+ * Format a rule's documentation as markdown
+ */
+export function formatCompatibilityRule(rule: CompatibilityCheck): string {
+  const lines = [
+    `# ${rule.name}`,
+    `Rule: ${rule.id}`,
+    `Severity: ${rule.severity}`,
+    '',
+    rule.description,
+    '',
+    `Message: ${rule.message}`,
+  ];
+  if (rule.suggestion) {
+    lines.push(`Suggestion: ${rule.suggestion}`);
+  }
+  return lines.join('\n');
+}
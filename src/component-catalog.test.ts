@@ -43,7 +43,7 @@ describe('list_components MCP tool', () => {
     });
 
     it('should have valid status for all entries', () => {
-      const validStatuses = ['stable', 'beta', 'experimental'];
+      const validStatuses = ['stable', 'beta', 'experimental', 'deprecated'];
       for (const entry of COMPONENT_CATALOG) {
         expect(
           validStatuses,
@@ -424,4 +424,47 @@ describe('list_components MCP tool', () => {
       expect(result.components.some(c => c.name === 'ollama_chat')).toBe(true);
     });
   });
+
+  describe('target version filtering', () => {
+    it('should hide components introduced after the target version', () => {
+      const result = listComponents({ category: 'input', targetVersion: '3.50.0' });
+      expect(result.components.some(c => c.name === 'kafka_franz')).toBe(false);
+      expect(result.components.some(c => c.name === 'kafka')).toBe(true);
+    });
+
+    it('should include them from the version they were introduced in', () => {
+      const result = listComponents({ category: 'input', targetVersion: '3.61.0' });
+      expect(result.components.some(c => c.name === 'kafka_franz')).toBe(true);
+    });
+
+    it('should show version info in the formatted list', () => {
+      const output = formatComponentList(listComponents({ search: 'kafka_franz' }));
+      expect(output).toContain('Versions: introduced 3.61.0');
+    });
+
+    it('should list the components it could not check against the target version', () => {
+      const result = listComponents({ category: 'input', targetVersion: '3.61.0' });
+      expect(result.unversioned).toContain('stdin (input)');
+      expect(result.unversioned).not.toContain('kafka_franz (input)');
+
+      const output = formatComponentList(result);
+      expect(output).toContain('have no version data and were listed without checking 3.61.0');
+      expect(output).toContain('Versions: unknown');
+      expect(formatComponentList(listComponents({ category: 'input' }))).not.toContain('Versions: unknown');
+    });
+  });
+
+  describe('deprecated components', () => {
+    it('should mark legacy components deprecated with a replacement', () => {
+      const bloblang = COMPONENT_CATALOG.find(c => c.name === 'bloblang' && c.category === 'processor');
+      expect(bloblang?.status).toBe('deprecated');
+      expect(bloblang?.deprecation?.replacement).toBe('mapping');
+    });
+
+    it('should list deprecated components in their own section', () => {
+      const formatted = formatComponentList(listComponents({ search: 'nats_stream' }));
+      expect(formatted).toContain('## Deprecated');
+      expect(formatted).toContain('Use instead: nats_jetstream');
+    });
+  });
 });
@@ -5,9 +5,13 @@
  * for the list_components MCP tool. Provides discovery by category, tag, and search.
  *
  * Tags: messaging, cloud, database, http, file, ai, transform, utility, observability
- * Status: stable (production ready), beta (feature complete, testing), experimental (early development)
+ * Status: stable (production ready), beta (feature complete, testing), experimental (early development),
+ *         deprecated (still works; see deprecation for the replacement)
+ * Versions: introduced/deprecated/removed record the release a component changed in
  */
 
+import { formatVersionInfo, hasVersionInfo, isAvailableAt, type VersionInfo } from './versioning';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -29,9 +33,9 @@ export type ComponentTag =
   | 'azure'
   | 'streaming';
 
-export type ComponentStatus = 'stable' | 'beta' | 'experimental';
+export type ComponentStatus = 'stable' | 'beta' | 'experimental' | 'deprecated';
 
-export interface CatalogEntry {
+export interface CatalogEntry extends VersionInfo {
   name: string;
   category: ComponentCategory;
   description: string;
@@ -47,12 +51,12 @@ const INPUT_CATALOG: CatalogEntry[] = [
   // Messaging
   { name: 'amqp_0_9', category: 'input', description: 'Consume from AMQP 0.9.1 queues (RabbitMQ)', tags: ['messaging'], status: 'stable' },
   { name: 'amqp_1', category: 'input', description: 'Consume from AMQP 1.0 queues', tags: ['messaging'], status: 'stable' },
-  { name: 'kafka', category: 'input', description: 'Consume from Kafka topics', tags: ['messaging', 'streaming'], status: 'stable' },
-  { name: 'kafka_franz', category: 'input', description: 'High-performance Kafka consumer using franz-go', tags: ['messaging', 'streaming'], status: 'stable' },
+  { name: 'kafka', category: 'input', description: 'Consume from Kafka topics', tags: ['messaging', 'streaming'], status: 'deprecated', deprecation: { replacement: 'kafka_franz', note: 'kafka_franz takes seed_brokers instead of addresses' } },
+  { name: 'kafka_franz', category: 'input', description: 'High-performance Kafka consumer using franz-go', tags: ['messaging', 'streaming'], status: 'stable', introduced: '3.61.0' },
   { name: 'nats', category: 'input', description: 'Subscribe to NATS subjects', tags: ['messaging'], status: 'stable' },
-  { name: 'nats_jetstream', category: 'input', description: 'Consume from NATS JetStream streams', tags: ['messaging', 'streaming'], status: 'stable' },
-  { name: 'nats_kv', category: 'input', description: 'Watch NATS Key-Value store changes', tags: ['messaging', 'database'], status: 'stable' },
-  { name: 'nats_stream', category: 'input', description: 'Consume from legacy NATS Streaming', tags: ['messaging', 'streaming'], status: 'stable' },
+  { name: 'nats_jetstream', category: 'input', description: 'Consume from NATS JetStream streams', tags: ['messaging', 'streaming'], status: 'stable', introduced: '3.46.0' },
+  { name: 'nats_kv', category: 'input', description: 'Watch NATS Key-Value store changes', tags: ['messaging', 'database'], status: 'stable', introduced: '4.12.0' },
+  { name: 'nats_stream', category: 'input', description: 'Consume from legacy NATS Streaming', tags: ['messaging', 'streaming'], status: 'deprecated', deprecation: { replacement: 'nats_jetstream', note: 'NATS Streaming (STAN) is end of life; migrate the stream to JetStream' } },
   { name: 'nsq', category: 'input', description: 'Consume from NSQ topics', tags: ['messaging'], status: 'stable' },
   { name: 'pulsar', category: 'input', description: 'Consume from Apache Pulsar topics', tags: ['messaging', 'streaming'], status: 'stable' },
   { name: 'redis_list', category: 'input', description: 'Pop messages from Redis lists', tags: ['messaging', 'database'], status: 'stable' },
@@ -67,9 +71,9 @@ const INPUT_CATALOG: CatalogEntry[] = [
   { name: 'beanstalkd', category: 'input', description: 'Reserve jobs from Beanstalkd queues', tags: ['messaging'], status: 'stable' },
 
   // Cloud Storage
-  { name: 'aws_s3', category: 'input', description: 'Read objects from AWS S3 buckets', tags: ['cloud', 'aws', 'file'], status: 'stable' },
-  { name: 'aws_kinesis', category: 'input', description: 'Consume from AWS Kinesis streams', tags: ['cloud', 'aws', 'streaming'], status: 'stable' },
-  { name: 'aws_sqs', category: 'input', description: 'Receive messages from AWS SQS queues', tags: ['cloud', 'aws', 'messaging'], status: 'stable' },
+  { name: 'aws_s3', category: 'input', description: 'Read objects from AWS S3 buckets', tags: ['cloud', 'aws', 'file'], status: 'stable', introduced: '3.36.0' },
+  { name: 'aws_kinesis', category: 'input', description: 'Consume from AWS Kinesis streams', tags: ['cloud', 'aws', 'streaming'], status: 'stable', introduced: '3.36.0' },
+  { name: 'aws_sqs', category: 'input', description: 'Receive messages from AWS SQS queues', tags: ['cloud', 'aws', 'messaging'], status: 'stable', introduced: '3.36.0' },
   { name: 'gcp_cloud_storage', category: 'input', description: 'Read objects from Google Cloud Storage', tags: ['cloud', 'gcp', 'file'], status: 'stable' },
   { name: 'gcp_pubsub', category: 'input', description: 'Subscribe to Google Cloud Pub/Sub', tags: ['cloud', 'gcp', 'messaging'], status: 'stable' },
   { name: 'gcp_bigquery_select', category: 'input', description: 'Query data from Google BigQuery', tags: ['cloud', 'gcp', 'database'], status: 'stable' },
@@ -83,7 +87,7 @@ const INPUT_CATALOG: CatalogEntry[] = [
   { name: 'mongodb_cdc', category: 'input', description: 'Capture MongoDB change stream events', tags: ['database', 'streaming'], status: 'stable' },
   { name: 'cassandra', category: 'input', description: 'Query data from Apache Cassandra', tags: ['database'], status: 'stable' },
   { name: 'sql_raw', category: 'input', description: 'Execute raw SQL queries', tags: ['database'], status: 'stable' },
-  { name: 'sql_select', category: 'input', description: 'Run SQL SELECT queries', tags: ['database'], status: 'stable' },
+  { name: 'sql_select', category: 'input', description: 'Run SQL SELECT queries', tags: ['database'], status: 'stable', introduced: '3.59.0' },
   { name: 'mysql_cdc', category: 'input', description: 'Capture MySQL change data events', tags: ['database', 'streaming'], status: 'stable' },
   { name: 'postgres_cdc', category: 'input', description: 'Capture PostgreSQL change data events', tags: ['database', 'streaming'], status: 'stable' },
   { name: 'cockroachdb_changefeed', category: 'input', description: 'Consume CockroachDB changefeeds', tags: ['database', 'streaming'], status: 'stable' },
@@ -135,13 +139,13 @@ const INPUT_CATALOG: CatalogEntry[] = [
 
 const PROCESSOR_CATALOG: CatalogEntry[] = [
   // Data Transformation
-  { name: 'mapping', category: 'processor', description: 'Transform messages using Bloblang', tags: ['transform'], status: 'stable' },
-  { name: 'bloblang', category: 'processor', description: 'Execute Bloblang expressions', tags: ['transform'], status: 'stable' },
+  { name: 'mapping', category: 'processor', description: 'Transform messages using Bloblang', tags: ['transform'], status: 'stable', introduced: '4.5.0' },
+  { name: 'bloblang', category: 'processor', description: 'Execute Bloblang expressions', tags: ['transform'], status: 'deprecated', deprecation: { replacement: 'mapping', autoFix: true } },
   { name: 'jq', category: 'processor', description: 'Transform JSON using jq queries', tags: ['transform'], status: 'stable' },
   { name: 'jmespath', category: 'processor', description: 'Query JSON with JMESPath', tags: ['transform'], status: 'stable' },
   { name: 'awk', category: 'processor', description: 'Process text using AWK', tags: ['transform'], status: 'stable' },
   { name: 'javascript', category: 'processor', description: 'Execute JavaScript code', tags: ['transform'], status: 'beta' },
-  { name: 'mutation', category: 'processor', description: 'Mutate message fields', tags: ['transform'], status: 'stable' },
+  { name: 'mutation', category: 'processor', description: 'Mutate message fields', tags: ['transform'], status: 'stable', introduced: '4.5.0' },
   { name: 'xml', category: 'processor', description: 'Parse and query XML documents', tags: ['transform'], status: 'stable' },
   { name: 'json_schema', category: 'processor', description: 'Validate JSON against schemas', tags: ['transform'], status: 'stable' },
   { name: 'protobuf', category: 'processor', description: 'Encode/decode Protocol Buffers', tags: ['transform'], status: 'stable' },
@@ -155,8 +159,8 @@ const PROCESSOR_CATALOG: CatalogEntry[] = [
   { name: 'decompress', category: 'processor', description: 'Decompress message content', tags: ['transform'], status: 'stable' },
   { name: 'archive', category: 'processor', description: 'Archive messages into tar/zip', tags: ['transform', 'file'], status: 'stable' },
   { name: 'unarchive', category: 'processor', description: 'Extract messages from archives', tags: ['transform', 'file'], status: 'stable' },
-  { name: 'parquet_encode', category: 'processor', description: 'Encode messages as Parquet', tags: ['transform', 'file'], status: 'stable' },
-  { name: 'parquet_decode', category: 'processor', description: 'Decode Parquet to messages', tags: ['transform', 'file'], status: 'stable' },
+  { name: 'parquet_encode', category: 'processor', description: 'Encode messages as Parquet', tags: ['transform', 'file'], status: 'stable', introduced: '4.4.0' },
+  { name: 'parquet_decode', category: 'processor', description: 'Decode Parquet to messages', tags: ['transform', 'file'], status: 'stable', introduced: '4.4.0' },
   { name: 'schema_registry_encode', category: 'processor', description: 'Encode with Schema Registry', tags: ['transform', 'streaming'], status: 'stable' },
   { name: 'schema_registry_decode', category: 'processor', description: 'Decode with Schema Registry', tags: ['transform', 'streaming'], status: 'stable' },
 
@@ -183,7 +187,7 @@ const PROCESSOR_CATALOG: CatalogEntry[] = [
 
   // Caching/State
   { name: 'cache', category: 'processor', description: 'Get/set values in caches', tags: ['utility', 'database'], status: 'stable' },
-  { name: 'cached', category: 'processor', description: 'Cache processor results', tags: ['utility'], status: 'stable' },
+  { name: 'cached', category: 'processor', description: 'Cache processor results', tags: ['utility'], status: 'stable', introduced: '4.3.0' },
   { name: 'rate_limit', category: 'processor', description: 'Apply rate limiting', tags: ['utility'], status: 'stable' },
 
   // External Services - HTTP
@@ -197,13 +201,13 @@ const PROCESSOR_CATALOG: CatalogEntry[] = [
   // External Services - Databases
   { name: 'redis', category: 'processor', description: 'Execute Redis commands', tags: ['database'], status: 'stable' },
   { name: 'redis_script', category: 'processor', description: 'Run Redis Lua scripts', tags: ['database'], status: 'stable' },
-  { name: 'sql_insert', category: 'processor', description: 'Insert data into SQL databases', tags: ['database'], status: 'stable' },
-  { name: 'sql_raw', category: 'processor', description: 'Execute raw SQL queries', tags: ['database'], status: 'stable' },
-  { name: 'sql_select', category: 'processor', description: 'Run SQL SELECT queries', tags: ['database'], status: 'stable' },
+  { name: 'sql_insert', category: 'processor', description: 'Insert data into SQL databases', tags: ['database'], status: 'stable', introduced: '3.59.0' },
+  { name: 'sql_raw', category: 'processor', description: 'Execute raw SQL queries', tags: ['database'], status: 'stable', introduced: '3.65.0' },
+  { name: 'sql_select', category: 'processor', description: 'Run SQL SELECT queries', tags: ['database'], status: 'stable', introduced: '3.59.0' },
   { name: 'couchbase', category: 'processor', description: 'Execute Couchbase operations', tags: ['database'], status: 'stable' },
   { name: 'azure_cosmosdb', category: 'processor', description: 'Query Azure Cosmos DB', tags: ['cloud', 'azure', 'database'], status: 'stable' },
   { name: 'mongodb', category: 'processor', description: 'Execute MongoDB operations', tags: ['database'], status: 'stable' },
-  { name: 'nats_kv', category: 'processor', description: 'Read/write NATS Key-Value', tags: ['messaging', 'database'], status: 'stable' },
+  { name: 'nats_kv', category: 'processor', description: 'Read/write NATS Key-Value', tags: ['messaging', 'database'], status: 'stable', introduced: '4.12.0' },
   { name: 'nats_request_reply', category: 'processor', description: 'NATS request-reply pattern', tags: ['messaging'], status: 'stable' },
   { name: 'jira', category: 'processor', description: 'Create/update Jira issues', tags: ['http'], status: 'beta' },
   { name: 'aws_dynamodb_partiql', category: 'processor', description: 'Query DynamoDB with PartiQL', tags: ['cloud', 'aws', 'database'], status: 'stable' },
@@ -256,12 +260,12 @@ const OUTPUT_CATALOG: CatalogEntry[] = [
   // Messaging
   { name: 'amqp_0_9', category: 'output', description: 'Publish to AMQP 0.9.1 queues', tags: ['messaging'], status: 'stable' },
   { name: 'amqp_1', category: 'output', description: 'Publish to AMQP 1.0 queues', tags: ['messaging'], status: 'stable' },
-  { name: 'kafka', category: 'output', description: 'Produce to Kafka topics', tags: ['messaging', 'streaming'], status: 'stable' },
-  { name: 'kafka_franz', category: 'output', description: 'High-performance Kafka producer', tags: ['messaging', 'streaming'], status: 'stable' },
+  { name: 'kafka', category: 'output', description: 'Produce to Kafka topics', tags: ['messaging', 'streaming'], status: 'deprecated', deprecation: { replacement: 'kafka_franz', note: 'kafka_franz takes seed_brokers instead of addresses' } },
+  { name: 'kafka_franz', category: 'output', description: 'High-performance Kafka producer', tags: ['messaging', 'streaming'], status: 'stable', introduced: '3.61.0' },
   { name: 'nats', category: 'output', description: 'Publish to NATS subjects', tags: ['messaging'], status: 'stable' },
-  { name: 'nats_jetstream', category: 'output', description: 'Publish to NATS JetStream', tags: ['messaging', 'streaming'], status: 'stable' },
-  { name: 'nats_kv', category: 'output', description: 'Write to NATS Key-Value store', tags: ['messaging', 'database'], status: 'stable' },
-  { name: 'nats_stream', category: 'output', description: 'Publish to NATS Streaming', tags: ['messaging', 'streaming'], status: 'stable' },
+  { name: 'nats_jetstream', category: 'output', description: 'Publish to NATS JetStream', tags: ['messaging', 'streaming'], status: 'stable', introduced: '3.46.0' },
+  { name: 'nats_kv', category: 'output', description: 'Write to NATS Key-Value store', tags: ['messaging', 'database'], status: 'stable', introduced: '4.12.0' },
+  { name: 'nats_stream', category: 'output', description: 'Publish to NATS Streaming', tags: ['messaging', 'streaming'], status: 'deprecated', deprecation: { replacement: 'nats_jetstream', note: 'NATS Streaming (STAN) is end of life; migrate the stream to JetStream' } },
   { name: 'nsq', category: 'output', description: 'Publish to NSQ topics', tags: ['messaging'], status: 'stable' },
   { name: 'pulsar', category: 'output', description: 'Produce to Apache Pulsar', tags: ['messaging', 'streaming'], status: 'stable' },
   { name: 'redis_list', category: 'output', description: 'Push to Redis lists', tags: ['messaging', 'database'], status: 'stable' },
@@ -277,10 +281,10 @@ const OUTPUT_CATALOG: CatalogEntry[] = [
   { name: 'pusher', category: 'output', description: 'Push to Pusher channels', tags: ['messaging', 'http'], status: 'stable' },
 
   // Cloud Storage
-  { name: 'aws_s3', category: 'output', description: 'Upload objects to AWS S3', tags: ['cloud', 'aws', 'file'], status: 'stable' },
-  { name: 'aws_kinesis', category: 'output', description: 'Put records to Kinesis', tags: ['cloud', 'aws', 'streaming'], status: 'stable' },
+  { name: 'aws_s3', category: 'output', description: 'Upload objects to AWS S3', tags: ['cloud', 'aws', 'file'], status: 'stable', introduced: '3.36.0' },
+  { name: 'aws_kinesis', category: 'output', description: 'Put records to Kinesis', tags: ['cloud', 'aws', 'streaming'], status: 'stable', introduced: '3.36.0' },
   { name: 'aws_kinesis_firehose', category: 'output', description: 'Send to Kinesis Firehose', tags: ['cloud', 'aws', 'streaming'], status: 'stable' },
-  { name: 'aws_sqs', category: 'output', description: 'Send to AWS SQS queues', tags: ['cloud', 'aws', 'messaging'], status: 'stable' },
+  { name: 'aws_sqs', category: 'output', description: 'Send to AWS SQS queues', tags: ['cloud', 'aws', 'messaging'], status: 'stable', introduced: '3.36.0' },
   { name: 'aws_sns', category: 'output', description: 'Publish to AWS SNS topics', tags: ['cloud', 'aws', 'messaging'], status: 'stable' },
   { name: 'aws_dynamodb', category: 'output', description: 'Write to DynamoDB tables', tags: ['cloud', 'aws', 'database'], status: 'stable' },
   { name: 'gcp_cloud_storage', category: 'output', description: 'Upload to Cloud Storage', tags: ['cloud', 'gcp', 'file'], status: 'stable' },
@@ -296,8 +300,8 @@ const OUTPUT_CATALOG: CatalogEntry[] = [
   { name: 'mongodb', category: 'output', description: 'Insert documents to MongoDB', tags: ['database'], status: 'stable' },
   { name: 'elasticsearch_v8', category: 'output', description: 'Index to Elasticsearch 8.x', tags: ['database'], status: 'stable' },
   { name: 'opensearch', category: 'output', description: 'Index to OpenSearch', tags: ['database'], status: 'stable' },
-  { name: 'sql_insert', category: 'output', description: 'Insert into SQL databases', tags: ['database'], status: 'stable' },
-  { name: 'sql_raw', category: 'output', description: 'Execute raw SQL statements', tags: ['database'], status: 'stable' },
+  { name: 'sql_insert', category: 'output', description: 'Insert into SQL databases', tags: ['database'], status: 'stable', introduced: '3.59.0' },
+  { name: 'sql_raw', category: 'output', description: 'Execute raw SQL statements', tags: ['database'], status: 'stable', introduced: '3.65.0' },
   { name: 'couchbase', category: 'output', description: 'Write to Couchbase', tags: ['database'], status: 'stable' },
   { name: 'questdb', category: 'output', description: 'Write to QuestDB', tags: ['database'], status: 'stable' },
   { name: 'snowflake_put', category: 'output', description: 'Stage files to Snowflake', tags: ['cloud', 'database'], status: 'stable' },
@@ -391,19 +395,25 @@ export interface ListComponentsOptions {
   category?: ComponentCategory | 'all';
   tag?: ComponentTag;
   search?: string;
+  /** Only include components available on this version */
+  targetVersion?: string;
 }
 
 export interface ListComponentsResult {
   category: string;
   count: number;
   components: CatalogEntry[];
+  /** Version the list was filtered for */
+  targetVersion?: string;
+  /** Listed components with no version data, so not checked against targetVersion */
+  unversioned?: string[];
 }
 
 /**
  * List components with optional filtering by category, tag, and search term.
  */
 export function listComponents(options: ListComponentsOptions = {}): ListComponentsResult {
-  const { category = 'all', tag, search } = options;
+  const { category = 'all', tag, search, targetVersion } = options;
 
   let results: CatalogEntry[];
 
@@ -430,14 +440,31 @@ export function listComponents(options: ListComponentsOptions = {}): ListCompone
     );
   }
 
+  // Drop components not yet introduced or already removed on the target version
+  if (targetVersion) {
+    results = results.filter((e) => isAvailableAt(e, targetVersion));
+  }
+
   // Sort by name for consistent output
   results.sort((a, b) => a.name.localeCompare(b.name));
 
-  return {
+  const result: ListComponentsResult = {
     category: category === 'all' ? 'all' : category,
     count: results.length,
     components: results,
   };
+  if (targetVersion) {
+    result.targetVersion = targetVersion;
+    result.unversioned = results.filter((e) => !hasVersionInfo(e)).map((e) => `${e.name} (${e.category})`);
+  }
+  return result;
+}
+
+/**
+ * Look up a catalog entry by name and category.
+ */
+export function getCatalogEntry(name: string, category: ComponentCategory): CatalogEntry | undefined {
+  return BY_NAME.get(name)?.find((e) => e.category === category);
 }
 
 /**
@@ -472,17 +499,26 @@ export function formatComponentList(result: ListComponentsResult): string {
 
   lines.push(`# ${result.category === 'all' ? 'All' : result.category.charAt(0).toUpperCase() + result.category.slice(1)} Components`);
   lines.push(`Found ${result.count} components\n`);
+  if (result.unversioned?.length) {
+    lines.push(
+      `${result.unversioned.length} of them have no version data and were listed without checking ${result.targetVersion} (Versions: unknown)\n`
+    );
+  }
 
   // Group by status for better readability
   const stable = result.components.filter((c) => c.status === 'stable');
   const beta = result.components.filter((c) => c.status === 'beta');
   const experimental = result.components.filter((c) => c.status === 'experimental');
+  const deprecated = result.components.filter((c) => c.status === 'deprecated');
 
   if (stable.length > 0) {
     lines.push('## Stable');
     for (const c of stable) {
       lines.push(`- **${c.name}** (${c.category}): ${c.description}`);
       lines.push(`  Tags: ${c.tags.join(', ')}`);
+      const versions = formatVersionInfo(c);
+      if (versions) lines.push(`  Versions: ${versions}`);
+      else if (result.targetVersion) lines.push('  Versions: unknown');
     }
     lines.push('');
   }
@@ -492,6 +528,9 @@ export function formatComponentList(result: ListComponentsResult): string {
     for (const c of beta) {
       lines.push(`- **${c.name}** (${c.category}): ${c.description}`);
       lines.push(`  Tags: ${c.tags.join(', ')}`);
+      const versions = formatVersionInfo(c);
+      if (versions) lines.push(`  Versions: ${versions}`);
+      else if (result.targetVersion) lines.push('  Versions: unknown');
     }
     lines.push('');
   }
@@ -501,6 +540,19 @@ export function formatComponentList(result: ListComponentsResult): string {
     for (const c of experimental) {
       lines.push(`- **${c.name}** (${c.category}): ${c.description}`);
       lines.push(`  Tags: ${c.tags.join(', ')}`);
+      const versions = formatVersionInfo(c);
+      if (versions) lines.push(`  Versions: ${versions}`);
+      else if (result.targetVersion) lines.push('  Versions: unknown');
+    }
+    lines.push('');
+  }
+
+  if (deprecated.length > 0) {
+    lines.push('## Deprecated');
+    for (const c of deprecated) {
+      lines.push(`- **${c.name}** (${c.category}): ${c.description}`);
+      if (c.deprecation?.replacement) lines.push(`  Use instead: ${c.deprecation.replacement}`);
+      if (c.deprecation?.note) lines.push(`  ${c.deprecation.note}`);
     }
     lines.push('');
   }
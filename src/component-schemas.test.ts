@@ -8,8 +8,10 @@ import {
   getComponentSchema,
   getSchemasByCategory,
   listComponentNames,
+  listUnversionedComponentNames,
   searchComponents,
   formatComponentSchema,
+  schemaAtVersion,
   COMPONENT_SCHEMAS,
 } from './component-schemas';
 
@@ -93,6 +95,13 @@ describe('get_component_schema MCP tool', () => {
       expect(schemas.every((s) => s.category === 'output')).toBe(true);
     });
 
+    it('should return cache and rate limit resource schemas', () => {
+      const caches = getSchemasByCategory('cache').map((s) => s.name);
+      expect(caches).toEqual(expect.arrayContaining(['memory', 'redis', 'memcached', 'aws_dynamodb', 'file']));
+      expect(getSchemasByCategory('rate_limit').map((s) => s.name)).toContain('local');
+      expect(getComponentSchema('redis', 'cache')?.fields.url.required).toBe(true);
+    });
+
     it('should include common components in each category', () => {
       const inputs = getSchemasByCategory('input');
       const processors = getSchemasByCategory('processor');
@@ -247,6 +256,24 @@ describe('get_component_schema MCP tool', () => {
     });
   });
 
+  describe('generated schemas', () => {
+    it('should cover components without a hand-written schema', () => {
+      expect(getComponentSchema('kafka_franz', 'input')?.fields.seed_brokers?.required).toBe(true);
+      expect(getComponentSchema('amqp_0_9', 'output')?.fields.exchange).toBeDefined();
+      expect(getComponentSchema('dedupe', 'processor')?.fields.drop_on_err?.type).toBe('boolean');
+      expect(getComponentSchema('lru', 'cache')?.fields.cap?.default).toBe(1000);
+      expect(getComponentSchema('memory', 'buffer')?.fields.limit).toBeDefined();
+    });
+
+    it('should fill gaps in hand-written schemas without overriding them', () => {
+      const kafka = getComponentSchema('kafka', 'input');
+      expect(kafka?.fields.batching?.type).toBe('object');
+      expect(kafka?.fields.addresses?.required).toBe(true);
+      expect(getComponentSchema('aws_s3', 'input')?.fields.scanner).toBeDefined();
+      expect(getComponentSchema('http_client', 'output')?.fields.max_in_flight).toBeDefined();
+    });
+  });
+
   describe('required fields validation', () => {
     it('kafka input should require addresses and topics', () => {
       const schema = getComponentSchema('kafka', 'input');
@@ -298,4 +325,40 @@ describe('get_component_schema MCP tool', () => {
       expect(schema?.fields.level.enum).toContain('DEBUG');
     });
   });
+
+  describe('target version', () => {
+    it('should drop fields introduced after the target version', () => {
+      const schema = getComponentSchema('log', 'processor')!;
+      expect(schemaAtVersion(schema, '3.30.0')?.fields.fields_mapping).toBeUndefined();
+      expect(schemaAtVersion(schema, '4.0.0')?.fields.fields_mapping).toBeDefined();
+    });
+
+    it('should return undefined for components unavailable on the target version', () => {
+      const schema = getComponentSchema('mapping', 'processor')!;
+      expect(schemaAtVersion(schema, '4.4.0')).toBeUndefined();
+      expect(schemaAtVersion(schema, '4.5.0')?.introduced).toBe('4.5.0');
+    });
+
+    it('should filter component names by target version', () => {
+      expect(listComponentNames('processor', '4.0.0')).not.toContain('mapping');
+      expect(listComponentNames('processor', '4.0.0')).toContain('jq');
+      expect(listComponentNames('processor')).toContain('mapping');
+    });
+
+    it('should show versions in the formatted schema', () => {
+      expect(formatComponentSchema(getComponentSchema('mapping')!)).toContain('Versions: introduced 4.5.0');
+    });
+
+    it('should say when the target version could not be checked', () => {
+      const formatted = formatComponentSchema(getComponentSchema('jq', 'processor')!, '4.0.0');
+      expect(formatted).toContain('Versions: unknown, availability on 4.0.0 was not checked');
+      expect(formatted).toContain('Fields without a Versions line have no version data');
+      expect(formatComponentSchema(getComponentSchema('jq', 'processor')!)).not.toContain('Versions: unknown');
+    });
+
+    it('should list component names without version data', () => {
+      expect(listUnversionedComponentNames('processor')).toContain('jq');
+      expect(listUnversionedComponentNames('processor')).not.toContain('mapping');
+    });
+  });
 });
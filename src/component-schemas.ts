@@ -5,6 +5,11 @@
  * Used by the get_component_schema MCP tool to help LLMs generate correct configurations.
  */
 
+import { GENERATED_SCHEMAS } from './component-schemas-data';
+import { mergeSchemaRegistries } from './schema-import';
+import { getCatalogEntry } from './component-catalog';
+import { formatVersionInfo, hasVersionInfo, isAvailableAt, pickVersionInfo, type VersionInfo } from './versioning';
+
 // ============================================================================
 // Schema Types
 // ============================================================================
@@ -19,18 +24,19 @@ export type FieldType =
   | 'bloblang'
   | 'interpolated_string';
 
-export interface FieldSchema {
+export interface FieldSchema extends VersionInfo {
   type: FieldType;
   description: string;
   required?: boolean;
   default?: unknown;
   enum?: string[];
+  caseInsensitive?: boolean; // Match enum values ignoring case
   items?: FieldSchema; // For array types
   properties?: Record<string, FieldSchema>; // For object types
   examples?: unknown[];
 }
 
-export interface ComponentSchema {
+export interface ComponentSchema extends VersionInfo {
   name: string;
   description: string;
   category: 'input' | 'processor' | 'output' | 'cache' | 'rate_limit' | 'buffer';
@@ -533,6 +539,16 @@ const PROCESSOR_SCHEMAS: Record<string, ComponentSchema> = {
         type: 'bloblang',
         description: 'Mapping to extract structured log fields',
         required: false,
+        introduced: '3.40.0',
+      },
+      fields: {
+        type: 'object',
+        description: 'Map of structured log fields with interpolated values',
+        required: false,
+        deprecation: {
+          replacement: 'fields_mapping',
+          note: 'Rewrite the map as a mapping, e.g. root.id = this.id',
+        },
       },
     },
   },
@@ -992,18 +1008,313 @@ const OUTPUT_SCHEMAS: Record<string, ComponentSchema> = {
 };
 
 // ============================================================================
-// Category-specific Registries (to handle components that exist in multiple categories)
+// Cache Resource Schemas
+// ============================================================================
+
+const CACHE_SCHEMAS: Record<string, ComponentSchema> = {
+  memory: {
+    name: 'memory',
+    description: 'Stores key/value pairs in an in-process map. Lost on restart.',
+    category: 'cache',
+    docs_url: 'https://docs.expanso.io/components/caches/memory',
+    fields: {
+      default_ttl: {
+        type: 'duration',
+        description: 'Default TTL for stored items',
+        required: false,
+        default: '5m',
+        examples: ['5m', '1h'],
+      },
+      compaction_interval: {
+        type: 'duration',
+        description: 'How often expired items are removed',
+        required: false,
+        default: '60s',
+      },
+      init_values: {
+        type: 'object',
+        description: 'Key/value pairs to populate the cache with on startup',
+        required: false,
+      },
+      shards: {
+        type: 'number',
+        description: 'Number of shards to split the cache into (reduces lock contention)',
+        required: false,
+        default: 1,
+      },
+    },
+    examples: [
+      `cache_resources:
+  - label: dedupe_cache
+    memory:
+      default_ttl: 5m`,
+    ],
+  },
+
+  redis: {
+    name: 'redis',
+    description: 'Stores key/value pairs in a Redis server or cluster.',
+    category: 'cache',
+    docs_url: 'https://docs.expanso.io/components/caches/redis',
+    fields: {
+      url: {
+        type: 'string',
+        description: 'Redis server URL',
+        required: true,
+        examples: ['redis://localhost:6379'],
+      },
+      kind: {
+        type: 'string',
+        description: 'Type of Redis deployment',
+        required: false,
+        default: 'simple',
+        enum: ['simple', 'cluster', 'failover'],
+      },
+      master: {
+        type: 'string',
+        description: 'Name of the master node (failover only)',
+        required: false,
+      },
+      prefix: {
+        type: 'string',
+        description: 'Prefix added to all keys',
+        required: false,
+      },
+      default_ttl: {
+        type: 'duration',
+        description: 'Default TTL for stored items',
+        required: false,
+      },
+      expiration: {
+        type: 'duration',
+        description: 'Default TTL for stored items',
+        required: false,
+        deprecation: { replacement: 'default_ttl', autoFix: true },
+      },
+      tls: {
+        type: 'object',
+        description: 'TLS configuration',
+        required: false,
+      },
+      retries: {
+        type: 'object',
+        description: 'Retry policy for failed requests',
+        required: false,
+      },
+    },
+    examples: [
+      `cache_resources:
+  - label: shared_cache
+    redis:
+      url: redis://localhost:6379
+      prefix: enrich_`,
+    ],
+  },
+
+  memcached: {
+    name: 'memcached',
+    description: 'Stores key/value pairs in memcached servers.',
+    category: 'cache',
+    docs_url: 'https://docs.expanso.io/components/caches/memcached',
+    fields: {
+      addresses: {
+        type: 'array',
+        description: 'List of memcached server addresses',
+        required: true,
+        items: { type: 'string', description: 'Server address (host:port)' },
+        examples: [['localhost:11211']],
+      },
+      prefix: {
+        type: 'string',
+        description: 'Prefix added to all keys',
+        required: false,
+      },
+      default_ttl: {
+        type: 'duration',
+        description: 'Default TTL for stored items',
+        required: false,
+        default: '300s',
+      },
+      retries: {
+        type: 'object',
+        description: 'Retry policy for failed requests',
+        required: false,
+      },
+    },
+  },
+
+  aws_dynamodb: {
+    name: 'aws_dynamodb',
+    description: 'Stores key/value pairs as items in a DynamoDB table.',
+    category: 'cache',
+    docs_url: 'https://docs.expanso.io/components/caches/aws_dynamodb',
+    fields: {
+      table: {
+        type: 'string',
+        description: 'DynamoDB table name',
+        required: true,
+      },
+      hash_key: {
+        type: 'string',
+        description: 'Attribute holding the cache key',
+        required: true,
+      },
+      data_key: {
+        type: 'string',
+        description: 'Attribute holding the cached value',
+        required: true,
+      },
+      consistent_read: {
+        type: 'boolean',
+        description: 'Use strongly consistent reads',
+        required: false,
+        default: false,
+      },
+      default_ttl: {
+        type: 'duration',
+        description: 'Default TTL for stored items (requires ttl_key)',
+        required: false,
+      },
+      ttl_key: {
+        type: 'string',
+        description: 'Attribute used for DynamoDB TTL expiry',
+        required: false,
+      },
+      region: {
+        type: 'string',
+        description: 'AWS region',
+        required: false,
+      },
+      endpoint: {
+        type: 'string',
+        description: 'Custom endpoint URL',
+        required: false,
+      },
+      credentials: {
+        type: 'object',
+        description: 'AWS credentials configuration',
+        required: false,
+      },
+      retries: {
+        type: 'object',
+        description: 'Retry policy for failed requests',
+        required: false,
+      },
+    },
+  },
+
+  file: {
+    name: 'file',
+    description: 'Stores each item as a file in a directory.',
+    category: 'cache',
+    docs_url: 'https://docs.expanso.io/components/caches/file',
+    fields: {
+      directory: {
+        type: 'string',
+        description: 'Directory to store cache files in',
+        required: true,
+        examples: ['/var/cache/pipeline'],
+      },
+    },
+  },
+};
+
 // ============================================================================
+// Rate Limit Resource Schemas
+// ============================================================================
+
+const RATE_LIMIT_SCHEMAS: Record<string, ComponentSchema> = {
+  local: {
+    name: 'local',
+    description: 'Limits the number of requests per interval within this process.',
+    category: 'rate_limit',
+    docs_url: 'https://docs.expanso.io/components/rate_limits/local',
+    fields: {
+      count: {
+        type: 'number',
+        description: 'Maximum number of requests allowed per interval',
+        required: false,
+        default: 1000,
+      },
+      interval: {
+        type: 'duration',
+        description: 'Time window for the count',
+        required: false,
+        default: '1s',
+      },
+    },
+    examples: [
+      `rate_limit_resources:
+  - label: api_limit
+    local:
+      count: 100
+      interval: 1s`,
+    ],
+  },
 
-const SCHEMAS_BY_CATEGORY: Record<ComponentCategory, Record<string, ComponentSchema>> = {
-  input: INPUT_SCHEMAS,
-  processor: PROCESSOR_SCHEMAS,
-  output: OUTPUT_SCHEMAS,
-  cache: {},
-  rate_limit: {},
-  buffer: {},
+  redis: {
+    name: 'redis',
+    description: 'Limits requests per interval across processes using a shared Redis counter.',
+    category: 'rate_limit',
+    docs_url: 'https://docs.expanso.io/components/rate_limits/redis',
+    fields: {
+      url: {
+        type: 'string',
+        description: 'Redis server URL',
+        required: true,
+        examples: ['redis://localhost:6379'],
+      },
+      key: {
+        type: 'string',
+        description: 'Redis key used for the counter',
+        required: true,
+      },
+      count: {
+        type: 'number',
+        description: 'Maximum number of requests allowed per interval',
+        required: false,
+        default: 1000,
+      },
+      interval: {
+        type: 'duration',
+        description: 'Time window for the count',
+        required: false,
+        default: '1s',
+      },
+      kind: {
+        type: 'string',
+        description: 'Type of Redis deployment',
+        required: false,
+        default: 'simple',
+        enum: ['simple', 'cluster', 'failover'],
+      },
+      tls: {
+        type: 'object',
+        description: 'TLS configuration',
+        required: false,
+      },
+    },
+  },
 };
 
+// ============================================================================
+// Category-specific Registries (to handle components that exist in multiple categories)
+// ============================================================================
+
+// Hand-written schemas above override the ones generated from the upstream
+// dump (src/component-schemas-data.ts, see scripts/build-schemas.ts)
+const SCHEMAS_BY_CATEGORY: Record<ComponentCategory, Record<string, ComponentSchema>> = mergeSchemaRegistries(
+  GENERATED_SCHEMAS,
+  {
+    input: INPUT_SCHEMAS,
+    processor: PROCESSOR_SCHEMAS,
+    output: OUTPUT_SCHEMAS,
+    cache: CACHE_SCHEMAS,
+    rate_limit: RATE_LIMIT_SCHEMAS,
+    buffer: {},
+  }
+);
+
 /**
  * Combined registry - note: for components that exist in multiple categories
  * (e.g., kafka as input and output), we store both with unique keys
@@ -1048,6 +1359,46 @@ export function getComponentSchema(
   return undefined;
 }
 
+/**
+ * Version info for a component. The catalog covers inputs, processors and
+ * outputs; schemas cover caches and rate limits and carry versions from the
+ * upstream dump. Catalog entries win where both are set.
+ */
+export function getComponentVersionInfo(name: string, category: ComponentCategory): VersionInfo {
+  const schema = SCHEMAS_BY_CATEGORY[category]?.[name];
+  const entry = category !== 'rate_limit' ? getCatalogEntry(name, category) : undefined;
+  return {
+    ...(schema ? pickVersionInfo(schema) : {}),
+    ...(entry ? pickVersionInfo(entry) : {}),
+  };
+}
+
+function fieldsAtVersion(fields: Record<string, FieldSchema>, target: string): Record<string, FieldSchema> {
+  const available: Record<string, FieldSchema> = {};
+  for (const [name, field] of Object.entries(fields)) {
+    if (isAvailableAt(field, target)) available[name] = fieldAtVersion(field, target);
+  }
+  return available;
+}
+
+function fieldAtVersion(field: FieldSchema, target: string): FieldSchema {
+  const copy: FieldSchema = { ...field };
+  if (field.properties) copy.properties = fieldsAtVersion(field.properties, target);
+  if (field.items) copy.items = fieldAtVersion(field.items, target);
+  return copy;
+}
+
+/**
+ * A component schema as it looks on the target version: fields not yet
+ * introduced or already removed are dropped. Returns undefined when the
+ * component itself is unavailable on that version.
+ */
+export function schemaAtVersion(schema: ComponentSchema, target: string): ComponentSchema | undefined {
+  const versions = getComponentVersionInfo(schema.name, schema.category);
+  if (!isAvailableAt(versions, target)) return undefined;
+  return { ...schema, ...versions, fields: fieldsAtVersion(schema.fields, target) };
+}
+
 /**
  * Get all component schemas for a category
  */
@@ -1056,22 +1407,39 @@ export function getSchemasByCategory(category: ComponentCategory): ComponentSche
 }
 
 /**
- * List all available component names by category
+ * List all available component names by category, optionally only those
+ * available on a target version
  */
-export function listComponentNames(category?: ComponentCategory): string[] {
-  if (category) {
-    return Object.keys(SCHEMAS_BY_CATEGORY[category] || {});
-  }
+export function listComponentNames(category?: ComponentCategory, targetVersion?: string): string[] {
+  const categories = category ? [category] : (Object.keys(SCHEMAS_BY_CATEGORY) as ComponentCategory[]);
   // Return unique names across all categories
   const allNames = new Set<string>();
-  for (const schemas of Object.values(SCHEMAS_BY_CATEGORY)) {
-    for (const name of Object.keys(schemas)) {
+  for (const cat of categories) {
+    for (const name of Object.keys(SCHEMAS_BY_CATEGORY[cat] || {})) {
+      if (targetVersion && !isAvailableAt(getComponentVersionInfo(name, cat), targetVersion)) continue;
       allNames.add(name);
     }
   }
   return Array.from(allNames);
 }
 
+/**
+ * Names from listComponentNames with no version data in any of their
+ * categories, which a target version filter keeps without checking
+ */
+export function listUnversionedComponentNames(category?: ComponentCategory): string[] {
+  const categories = category ? [category] : (Object.keys(SCHEMAS_BY_CATEGORY) as ComponentCategory[]);
+  const versioned = new Set<string>();
+  const unversioned = new Set<string>();
+  for (const cat of categories) {
+    for (const name of Object.keys(SCHEMAS_BY_CATEGORY[cat] || {})) {
+      if (hasVersionInfo(getComponentVersionInfo(name, cat))) versioned.add(name);
+      else unversioned.add(name);
+    }
+  }
+  return Array.from(unversioned).filter((name) => !versioned.has(name));
+}
+
 /**
  * Search components by name or description
  */
@@ -1098,9 +1466,10 @@ export function searchComponents(query: string): ComponentSchema[] {
 }
 
 /**
- * Format a component schema as a human-readable string
+ * Format a component schema as a human-readable string. With a target
+ * version, says when there was no version data to check it against.
  */
-export function formatComponentSchema(schema: ComponentSchema): string {
+export function formatComponentSchema(schema: ComponentSchema, targetVersion?: string): string {
   const lines: string[] = [];
 
   lines.push(`# ${schema.name}`);
@@ -1109,6 +1478,15 @@ export function formatComponentSchema(schema: ComponentSchema): string {
   if (schema.docs_url) {
     lines.push(`Documentation: ${schema.docs_url}`);
   }
+  const versions = formatVersionInfo({ ...schema, ...getComponentVersionInfo(schema.name, schema.category) });
+  if (versions) {
+    lines.push(`Versions: ${versions}`);
+  } else if (targetVersion) {
+    lines.push(`Versions: unknown, availability on ${targetVersion} was not checked`);
+  }
+  if (targetVersion && Object.values(schema.fields).some((field) => !hasVersionInfo(field))) {
+    lines.push(`Fields without a Versions line have no version data and were not checked against ${targetVersion}`);
+  }
   lines.push('');
   lines.push('## Fields');
   lines.push('');
@@ -1128,6 +1506,13 @@ export function formatComponentSchema(schema: ComponentSchema): string {
     if (field.examples) {
       lines.push(`Examples: ${JSON.stringify(field.examples)}`);
     }
+    const fieldVersions = formatVersionInfo(field);
+    if (fieldVersions) {
+      lines.push(`Versions: ${fieldVersions}`);
+    }
+    if (field.deprecation?.replacement) {
+      lines.push(`Deprecated: use ${field.deprecation.replacement} instead`);
+    }
     lines.push('');
   }
 
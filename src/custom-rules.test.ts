@@ -0,0 +1,200 @@
+/**
+ * Tests for declarative custom compatibility rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileRules, loadRuleSet, parseSelector, resolveCustomRules, selectNodes } from './custom-rules';
+import { checkPipelineCompatibilityWithOptions } from './compatibility-rules';
+import { validatePipelineYaml } from './pipeline-validator';
+
+function createFakeKv(entries: Record<string, string> = {}): KVNamespace {
+  const data = new Map(Object.entries(entries));
+  return {
+    get: async (key: string) => data.get(key) ?? null,
+  } as unknown as KVNamespace;
+}
+
+const POLICY = `rules:
+  - id: kafka-output-compression
+    select: $.output..kafka
+    require: [compression]
+    message: Kafka outputs must set compression
+  - id: no-stdout-output
+    select: $.output..stdout
+    forbid: true
+    severity: error
+    message: stdout outputs are not allowed in production
+    suggestion: Write to a durable output instead
+  - id: http-client-retries
+    select: $..http_client
+    require: [retries]
+    severity: info
+    message: http_client calls need retries
+`;
+
+const CONFIG = {
+  input: { http_client: { url: 'https://api.example.com' } },
+  output: {
+    broker: {
+      outputs: [
+        { kafka: { addresses: ['localhost:9092'], topic: 'events' } },
+        { kafka: { addresses: ['localhost:9092'], topic: 'audit', compression: 'snappy' } },
+        { stdout: {} },
+      ],
+    },
+  },
+};
+
+describe('Custom Rules', () => {
+  describe('selectors', () => {
+    it('should parse child, descendant, wildcard and index segments', () => {
+      expect(parseSelector("$.output..kafka[0].*['topic']")).toEqual([
+        { axis: 'child', key: 'output' },
+        { axis: 'descendant', key: 'kafka' },
+        { axis: 'child', key: 0 },
+        { axis: 'child', key: '*' },
+        { axis: 'child', key: 'topic' },
+      ]);
+      expect(parseSelector('output.kafka')).toEqual(parseSelector('$.output.kafka'));
+      expect(() => parseSelector('$.output..')).toThrow('Invalid selector');
+    });
+
+    it('should select nodes with validator-style paths', () => {
+      expect(selectNodes(CONFIG, parseSelector('$.output..kafka')).map(node => node.path)).toEqual([
+        'output.broker.outputs[0].kafka',
+        'output.broker.outputs[1].kafka',
+      ]);
+      expect(selectNodes(CONFIG, parseSelector('$.output.broker.outputs[*]'))).toHaveLength(3);
+      expect(selectNodes(CONFIG, parseSelector('$.pipeline.processors[*]'))).toEqual([]);
+    });
+
+    it('should return each node once when descendant segments overlap', () => {
+      const config = { output: { switch: { cases: [{ output: { kafka: { topic: 'a' } } }] } } };
+      expect(selectNodes(config, parseSelector('$..output..kafka')).map(node => node.path)).toEqual([
+        'output.switch.cases[0].output.kafka',
+      ]);
+    });
+
+    it('should select through deep configs with repeated recursive segments', () => {
+      let chain: Record<string, unknown> = { leaf: true };
+      for (let i = 0; i < 24; i++) chain = { [`k${i}`]: chain };
+
+      const started = Date.now();
+      const nodes = selectNodes(chain, parseSelector('$' + '..*'.repeat(14)));
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(nodes).toHaveLength(12);
+      expect(new Set(nodes.map(node => node.path)).size).toBe(nodes.length);
+    });
+
+    it('should limit selector length and the number of selected nodes', () => {
+      expect(() => parseSelector('$' + '..*'.repeat(17))).toThrow('more than 16 segments');
+      const wide = { items: Array.from({ length: 20_000 }, (_, i) => ({ id: i })) };
+      expect(() => selectNodes(wide, parseSelector('$.items[*]'))).toThrow('more than 10000 nodes');
+    });
+  });
+
+  describe('compileRules', () => {
+    it('should compile rules to compatibility warnings', () => {
+      const { rules, errors } = compileRules(POLICY);
+      expect(errors).toEqual([]);
+
+      const { warnings } = checkPipelineCompatibilityWithOptions(CONFIG, { customRules: rules });
+      const custom = warnings.filter(w => rules.some(rule => rule.id === w.rule));
+      expect(custom).toEqual([
+        {
+          rule: 'kafka-output-compression',
+          severity: 'warning',
+          message: 'Kafka outputs must set compression',
+          suggestion: 'Set compression',
+          path: 'output.broker.outputs[0].kafka',
+        },
+        {
+          rule: 'no-stdout-output',
+          severity: 'error',
+          message: 'stdout outputs are not allowed in production',
+          suggestion: 'Write to a durable output instead',
+          path: 'output.broker.outputs[2].stdout',
+        },
+        {
+          rule: 'http-client-retries',
+          severity: 'info',
+          message: 'http_client calls need retries',
+          suggestion: 'Set retries',
+          path: 'input.http_client',
+        },
+      ]);
+    });
+
+    it('should accept JSON and plain lists', () => {
+      const json = JSON.stringify([{ id: 'no-stdout', select: 'output.stdout', forbid: true, message: 'No stdout' }]);
+      expect(compileRules(json).rules.map(rule => rule.id)).toEqual(['no-stdout']);
+    });
+
+    it('should report invalid definitions', () => {
+      const { rules, errors } = compileRules([
+        { id: 'http-without-tls', select: '$..http', forbid: true, message: 'Taken' },
+        { id: 'both', select: '$..http', forbid: true, require: ['url'], message: 'Both' },
+        { id: 'bad-selector', select: '$.output[', forbid: true, message: 'Bad' },
+        { id: 'typo', select: '$..http', forbid: true, mesage: 'Typo' },
+      ]);
+      expect(rules).toEqual([]);
+      expect(errors).toEqual([
+        'rules[0]: "http-without-tls" is a built-in rule id',
+        'rules[1]: set exactly one of "require" or "forbid: true"',
+        'rules[2]: Invalid selector "$.output[" at "["',
+        'rules[3]: unknown key "mesage"',
+        'rules[3]: "message" is required',
+      ]);
+    });
+  });
+
+  describe('rule sets in KV', () => {
+    it('should load rule sets by name', async () => {
+      const kv = createFakeKv({ 'rules:prod': POLICY });
+      expect((await loadRuleSet(kv, 'prod')).rules).toHaveLength(3);
+      expect((await loadRuleSet(kv, 'staging')).errors).toEqual(['Rule set "staging" not found']);
+      expect((await loadRuleSet(undefined, 'prod')).errors[0]).toContain('CONTENT_CACHE');
+    });
+
+    it('should combine a stored rule set with inline rules', async () => {
+      const kv = createFakeKv({ 'rules:prod': POLICY });
+      const inline = [{ id: 'no-generate', select: 'input.generate', forbid: true, message: 'No generate' }];
+      const result = await resolveCustomRules(kv, { ruleSet: 'prod', rules: inline });
+      expect(result.errors).toEqual([]);
+      expect(result.rules.map(rule => rule.id)).toContain('no-generate');
+
+      const clash = await resolveCustomRules(kv, { ruleSet: 'prod', rules: POLICY });
+      expect(clash.errors[0]).toBe('Rule "kafka-output-compression" is defined in both the rule set and the request');
+    });
+  });
+
+  describe('validatePipelineYaml', () => {
+    it('should locate custom warnings and honor lint comments and config for them', () => {
+      const { rules } = compileRules(POLICY);
+      const yaml = `x-expanso-lint:
+  rules:
+    http-client-retries: off
+input:
+  http_client:
+    url: https://api.example.com
+output:
+  broker:
+    outputs:
+      - kafka: # expanso-lint: disable=kafka-output-compression
+          addresses: [localhost:9092]
+          topic: events
+      - stdout: {}
+`;
+      const result = validatePipelineYaml(yaml, { customRules: rules });
+      const custom = result.compatibility_warnings?.filter(w => rules.some(rule => rule.id === w.rule));
+      expect(custom).toHaveLength(1);
+      expect(custom?.[0]).toMatchObject({ rule: 'no-stdout-output', line: 13 });
+      expect(result.suppressed?.map(s => `${s.rule}:${s.source}`)).toEqual([
+        'kafka-output-compression:comment',
+        'http-client-retries:config',
+      ]);
+      // Custom rule ids are known to the lint config and comments
+      expect(result.warnings.filter(w => w.startsWith('Unknown lint rule'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Custom Compatibility Rules
+ *
+ * Organization policies written as data rather than code. A rule selects
+ * nodes of the pipeline with a JSONPath-like selector, then requires fields
+ * on them or forbids them outright:
+ *
+ *   rules:
+ *     - id: kafka-output-compression
+ *       select: $.output..kafka
+ *       require: [compression]
+ *       message: Kafka outputs must set compression
+ *     - id: no-stdout-output
+ *       select: $.output..stdout
+ *       forbid: true
+ *       severity: error
+ *       message: stdout outputs are not allowed in production
+ *
+ * Rule sets are passed inline as JSON, YAML or an object, or stored in KV
+ * under `rules:<name>`. Matches are reported as CompatibilityWarnings, so
+ * lint configs, suppression comments and reports treat them like built-in
+ * rules.
+ */
+
+import {
+  COMPATIBILITY_RULES,
+  type CompatibilityWarning,
+  type CustomCompatibilityRule,
+} from './compatibility-rules';
+import { parseYamlSource } from './yaml-source';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RuleDefinition {
+  id: string;
+  name?: string;
+  description?: string;
+  /** Selector for the nodes the rule applies to, e.g. "$.output..kafka" */
+  select: string;
+  /** Fields every selected node must set, e.g. ["compression", "batching.count"] */
+  require?: string[];
+  /** Report every selected node */
+  forbid?: boolean;
+  /** Defaults to warning */
+  severity?: CompatibilityWarning['severity'];
+  message: string;
+  suggestion?: string;
+}
+
+export interface CompiledRules {
+  rules: CustomCompatibilityRule[];
+  errors: string[];
+}
+
+export interface SelectorSegment {
+  /** "descendant" matches at any depth below the current nodes (`..`) */
+  axis: 'child' | 'descendant';
+  /** Property name, array index, or "*" for every child */
+  key: string | number;
+}
+
+export interface SelectedNode {
+  /** Validator-style path, e.g. "output.broker.outputs[0].kafka" */
+  path: string;
+  value: unknown;
+}
+
+export const RULE_SET_PREFIX = 'rules:';
+
+const RULE_KEYS = new Set(['id', 'name', 'description', 'select', 'require', 'forbid', 'severity', 'message', 'suggestion']);
+
+const SEVERITIES = ['error', 'warning', 'info'];
+
+// Guards against cyclic configs built from YAML aliases
+const MAX_SELECT_DEPTH = 32;
+
+// Rules arrive with requests, so selectors are bounded in length and in work
+const MAX_SELECTOR_SEGMENTS = 16;
+const MAX_SELECTED_NODES = 10_000;
+
+// ============================================================================
+// Selectors
+// ============================================================================
+
+/**
+ * Parse a selector such as `$.pipeline.processors[*].http` or
+ * `$..http_client`. The leading `$` is optional.
+ */
+export function parseSelector(selector: string): SelectorSegment[] {
+  const segments: SelectorSegment[] = [];
+  let rest = selector.trim().replace(/^\$/, '');
+  // "output.kafka" reads as "$.output.kafka"
+  if (rest && !rest.startsWith('.') && !rest.startsWith('[')) rest = `.${rest}`;
+
+  while (rest) {
+    const match =
+      rest.match(/^(\.\.?)(\*|[\w-]+)/) ??
+      rest.match(/^()\[(\*|\d+)\]/) ??
+      rest.match(/^()\['([^']+)'\]/);
+    if (!match) {
+      throw new Error(`Invalid selector "${selector}" at "${rest}"`);
+    }
+    const key = /^\[\d+\]$/.test(match[0]) ? Number(match[2]) : match[2];
+    segments.push({ axis: match[1] === '..' ? 'descendant' : 'child', key });
+    if (segments.length > MAX_SELECTOR_SEGMENTS) {
+      throw new Error(`Invalid selector "${selector}": more than ${MAX_SELECTOR_SEGMENTS} segments`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function children(node: SelectedNode): SelectedNode[] {
+  if (Array.isArray(node.value)) {
+    return node.value.map((value, index) => ({ path: childPath(node.path, index), value }));
+  }
+  if (node.value && typeof node.value === 'object') {
+    return Object.entries(node.value).map(([key, value]) => ({ path: childPath(node.path, key), value }));
+  }
+  return [];
+}
+
+/**
+ * Keep the first node for each path, and fail once there are too many
+ */
+function uniqueNodes(nodes: SelectedNode[]): SelectedNode[] {
+  const byPath = new Map<string, SelectedNode>();
+  for (const node of nodes) {
+    if (byPath.has(node.path)) continue;
+    if (byPath.size >= MAX_SELECTED_NODES) {
+      throw new Error(`Selector matches more than ${MAX_SELECTED_NODES} nodes`);
+    }
+    byPath.set(node.path, node);
+  }
+  return [...byPath.values()];
+}
+
+/**
+ * The nodes and everything below them. A node already reached from an
+ * earlier one is not walked again, so nested matches cost nothing extra.
+ */
+function selfAndDescendants(nodes: SelectedNode[]): SelectedNode[] {
+  const result: SelectedNode[] = [];
+  const visited = new Set<string>();
+  const visit = (node: SelectedNode, depth: number): void => {
+    if (visited.has(node.path)) return;
+    if (visited.size >= MAX_SELECTED_NODES) {
+      throw new Error(`Selector matches more than ${MAX_SELECTED_NODES} nodes`);
+    }
+    visited.add(node.path);
+    result.push(node);
+    if (depth < MAX_SELECT_DEPTH) {
+      for (const child of children(node)) visit(child, depth + 1);
+    }
+  };
+  for (const node of nodes) visit(node, 0);
+  return result;
+}
+
+/**
+ * Select the nodes of a config that match a parsed selector. Each node is
+ * returned once, however many ways the selector reaches it.
+ */
+export function selectNodes(root: unknown, segments: SelectorSegment[]): SelectedNode[] {
+  let nodes: SelectedNode[] = [{ path: '', value: root }];
+
+  for (const segment of segments) {
+    const scope = segment.axis === 'descendant' ? selfAndDescendants(nodes) : nodes;
+    nodes = uniqueNodes(scope.flatMap(node => {
+      if (segment.key === '*') return children(node);
+      if (typeof segment.key === 'number') {
+        return Array.isArray(node.value) && segment.key < node.value.length
+          ? [{ path: childPath(node.path, segment.key), value: node.value[segment.key] }]
+          : [];
+      }
+      if (node.value && typeof node.value === 'object' && !Array.isArray(node.value) && segment.key in node.value) {
+        return [{ path: childPath(node.path, segment.key), value: (node.value as Record<string, unknown>)[segment.key] }];
+      }
+      return [];
+    }));
+  }
+
+  return nodes;
+}
+
+function isSet(value: unknown, field: string): boolean {
+  let current = value;
+  for (const key of field.split('.')) {
+    if (!current || typeof current !== 'object') return false;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current !== undefined && current !== null;
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+/**
+ * Check a rule definition and compile it to a rule the compatibility checker
+ * can run. Returns the problems found instead when it is invalid.
+ */
+function compileRule(value: unknown, label: string): CustomCompatibilityRule | string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [`${label}: a rule must be an object`];
+  }
+  const definition = value as RuleDefinition;
+  const errors: string[] = [];
+
+  for (const key of Object.keys(definition)) {
+    if (!RULE_KEYS.has(key)) errors.push(`${label}: unknown key "${key}"`);
+  }
+  if (typeof definition.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/i.test(definition.id)) {
+    errors.push(`${label}: "id" must be letters, digits and dashes`);
+  } else if (COMPATIBILITY_RULES.some(rule => rule.id === definition.id)) {
+    errors.push(`${label}: "${definition.id}" is a built-in rule id`);
+  }
+  if (typeof definition.message !== 'string' || !definition.message) {
+    errors.push(`${label}: "message" is required`);
+  }
+  if (definition.severity !== undefined && !SEVERITIES.includes(definition.severity)) {
+    errors.push(`${label}: "severity" must be one of ${SEVERITIES.join(', ')}`);
+  }
+
+  const requires = definition.require;
+  const validRequire = Array.isArray(requires) && requires.length > 0 && requires.every(field => typeof field === 'string');
+  if (requires !== undefined && !validRequire) {
+    errors.push(`${label}: "require" must be a list of field names`);
+  }
+  if ((requires !== undefined) === (definition.forbid === true)) {
+    errors.push(`${label}: set exactly one of "require" or "forbid: true"`);
+  }
+
+  let segments: SelectorSegment[] = [];
+  if (typeof definition.select !== 'string' || !definition.select.trim()) {
+    errors.push(`${label}: "select" is required`);
+  } else {
+    try {
+      segments = parseSelector(definition.select);
+    } catch (error) {
+      errors.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (errors.length > 0) return errors;
+
+  const severity = definition.severity ?? 'warning';
+  const warn = (path: string, suggestion: string | undefined): CompatibilityWarning => ({
+    rule: definition.id,
+    severity,
+    message: definition.message,
+    ...(suggestion ? { suggestion } : {}),
+    ...(path ? { path } : {}),
+  });
+
+  return {
+    id: definition.id,
+    name: definition.name ?? definition.id,
+    description: definition.description ?? definition.message,
+    severity,
+    evaluate: (pipeline) => selectNodes(pipeline.raw, segments).flatMap(node => {
+      if (definition.forbid) return [warn(node.path, definition.suggestion)];
+      const missing = (requires ?? []).filter(field => !isSet(node.value, field));
+      return missing.length > 0
+        ? [warn(node.path, definition.suggestion ?? `Set ${missing.join(', ')}`)]
+        : [];
+    }),
+  };
+}
+
+/**
+ * Compile a rule set: a list of rules, `{ rules: [...] }`, or either of those
+ * as JSON or YAML text
+ */
+export function compileRules(value: unknown): CompiledRules {
+  if (typeof value === 'string') {
+    const source = parseYamlSource(value);
+    if (source.error) {
+      return { rules: [], errors: [`Invalid rule set: ${source.error.message}`] };
+    }
+    value = source.value;
+  }
+
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object' && Array.isArray((value as { rules?: unknown }).rules)
+      ? (value as { rules: unknown[] }).rules
+      : null;
+  if (!list) {
+    return { rules: [], errors: ['A rule set must be a list of rules or an object with a "rules" list'] };
+  }
+
+  const result: CompiledRules = { rules: [], errors: [] };
+  list.forEach((definition, index) => {
+    const compiled = compileRule(definition, `rules[${index}]`);
+    if (Array.isArray(compiled)) {
+      result.errors.push(...compiled);
+    } else if (result.rules.some(rule => rule.id === compiled.id)) {
+      result.errors.push(`rules[${index}]: duplicate rule id "${compiled.id}"`);
+    } else {
+      result.rules.push(compiled);
+    }
+  });
+  return result;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load a named rule set stored in KV under `rules:<name>`
+ */
+export async function loadRuleSet(kv: KVNamespace | undefined, name: string): Promise<CompiledRules> {
+  if (!/^[\w.-]+$/.test(name)) {
+    return { rules: [], errors: [`Invalid rule set name "${name}"`] };
+  }
+  if (!kv) {
+    return { rules: [], errors: ['Stored rule sets need the CONTENT_CACHE KV namespace'] };
+  }
+  const text = await kv.get(RULE_SET_PREFIX + name);
+  if (text === null) {
+    return { rules: [], errors: [`Rule set "${name}" not found`] };
+  }
+  return compileRules(text);
+}
+
+/**
+ * Combine a stored rule set and inline rules from a request
+ */
+export async function resolveCustomRules(
+  kv: KVNamespace | undefined,
+  request: { rules?: unknown; ruleSet?: string }
+): Promise<CompiledRules> {
+  const result: CompiledRules = { rules: [], errors: [] };
+  const sources: CompiledRules[] = [];
+  if (request.ruleSet !== undefined) sources.push(await loadRuleSet(kv, request.ruleSet));
+  if (request.rules !== undefined) sources.push(compileRules(request.rules));
+
+  for (const source of sources) {
+    result.errors.push(...source.errors);
+    for (const rule of source.rules) {
+      if (result.rules.some(existing => existing.id === rule.id)) {
+        result.errors.push(`Rule "${rule.id}" is defined in both the rule set and the request`);
+      } else {
+        result.rules.push(rule);
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,52 @@
+/**
+ * Tests for splitting llms.txt files into sections
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractSection, highlightTerms, sectionId, splitSections } from './doc-sections';
+
+const URI = 'https://docs.expanso.io/llms/guides.txt';
+const DOC = '# Guides\n\nHow-to guides.\n\n## Kafka\n\nUse kafka_franz.\n\n## S3\n\nUse aws_s3.\n';
+
+describe('Doc Sections', () => {
+  it('should split at ## headings with offsets into the file', () => {
+    const sections = splitSections(URI, DOC);
+    expect(sections.map(s => s.heading)).toEqual(['Introduction', 'Kafka', 'S3']);
+    expect(sections[1]).toMatchObject({ id: sectionId(URI, 'Kafka'), content: 'Use kafka_franz.' });
+    expect(DOC.slice(sections[1].start, sections[1].end).trim()).toBe('## Kafka\n\nUse kafka_franz.');
+    expect(sections[2].end).toBe(DOC.length);
+  });
+
+  it('should skip a blank introduction', () => {
+    expect(splitSections(URI, '\n## Only\n\nBody\n').map(s => s.heading)).toEqual(['Only']);
+  });
+
+  it('should keep chunk IDs within the Vectorize limit', () => {
+    expect(sectionId(URI, 'A very long heading that goes on and on and on').length).toBeLessThanOrEqual(64);
+  });
+
+  it('should give sections of long, similar URIs and repeated headings their own IDs', () => {
+    const a = 'https://examples.expanso.io/llms/data-kafka-pipelines.txt';
+    const b = 'https://examples.expanso.io/llms/data-s3-pipelines.txt';
+    expect(sectionId(a, 'Introduction')).not.toBe(sectionId(b, 'Introduction'));
+
+    const doc = 'Intro text.\n\n## Example\n\nFirst.\n\n## Example\n\nSecond.\n';
+    const sections = splitSections(a, doc);
+    expect(new Set(sections.map(s => s.id)).size).toBe(sections.length);
+    expect(extractSection(a, doc, sections[2].id, 0)?.content).toBe('## Example\n\nSecond.');
+  });
+
+  it('should extract a section by heading or chunk ID with neighbors', () => {
+    expect(extractSection(URI, DOC, 'kafka', 0)?.content).toBe('## Kafka\n\nUse kafka_franz.');
+    const excerpt = extractSection(URI, DOC, sectionId(URI, 'S3'), 1);
+    expect(excerpt?.section.heading).toBe('S3');
+    expect(excerpt?.content).toBe('## Kafka\n\nUse kafka_franz.\n\n## S3\n\nUse aws_s3.');
+    expect(extractSection(URI, DOC, 'Missing')).toBeNull();
+  });
+
+  it('should highlight whole query terms', () => {
+    expect(highlightTerms('Use kafka_franz or Kafka; not kafkaesque', 'kafka_franz'))
+      .toBe('Use **kafka_franz** or **Kafka**; not kafkaesque');
+    expect(highlightTerms('Nothing here', 'the')).toBe('Nothing here');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Documentation Sections
+ *
+ * Splits llms.txt files into `##` sections. scripts/index-content.ts indexes
+ * one chunk per section, and get_resource uses the same split to return a
+ * single section by chunk ID or heading, so the two always agree on IDs and
+ * character offsets.
+ */
+
+import { tokenize } from './bm25';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DocSection {
+  /** Chunk ID, shared with the search indexes */
+  id: string;
+  heading: string;
+  /** Offset of the heading line (0 for the introduction) */
+  start: number;
+  /** Offset where the next section starts */
+  end: number;
+  /** Section body without the heading line */
+  content: string;
+}
+
+export interface SectionExcerpt {
+  /** The requested section and its neighbors, as written in the file */
+  content: string;
+  section: DocSection;
+  start: number;
+  end: number;
+}
+
+const INTRODUCTION = 'Introduction';
+
+// ============================================================================
+// Splitting
+// ============================================================================
+
+/**
+ * 64-bit FNV-1a hash as 16 hex characters
+ */
+function fnv1a64(text: string): string {
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of new TextEncoder().encode(text)) {
+    hash = BigInt.asUintN(64, (hash ^ BigInt(byte)) * 0x100000001b3n);
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Chunk ID for a section: a readable prefix plus a hash of the full URI,
+ * heading and occurrence, so truncated prefixes can't collide. Vectorize
+ * IDs are limited to 64 bytes.
+ */
+export function sectionId(uri: string, heading: string, occurrence: number = 0): string {
+  const base = uri.replace(/https?:\/\//, '').replace(/[^a-zA-Z0-9]/g, '_').slice(0, 24);
+  const sectionSlug = heading.toLowerCase().replace(/[^a-zA-Z0-9]/g, '_').slice(0, 20);
+  return `${base}_${sectionSlug}_${fnv1a64(`${uri}#${heading}#${occurrence}`)}`;
+}
+
+/**
+ * Split a document at `##` headings. Text before the first heading becomes
+ * an "Introduction" section when it isn't blank. A repeated heading gets
+ * its own ID.
+ */
+export function splitSections(uri: string, content: string): DocSection[] {
+  const sections: DocSection[] = [];
+  const headings = [...content.matchAll(/^##\s+(.+)$/gm)];
+  const seen = new Map<string, number>();
+
+  const push = (heading: string, start: number, bodyStart: number, end: number) => {
+    const body = content.slice(bodyStart, end).trim();
+    if (heading === INTRODUCTION && !body) return;
+    const occurrence = seen.get(heading) ?? 0;
+    seen.set(heading, occurrence + 1);
+    sections.push({ id: sectionId(uri, heading, occurrence), heading, start, end, content: body });
+  };
+
+  push(INTRODUCTION, 0, 0, headings[0]?.index ?? content.length);
+  headings.forEach((match, i) => {
+    const start = match.index!;
+    push(match[1].trim(), start, start + match[0].length, headings[i + 1]?.index ?? content.length);
+  });
+
+  return sections;
+}
+
+/**
+ * Cut one section, found by chunk ID or heading, plus `neighbors` sections
+ * on either side out of a document
+ */
+export function extractSection(
+  uri: string,
+  content: string,
+  section: string,
+  neighbors: number = 1
+): SectionExcerpt | null {
+  const sections = splitSections(uri, content);
+  const wanted = section.trim().toLowerCase();
+  const index = sections.findIndex(s => s.id === section || s.heading.toLowerCase() === wanted);
+  if (index === -1) return null;
+
+  const first = sections[Math.max(0, index - neighbors)];
+  const last = sections[Math.min(sections.length - 1, index + neighbors)];
+  return {
+    content: content.slice(first.start, last.end).trim(),
+    section: sections[index],
+    start: first.start,
+    end: last.end,
+  };
+}
+
+// ============================================================================
+// Highlighting
+// ============================================================================
+
+/**
+ * Wrap query terms found in text in `**`, matching whole words
+ */
+export function highlightTerms(text: string, query: string): string {
+  const terms = [...new Set(tokenize(query))]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(`(?<![A-Za-z0-9_])(${terms.join('|')})(?![A-Za-z0-9_])`, 'gi');
+  return text.replace(pattern, '**$1**');
+}
@@ -561,7 +561,7 @@ export const PIPELINE_EXAMPLES: PipelineExample[] = [
       "now()",
       "env()"
     ],
-    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - events\n\npipeline:\n  processors:\n    - mapping: |\n        root = this.parse_json()\n        root.id = this.event_id\n        root.stored_at = now()\n\noutput:\n  azure_cosmosdb:\n    endpoint: https://mycosmosaccount.documents.azure.com:443\n    account_key: ${! env(\"COSMOSDB_KEY\") }\n    database: mydb\n    container: events\n    partition_keys_map: root = this.id\n    operation: create"
+    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - events\n\npipeline:\n  processors:\n    - mapping: |\n        root = this.parse_json()\n        root.id = this.event_id\n        root.stored_at = now()\n\noutput:\n  azure_cosmosdb:\n    endpoint: https://mycosmosaccount.documents.azure.com:443\n    account_key: ${! env(\"COSMOSDB_KEY\") }\n    database: mydb\n    container: events\n    partition_keys_map: root = this.id\n    operation: Create"
   },
   {
     "id": "azure-queue-storage-input",
@@ -2587,7 +2587,7 @@ export const PIPELINE_EXAMPLES: PipelineExample[] = [
     "bloblangPatterns": [
       "parse_json()"
     ],
-    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - users\n\npipeline:\n  processors:\n    - mapping: |\n        root = this.parse_json()\n\noutput:\n  redis_hash:\n    url: redis://localhost:6379\n    key: user:${! this.id }\n    fields_mapping: |\n      root = this"
+    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - users\n\npipeline:\n  processors:\n    - mapping: |\n        root = this.parse_json()\n\noutput:\n  redis_hash:\n    url: redis://localhost:6379\n    key: user:${! this.id }\n    walk_json_object: true"
   },
   {
     "id": "kafka-to-s3-json",
@@ -2648,7 +2648,7 @@ export const PIPELINE_EXAMPLES: PipelineExample[] = [
       "parse_json()",
       "now()"
     ],
-    "yaml": "input:\n  aws_kinesis:\n    stream: my-stream\n    dynamodb_table: kinesis_checkpoints\n\npipeline:\n  processors:\n    - mapping: |\n        root = this.parse_json()\n        root.processed_at = now()\n\noutput:\n  stdout: {}"
+    "yaml": "input:\n  aws_kinesis:\n    streams:\n      - my-stream\n    dynamodb:\n      table: kinesis_checkpoints\n\npipeline:\n  processors:\n    - mapping: |\n        root = this.parse_json()\n        root.processed_at = now()\n\noutput:\n  stdout: {}"
   },
   {
     "id": "lambda-trigger",
@@ -2741,7 +2741,7 @@ export const PIPELINE_EXAMPLES: PipelineExample[] = [
       "parse_json()",
       "now()"
     ],
-    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - support-tickets\n\npipeline:\n  processors:\n    - mapping: |\n        root.messages = [\n          {\n            \"role\": \"system\",\n            \"content\": \"Classify the support ticket. Respond with JSON: {\"category\": \"billing|technical|general\", \"priority\": \"low|medium|high\", \"sentiment\": \"positive|neutral|negative\"}\"\n          },\n          {\n            \"role\": \"user\",\n            \"content\": this.content\n          }\n        ]\n    - openai_chat_completion:\n        api_key: ${! env(\"OPENAI_API_KEY\") }\n        model: gpt-4o-mini\n        response_format:\n          type: json_object\n    - mapping: |\n        root.ticket_id = this.ticket_id\n        root.content = this.content\n        root.classification = this.choices.index(0).message.content.parse_json()\n        root.classified_at = now()\n\noutput:\n  kafka:\n    addresses:\n      - localhost:9092\n    topic: classified-tickets"
+    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - support-tickets\n\npipeline:\n  processors:\n    - mapping: |\n        root.messages = [\n          {\n            \"role\": \"system\",\n            \"content\": \"Classify the support ticket. Respond with JSON: {\"category\": \"billing|technical|general\", \"priority\": \"low|medium|high\", \"sentiment\": \"positive|neutral|negative\"}\"\n          },\n          {\n            \"role\": \"user\",\n            \"content\": this.content\n          }\n        ]\n    - openai_chat_completion:\n        api_key: ${! env(\"OPENAI_API_KEY\") }\n        model: gpt-4o-mini\n        response_format: json\n    - mapping: |\n        root.ticket_id = this.ticket_id\n        root.content = this.content\n        root.classification = this.choices.index(0).message.content.parse_json()\n        root.classified_at = now()\n\noutput:\n  kafka:\n    addresses:\n      - localhost:9092\n    topic: classified-tickets"
   },
   {
     "id": "log-aggregation-simple",
@@ -3376,7 +3376,7 @@ export const PIPELINE_EXAMPLES: PipelineExample[] = [
     "bloblangPatterns": [
       "env()"
     ],
-    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - documents\n\npipeline:\n  processors:\n    - mapping: |\n        root.id = this.id\n        root.text = this.content\n    - openai_embeddings:\n        api_key: ${! env(\"OPENAI_API_KEY\") }\n        model: text-embedding-3-small\n    - mapping: |\n        root.id = this.id\n        root.vector = this.embedding\n        root.payload = {\"text\": this.text}\n\noutput:\n  qdrant:\n    grpc_host: localhost:6334\n    collection: documents"
+    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - documents\n\npipeline:\n  processors:\n    - mapping: |\n        root.id = this.id\n        root.text = this.content\n    - openai_embeddings:\n        api_key: ${! env(\"OPENAI_API_KEY\") }\n        model: text-embedding-3-small\n    - mapping: |\n        root.id = this.id\n        root.vector = this.embedding\n        root.payload = {\"text\": this.text}\n\noutput:\n  qdrant:\n    grpc_host: localhost:6334\n    collection_name: documents\n    id: root = this.id\n    vector_mapping: root = this.vector\n    payload_mapping: root = this.payload"
   },
   {
     "id": "parallel-enrichment",
@@ -3738,7 +3738,7 @@ export const PIPELINE_EXAMPLES: PipelineExample[] = [
       "env()",
       "uuid_v4()"
     ],
-    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - documents\n\npipeline:\n  processors:\n    - mapping: |\n        root.doc_id = this.id\n        root.text = this.content\n    - text_chunker:\n        chunk_size: 512\n        chunk_overlap: 50\n    - openai_embeddings:\n        api_key: ${! env(\"OPENAI_API_KEY\") }\n        model: text-embedding-3-small\n    - mapping: |\n        root.id = uuid_v4()\n        root.doc_id = this.doc_id\n        root.chunk_index = this.chunk_index\n        root.vector = this.embedding\n        root.payload = {\n          \"text\": this.text,\n          \"doc_id\": this.doc_id,\n          \"chunk_index\": this.chunk_index\n        }\n\noutput:\n  qdrant:\n    grpc_host: localhost:6334\n    collection: document_chunks"
+    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - documents\n\npipeline:\n  processors:\n    - mapping: |\n        root.doc_id = this.id\n        root.text = this.content\n    - text_chunker:\n        strategy: recursive_character\n        chunk_size: 512\n        chunk_overlap: 50\n    - openai_embeddings:\n        api_key: ${! env(\"OPENAI_API_KEY\") }\n        model: text-embedding-3-small\n    - mapping: |\n        root.id = uuid_v4()\n        root.doc_id = this.doc_id\n        root.chunk_index = this.chunk_index\n        root.vector = this.embedding\n        root.payload = {\n          \"text\": this.text,\n          \"doc_id\": this.doc_id,\n          \"chunk_index\": this.chunk_index\n        }\n\noutput:\n  qdrant:\n    grpc_host: localhost:6334\n    collection_name: document_chunks\n    id: root = this.id\n    vector_mapping: root = this.vector\n    payload_mapping: root = this.payload"
   },
   {
     "id": "random-number-generation",
@@ -3800,7 +3800,7 @@ export const PIPELINE_EXAMPLES: PipelineExample[] = [
       "parse_json()",
       "now()"
     ],
-    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - requests\n\npipeline:\n  processors:\n    - rate_limit:\n        resource: api_limiter\n        count: 100\n    - http:\n        url: https://api.example.com/process\n        verb: POST\n    - mapping: |\n        root = this.parse_json()\n        root.rate_limited_at = now()\n\nrate_limit_resources:\n  - label: api_limiter\n    local:\n      count: 100\n      interval: 1s\n\noutput:\n  kafka:\n    addresses:\n      - localhost:9092\n    topic: processed"
+    "yaml": "input:\n  kafka:\n    addresses:\n      - localhost:9092\n    topics:\n      - requests\n\npipeline:\n  processors:\n    - rate_limit:\n        resource: api_limiter\n    - http:\n        url: https://api.example.com/process\n        verb: POST\n    - mapping: |\n        root = this.parse_json()\n        root.rate_limited_at = now()\n\nrate_limit_resources:\n  - label: api_limiter\n    local:\n      count: 100\n      interval: 1s\n\noutput:\n  kafka:\n    addresses:\n      - localhost:9092\n    topic: processed"
   },
   {
     "id": "redis-streams-consumer",
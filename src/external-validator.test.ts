@@ -0,0 +1,299 @@
+/**
+ * Tests for the validate.expanso.io client
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createExternalValidator,
+  createCircuitBreaker,
+  validationCacheKey,
+  formatUnavailableWarning,
+  EXTERNAL_VALIDATION_UNAVAILABLE,
+  type ValidateResponse,
+  type ExternalValidatorOptions,
+} from './external-validator';
+
+// Minimal KV stand-in backed by a Map
+function createFakeKv(): KVNamespace & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    get: async (key: string) => data.get(key) ?? null,
+    put: async (key: string, value: string) => {
+      data.set(key, value);
+    },
+    delete: async (key: string) => {
+      data.delete(key);
+    },
+  } as unknown as KVNamespace & { data: Map<string, string> };
+}
+
+type StandInHandler = (request: Request, call: number) => Response | Promise<Response>;
+
+const VALID_RESPONSE: ValidateResponse = { valid: true, error_count: 0, hallucinations: [] };
+
+const INVALID_RESPONSE: ValidateResponse = {
+  valid: false,
+  error_count: 1,
+  hallucinations: [{
+    category: 'IMAGINED_FIELD',
+    severity: 'ERROR',
+    path: 'input.kafka.brokrs',
+    hallucination: 'brokrs',
+    correction: 'addresses',
+    message: 'Unknown field "brokrs"',
+    line: 3,
+  }],
+  corrected_yaml: 'input:\n  kafka:\n    addresses: [localhost:9092]\n',
+};
+
+/**
+ * Local stand-in for validate.expanso.io. Serves POST /validate through the
+ * fetch interface and records every request it receives.
+ */
+function createStandInServer(handler: StandInHandler = () => Response.json(VALID_RESPONSE)) {
+  const requests: Array<{ url: URL; body: string }> = [];
+
+  const serve: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    requests.push({ url, body: await request.clone().text() });
+    if (request.method !== 'POST' || url.pathname !== '/validate') {
+      return new Response('Not found', { status: 404 });
+    }
+    return handler(request, requests.length);
+  };
+
+  return { fetch: serve, requests };
+}
+
+function createValidator(
+  server: ReturnType<typeof createStandInServer>,
+  options: ExternalValidatorOptions = {}
+) {
+  const delays: number[] = [];
+  const validator = createExternalValidator({
+    baseUrl: 'http://validator.test',
+    fetch: server.fetch,
+    sleep: async ms => {
+      delays.push(ms);
+    },
+    random: () => 0.5,
+    ...options,
+  });
+  return { validator, delays };
+}
+
+const YAML = 'input:\n  kafka:\n    brokrs: [localhost:9092]\n';
+
+describe('External Validator', () => {
+  describe('requests', () => {
+    it('should post the YAML with the requested options', async () => {
+      const server = createStandInServer(() => Response.json(INVALID_RESPONSE));
+      const { validator } = createValidator(server);
+
+      const result = await validator.validate(YAML, { autoCorrect: true, summarize: true });
+
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].body).toBe(YAML);
+      expect(server.requests[0].url.searchParams.get('auto_correct')).toBe('true');
+      expect(server.requests[0].url.searchParams.get('summarize')).toBe('true');
+      expect(result.valid).toBe(false);
+      expect(result.hallucinations[0].correction).toBe('addresses');
+      expect(result.corrected_yaml).toBe(INVALID_RESPONSE.corrected_yaml);
+      expect(result.unavailable).toBeUndefined();
+    });
+
+    it('should report a rejected request as invalid without retrying', async () => {
+      const server = createStandInServer(() => new Response('YAML could not be parsed', { status: 400 }));
+      const { validator } = createValidator(server);
+
+      const result = await validator.validate(YAML);
+
+      expect(server.requests).toHaveLength(1);
+      expect(result.valid).toBe(false);
+      expect(result.hallucinations[0].hallucination).toBe('request_failed');
+      expect(result.hallucinations[0].message).toBe('YAML could not be parsed');
+    });
+  });
+
+  describe('caching', () => {
+    it('should serve repeated validations of the same YAML from KV', async () => {
+      const server = createStandInServer();
+      const cache = createFakeKv();
+      const { validator } = createValidator(server, { cache });
+
+      const first = await validator.validate(YAML);
+      const second = await validator.validate(YAML);
+
+      expect(server.requests).toHaveLength(1);
+      expect(first.cached).toBeUndefined();
+      expect(second.cached).toBe(true);
+      expect(second.valid).toBe(true);
+      expect(cache.data.has(await validationCacheKey(YAML))).toBe(true);
+    });
+
+    it('should key the cache on content and options', async () => {
+      const server = createStandInServer();
+      const { validator } = createValidator(server, { cache: createFakeKv() });
+
+      await validator.validate(YAML);
+      await validator.validate(YAML, { autoCorrect: true });
+      await validator.validate(YAML + '# changed\n');
+
+      expect(server.requests).toHaveLength(3);
+      expect(await validationCacheKey(YAML)).not.toBe(await validationCacheKey(YAML, { autoCorrect: true }));
+    });
+
+    it('should not cache failed requests or unavailable results', async () => {
+      let status = 400;
+      const server = createStandInServer(() => new Response('bad', { status }));
+      const cache = createFakeKv();
+      const { validator } = createValidator(server, { cache, maxAttempts: 1 });
+
+      await validator.validate(YAML);
+      status = 503;
+      await validator.validate(YAML);
+
+      expect(cache.data.size).toBe(0);
+    });
+
+    it('should keep validating when KV fails', async () => {
+      const server = createStandInServer();
+      const cache = {
+        get: async () => {
+          throw new Error('KV down');
+        },
+        put: async () => {
+          throw new Error('KV down');
+        },
+      } as unknown as KVNamespace;
+      const { validator } = createValidator(server, { cache });
+
+      const result = await validator.validate(YAML);
+
+      expect(result.valid).toBe(true);
+      expect(server.requests).toHaveLength(1);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry server errors and return the first good response', async () => {
+      const server = createStandInServer((_, call) =>
+        call < 3 ? new Response('unavailable', { status: 503 }) : Response.json(VALID_RESPONSE)
+      );
+      const { validator } = createValidator(server, { maxAttempts: 3 });
+
+      const result = await validator.validate(YAML);
+
+      expect(server.requests).toHaveLength(3);
+      expect(result.valid).toBe(true);
+      expect(result.unavailable).toBeUndefined();
+    });
+
+    it('should back off exponentially with jitter between attempts', async () => {
+      const server = createStandInServer(() => new Response('busy', { status: 429 }));
+      const { validator, delays } = createValidator(server, { maxAttempts: 3, baseDelayMs: 100 });
+
+      await validator.validate(YAML);
+
+      // Half of each delay is fixed, half scaled by random() = 0.5
+      expect(delays).toEqual([75, 150]);
+    });
+
+    it('should report unavailable rather than valid once retries are exhausted', async () => {
+      const server = createStandInServer(() => new Response('boom', { status: 500 }));
+      const { validator } = createValidator(server, { maxAttempts: 2 });
+
+      const result = await validator.validate(YAML);
+
+      expect(server.requests).toHaveLength(2);
+      expect(result.valid).toBe(false);
+      expect(result.unavailable).toBe(true);
+      expect(result.unavailable_reason).toBe('validator returned status 500');
+      expect(formatUnavailableWarning(result)).toContain(EXTERNAL_VALIDATION_UNAVAILABLE);
+    });
+
+    it('should retry network errors', async () => {
+      const server = createStandInServer((_, call) => {
+        if (call === 1) throw new TypeError('fetch failed');
+        return Response.json(VALID_RESPONSE);
+      });
+      const { validator } = createValidator(server);
+
+      const result = await validator.validate(YAML);
+
+      expect(server.requests).toHaveLength(2);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should time out slow attempts', async () => {
+      const server = createStandInServer(request =>
+        new Promise<Response>((_, reject) => {
+          request.signal.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+      );
+      const { validator } = createValidator(server, { maxAttempts: 1, timeoutMs: 10 });
+
+      const result = await validator.validate(YAML);
+
+      expect(result.unavailable).toBe(true);
+      expect(result.unavailable_reason).toBe('validator timed out after 10ms');
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should stop calling the validator once the circuit opens', async () => {
+      const server = createStandInServer(() => new Response('down', { status: 502 }));
+      const breaker = createCircuitBreaker({ failureThreshold: 2 });
+      const { validator } = createValidator(server, { maxAttempts: 1, breaker });
+
+      await validator.validate('a: 1');
+      await validator.validate('a: 2');
+      const result = await validator.validate('a: 3');
+
+      expect(server.requests).toHaveLength(2);
+      expect(breaker.state()).toBe('open');
+      expect(result.unavailable).toBe(true);
+      expect(result.unavailable_reason).toContain('circuit open');
+    });
+
+    it('should close again after a successful trial request', async () => {
+      let now = 0;
+      let healthy = false;
+      const server = createStandInServer(() =>
+        healthy ? Response.json(VALID_RESPONSE) : new Response('down', { status: 503 })
+      );
+      const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, now: () => now });
+      const { validator } = createValidator(server, { maxAttempts: 1, breaker });
+
+      await validator.validate('a: 1');
+      expect(breaker.state()).toBe('open');
+
+      now = 1000;
+      expect(breaker.state()).toBe('half_open');
+      healthy = true;
+      const result = await validator.validate('a: 2');
+
+      expect(result.valid).toBe(true);
+      expect(breaker.state()).toBe('closed');
+    });
+
+    it('should reopen when the trial request fails', () => {
+      let now = 0;
+      const breaker = createCircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000, now: () => now });
+      for (let i = 0; i < 3; i++) breaker.recordFailure();
+      expect(breaker.allowRequest()).toBe(false);
+
+      now = 1500;
+      expect(breaker.allowRequest()).toBe(true);
+      // Only one trial at a time
+      expect(breaker.allowRequest()).toBe(false);
+      breaker.recordFailure();
+
+      expect(breaker.state()).toBe('open');
+      now = 2499;
+      expect(breaker.allowRequest()).toBe(false);
+    });
+  });
+});
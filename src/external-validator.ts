@@ -0,0 +1,385 @@
+/**
+ * External Validator Client
+ *
+ * The one client for validate.expanso.io, shared by the HTTP API, chat and
+ * MCP tools. Results are cached in KV by a hash of the YAML, transient
+ * failures are retried with jittered backoff, and a circuit breaker stops
+ * calling the validator while it keeps failing.
+ *
+ * When the validator cannot be reached the result is marked `unavailable`
+ * rather than reported as valid, so callers can say the YAML was not checked.
+ */
+
+import type { Env } from './index';
+import type { components } from './types/validate-api';
+import { createOfflineValidator } from './offline-validator';
+import { stripLintConfig, type LintConfig } from './lint-config';
+import type { CustomCompatibilityRule } from './compatibility-rules';
+
+// Typed external validation using validate.expanso.io API contract
+export type ValidateResponse = components['schemas']['ValidateResponse'];
+export type Hallucination = components['schemas']['Hallucination'];
+export type ValidationSummary = components['schemas']['ValidationSummary'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExternalValidationResult {
+  valid: boolean;
+  error_count: number;
+  hallucinations: Hallucination[];
+  formatted_yaml?: string;
+  corrected_yaml?: string;
+  summary?: ValidationSummary;
+  /** The validator could not be reached, so nothing was checked */
+  unavailable?: boolean;
+  /** Why the validator was unavailable */
+  unavailable_reason?: string;
+  /** Served from the KV result cache */
+  cached?: boolean;
+  /** Produced locally by the offline validator */
+  offline?: boolean;
+}
+
+export interface ExternalValidateOptions {
+  autoCorrect?: boolean;
+  summarize?: boolean;
+}
+
+export interface ExternalValidator {
+  validate(yaml: string, options?: ExternalValidateOptions): Promise<ExternalValidationResult>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreaker {
+  /** Whether a request may be sent now */
+  allowRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  state(): CircuitState;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial request */
+  resetTimeoutMs?: number;
+  now?: () => number;
+}
+
+export interface ExternalValidatorOptions {
+  baseUrl?: string;
+  /** KV namespace for cached results; caching is skipped without one */
+  cache?: KVNamespace;
+  cacheTtlSeconds?: number;
+  /** Attempts per validation, including the first */
+  maxAttempts?: number;
+  /** Backoff before the second attempt; doubles after each retry */
+  baseDelayMs?: number;
+  /** Per-attempt timeout */
+  timeoutMs?: number;
+  breaker?: CircuitBreaker;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export const EXTERNAL_VALIDATOR_URL = 'https://validate.expanso.io';
+
+export const EXTERNAL_VALIDATION_UNAVAILABLE = 'External validation unavailable';
+
+const DEFAULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 200;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+// Bump when the cached result shape changes
+const CACHE_KEY_PREFIX = 'validate:v1:';
+
+// ============================================================================
+// Circuit Breaker
+// ============================================================================
+
+/**
+ * Circuit breaker: opens after consecutive failures, then lets a single trial
+ * request through once the reset timeout has passed. A successful trial
+ * closes the circuit; a failed one opens it again.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+  const resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+  const now = options.now ?? Date.now;
+
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  function state(): CircuitState {
+    if (openedAt === null) return 'closed';
+    return now() - openedAt >= resetTimeoutMs ? 'half_open' : 'open';
+  }
+
+  return {
+    allowRequest() {
+      switch (state()) {
+        case 'closed':
+          return true;
+        case 'half_open':
+          if (trialInFlight) return false;
+          trialInFlight = true;
+          return true;
+        default:
+          return false;
+      }
+    },
+
+    recordSuccess() {
+      failures = 0;
+      openedAt = null;
+      trialInFlight = false;
+    },
+
+    recordFailure() {
+      failures++;
+      if (trialInFlight || failures >= failureThreshold) {
+        openedAt = now();
+      }
+      trialInFlight = false;
+    },
+
+    state,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function queryString(options: ExternalValidateOptions): string {
+  const params = new URLSearchParams();
+  if (options.autoCorrect) params.set('auto_correct', 'true');
+  if (options.summarize) params.set('summarize', 'true');
+  return params.toString();
+}
+
+/**
+ * Cache key for a YAML document and the options it was validated with
+ */
+export async function validationCacheKey(yaml: string, options: ExternalValidateOptions = {}): Promise<string> {
+  return CACHE_KEY_PREFIX + await sha256Hex(`${queryString(options)}\n${yaml}`);
+}
+
+// Server errors and rate limiting are worth retrying; other 4xx are answers
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429;
+}
+
+function unavailable(reason: string): ExternalValidationResult {
+  return {
+    valid: false,
+    error_count: 0,
+    hallucinations: [],
+    unavailable: true,
+    unavailable_reason: reason,
+  };
+}
+
+function requestFailed(status: number, text: string): ExternalValidationResult {
+  return {
+    valid: false,
+    error_count: 1,
+    hallucinations: [{
+      category: 'UNKNOWN',
+      severity: 'ERROR',
+      path: 'root',
+      hallucination: 'request_failed',
+      message: text || `Validation failed with status ${status}`,
+    }],
+  };
+}
+
+function fromResponse(result: ValidateResponse): ExternalValidationResult {
+  return {
+    valid: result.valid,
+    error_count: result.error_count,
+    hallucinations: result.hallucinations ?? [],
+    formatted_yaml: result.formatted_yaml,
+    corrected_yaml: result.corrected_yaml,
+    summary: result.summary,
+  };
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+type AttemptOutcome =
+  | { kind: 'result'; result: ExternalValidationResult; cacheable: boolean }
+  | { kind: 'retry'; reason: string };
+
+/**
+ * Create a validate.expanso.io client
+ */
+export function createExternalValidator(options: ExternalValidatorOptions = {}): ExternalValidator {
+  const baseUrl = (options.baseUrl ?? EXTERNAL_VALIDATOR_URL).replace(/\/+$/, '');
+  const cacheTtlSeconds = options.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const breaker = options.breaker ?? createCircuitBreaker();
+  const doFetch = options.fetch ?? ((input, init) => fetch(input, init));
+  const sleep = options.sleep ?? defaultSleep;
+  const random = options.random ?? Math.random;
+
+  async function readCache(key: string): Promise<ExternalValidationResult | null> {
+    if (!options.cache) return null;
+    try {
+      const data = await options.cache.get(key);
+      return data ? { ...(JSON.parse(data) as ExternalValidationResult), cached: true } : null;
+    } catch (error) {
+      console.error('Validation cache read error:', error);
+      return null;
+    }
+  }
+
+  async function writeCache(key: string, result: ExternalValidationResult): Promise<void> {
+    if (!options.cache) return;
+    try {
+      await options.cache.put(key, JSON.stringify(result), { expirationTtl: cacheTtlSeconds });
+    } catch (error) {
+      console.error('Validation cache write error:', error);
+    }
+  }
+
+  async function attempt(url: string, yaml: string): Promise<AttemptOutcome> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await doFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: yaml,
+        signal: controller.signal,
+      });
+
+      if (response.ok) {
+        const result = fromResponse(await response.json() as ValidateResponse);
+        return { kind: 'result', result, cacheable: true };
+      }
+      if (isRetryableStatus(response.status)) {
+        return { kind: 'retry', reason: `validator returned status ${response.status}` };
+      }
+      return { kind: 'result', result: requestFailed(response.status, await response.text()), cacheable: false };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return { kind: 'retry', reason: `validator timed out after ${timeoutMs}ms` };
+      }
+      return { kind: 'retry', reason: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Exponential backoff with equal jitter: half fixed, half random
+  function backoff(retry: number): number {
+    const delay = baseDelayMs * 2 ** (retry - 1);
+    return Math.round(delay / 2 + random() * delay / 2);
+  }
+
+  return {
+    async validate(source, validateOptions = {}) {
+      // The lint config is ours; validate.expanso.io would report it as unknown
+      const yaml = stripLintConfig(source);
+      const key = await validationCacheKey(yaml, validateOptions);
+      const cached = await readCache(key);
+      if (cached) return cached;
+
+      if (!breaker.allowRequest()) {
+        return unavailable('circuit open after repeated validator failures');
+      }
+
+      const query = queryString(validateOptions);
+      const url = `${baseUrl}/validate${query ? '?' + query : ''}`;
+
+      let reason = '';
+      for (let attemptNumber = 1; attemptNumber <= maxAttempts; attemptNumber++) {
+        if (attemptNumber > 1) await sleep(backoff(attemptNumber - 1));
+
+        const outcome = await attempt(url, yaml);
+        if (outcome.kind === 'result') {
+          breaker.recordSuccess();
+          if (outcome.cacheable) await writeCache(key, outcome.result);
+          return outcome.result;
+        }
+        reason = outcome.reason;
+      }
+
+      console.error('External validation unavailable:', reason);
+      breaker.recordFailure();
+      return unavailable(reason);
+    },
+  };
+}
+
+// Shared for the lifetime of the isolate so failures from every caller count
+const sharedBreaker = createCircuitBreaker();
+
+export interface GetExternalValidatorOptions {
+  /** Per-request override of VALIDATION_MODE */
+  offline?: boolean;
+  /** Target version for offline validation */
+  targetVersion?: string;
+  /** Project lint config for offline validation */
+  lint?: LintConfig;
+  /** Organization rules for offline validation */
+  customRules?: CustomCompatibilityRule[];
+}
+
+/**
+ * Whether validation should stay local: the request flag wins, then
+ * VALIDATION_MODE=offline
+ */
+export function isOfflineMode(env: Pick<Env, 'VALIDATION_MODE'>, offline?: boolean): boolean {
+  return offline ?? env.VALIDATION_MODE === 'offline';
+}
+
+/**
+ * Get the validator client for this environment: the offline validator in
+ * offline mode, otherwise validate.expanso.io cached in CONTENT_CACHE when
+ * it is bound
+ */
+export function getExternalValidator(
+  env: Pick<Env, 'CONTENT_CACHE' | 'VALIDATION_MODE'>,
+  options: GetExternalValidatorOptions = {}
+): ExternalValidator {
+  if (isOfflineMode(env, options.offline)) {
+    return createOfflineValidator({
+      targetVersion: options.targetVersion,
+      lint: options.lint,
+      customRules: options.customRules,
+    });
+  }
+  return createExternalValidator({ cache: env.CONTENT_CACHE, breaker: sharedBreaker });
+}
+
+/**
+ * Warning for results where the validator could not be reached
+ */
+export function formatUnavailableWarning(result: ExternalValidationResult): string {
+  return result.unavailable_reason
+    ? `${EXTERNAL_VALIDATION_UNAVAILABLE} (${result.unavailable_reason}); only local checks were run`
+    : `${EXTERNAL_VALIDATION_UNAVAILABLE}; only local checks were run`;
+}
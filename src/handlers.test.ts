@@ -0,0 +1,96 @@
+/**
+ * Tests for hybrid documentation search
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { handleSearch } from './handlers';
+import { BM25_INDEX_KEY, buildBm25Index } from './bm25';
+import type { Env } from './index';
+
+const KEYWORD_INDEX = buildBm25Index([
+  { id: 'components', uri: 'https://docs.expanso.io/llms/components.txt', title: 'Pipeline Components', section: 'Kafka', domain: 'docs.expanso.io', snippet: 'kafka_franz input', type: 'doc', text: 'The kafka_franz input reads from Kafka.' },
+  { id: 'guides', uri: 'https://docs.expanso.io/llms/guides.txt', title: 'How-To Guides', section: 'Streaming', domain: 'docs.expanso.io', snippet: 'Streaming guide', type: 'doc', text: 'Stream events from Kafka into S3.' },
+]);
+
+function createEnv(overrides: Partial<Env> = {}): Env {
+  const kv = {
+    get: vi.fn(async (key: string) => (key === BM25_INDEX_KEY ? JSON.parse(JSON.stringify(KEYWORD_INDEX)) : null)),
+    put: vi.fn(),
+  };
+  return {
+    AI: { run: vi.fn().mockResolvedValue({ data: [[0.1, 0.2]] }) } as unknown as Ai,
+    CONTENT_CACHE: kv as unknown as KVNamespace,
+    DOCS_DOMAINS: 'docs.expanso.io',
+    POSTHOG_API_KEY: '',
+    ...overrides,
+  };
+}
+
+function vectorize(ids: string[]): VectorizeIndex {
+  return {
+    query: vi.fn().mockResolvedValue({
+      matches: ids.map((id, rank) => ({
+        id,
+        score: 0.9 - rank / 10,
+        metadata: { uri: `https://docs.expanso.io/llms/${id}.txt`, title: id, snippet: '', domain: 'docs.expanso.io' },
+      })),
+    }),
+  } as unknown as VectorizeIndex;
+}
+
+describe('handleSearch', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fuse vector and keyword rankings', async () => {
+    const env = createEnv({ VECTORIZE: vectorize(['guides', 'operations']) });
+    const { results } = await handleSearch(env, 'kafka_franz', 5);
+
+    // "guides" is ranked by both retrievers, "components" only by BM25
+    expect(results.map(r => r.uri)).toEqual([
+      'https://docs.expanso.io/llms/guides.txt',
+      'https://docs.expanso.io/llms/components.txt',
+      'https://docs.expanso.io/llms/operations.txt',
+    ]);
+    expect(results[1]).toMatchObject({
+      title: 'Pipeline Components',
+      section: 'Kafka',
+      chunkId: 'components',
+      highlight: '**kafka_franz** input',
+    });
+  });
+
+  it('should use the keyword index alone when Vectorize fails', async () => {
+    const failing = { query: vi.fn().mockRejectedValue(new Error('down')) } as unknown as VectorizeIndex;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { results } = await handleSearch(createEnv({ VECTORIZE: failing }), 'kafka_franz', 5);
+    expect(results[0].uri).toBe('https://docs.expanso.io/llms/components.txt');
+  });
+
+  it('should rerank with the cross-encoder when asked', async () => {
+    const env = createEnv();
+    vi.mocked(env.AI.run).mockResolvedValue({ response: [{ id: 1, score: 0.8 }, { id: 0, score: 0.1 }] } as never);
+    const { results } = await handleSearch(env, 'kafka', 5, undefined, { rerank: true });
+
+    expect(env.AI.run).toHaveBeenCalledWith('@cf/baai/bge-reranker-base', expect.objectContaining({ query: 'kafka' }));
+    expect(results.map(r => r.score)).toEqual([0.8, 0.1]);
+  });
+
+  it('should filter both retrievers by type', async () => {
+    const search = vectorize([]);
+    const env = createEnv({ VECTORIZE: search });
+
+    const docs = await handleSearch(env, 'kafka', 5, undefined, { type: 'doc' });
+    expect(docs.results).toHaveLength(2);
+    expect(search.query).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ filter: { type: 'doc' } }));
+
+    const rules = await handleSearch(env, 'kafka', 5, undefined, { type: 'rule' });
+    expect(rules.results).toEqual([]);
+  });
+
+  it('should fall back to resource keyword search without either index', async () => {
+    const { results } = await handleSearch(createEnv({ CONTENT_CACHE: undefined }), 'getting started', 3);
+    expect(results[0].title).toBe('Getting Started');
+  });
+});
@@ -1,26 +1,37 @@
 /**
  * Request Handlers
  *
- * Implements semantic search using Vectorize and content retrieval.
+ * Implements hybrid search using Vectorize and a BM25 keyword index, and
+ * content retrieval.
  */
 
 import type { Env } from './index';
+import { BM25_INDEX_KEY, isBm25Index, reciprocalRankFusion, searchBm25, type Bm25Index } from './bm25';
+import { highlightTerms } from './doc-sections';
+import type { SearchType } from './registry-chunks';
+import {
+  allowedDomains,
+  getResources,
+  isAllowedResourceUri,
+  parseDomains,
+  type Resource,
+} from './resource-registry';
 
-// Resource definition
-interface Resource {
-  uri: string;
-  name: string;
-  description: string;
-  mimeType: string;
-}
-
-// Search result
+// Search result; section fields are set for results that point at a chunk
 interface SearchResult {
   uri: string;
   title: string;
   snippet: string;
   score: number;
   domain: string;
+  /** Section heading, pass as `section` to get_resource */
+  section?: string;
+  chunkId?: string;
+  /** Character offsets of the section in the resource */
+  start?: number;
+  end?: number;
+  /** Snippet with query terms wrapped in ** */
+  highlight?: string;
 }
 
 // Content response
@@ -31,168 +42,148 @@ interface ContentResponse {
   domain: string;
 }
 
-// All available llms.txt resources
-const RESOURCES: Resource[] = [
-  // expanso.io
-  {
-    uri: 'https://expanso.io/llms.txt',
-    name: 'Expanso Overview',
-    description: 'Master index for Expanso - upstream data governance platform',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://expanso.io/llms/product.txt',
-    name: 'Product Overview',
-    description: 'Expanso product capabilities and architecture',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://expanso.io/llms/industries.txt',
-    name: 'Industries',
-    description: 'Industry-specific solutions for healthcare, retail, manufacturing',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://expanso.io/llms/use-cases.txt',
-    name: 'Use Cases',
-    description: 'Common use cases for edge data processing',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://expanso.io/llms/comparisons.txt',
-    name: 'Comparisons',
-    description: 'How Expanso compares to alternatives',
-    mimeType: 'text/plain',
-  },
-
-  // docs.expanso.io
-  {
-    uri: 'https://docs.expanso.io/llms.txt',
-    name: 'Expanso Docs Index',
-    description: 'Documentation index for Expanso platform',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://docs.expanso.io/llms/getting-started.txt',
-    name: 'Getting Started',
-    description: 'Installation and first steps with Expanso',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://docs.expanso.io/llms/cli.txt',
-    name: 'CLI Reference',
-    description: 'Expanso CLI commands and usage',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://docs.expanso.io/llms/components.txt',
-    name: 'Pipeline Components',
-    description: 'Inputs, processors, and outputs for data pipelines',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://docs.expanso.io/llms/operations.txt',
-    name: 'Operations',
-    description: 'Deployment, monitoring, and scaling',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://docs.expanso.io/llms/guides.txt',
-    name: 'How-To Guides',
-    description: 'Practical integration and configuration guides',
-    mimeType: 'text/plain',
-  },
-
-  // examples.expanso.io
-  {
-    uri: 'https://examples.expanso.io/llms.txt',
-    name: 'Examples Index',
-    description: 'Production-ready pipeline examples',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://examples.expanso.io/llms/data-routing.txt',
-    name: 'Data Routing',
-    description: 'Circuit breakers, fan-out, priority queues',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://examples.expanso.io/llms/data-security.txt',
-    name: 'Data Security',
-    description: 'PII removal, encryption, schema validation',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://examples.expanso.io/llms/data-transformation.txt',
-    name: 'Data Transformation',
-    description: 'Time windows, deduplication, format conversion',
-    mimeType: 'text/plain',
-  },
-  {
-    uri: 'https://examples.expanso.io/llms/log-processing.txt',
-    name: 'Log Processing',
-    description: 'Filtering, enrichment, production pipelines',
-    mimeType: 'text/plain',
-  },
-];
+/**
+ * Search options
+ */
+export interface SearchOptions {
+  /** Rerank the fused results with a cross-encoder */
+  rerank?: boolean;
+  /** Only return chunks of this type, e.g. "bloblang" */
+  type?: SearchType;
+}
+
+const RERANK_MODEL = '@cf/baai/bge-reranker-base';
 
 /**
- * Semantic search over documentation
+ * Hybrid search over documentation: Vectorize and the BM25 keyword index
+ * each rank chunks, and the rankings are merged with reciprocal-rank fusion
  */
 export async function handleSearch(
   env: Env,
   query: string,
   limit: number = 5,
-  domain?: string
+  domain?: string,
+  options: SearchOptions = {}
 ): Promise<{ results: SearchResult[]; query: string }> {
-  // If Vectorize is not configured, use keyword search
-  if (!env.VECTORIZE) {
-    return {
-      results: await fallbackKeywordSearch(env, query, limit, domain),
-      query,
-    };
+  const candidates = new Map<string, SearchResult>();
+  const rankings: string[][] = [];
+
+  // Keyword ranking from the BM25 index built at index time
+  const keywordIndex = await loadKeywordIndex(env);
+  if (keywordIndex) {
+    const matches = searchBm25(keywordIndex, query, { limit: limit * 2, domain, type: options.type });
+    for (const { document } of matches) {
+      candidates.set(document.id, {
+        uri: document.uri,
+        title: document.title,
+        snippet: document.snippet,
+        score: 0,
+        domain: document.domain,
+        section: document.section,
+        chunkId: document.id,
+        start: document.start,
+        end: document.end,
+      });
+    }
+    rankings.push(matches.map(({ document }) => document.id));
   }
 
-  try {
-    // Generate embedding for query
-    const embedding = await generateEmbedding(env, query);
+  // Vector ranking (skipped if Vectorize is not configured)
+  if (env.VECTORIZE) {
+    try {
+      // Generate embedding for query
+      const embedding = await generateEmbedding(env, query);
 
-    // Search Vectorize
-    const vectorResults = await env.VECTORIZE.query(embedding, {
-      topK: limit * 2, // Get more results to filter
-      returnMetadata: 'all',
-    });
+      // Search Vectorize
+      const vectorResults = await env.VECTORIZE.query(embedding, {
+        topK: limit * 2, // Get more results to filter
+        returnMetadata: 'all',
+        ...(options.type ? { filter: { type: options.type } } : {}),
+      });
 
-    // Filter by domain if specified and format results
-    let results: SearchResult[] = vectorResults.matches
-      .filter((match) => {
+      // Filter by domain if specified
+      const matches = vectorResults.matches.filter((match) => {
         if (!domain) return true;
         const matchDomain = (match.metadata?.domain as string) || '';
         return matchDomain.includes(domain);
-      })
-      .slice(0, limit)
-      .map((match) => ({
-        uri: (match.metadata?.uri as string) || '',
-        title: (match.metadata?.title as string) || 'Untitled',
-        snippet: (match.metadata?.snippet as string) || '',
-        score: match.score,
-        domain: (match.metadata?.domain as string) || '',
-      }));
-
-    // If no vector results (index not populated), fall back to keyword search
-    if (results.length === 0) {
-      results = await fallbackKeywordSearch(env, query, limit, domain);
+      });
+      for (const match of matches) {
+        if (candidates.has(match.id)) continue;
+        candidates.set(match.id, {
+          uri: (match.metadata?.uri as string) || '',
+          title: (match.metadata?.title as string) || 'Untitled',
+          snippet: (match.metadata?.snippet as string) || '',
+          score: 0,
+          domain: (match.metadata?.domain as string) || '',
+          section: match.metadata?.section as string | undefined,
+          chunkId: match.id,
+          start: match.metadata?.start as number | undefined,
+          end: match.metadata?.end as number | undefined,
+        });
+      }
+      rankings.push(matches.map((match) => match.id));
+    } catch (error) {
+      console.error('Search error:', error);
     }
+  }
 
-    return { results, query };
-  } catch (error) {
-    console.error('Search error:', error);
-    // Fall back to keyword search on any error
+  let results: SearchResult[] = reciprocalRankFusion(rankings)
+    .slice(0, limit * 2)
+    .map(({ id, score }) => {
+      const result = candidates.get(id)!;
+      return { ...result, score, highlight: highlightTerms(result.snippet, query) };
+    });
+
+  // If neither index has results (not populated), fall back to keyword search,
+  // which only knows about llms.txt docs
+  if (results.length === 0) {
+    if (options.type && options.type !== 'doc') return { results: [], query };
     return {
       results: await fallbackKeywordSearch(env, query, limit, domain),
       query,
     };
   }
+
+  if (options.rerank) {
+    results = await rerankResults(env, query, results);
+  }
+
+  return { results: results.slice(0, limit), query };
+}
+
+/**
+ * Load the BM25 index written by scripts/index-content.ts
+ */
+async function loadKeywordIndex(env: Env): Promise<Bm25Index | null> {
+  if (!env.CONTENT_CACHE) return null;
+  try {
+    const index = await env.CONTENT_CACHE.get(BM25_INDEX_KEY, { type: 'json', cacheTtl: 3600 });
+    return isBm25Index(index) ? index : null;
+  } catch {
+    // KV not available, continue without keyword ranking
+    return null;
+  }
+}
+
+/**
+ * Reorder results with a cross-encoder, which reads the query and each
+ * result together. Keeps the fused order if reranking fails.
+ */
+async function rerankResults(env: Env, query: string, results: SearchResult[]): Promise<SearchResult[]> {
+  try {
+    const response = await (env.AI.run as Function)(RERANK_MODEL, {
+      query,
+      contexts: results.map((r) => ({ text: `${r.title}\n${r.snippet}` })),
+      top_k: results.length,
+    });
+    const ranked = ((response?.response ?? []) as Array<{ id?: number; score?: number }>)
+      .filter((r) => typeof r.id === 'number' && results[r.id] !== undefined);
+    if (ranked.length === 0) return results;
+    return ranked.map((r) => ({ ...results[r.id!], score: r.score ?? 0 }));
+  } catch (error) {
+    console.error('Rerank error:', error);
+    return results;
+  }
 }
 
 /**
@@ -208,9 +199,10 @@ async function fallbackKeywordSearch(
   const queryTerms = queryLower.split(/\s+/);
 
   // Filter resources by domain
+  const resources = await getResources(env);
   const filteredResources = domain
-    ? RESOURCES.filter((r) => r.uri.includes(domain))
-    : RESOURCES;
+    ? resources.filter((r) => r.uri.includes(domain))
+    : resources;
 
   // Score resources by keyword match
   const scored = filteredResources.map((resource) => {
@@ -247,7 +239,7 @@ async function fallbackKeywordSearch(
  * List all available resources
  */
 export async function handleListResources(env: Env): Promise<Resource[]> {
-  return RESOURCES;
+  return getResources(env);
 }
 
 /**
@@ -257,9 +249,9 @@ export async function handleReadResource(
   env: Env,
   uri: string
 ): Promise<ContentResponse | null> {
-  // Validate URI is in our allowed list
-  const resource = RESOURCES.find((r) => r.uri === uri);
-  if (!resource) {
+  // Validate URI is in the registry and on an allowed domain
+  const resource = (await getResources(env)).find((r) => r.uri === uri);
+  if (!resource || !isAllowedResourceUri(uri, allowedDomains(parseDomains(env.DOCS_DOMAINS)))) {
     return null;
   }
 
@@ -0,0 +1,167 @@
+/**
+ * Tests for incremental indexing against the local vector store
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createCloudflareTarget,
+  createLocalTarget,
+  formatDiff,
+  loadManifest,
+  sourcesOnDomains,
+  syncIndex,
+  type IndexChunk,
+  type LocalStoreData,
+} from './index-sync';
+
+const MODEL = '@cf/baai/bge-base-en-v1.5';
+
+function memoryTarget() {
+  let text: string | null = null;
+  const target = createLocalTarget({
+    read: async () => text,
+    write: async (value) => { text = value; },
+  });
+  return { target, data: () => JSON.parse(text!) as LocalStoreData };
+}
+
+function chunk(id: string, body: string, start = 0): IndexChunk {
+  return { id, text: body, metadata: { uri: `https://docs.expanso.io/llms/${id.split('_')[0]}.txt`, section: id, start } };
+}
+
+// Embeds each text as [length], so tests can tell which texts were embedded
+function fakeEmbedder() {
+  return vi.fn(async (texts: string[]) => texts.map(text => [text.length]));
+}
+
+describe('Incremental Indexing', () => {
+  it('should embed everything on the first run', async () => {
+    const { target, data } = memoryTarget();
+    const embed = fakeEmbedder();
+    const diff = await syncIndex(target, [chunk('cli_install', 'Install'), chunk('cli_run', 'Run a job')], { embed, model: MODEL });
+
+    expect(diff.added).toEqual(['cli_install', 'cli_run']);
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(Object.keys(data().vectors)).toEqual(['cli_install', 'cli_run']);
+    expect(Object.keys((await loadManifest(target))!.chunks)).toEqual(['cli_install', 'cli_run']);
+  });
+
+  it('should embed only changed chunks and delete orphans', async () => {
+    const { target, data } = memoryTarget();
+    await syncIndex(target, [chunk('cli_install', 'Install'), chunk('cli_run', 'Run a job'), chunk('cli_old', 'Gone soon')], {
+      embed: fakeEmbedder(),
+      model: MODEL,
+    });
+
+    const embed = fakeEmbedder();
+    const diff = await syncIndex(target, [
+      chunk('cli_install', 'Install', 10),       // offsets moved
+      chunk('cli_run', 'Run a job with flags'),  // text changed
+      chunk('cli_new', 'Brand new'),
+    ], { embed, model: MODEL });
+
+    expect(diff).toEqual({
+      added: ['cli_new'],
+      changed: ['cli_run'],
+      metadataChanged: ['cli_install'],
+      unchanged: [],
+      removed: ['cli_old'],
+    });
+    expect(embed).toHaveBeenCalledWith(['Brand new', 'Run a job with flags']);
+    expect(data().vectors.cli_install).toEqual({ values: [7], metadata: chunk('cli_install', 'Install', 10).metadata });
+    expect(data().vectors.cli_old).toBeUndefined();
+  });
+
+  it('should describe the diff without writing on a dry run', async () => {
+    const { target, data } = memoryTarget();
+    await syncIndex(target, [chunk('cli_install', 'Install')], { embed: fakeEmbedder(), model: MODEL });
+
+    const embed = fakeEmbedder();
+    const diff = await syncIndex(target, [chunk('cli_run', 'Run')], { embed, model: MODEL, dryRun: true });
+
+    expect(embed).not.toHaveBeenCalled();
+    expect(Object.keys(data().vectors)).toEqual(['cli_install']);
+    expect(formatDiff(diff)).toBe('1 added, 0 changed, 0 metadata only, 0 unchanged, 1 removed\n  + cli_run\n  - cli_install');
+  });
+
+  it('should keep chunks from sources that could not be fetched', async () => {
+    const { target, data } = memoryTarget();
+    await syncIndex(target, [chunk('cli_install', 'Install'), chunk('guides_kafka', 'Kafka guide')], {
+      embed: fakeEmbedder(),
+      model: MODEL,
+    });
+
+    const diff = await syncIndex(target, [chunk('cli_install', 'Install')], {
+      embed: fakeEmbedder(),
+      model: MODEL,
+      unavailableSources: ['https://docs.expanso.io/llms/guides.txt'],
+    });
+
+    expect(diff.removed).toEqual([]);
+    expect(data().vectors.guides_kafka).toBeDefined();
+    expect((await loadManifest(target))!.chunks.guides_kafka).toBeDefined();
+  });
+
+  it('should refuse chunks that share an ID instead of dropping one', async () => {
+    const { target } = memoryTarget();
+    const embed = fakeEmbedder();
+    await expect(syncIndex(target, [chunk('cli_run', 'Run'), chunk('cli_run', 'Run again')], { embed, model: MODEL }))
+      .rejects.toThrow('Duplicate chunk IDs: cli_run');
+    expect(embed).not.toHaveBeenCalled();
+    expect(await loadManifest(target)).toBeNull();
+  });
+
+  it('should re-embed everything when the model changes', async () => {
+    const { target } = memoryTarget();
+    await syncIndex(target, [chunk('cli_install', 'Install')], { embed: fakeEmbedder(), model: MODEL });
+    const diff = await syncIndex(target, [chunk('cli_install', 'Install')], { embed: fakeEmbedder(), model: 'other-model' });
+    expect(diff.added).toEqual(['cli_install']);
+  });
+
+  it('should call the Vectorize and KV endpoints for the Cloudflare target', async () => {
+    const calls: string[] = [];
+    const fetcher = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      calls.push(`${init?.method} ${String(input).replace('https://api.cloudflare.com/client/v4/accounts/acct', '')}`);
+      return String(input).includes('/values/') && init?.method === 'GET'
+        ? new Response('Not found', { status: 404 })
+        : Response.json({ success: true, result: [] });
+    }) as unknown as typeof fetch;
+    const target = createCloudflareTarget({ accountId: 'acct', apiToken: 'token', indexName: 'docs', namespaceId: 'ns', fetcher });
+
+    await syncIndex(target, [chunk('cli_install', 'Install')], { embed: fakeEmbedder(), model: MODEL });
+
+    expect(calls).toEqual([
+      'GET /storage/kv/namespaces/ns/values/index%3Amanifest',
+      'POST /vectorize/v2/indexes/docs/upsert',
+      'PUT /storage/kv/namespaces/ns/values/index%3Amanifest',
+    ]);
+  });
+
+  it('should fail writes to a missing Vectorize index or KV namespace', async () => {
+    const fetcher = vi.fn(async () => new Response('Not found', { status: 404 })) as unknown as typeof fetch;
+    const target = createCloudflareTarget({ accountId: 'acct', apiToken: 'token', indexName: 'typo', namespaceId: 'ns', fetcher });
+
+    expect(await target.getValue('index:manifest')).toBeNull();
+    expect(await target.getByIds(['cli_install'])).toEqual([]);
+    await expect(target.upsert([{ id: 'cli_install', values: [1], metadata: {} }])).rejects.toThrow('Vectorize upsert error: 404');
+    await expect(target.deleteByIds(['cli_install'])).rejects.toThrow('Vectorize delete error: 404');
+    await expect(target.putValue('index:manifest', '{}')).rejects.toThrow('KV write error: 404');
+  });
+
+  it('should list the indexed sources of domains that could not be crawled', async () => {
+    const { target } = memoryTarget();
+    const examples = { id: 'kafka-example', text: 'Example', metadata: { uri: 'examples://docs.expanso.io/kafka' } };
+    await syncIndex(target, [chunk('cli_install', 'Install'), chunk('cli_run', 'Run'), chunk('guides_tls', 'TLS'), examples], {
+      embed: fakeEmbedder(),
+      model: MODEL,
+    });
+
+    const manifest = await loadManifest(target);
+    expect(sourcesOnDomains(manifest, ['docs.expanso.io'])).toEqual([
+      'https://docs.expanso.io/llms/cli.txt',
+      'https://docs.expanso.io/llms/guides.txt',
+    ]);
+    expect(sourcesOnDomains(manifest, ['expanso.io'])).toEqual([]);
+    expect(sourcesOnDomains(null, ['docs.expanso.io'])).toEqual([]);
+  });
+});
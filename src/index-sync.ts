@@ -0,0 +1,421 @@
+/**
+ * Incremental Indexing
+ *
+ * Keeps a vector index in step with the current set of chunks without
+ * re-embedding everything. A manifest stored alongside the vectors records a
+ * content hash per chunk ID; each run compares it with the new chunks and:
+ *
+ *   - embeds and upserts chunks that are new or whose text changed
+ *   - re-upserts chunks whose metadata alone changed (e.g. offsets shifted by
+ *     an edit earlier in the file), reusing their stored vectors
+ *   - deletes vectors for chunk IDs that no longer exist
+ *
+ * Targets implement IndexTarget: the Cloudflare API (Vectorize plus KV for
+ * the manifest) or a local JSON file that stands in for both, so the indexer
+ * can be run and tested offline. scripts/index-content.ts drives this.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IndexChunk {
+  id: string;
+  text: string;
+  /** Stored with the vector; `uri` also names the chunk's source */
+  metadata: Record<string, unknown>;
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Where vectors, the manifest and the BM25 index live
+ */
+export interface IndexTarget {
+  upsert(vectors: VectorRecord[]): Promise<void>;
+  /** Stored vectors for the IDs that exist */
+  getByIds(ids: string[]): Promise<VectorRecord[]>;
+  deleteByIds(ids: string[]): Promise<void>;
+  getValue(key: string): Promise<string | null>;
+  putValue(key: string, value: string): Promise<void>;
+}
+
+export interface ManifestEntry {
+  /** SHA-256 of the chunk text */
+  text: string;
+  /** SHA-256 of the chunk metadata */
+  metadata: string;
+  /** The chunk's source URI, if it has one */
+  source?: string;
+}
+
+export interface IndexManifest {
+  version: 1;
+  /** Embedding model the vectors were made with; a new model re-embeds everything */
+  model: string;
+  updatedAt: string;
+  chunks: Record<string, ManifestEntry>;
+}
+
+export interface IndexDiff {
+  added: string[];
+  /** Text changed, so the chunk is re-embedded */
+  changed: string[];
+  /** Only metadata changed, so the stored vector is reused */
+  metadataChanged: string[];
+  unchanged: string[];
+  /** In the manifest but no longer produced, so the vector is deleted */
+  removed: string[];
+}
+
+export interface SyncOptions {
+  embed: (texts: string[]) => Promise<number[][]>;
+  model: string;
+  /** Compute the diff without writing anything */
+  dryRun?: boolean;
+  /**
+   * Sources that could not be fetched this run; their chunks are kept
+   * rather than deleted
+   */
+  unavailableSources?: string[];
+  batchSize?: number;
+  log?: (message: string) => void;
+}
+
+export const MANIFEST_KEY = 'index:manifest';
+
+const DEFAULT_BATCH_SIZE = 20;
+
+// ============================================================================
+// Manifest
+// ============================================================================
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hash a chunk; metadata keys are sorted so their order doesn't matter
+ */
+export async function hashChunk(chunk: IndexChunk): Promise<ManifestEntry> {
+  const metadata = Object.keys(chunk.metadata).sort().map(key => [key, chunk.metadata[key] ?? null]);
+  return {
+    text: await sha256(chunk.text),
+    metadata: await sha256(JSON.stringify(metadata)),
+    ...(typeof chunk.metadata.uri === 'string' ? { source: chunk.metadata.uri } : {}),
+  };
+}
+
+/**
+ * Build the manifest for a set of chunks
+ */
+export async function buildManifest(chunks: IndexChunk[], model: string): Promise<IndexManifest> {
+  const entries: Record<string, ManifestEntry> = {};
+  for (const chunk of chunks) entries[chunk.id] = await hashChunk(chunk);
+  return { version: 1, model, updatedAt: new Date().toISOString(), chunks: entries };
+}
+
+function isManifest(value: unknown): value is IndexManifest {
+  if (!value || typeof value !== 'object') return false;
+  const manifest = value as Partial<IndexManifest>;
+  return manifest.version === 1 && typeof manifest.model === 'string' &&
+    !!manifest.chunks && typeof manifest.chunks === 'object';
+}
+
+/**
+ * Read the manifest from a target; a missing or unreadable one means
+ * everything is new
+ */
+export async function loadManifest(target: IndexTarget): Promise<IndexManifest | null> {
+  const text = await target.getValue(MANIFEST_KEY);
+  if (!text) return null;
+  try {
+    const manifest = JSON.parse(text);
+    return isManifest(manifest) ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sources in a manifest served from the given hosts, e.g. every page of a
+ * docs domain whose llms.txt could not be crawled this run
+ */
+export function sourcesOnDomains(manifest: IndexManifest | null, domains: string[]): string[] {
+  const sources = new Set<string>();
+  for (const entry of Object.values(manifest?.chunks ?? {})) {
+    if (!entry.source?.startsWith('https://')) continue;
+    if (domains.includes(new URL(entry.source).hostname)) sources.add(entry.source);
+  }
+  return [...sources];
+}
+
+/**
+ * Compare the previous manifest with the current one
+ */
+export function diffManifests(previous: IndexManifest | null, current: IndexManifest): IndexDiff {
+  const diff: IndexDiff = { added: [], changed: [], metadataChanged: [], unchanged: [], removed: [] };
+  const old = previous && previous.model === current.model ? previous.chunks : {};
+
+  for (const [id, entry] of Object.entries(current.chunks)) {
+    const before = Object.hasOwn(old, id) ? old[id] : undefined;
+    if (!before) diff.added.push(id);
+    else if (before.text !== entry.text) diff.changed.push(id);
+    else if (before.metadata !== entry.metadata) diff.metadataChanged.push(id);
+    else diff.unchanged.push(id);
+  }
+  // Vectors from another model are replaced by the upserts, but orphans still go
+  for (const id of Object.keys(previous?.chunks ?? {})) {
+    if (!Object.hasOwn(current.chunks, id)) diff.removed.push(id);
+  }
+
+  return diff;
+}
+
+/**
+ * One line per category, listing the IDs that will be written or deleted
+ */
+export function formatDiff(diff: IndexDiff): string {
+  const lines = [
+    `${diff.added.length} added, ${diff.changed.length} changed, ${diff.metadataChanged.length} metadata only, ` +
+      `${diff.unchanged.length} unchanged, ${diff.removed.length} removed`,
+  ];
+  const sections: Array<[string, string[]]> = [
+    ['+', diff.added],
+    ['~', diff.changed],
+    ['m', diff.metadataChanged],
+    ['-', diff.removed],
+  ];
+  for (const [marker, ids] of sections) {
+    for (const id of ids) lines.push(`  ${marker} ${id}`);
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Chunk IDs produced more than once. Each would overwrite the other's
+ * vector, so syncIndex refuses to run with any.
+ */
+export function findDuplicateIds(chunks: IndexChunk[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const chunk of chunks) {
+    if (seen.has(chunk.id)) duplicates.add(chunk.id);
+    seen.add(chunk.id);
+  }
+  return [...duplicates];
+}
+
+function batches<T>(items: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+  return result;
+}
+
+/**
+ * Bring a target up to date with the given chunks. The manifest is written
+ * last, so an interrupted run is simply redone next time. Throws before
+ * writing anything if two chunks share an ID.
+ */
+export async function syncIndex(
+  target: IndexTarget,
+  chunks: IndexChunk[],
+  options: SyncOptions
+): Promise<IndexDiff> {
+  const {
+    embed,
+    model,
+    dryRun = false,
+    unavailableSources = [],
+    batchSize = DEFAULT_BATCH_SIZE,
+    log = () => {},
+  } = options;
+
+  const duplicates = findDuplicateIds(chunks);
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate chunk IDs: ${duplicates.join(', ')}`);
+  }
+
+  const byId = new Map(chunks.map(chunk => [chunk.id, chunk]));
+  const current = await buildManifest([...byId.values()], model);
+  const previous = await loadManifest(target);
+  const diff = diffManifests(previous, current);
+
+  // A source that failed to fetch keeps its chunks until it can be read again
+  diff.removed = diff.removed.filter(id => {
+    const entry = previous!.chunks[id];
+    if (previous!.model !== model || !entry.source || !unavailableSources.includes(entry.source)) return true;
+    current.chunks[id] = entry;
+    diff.unchanged.push(id);
+    return false;
+  });
+  if (dryRun) return diff;
+
+  // Reuse stored vectors for metadata-only changes; embed any that are missing
+  const toEmbed = [...diff.added, ...diff.changed];
+  for (const ids of batches(diff.metadataChanged, batchSize)) {
+    const stored = new Map((await target.getByIds(ids)).map(vector => [vector.id, vector]));
+    const vectors: VectorRecord[] = [];
+    for (const id of ids) {
+      const vector = stored.get(id);
+      if (vector) vectors.push({ id, values: vector.values, metadata: byId.get(id)!.metadata });
+      else toEmbed.push(id);
+    }
+    if (vectors.length > 0) await target.upsert(vectors);
+  }
+
+  let embedded = 0;
+  for (const ids of batches(toEmbed, batchSize)) {
+    const batch = ids.map(id => byId.get(id)!);
+    const embeddings = await embed(batch.map(chunk => chunk.text));
+    await target.upsert(batch.map((chunk, i) => ({ id: chunk.id, values: embeddings[i], metadata: chunk.metadata })));
+    embedded += batch.length;
+    log(`  ${embedded}/${toEmbed.length} chunks embedded`);
+  }
+
+  for (const ids of batches(diff.removed, 100)) {
+    await target.deleteByIds(ids);
+  }
+
+  await target.putValue(MANIFEST_KEY, JSON.stringify(current));
+  return diff;
+}
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+export interface CloudflareTargetOptions {
+  accountId: string;
+  apiToken: string;
+  indexName: string;
+  /** KV namespace for the manifest and other values */
+  namespaceId: string;
+  fetcher?: typeof fetch;
+}
+
+/**
+ * Vectorize and KV through the Cloudflare REST API
+ */
+export function createCloudflareTarget(options: CloudflareTargetOptions): IndexTarget {
+  const { accountId, apiToken, indexName, namespaceId, fetcher = fetch } = options;
+  const base = `https://api.cloudflare.com/client/v4/accounts/${accountId}`;
+  const vectorize = `${base}/vectorize/v2/indexes/${indexName}`;
+  const kv = `${base}/storage/kv/namespaces/${namespaceId}/values`;
+
+  // Only reads may 404; a write to a missing index or namespace must fail
+  const request = async (url: string, init: RequestInit, what: string, allowNotFound = false): Promise<Response> => {
+    const response = await fetcher(url, {
+      ...init,
+      headers: { Authorization: `Bearer ${apiToken}`, ...(init.headers as Record<string, string>) },
+    });
+    if (!response.ok && !(allowNotFound && response.status === 404)) {
+      throw new Error(`${what} error: ${response.status} - ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    async upsert(vectors) {
+      await request(`${vectorize}/upsert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-ndjson' },
+        body: vectors.map(vector => JSON.stringify(vector)).join('\n'),
+      }, 'Vectorize upsert');
+    },
+
+    async getByIds(ids) {
+      const response = await request(`${vectorize}/get_by_ids`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+      }, 'Vectorize get', true);
+      if (response.status === 404) return [];
+      const body = await response.json() as { result?: VectorRecord[] };
+      return body.result ?? [];
+    },
+
+    async deleteByIds(ids) {
+      await request(`${vectorize}/delete_by_ids`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+      }, 'Vectorize delete');
+    },
+
+    async getValue(key) {
+      const response = await request(`${kv}/${encodeURIComponent(key)}`, { method: 'GET' }, 'KV read', true);
+      return response.status === 404 ? null : response.text();
+    },
+
+    async putValue(key, value) {
+      await request(`${kv}/${encodeURIComponent(key)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: value,
+      }, 'KV write');
+    },
+  };
+}
+
+/**
+ * Contents of a local vector store file
+ */
+export interface LocalStoreData {
+  vectors: Record<string, { values: number[]; metadata: Record<string, unknown> }>;
+  values: Record<string, string>;
+}
+
+/**
+ * A vector store kept in one JSON document. `read` and `write` load and save
+ * the document, e.g. from a file in the indexer or from memory in tests.
+ */
+export function createLocalTarget(storage: {
+  read(): Promise<string | null>;
+  write(text: string): Promise<void>;
+}): IndexTarget {
+  const load = async (): Promise<LocalStoreData> => {
+    const text = await storage.read();
+    return text ? JSON.parse(text) as LocalStoreData : { vectors: {}, values: {} };
+  };
+  const save = (data: LocalStoreData) => storage.write(JSON.stringify(data, null, 2));
+
+  return {
+    async upsert(vectors) {
+      const data = await load();
+      for (const { id, values, metadata } of vectors) data.vectors[id] = { values, metadata };
+      await save(data);
+    },
+
+    async getByIds(ids) {
+      const data = await load();
+      return ids.filter(id => Object.hasOwn(data.vectors, id)).map(id => ({ id, ...data.vectors[id] }));
+    },
+
+    async deleteByIds(ids) {
+      const data = await load();
+      for (const id of ids) delete data.vectors[id];
+      await save(data);
+    },
+
+    async getValue(key) {
+      const data = await load();
+      return Object.hasOwn(data.values, key) ? data.values[key] : null;
+    },
+
+    async putValue(key, value) {
+      const data = await load();
+      data.values[key] = value;
+      await save(data);
+    },
+  };
+}
@@ -5,32 +5,35 @@
  * Supports both HTTP API and MCP protocol over SSE.
  */
 
-import { handleMcpRequest, handleSseConnection } from './mcp';
+import { handleMcpRequest } from './mcp';
 import { handleSearch, handleListResources, handleReadResource } from './handlers';
+import { extractSection } from './doc-sections';
+import { refreshResources } from './resource-registry';
+import { isSearchType, SEARCH_TYPES } from './registry-chunks';
 import { getChatHtml } from './chat-ui';
 import { trackChat, trackSearch, trackPageView, trackYamlFeedback, trackYamlGenerated, getDistinctId } from './analytics';
 import { validatePipelineYaml, formatValidationErrors } from './pipeline-validator';
+import { evaluateBloblang } from './bloblang-evaluator';
+import type { SourceRange } from './yaml-source';
 import { searchExamples, formatExamplesForContext, getRandomExamples, formatWelcomeExamples } from './examples-registry';
 import { generateComponentsSection, extractComponentsFromYaml } from './docs-links';
+import {
+  getExternalValidator,
+  formatUnavailableWarning,
+  type Hallucination,
+} from './external-validator';
+import { categorizeError } from './offline-validator';
+import { formatValidationReport, isReportFormat } from './validation-report';
+import { validatePipelineBatch, MAX_BATCH_FILES, MAX_BATCH_BYTES } from './batch-validator';
+import { readStream, readYamlFiles } from './archive';
+import { isValidVersion } from './versioning';
+import { parseLintConfig } from './lint-config';
+import { resolveCustomRules } from './custom-rules';
+import { redactSecrets } from './secret-scanner';
 import type { components } from './types/validate-api';
 
-// Typed external validation using validate.expanso.io API contract
-type ValidateResponse = components['schemas']['ValidateResponse'];
-type Hallucination = components['schemas']['Hallucination'];
 type HallucinationType = components['schemas']['HallucinationType'];
 
-type ValidationSummary = components['schemas']['ValidationSummary'];
-type FirstError = components['schemas']['FirstError'];
-
-interface ExternalValidationResult {
-  valid: boolean;
-  error_count: number;
-  hallucinations: Hallucination[];
-  formatted_yaml?: string;
-  corrected_yaml?: string;
-  summary?: ValidationSummary;
-}
-
 // Format a hallucination into a human-readable string
 function formatHallucination(h: Hallucination): string {
   const prefix: Record<HallucinationType, string> = {
@@ -57,54 +60,6 @@ function hallucinationsToErrors(hallucinations: Hallucination[]): string[] {
     .map(formatHallucination);
 }
 
-async function validateWithExpanso(yaml: string, options: { autoCorrect?: boolean; summarize?: boolean } = {}): Promise<ExternalValidationResult> {
-  try {
-    const params = new URLSearchParams();
-    if (options.autoCorrect) params.set('auto_correct', 'true');
-    if (options.summarize) params.set('summarize', 'true');
-    const queryString = params.toString();
-    const url = `https://validate.expanso.io/validate${queryString ? '?' + queryString : ''}`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'text/plain' },
-      body: yaml,
-    });
-
-    if (!response.ok) {
-      // Validation endpoint returned error - treat as invalid
-      const errorText = await response.text();
-      return {
-        valid: false,
-        error_count: 1,
-        hallucinations: [{
-          category: 'UNKNOWN',
-          severity: 'ERROR',
-          path: 'root',
-          hallucination: 'request_failed',
-          message: errorText || `Validation failed with status ${response.status}`,
-        }],
-      };
-    }
-
-    // Response is now typed via OpenAPI contract
-    const result: ValidateResponse = await response.json();
-
-    return {
-      valid: result.valid,
-      error_count: result.error_count,
-      hallucinations: result.hallucinations,
-      formatted_yaml: result.formatted_yaml,
-      corrected_yaml: result.corrected_yaml,
-      summary: result.summary,
-    };
-  } catch (error) {
-    // Network error - don't block, just log
-    console.error('External validation error:', error);
-    return { valid: true, error_count: 0, hallucinations: [] }; // Fail open on network issues
-  }
-}
-
 // Format validation errors for LLM to fix
 function formatErrorsForFix(hallucinations: Hallucination[]): string {
   if (hallucinations.length === 0) return '';
@@ -239,7 +194,8 @@ async function validateAndFixYaml(
   yaml: string,
   userRequest: string,
   maxRetries: number = 2
-): Promise<{ yaml: string; valid: boolean; attempts: number; hallucinations: Hallucination[] }> {
+): Promise<{ yaml: string; valid: boolean; unavailable?: boolean; attempts: number; hallucinations: Hallucination[] }> {
+  const validator = getExternalValidator(env);
   let currentYaml = yaml;
   let attempts = 0;
 
@@ -247,7 +203,12 @@ async function validateAndFixYaml(
     attempts++;
 
     // Validate current YAML
-    const result = await validateWithExpanso(currentYaml, { autoCorrect: true });
+    const result = await validator.validate(currentYaml, { autoCorrect: true });
+
+    // Validator unreachable - nothing to fix against, leave it to local validation
+    if (result.unavailable) {
+      return { yaml: currentYaml, valid: false, unavailable: true, attempts, hallucinations: [] };
+    }
 
     // If valid, we're done
     if (result.valid) {
@@ -257,7 +218,7 @@ async function validateAndFixYaml(
     // If we have a valid correction from the validator, use it
     if (result.corrected_yaml) {
       // Verify the correction is actually valid
-      const correctionResult = await validateWithExpanso(result.corrected_yaml);
+      const correctionResult = await validator.validate(result.corrected_yaml);
       if (correctionResult.valid) {
         return { yaml: result.corrected_yaml, valid: true, attempts, hallucinations: [] };
       }
@@ -282,10 +243,11 @@ async function validateAndFixYaml(
   }
 
   // Max retries reached, do final validation
-  const finalResult = await validateWithExpanso(currentYaml);
+  const finalResult = await validator.validate(currentYaml);
   return {
     yaml: currentYaml,
     valid: finalResult.valid,
+    unavailable: finalResult.unavailable,
     attempts,
     hallucinations: finalResult.hallucinations
   };
@@ -298,6 +260,7 @@ export interface Env {
   FEEDBACK_BUCKET?: R2Bucket; // R2 for storing bad YAML feedback
   DOCS_DOMAINS: string;
   POSTHOG_API_KEY: string;
+  VALIDATION_MODE?: string; // "offline" validates locally instead of calling validate.expanso.io
 }
 
 export default {
@@ -307,8 +270,10 @@ export default {
     // CORS headers for all responses
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers':
+        'Content-Type, Authorization, Mcp-Session-Id, MCP-Protocol-Version, Last-Event-ID',
+      'Access-Control-Expose-Headers': 'Mcp-Session-Id',
     };
 
     // Handle preflight
@@ -338,12 +303,9 @@ export default {
         case '/api/chat':
           return handleChatApi(request, env, corsHeaders);
 
-        // MCP protocol endpoint (SSE for streaming)
+        // MCP protocol endpoint (Streamable HTTP: POST messages, GET stream, DELETE session)
         case '/mcp':
-          if (request.headers.get('Accept') === 'text/event-stream') {
-            return handleSseConnection(request, env);
-          }
-          return handleMcpRequest(request, env);
+          return handleMcpRequest(request, env, corsHeaders);
 
         // HTTP API endpoints for direct access
         case '/api/search':
@@ -367,6 +329,12 @@ export default {
         case '/api/validate':
           return handleValidateApi(request, env, corsHeaders);
 
+        case '/api/validate/batch':
+          return handleValidateBatchApi(request, corsHeaders);
+
+        case '/api/bloblang/eval':
+          return handleBloblangEvalApi(request, corsHeaders);
+
         // Serve discovery document
         case '/.well-known/mcp.json':
           return jsonResponse(getMcpDiscovery(url.origin), corsHeaders);
@@ -375,7 +343,7 @@ export default {
           // Handle /api/resources/:uri pattern
           if (url.pathname.startsWith('/api/resources/')) {
             const uri = decodeURIComponent(url.pathname.slice('/api/resources/'.length));
-            return handleResourceReadApi(uri, env, corsHeaders);
+            return handleResourceReadApi(uri, url, env, corsHeaders);
           }
           return jsonResponse({ error: 'Not found' }, corsHeaders, 404);
       }
@@ -388,6 +356,15 @@ export default {
       );
     }
   },
+
+  // Cron trigger: rebuild the resource registry from the domains' llms.txt files
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      refreshResources(env).catch((error) => {
+        console.error('Resource registry refresh failed:', error);
+      })
+    );
+  },
 };
 
 // HTTP API: Search
@@ -400,12 +377,17 @@ async function handleSearchApi(
   const query = url.searchParams.get('q');
   const limit = parseInt(url.searchParams.get('limit') || '5', 10);
   const domain = url.searchParams.get('domain') || undefined;
+  const rerank = url.searchParams.get('rerank') === 'true';
+  const type = url.searchParams.get('type') || undefined;
 
   if (!query) {
     return jsonResponse({ error: 'Missing query parameter: q' }, headers, 400);
   }
+  if (type !== undefined && !isSearchType(type)) {
+    return jsonResponse({ error: `Invalid type: must be one of ${SEARCH_TYPES.join(', ')}` }, headers, 400);
+  }
 
-  const results = await handleSearch(env, query, limit, domain);
+  const results = await handleSearch(env, query, limit, domain, { rerank, type });
 
   // Track search (non-blocking)
   trackSearch(
@@ -441,6 +423,7 @@ function handleExamplesApi(
 // HTTP API: Read resource
 async function handleResourceReadApi(
   uri: string,
+  url: URL,
   env: Env,
   headers: Record<string, string>
 ): Promise<Response> {
@@ -448,6 +431,25 @@ async function handleResourceReadApi(
   if (!content) {
     return jsonResponse({ error: 'Resource not found' }, headers, 404);
   }
+
+  // ?section=<heading or chunk ID> returns that section and its neighbors
+  const section = url.searchParams.get('section');
+  if (section) {
+    const neighbors = Math.min(Math.max(parseInt(url.searchParams.get('neighbors') || '1', 10) || 0, 0), 5);
+    const excerpt = extractSection(uri, content.content, section, neighbors);
+    if (!excerpt) {
+      return jsonResponse({ error: `Section not found: ${section}` }, headers, 404);
+    }
+    return jsonResponse({
+      ...content,
+      content: excerpt.content,
+      section: excerpt.section.heading,
+      chunkId: excerpt.section.id,
+      start: excerpt.start,
+      end: excerpt.end,
+    }, headers);
+  }
+
   return jsonResponse(content, headers);
 }
 
@@ -497,8 +499,8 @@ async function handleYamlFeedbackApi(
     const timestamp = new Date().toISOString();
     const key = `bad-yaml/${timestamp.replace(/[:.]/g, '-')}.json`;
     const record = {
-      yaml: body.yaml,
-      userMessage: body.userMessage || '',
+      yaml: redactSecrets(body.yaml),
+      userMessage: redactSecrets(body.userMessage || ''),
       timestamp,
       validatorErrors: validationResult.errors.map(e => ({
         path: e.path,
@@ -552,7 +554,7 @@ async function handleBadYamlApi(
     const file = await env.FEEDBACK_BUCKET.get(obj.key);
     if (file) {
       const text = await file.text();
-      lines.push(text); // Each file is already a JSON object
+      lines.push(redactBadYamlRecord(text)); // Each file is already a JSON object
     }
   }
 
@@ -566,6 +568,21 @@ async function handleBadYamlApi(
   });
 }
 
+/**
+ * Redact secrets in a stored bad-yaml record, covering records written
+ * before redaction happened on the way in
+ */
+function redactBadYamlRecord(text: string): string {
+  try {
+    const record = JSON.parse(text) as { yaml?: unknown; userMessage?: unknown };
+    if (typeof record.yaml === 'string') record.yaml = redactSecrets(record.yaml);
+    if (typeof record.userMessage === 'string') record.userMessage = redactSecrets(record.userMessage);
+    return JSON.stringify(record);
+  } catch {
+    return redactSecrets(text);
+  }
+}
+
 // HTTP API: Validate YAML with auto-correction
 async function handleValidateApi(
   request: Request,
@@ -576,7 +593,13 @@ async function handleValidateApi(
     return jsonResponse({ error: 'Method not allowed' }, headers, 405);
   }
 
-  let body: { yaml: string };
+  // Report format for CI: json (default), sarif or junit
+  const format = new URL(request.url).searchParams.get('format') ?? 'json';
+  if (!isReportFormat(format) || format === 'text') {
+    return jsonResponse({ error: `Invalid format: ${format}. Use json, sarif or junit` }, headers, 400);
+  }
+
+  let body: { yaml: string; offline?: boolean; path?: string; lint?: unknown; rules?: unknown; rule_set?: string };
   try {
     body = await request.json();
   } catch {
@@ -586,25 +609,48 @@ async function handleValidateApi(
   if (!body.yaml) {
     return jsonResponse({ error: 'Missing yaml field' }, headers, 400);
   }
+  // Organization rules, from a rule set stored in KV and/or inline
+  const custom = await resolveCustomRules(env.CONTENT_CACHE, { rules: body.rules, ruleSet: body.rule_set });
+  if (custom.errors.length > 0) {
+    return jsonResponse({ error: 'Invalid rules', details: custom.errors }, headers, 400);
+  }
+  const lint = parseLintConfig(body.lint, 'lint', custom.rules.map(rule => rule.id));
+  if (lint.errors.length > 0) {
+    return jsonResponse({ error: 'Invalid lint config', details: lint.errors }, headers, 400);
+  }
 
   // Run local validation
-  const localResult = validatePipelineYaml(body.yaml);
+  const localResult = validatePipelineYaml(body.yaml, { lint: lint.config, customRules: custom.rules });
 
-  // Run external Expanso validation with auto-correction and summarize for first_error
-  const externalResult = await validateWithExpanso(body.yaml, { autoCorrect: true, summarize: true });
+  // Run external Expanso validation (or its offline stand-in) with auto-correction and summarize for first_error
+  const externalResult = await getExternalValidator(env, { offline: body.offline, lint: lint.config, customRules: custom.rules })
+    .validate(body.yaml, { autoCorrect: true, summarize: true });
 
   // Check if we have a corrected version
   const hasCorrectedYaml = !externalResult.valid && !!externalResult.corrected_yaml;
 
   // Combine results - include rich hallucination data from external validator
-  const allErrors: Array<{ path: string; message: string; suggestion?: string; category?: string; line?: number }> = [
+  const allErrors: Array<{
+    path: string;
+    message: string;
+    suggestion?: string;
+    category?: string;
+    line?: number;
+    column?: number;
+    range?: SourceRange;
+  }> = [
     ...localResult.errors.map(e => ({
       path: e.path,
       message: e.message,
       suggestion: e.suggestion,
+      category: externalResult.offline ? categorizeError(e) : undefined,
+      line: e.line,
+      column: e.column,
+      range: e.range,
     })),
+    // Offline hallucinations repeat the local errors above
     ...externalResult.hallucinations
-      .filter(h => h.severity === 'ERROR')
+      .filter(h => h.severity === 'ERROR' && !externalResult.offline)
       .map(h => ({
         path: h.path,
         message: h.message,
@@ -614,7 +660,25 @@ async function handleValidateApi(
       })),
   ];
 
-  const isValid = localResult.valid && externalResult.valid;
+  // An unreachable validator checked nothing, so only local results count
+  const isValid = localResult.valid && (externalResult.unavailable || externalResult.valid);
+  const warnings = externalResult.unavailable
+    ? [...localResult.warnings, formatUnavailableWarning(externalResult)]
+    : localResult.warnings;
+
+  if (format !== 'json') {
+    // Reports list every problem, even when a corrected version is available
+    const report = formatValidationReport({
+      valid: isValid,
+      errors: allErrors,
+      warnings,
+      suggested_fixes: localResult.suggested_fixes,
+      compatibility_warnings: localResult.compatibility_warnings,
+    }, format, { uri: body.path });
+    return new Response(report.body, {
+      headers: { 'Content-Type': report.contentType, ...headers },
+    });
+  }
 
   // Extract first_error for frontend highlighting
   const firstError = externalResult.summary?.first_error;
@@ -622,13 +686,110 @@ async function handleValidateApi(
   return jsonResponse({
     valid: isValid || hasCorrectedYaml, // Consider corrected as "valid enough"
     errors: hasCorrectedYaml ? [] : allErrors, // Don't show errors if we have correction
-    warnings: localResult.warnings,
+    warnings,
+    compatibility_warnings: localResult.compatibility_warnings,
+    suppressed: localResult.suppressed,
+    external_unavailable: externalResult.unavailable || undefined,
     corrected_yaml: hasCorrectedYaml ? externalResult.corrected_yaml : undefined,
     hallucinations: hasCorrectedYaml ? [] : externalResult.hallucinations,
     first_error: hasCorrectedYaml ? undefined : firstError, // Include for UI line highlighting
   }, headers);
 }
 
+// HTTP API: Validate a repository of pipeline files, sent as JSON or a zip/tar upload
+async function handleValidateBatchApi(
+  request: Request,
+  headers: Record<string, string>
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, headers, 405);
+  }
+
+  const url = new URL(request.url);
+  let files: Record<string, unknown>;
+  let targetVersion = url.searchParams.get('target_version') ?? undefined;
+  let lintValue: unknown;
+
+  const upload = await readBodyBytes(request, MAX_BATCH_BYTES);
+  if (!upload) {
+    return jsonResponse({ error: `Request body is larger than ${MAX_BATCH_BYTES} bytes` }, headers, 413);
+  }
+
+  if ((request.headers.get('Content-Type') ?? '').includes('application/json')) {
+    let body: { files?: Record<string, unknown>; target_version?: string; lint?: unknown };
+    try {
+      body = JSON.parse(new TextDecoder().decode(upload));
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, headers, 400);
+    }
+    if (!body.files || typeof body.files !== 'object' || Array.isArray(body.files)) {
+      return jsonResponse({ error: 'Missing files field' }, headers, 400);
+    }
+    files = body.files;
+    targetVersion = body.target_version ?? targetVersion;
+    lintValue = body.lint;
+  } else {
+    // Anything else is treated as a zip, tar or tar.gz upload
+    try {
+      files = await readYamlFiles(upload, { maxFiles: MAX_BATCH_FILES });
+    } catch (error) {
+      return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, headers, 400);
+    }
+  }
+
+  const invalid = Object.entries(files).find(([, yaml]) => typeof yaml !== 'string');
+  if (invalid) {
+    return jsonResponse({ error: `File ${invalid[0]} must be a YAML string` }, headers, 400);
+  }
+  if (Object.keys(files).length === 0) {
+    return jsonResponse({ error: 'No YAML files to validate' }, headers, 400);
+  }
+  if (Object.keys(files).length > MAX_BATCH_FILES) {
+    return jsonResponse({ error: `Too many files: ${Object.keys(files).length} (max ${MAX_BATCH_FILES})` }, headers, 400);
+  }
+  if (targetVersion !== undefined && !isValidVersion(targetVersion)) {
+    return jsonResponse({ error: `Invalid target_version: ${targetVersion}` }, headers, 400);
+  }
+  const lint = parseLintConfig(lintValue, 'lint');
+  if (lint.errors.length > 0) {
+    return jsonResponse({ error: 'Invalid lint config', details: lint.errors }, headers, 400);
+  }
+
+  return jsonResponse(validatePipelineBatch(files as Record<string, string>, { targetVersion, lint: lint.config }), headers);
+}
+
+// HTTP API: Run a Bloblang mapping against a sample input
+async function handleBloblangEvalApi(
+  request: Request,
+  headers: Record<string, string>
+): Promise<Response> {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, headers, 405);
+  }
+
+  let body: { mapping: string; input?: unknown; metadata?: Record<string, unknown> };
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, headers, 400);
+  }
+
+  if (!body.mapping) {
+    return jsonResponse({ error: 'Missing mapping field' }, headers, 400);
+  }
+  if (typeof body.mapping !== 'string') {
+    return jsonResponse({ error: 'mapping must be a string' }, headers, 400);
+  }
+
+  const result = await evaluateBloblang({
+    mapping: body.mapping,
+    input: body.input,
+    metadata: body.metadata,
+  });
+
+  return jsonResponse(result, headers);
+}
+
 // HTTP API: Export stored YAML data
 async function handleYamlExportApi(
   request: Request,
@@ -1020,18 +1181,19 @@ Respond with ONLY a \`\`\`yaml block.`
       finalYaml = yaml;
     }
 
-    // Combined validity
-    const isValid = fixResult.valid && localResult.valid;
+    // Combined validity (local only when the external validator was unreachable)
+    const isValid = (fixResult.valid || !!fixResult.unavailable) && localResult.valid;
 
     // Store full YAML in KV (non-blocking) - include correction info
     if (env.CONTENT_CACHE) {
       env.CONTENT_CACHE.put(yamlId, JSON.stringify({
-        yaml: fixResult.yaml,
-        originalYaml: wasCorrected ? yaml : undefined,
-        userMessage: body.message,
+        yaml: redactSecrets(fixResult.yaml),
+        originalYaml: wasCorrected ? redactSecrets(yaml) : undefined,
+        userMessage: redactSecrets(body.message),
         timestamp: new Date().toISOString(),
         localValid: localResult.valid,
-        externalValid: fixResult.valid,
+        externalValid: fixResult.unavailable ? undefined : fixResult.valid,
+        externalUnavailable: fixResult.unavailable || undefined,
         wasAutoCorrected: wasCorrected,
         fixAttempts: fixResult.attempts,
         structureErrors,
@@ -1110,10 +1272,10 @@ IMPORTANT: Output ONLY the corrected YAML in a code block. Do NOT explain what y
     // If we got YAML, validate it
     if (regenYamlBlocks.length > 0) {
       const regenYaml = regenYamlBlocks[0];
-      const regenResult = await validateWithExpanso(regenYaml, { autoCorrect: true });
+      const regenResult = await getExternalValidator(env).validate(regenYaml, { autoCorrect: true });
       const regenLocalResult = validatePipelineYaml(regenResult.corrected_yaml || regenYaml);
 
-      const regenIsValid = regenResult.valid && regenLocalResult.valid;
+      const regenIsValid = (regenResult.valid || !!regenResult.unavailable) && regenLocalResult.valid;
 
       // Always update state with regenerated content
       responseText = regenText;
@@ -1122,6 +1284,7 @@ IMPORTANT: Output ONLY the corrected YAML in a code block. Do NOT explain what y
       lastFixResult = {
         yaml: finalYaml,
         valid: regenResult.valid,
+        unavailable: regenResult.unavailable,
         attempts: regenAttempts,
         hallucinations: regenResult.hallucinations
       };
@@ -1266,6 +1429,7 @@ function getMcpDiscovery(origin: string) {
         capabilities: {
           tools: true,
           resources: true,
+          prompts: true,
         },
       },
     ],
@@ -1287,6 +1451,12 @@ function jsonResponse(
   });
 }
 
+// Helper: Read a request body, or null once it passes limit bytes
+async function readBodyBytes(request: Request, limit: number): Promise<Uint8Array | null> {
+  if (Number(request.headers.get('Content-Length') ?? 0) > limit) return null;
+  return request.body ? readStream(request.body, limit) : new Uint8Array();
+}
+
 // Helper: Detect if a query is asking for a pipeline
 function isPipelineQuery(query: string): boolean {
   const lower = query.toLowerCase();
@@ -0,0 +1,99 @@
+/**
+ * Tests for lint comments and per-project rule configuration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findLintDirectives, parseLintConfig, stripLintConfig } from './lint-config';
+import { validatePipelineYaml } from './pipeline-validator';
+import { parseYamlSource } from './yaml-source';
+
+const PIPELINE = `input:
+  stdin: {}
+pipeline:
+  processors:
+    # expanso-lint: disable=http-without-tls
+    - http:
+        url: http://internal.example.com/lookup
+    - http: # expanso-lint: disable=http-without-retry, http-without-tls
+        url: http://internal.example.com/enrich
+    - mapping: |
+        # expanso-lint: disable=not-a-directive
+        root = this
+output:
+  stdout: {}
+`;
+
+describe('Lint Config', () => {
+  describe('findLintDirectives', () => {
+    it('should resolve own-line comments to the next node and trailing comments to their line', () => {
+      expect(findLintDirectives(PIPELINE, parseYamlSource(PIPELINE))).toEqual([
+        { rules: ['http-without-tls'], path: 'pipeline.processors[0]', line: 5 },
+        { rules: ['http-without-retry', 'http-without-tls'], path: 'pipeline.processors[1]', line: 8 },
+      ]);
+    });
+
+    it('should ignore ordinary comments', () => {
+      const yaml = '# pipeline for orders\ninput:\n  stdin: {} # read lines\n';
+      expect(findLintDirectives(yaml, parseYamlSource(yaml))).toEqual([]);
+    });
+  });
+
+  describe('parseLintConfig', () => {
+    it('should accept severities, reading YAML 1.1 off as off', () => {
+      const { config, errors } = parseLintConfig({ rules: { 'http-without-tls': false, 'try-without-catch': 'error' } });
+      expect(errors).toEqual([]);
+      expect(config.rules).toEqual({ 'http-without-tls': 'off', 'try-without-catch': 'error' });
+    });
+
+    it('should report unknown rules and invalid severities', () => {
+      const { errors } = parseLintConfig({ rules: { 'http-without-tsl': 'off', 'http-without-tls': 'loud' } }, 'lint');
+      expect(errors.map(e => e.path)).toEqual(['lint.rules.http-without-tsl', 'lint.rules.http-without-tls']);
+      expect(errors[1].suggestion).toBe('Use one of: off, info, warning, error');
+    });
+  });
+
+  describe('stripLintConfig', () => {
+    it('should remove only the top-level x-expanso-lint block', () => {
+      const yaml = 'input:\n  stdin: {}\nx-expanso-lint:\n  rules:\n    http-without-tls: off\n\noutput:\n  stdout: {}\n';
+      expect(stripLintConfig(yaml)).toBe('input:\n  stdin: {}\noutput:\n  stdout: {}\n');
+    });
+  });
+
+  describe('validatePipelineYaml', () => {
+    it('should honor lint comments and report the suppressions', () => {
+      const result = validatePipelineYaml(PIPELINE);
+      const rules = result.compatibility_warnings?.map(w => w.rule) ?? [];
+      expect(rules).not.toContain('http-without-tls');
+      expect(result.suppressed).toEqual(expect.arrayContaining([
+        { rule: 'http-without-tls', source: 'comment', path: 'pipeline.processors[0].http', line: 5 },
+      ]));
+    });
+
+    it('should apply the x-expanso-lint key over the project config', () => {
+      const yaml = `x-expanso-lint:
+  rules:
+    http-without-tls: info
+input:
+  stdin: {}
+pipeline:
+  processors:
+    - http:
+        url: http://internal.example.com/lookup
+        retries: 3
+output:
+  stdout: {}
+`;
+      const result = validatePipelineYaml(yaml, { lint: { rules: { 'http-without-tls': 'off', 'http-without-retry': 'off' } } });
+      expect(result.valid).toBe(true);
+      expect(result.compatibility_warnings?.find(w => w.rule === 'http-without-tls')?.severity).toBe('info');
+    });
+
+    it('should warn about unknown rules in comments and config', () => {
+      const yaml = 'x-expanso-lint:\n  rules:\n    no-such-rule: off\ninput:\n  stdin: {} # expanso-lint: disable=also-missing\noutput:\n  stdout: {}\n';
+      expect(validatePipelineYaml(yaml).warnings).toEqual([
+        'Unknown lint rule "no-such-rule" (x-expanso-lint.rules.no-such-rule)',
+        'Unknown lint rule "also-missing" in expanso-lint comment on line 5',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Lint Configuration
+ *
+ * Tunes the compatibility rules for a project. A lint config sets each rule
+ * to off, info, warning or error; it comes from the API or from a top-level
+ * `x-expanso-lint` key in the pipeline, which is stripped before validation:
+ *
+ *   x-expanso-lint:
+ *     rules:
+ *       http-without-tls: off
+ *
+ * `# expanso-lint: disable=<rule-id>[,<rule-id>]` comments silence rules for
+ * one node. A comment on its own line applies to the next key or list item,
+ * a trailing comment to the key on its line.
+ */
+
+import { Parser } from 'yaml';
+import {
+  COMPATIBILITY_RULES,
+  type InlineSuppression,
+  type RuleSeverity,
+} from './compatibility-rules';
+import type { ValidationError } from './pipeline-validator';
+import { positionAt, type ParsedYamlSource } from './yaml-source';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LintConfig {
+  rules?: Record<string, RuleSeverity>;
+}
+
+export const LINT_CONFIG_KEY = 'x-expanso-lint';
+
+export const RULE_SEVERITIES: RuleSeverity[] = ['off', 'info', 'warning', 'error'];
+
+const DIRECTIVE = /^#\s*expanso-lint:\s*disable=([\w,\s-]+)$/;
+
+// ============================================================================
+// Config
+// ============================================================================
+
+/**
+ * Whether a rule id is a built-in rule or one of the given custom rules
+ */
+export function isKnownRule(id: string, customRules: string[] = []): boolean {
+  return COMPATIBILITY_RULES.some(rule => rule.id === id) || customRules.includes(id);
+}
+
+/**
+ * Validate a lint config object. `path` prefixes error paths, so errors in
+ * the pipeline's own `x-expanso-lint` key point at the offending line.
+ */
+export function parseLintConfig(
+  value: unknown,
+  path: string = LINT_CONFIG_KEY,
+  customRules: string[] = []
+): { config: LintConfig; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  if (value === undefined || value === null) return { config: {}, errors };
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push({ path, message: 'Lint config must be an object with a "rules" map' });
+    return { config: {}, errors };
+  }
+
+  const { rules, ...rest } = value as Record<string, unknown>;
+  for (const key of Object.keys(rest)) {
+    errors.push({ path: `${path}.${key}`, message: `Unknown lint config key "${key}"`, suggestion: 'Only "rules" is supported' });
+  }
+  if (rules === undefined) return { config: {}, errors };
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    errors.push({ path: `${path}.rules`, message: 'Lint rules must map rule ids to a severity' });
+    return { config: {}, errors };
+  }
+
+  const severities: Record<string, RuleSeverity> = {};
+  for (const [id, severity] of Object.entries(rules)) {
+    if (!isKnownRule(id, customRules)) {
+      errors.push({ path: `${path}.rules.${id}`, message: `Unknown lint rule "${id}"` });
+      continue;
+    }
+    // YAML 1.1 reads an unquoted `off` as false
+    const normalized = severity === false ? 'off' : severity;
+    if (!RULE_SEVERITIES.includes(normalized as RuleSeverity)) {
+      errors.push({
+        path: `${path}.rules.${id}`,
+        message: `Invalid severity "${String(severity)}" for lint rule "${id}"`,
+        suggestion: `Use one of: ${RULE_SEVERITIES.join(', ')}`,
+      });
+      continue;
+    }
+    severities[id] = normalized as RuleSeverity;
+  }
+
+  return { config: { rules: severities }, errors };
+}
+
+/**
+ * Remove the top-level `x-expanso-lint` block from YAML text, keeping the
+ * rest of the formatting. Used before sending YAML to the external validator.
+ */
+export function stripLintConfig(yaml: string): string {
+  if (!yaml.includes(LINT_CONFIG_KEY)) return yaml;
+  const lines = yaml.split('\n');
+  const kept: string[] = [];
+  let skipping = false;
+  for (const line of lines) {
+    if (line.startsWith(`${LINT_CONFIG_KEY}:`)) {
+      skipping = true;
+      continue;
+    }
+    // The block ends at the next top-level line
+    if (skipping && /^\S/.test(line) && !line.startsWith('#')) skipping = false;
+    if (!skipping) kept.push(line);
+  }
+  return kept.join('\n');
+}
+
+// ============================================================================
+// Inline Directives
+// ============================================================================
+
+/**
+ * Collect comment tokens from the CST, which keeps `#` inside strings and
+ * block scalars (e.g. Bloblang comments) out
+ */
+function collectComments(token: unknown, comments: Array<{ offset: number; source: string }>): void {
+  if (!token || typeof token !== 'object') return;
+  if (Array.isArray(token)) {
+    for (const item of token) collectComments(item, comments);
+    return;
+  }
+  const record = token as Record<string, unknown>;
+  if (record.type === 'comment' && typeof record.offset === 'number' && typeof record.source === 'string') {
+    comments.push({ offset: record.offset, source: record.source });
+    return;
+  }
+  for (const value of Object.values(record)) {
+    if (typeof value === 'object') collectComments(value, comments);
+  }
+}
+
+/**
+ * Find `# expanso-lint: disable=` comments and resolve each to the node it
+ * annotates
+ */
+export function findLintDirectives(text: string, source: ParsedYamlSource): InlineSuppression[] {
+  if (!text.includes('expanso-lint:')) return [];
+
+  const comments: Array<{ offset: number; source: string }> = [];
+  for (const token of new Parser().parse(text)) collectComments(token, comments);
+
+  const totalLines = text.split('\n').length;
+  const suppressions: InlineSuppression[] = [];
+  for (const comment of comments) {
+    const match = comment.source.trim().match(DIRECTIVE);
+    if (!match) continue;
+
+    const { line, column } = positionAt(text, comment.offset);
+    const trailing = text.slice(comment.offset - column + 1, comment.offset).trim() !== '';
+    // A trailing comment annotates the key on its line, an own-line comment the next node
+    let path: string | undefined;
+    for (let next = trailing ? line : line + 1; next <= totalLines && path === undefined; next++) {
+      path = source.pathAt(next);
+      if (trailing) break;
+    }
+    if (path === undefined) continue;
+
+    suppressions.push({
+      rules: match[1].split(',').map(rule => rule.trim()).filter(Boolean),
+      path,
+      line,
+    });
+  }
+
+  return suppressions;
+}
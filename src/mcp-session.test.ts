@@ -0,0 +1,214 @@
+/**
+ * Tests for MCP sessions and the Streamable HTTP transport
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createMemorySessionStore,
+  createKvSessionStore,
+  createSession,
+} from './mcp-session';
+import { handleMcpRequest, negotiateProtocolVersion } from './mcp';
+import type { Env } from './index';
+
+// Minimal KV stand-in backed by a Map
+function createFakeKv(): KVNamespace {
+  const data = new Map<string, string>();
+  return {
+    get: async (key: string) => data.get(key) ?? null,
+    put: async (key: string, value: string) => {
+      data.set(key, value);
+    },
+    delete: async (key: string) => {
+      data.delete(key);
+    },
+  } as unknown as KVNamespace;
+}
+
+// No CONTENT_CACHE binding, so the in-memory session store is used
+const env = {} as Env;
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request('https://mcp.test/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+async function initialize(protocolVersion = '2025-06-18'): Promise<string> {
+  const response = await handleMcpRequest(
+    post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion, clientInfo: { name: 'test', version: '1.0.0' } },
+    }),
+    env
+  );
+  return response.headers.get('Mcp-Session-Id')!;
+}
+
+describe('MCP Sessions', () => {
+  describe('session stores', () => {
+    for (const [name, makeStore] of [
+      ['memory', () => createMemorySessionStore()],
+      ['kv', () => createKvSessionStore(createFakeKv())],
+    ] as const) {
+      it(`should create, read and delete sessions (${name})`, async () => {
+        const store = makeStore();
+        const session = await createSession(store, '2025-06-18', { name: 'client' });
+
+        const loaded = await store.get(session.id);
+        expect(loaded?.protocolVersion).toBe('2025-06-18');
+        expect(loaded?.clientInfo?.name).toBe('client');
+        expect(loaded?.initialized).toBe(false);
+
+        await store.delete(session.id);
+        expect(await store.get(session.id)).toBeNull();
+      });
+    }
+  });
+
+  describe('protocol version negotiation', () => {
+    it('should echo supported versions', () => {
+      expect(negotiateProtocolVersion('2024-11-05')).toBe('2024-11-05');
+      expect(negotiateProtocolVersion('2025-03-26')).toBe('2025-03-26');
+    });
+
+    it('should fall back to the latest version', () => {
+      expect(negotiateProtocolVersion('1999-01-01')).toBe('2025-06-18');
+      expect(negotiateProtocolVersion()).toBe('2025-06-18');
+    });
+  });
+
+  describe('Streamable HTTP transport', () => {
+    it('should return a session id on initialize', async () => {
+      const response = await handleMcpRequest(
+        post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05' } }),
+        env
+      );
+      const body = (await response.json()) as { result: { protocolVersion: string } };
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Mcp-Session-Id')).toBeTruthy();
+      expect(body.result.protocolVersion).toBe('2024-11-05');
+    });
+
+    it('should accept requests within a session', async () => {
+      const sessionId = await initialize();
+      const response = await handleMcpRequest(
+        post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { 'Mcp-Session-Id': sessionId }),
+        env
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Mcp-Session-Id')).toBe(sessionId);
+      expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 2, result: {} });
+    });
+
+    it('should return 202 for notifications', async () => {
+      const sessionId = await initialize();
+      const response = await handleMcpRequest(
+        post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId }),
+        env
+      );
+
+      expect(response.status).toBe(202);
+      expect(await response.text()).toBe('');
+    });
+
+    it('should return 404 for unknown sessions', async () => {
+      const response = await handleMcpRequest(
+        post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'Mcp-Session-Id': 'does-not-exist' }),
+        env
+      );
+      expect(response.status).toBe(404);
+    });
+
+    it('should handle requests without a session statelessly', async () => {
+      const response = await handleMcpRequest(post({ jsonrpc: '2.0', id: 7, method: 'tools/list' }), env);
+      const body = (await response.json()) as { id: number; result: { tools: unknown[] } };
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Mcp-Session-Id')).toBeNull();
+      expect(body.id).toBe(7);
+      expect(body.result.tools.length).toBeGreaterThan(0);
+    });
+
+    it('should answer batches with an array of responses', async () => {
+      const response = await handleMcpRequest(
+        post([
+          { jsonrpc: '2.0', id: 1, method: 'ping' },
+          { jsonrpc: '2.0', method: 'notifications/initialized' },
+          { jsonrpc: '2.0', id: 2, method: 'ping' },
+        ]),
+        env
+      );
+      const body = (await response.json()) as Array<{ id: number }>;
+
+      expect(body.map((r) => r.id)).toEqual([1, 2]);
+    });
+
+    it('should reject malformed messages', async () => {
+      const parseError = await handleMcpRequest(post('{not json'), env);
+      expect(parseError.status).toBe(400);
+      expect(((await parseError.json()) as { error: { code: number } }).error.code).toBe(-32700);
+
+      const emptyBatch = await handleMcpRequest(post([]), env);
+      expect(((await emptyBatch.json()) as { error: { code: number } }).error.code).toBe(-32600);
+    });
+
+    it('should reject unsupported protocol version headers', async () => {
+      const response = await handleMcpRequest(
+        post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'MCP-Protocol-Version': '1999-01-01' }),
+        env
+      );
+      expect(response.status).toBe(400);
+    });
+
+    it('should terminate sessions on DELETE', async () => {
+      const sessionId = await initialize();
+      const request = () =>
+        new Request('https://mcp.test/mcp', {
+          method: 'DELETE',
+          headers: { 'Mcp-Session-Id': sessionId },
+        });
+
+      expect((await handleMcpRequest(request(), env)).status).toBe(204);
+      expect((await handleMcpRequest(request(), env)).status).toBe(404);
+    });
+
+    it('should require a session for GET streams', async () => {
+      const response = await handleMcpRequest(
+        new Request('https://mcp.test/mcp', {
+          method: 'GET',
+          headers: { Accept: 'text/event-stream' },
+        }),
+        env
+      );
+      expect(response.status).toBe(400);
+    });
+
+    it('should open a keep-alive stream for a session', async () => {
+      const sessionId = await initialize();
+      const response = await handleMcpRequest(
+        new Request('https://mcp.test/mcp', {
+          method: 'GET',
+          headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+        }),
+        env
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      await response.body?.cancel();
+    });
+
+    it('should pass through CORS headers', async () => {
+      const response = await handleMcpRequest(post({ jsonrpc: '2.0', id: 1, method: 'ping' }), env, {
+        'Access-Control-Allow-Origin': '*',
+      });
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * MCP Session Store
+ *
+ * Per-session state for the Streamable HTTP transport. Sessions are created on
+ * `initialize` and identified by the Mcp-Session-Id header. The server sends
+ * no unsolicited messages, so the session's GET stream only carries
+ * keep-alives.
+ *
+ * Backed by KV when CONTENT_CACHE is bound, with an in-memory store as the
+ * stand-in for local development and tests. KV has no compare-and-swap, so
+ * sessions only hold fields that are safe to overwrite: `initialized` and
+ * `lastSeenAt`, where a lost write at worst costs a TTL refresh.
+ */
+
+import type { Env } from './index';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface McpSession {
+  id: string;
+  protocolVersion: string;
+  clientInfo?: { name?: string; version?: string };
+  /** Set once the client sends notifications/initialized */
+  initialized: boolean;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+export interface SessionStore {
+  get(id: string): Promise<McpSession | null>;
+  put(session: McpSession): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// Sessions expire after an hour without activity
+export const SESSION_TTL_SECONDS = 60 * 60;
+
+// Avoid a KV write on every request - only refresh lastSeenAt once a minute
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+const KEY_PREFIX = 'mcp_session:';
+
+// ============================================================================
+// Store Implementations
+// ============================================================================
+
+/**
+ * In-memory session store (local dev, tests, or when KV is not bound)
+ */
+export function createMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, { session: McpSession; expiresAt: number }>();
+
+  return {
+    async get(id) {
+      const entry = sessions.get(id);
+      if (!entry) return null;
+      if (entry.expiresAt < Date.now()) {
+        sessions.delete(id);
+        return null;
+      }
+      return structuredClone(entry.session);
+    },
+
+    async put(session) {
+      sessions.set(session.id, {
+        session: structuredClone(session),
+        expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000,
+      });
+    },
+
+    async delete(id) {
+      sessions.delete(id);
+    },
+  };
+}
+
+/**
+ * KV-backed session store so sessions outlive a single isolate
+ */
+export function createKvSessionStore(kv: KVNamespace): SessionStore {
+  return {
+    async get(id) {
+      const data = await kv.get(KEY_PREFIX + id);
+      if (!data) return null;
+      try {
+        return JSON.parse(data) as McpSession;
+      } catch {
+        return null;
+      }
+    },
+
+    async put(session) {
+      await kv.put(KEY_PREFIX + session.id, JSON.stringify(session), {
+        expirationTtl: SESSION_TTL_SECONDS,
+      });
+    },
+
+    async delete(id) {
+      await kv.delete(KEY_PREFIX + id);
+    },
+  };
+}
+
+// Shared fallback store for the lifetime of the isolate
+const memoryStore = createMemorySessionStore();
+
+/**
+ * Get the session store for this environment
+ */
+export function getSessionStore(env: Env): SessionStore {
+  return env.CONTENT_CACHE ? createKvSessionStore(env.CONTENT_CACHE) : memoryStore;
+}
+
+// ============================================================================
+// Session Helpers
+// ============================================================================
+
+/**
+ * Create and persist a new session
+ */
+export async function createSession(
+  store: SessionStore,
+  protocolVersion: string,
+  clientInfo?: McpSession['clientInfo']
+): Promise<McpSession> {
+  const now = new Date().toISOString();
+  const session: McpSession = {
+    id: crypto.randomUUID(),
+    protocolVersion,
+    clientInfo,
+    initialized: false,
+    createdAt: now,
+    lastSeenAt: now,
+  };
+  await store.put(session);
+  return session;
+}
+
+/**
+ * Refresh a session's TTL if it has not been seen recently
+ */
+export async function touchSession(store: SessionStore, session: McpSession): Promise<void> {
+  if (Date.now() - new Date(session.lastSeenAt).getTime() < TOUCH_INTERVAL_MS) {
+    return;
+  }
+  session.lastSeenAt = new Date().toISOString();
+  await store.put(session);
+}
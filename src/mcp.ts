@@ -7,17 +7,31 @@
 
 import type { Env } from './index';
 import { handleSearch, handleListResources, handleReadResource } from './handlers';
-import { validatePipelineYaml } from './pipeline-validator';
-import type { components } from './types/validate-api';
-
-// Typed external validation using validate.expanso.io API contract
-type ValidateResponse = components['schemas']['ValidateResponse'];
-type Hallucination = components['schemas']['Hallucination'];
+import { validatePipelineYaml, type SuggestedFix } from './pipeline-validator';
+import type { AppliedSuppression, CompatibilityWarning, CustomCompatibilityRule } from './compatibility-rules';
+import { parseLintConfig, type LintConfig } from './lint-config';
+import { resolveCustomRules } from './custom-rules';
+import { formatValidationReport, isReportFormat, REPORT_FORMATS } from './validation-report';
+import { validatePipelineBatch, formatBatchResult, MAX_BATCH_FILES, MAX_BATCH_BYTES } from './batch-validator';
+import { readStream, readYamlFiles } from './archive';
+import { extractSection, splitSections } from './doc-sections';
+import { isSearchType, SEARCH_TYPES } from './registry-chunks';
+import type { SourceRange } from './yaml-source';
+import {
+  getExternalValidator,
+  formatUnavailableWarning,
+  type ExternalValidationResult,
+  type Hallucination,
+} from './external-validator';
+import { categorizeError } from './offline-validator';
 import {
   getComponentSchema,
   getSchemasByCategory,
   listComponentNames,
+  listUnversionedComponentNames,
   formatComponentSchema,
+  getComponentVersionInfo,
+  schemaAtVersion,
   type ComponentCategory,
 } from './component-schemas';
 import {
@@ -34,9 +48,25 @@ import {
   formatBloblangReference,
   type BloblangCategory,
 } from './bloblang-reference';
+import { evaluateBloblang } from './bloblang-evaluator';
 import { suggestWithFallback } from './pattern-suggester';
 import { explainError } from './error-explainer';
 import { generateTestData } from './test-data-generator';
+import { simulatePipeline } from './pipeline-simulator';
+import { describeAvailability, isValidVersion } from './versioning';
+import { PROMPTS, getPromptDefinition, getMissingArguments, getPrompt } from './prompts';
+import {
+  RESOURCE_TEMPLATES,
+  isTemplateResourceUri,
+  readTemplateResource,
+} from './resource-templates';
+import {
+  getSessionStore,
+  createSession,
+  touchSession,
+  type McpSession,
+  type SessionStore,
+} from './mcp-session';
 
 // MCP Protocol types
 interface McpRequest {
@@ -46,9 +76,16 @@ interface McpRequest {
   params?: Record<string, unknown>;
 }
 
+// Notifications are requests without an id and never get a response
+interface McpNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
 interface McpResponse {
   jsonrpc: '2.0';
-  id: string | number;
+  id: string | number | null;
   result?: unknown;
   error?: {
     code: number;
@@ -57,12 +94,26 @@ interface McpResponse {
   };
 }
 
+type McpMessage = McpRequest | McpNotification | McpResponse;
+
+// Protocol versions this server speaks, newest first
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const SESSION_HEADER = 'Mcp-Session-Id';
+const PROTOCOL_VERSION_HEADER = 'MCP-Protocol-Version';
+
+// How often an open GET stream sends a keep-alive comment
+const KEEPALIVE_MS = 15000;
+
+// Room for a MAX_BATCH_BYTES archive sent as base64 to validate_pipeline_batch
+const MAX_BODY_BYTES = 12 * 1024 * 1024;
+
 // Tool definitions
 export const TOOLS = [
   {
     name: 'search_docs',
     description:
-      'Search Expanso documentation using semantic search. Returns relevant documentation sections for a given query.',
+      'Search Expanso documentation using hybrid semantic and keyword search. Returns relevant documentation sections for a given query; exact identifiers like kafka_franz or parse_json work as queries too.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -78,8 +129,18 @@ export const TOOLS = [
         domain: {
           type: 'string',
           description:
-            'Filter by domain: expanso.io, docs.expanso.io, examples.expanso.io',
-          enum: ['expanso.io', 'docs.expanso.io', 'examples.expanso.io'],
+            'Filter by domain, e.g. expanso.io, docs.expanso.io, examples.expanso.io, docs.bacalhau.org',
+        },
+        rerank: {
+          type: 'boolean',
+          description: 'Rerank results with a cross-encoder for better ordering (slower)',
+          default: false,
+        },
+        type: {
+          type: 'string',
+          description:
+            'Only return one kind of result: doc (llms.txt docs), example (pipeline examples), component (component schemas), bloblang (functions and methods) or rule (compatibility rules)',
+          enum: [...SEARCH_TYPES],
         },
       },
       required: ['query'],
@@ -88,13 +149,23 @@ export const TOOLS = [
   {
     name: 'get_resource',
     description:
-      'Retrieve the full content of a documentation resource by its URI. Use search_docs first to find relevant resources.',
+      'Retrieve the content of a documentation resource by its URI. Use search_docs first to find relevant resources, then pass a result\'s section to read just that part.',
     inputSchema: {
       type: 'object',
       properties: {
         uri: {
           type: 'string',
-          description: 'The resource URI (e.g., https://docs.expanso.io/llms/getting-started.txt)',
+          description:
+            'The resource URI (e.g., https://docs.expanso.io/llms/getting-started.txt or expanso://component/input/kafka)',
+        },
+        section: {
+          type: 'string',
+          description: 'Return only this section, by heading or chunkId from search_docs',
+        },
+        neighbors: {
+          type: 'number',
+          description: 'Sections to include on either side of the requested section (default: 1, max: 5)',
+          default: 1,
         },
       },
       required: ['uri'],
@@ -126,10 +197,67 @@ export const TOOLS = [
             'Also validate against Expanso external validator (slower but authoritative)',
           default: true,
         },
+        offline: {
+          type: 'boolean',
+          description:
+            'Run the external checks locally instead of calling the Expanso validator (defaults to the server VALIDATION_MODE)',
+        },
+        target_version: {
+          type: 'string',
+          description: 'Expanso version deployed to the node (e.g. 4.12.0). Components unavailable on that version are reported as errors. Components, fields and Bloblang functions with no version data are named in a warning rather than passed silently',
+        },
+        format: {
+          type: 'string',
+          enum: REPORT_FORMATS,
+          description: 'Output format: text (default), json, sarif (SARIF 2.1.0 for code scanning) or junit (JUnit XML for CI)',
+          default: 'text',
+        },
+        path: {
+          type: 'string',
+          description: 'File path of the pipeline, used as the location in sarif and junit reports',
+        },
+        lint: {
+          type: 'object',
+          description: 'Project lint config for the compatibility rules, e.g. {"rules": {"http-without-tls": "off"}}. Severities: off, info, warning, error. A top-level x-expanso-lint key in the YAML takes precedence',
+        },
+        rules: {
+          description: 'Organization rules, as a list or JSON/YAML text, e.g. [{"id": "kafka-output-compression", "select": "$.output..kafka", "require": ["compression"], "message": "Kafka outputs must set compression"}]. Use "forbid": true to disallow the selected nodes',
+        },
+        rule_set: {
+          type: 'string',
+          description: 'Name of a rule set stored in KV under rules:<name>',
+        },
       },
       required: ['yaml'],
     },
   },
+  {
+    name: 'validate_pipeline_batch',
+    description:
+      'Validate several pipeline files at once, e.g. a whole repository. Files that only declare resources (cache_resources, rate_limit_resources, ...) are shared, so resource references resolve across files. Returns per-file results and a summary.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        files: {
+          type: 'object',
+          description: 'Map of file path to pipeline YAML, e.g. {"pipelines/orders.yaml": "...", "resources.yaml": "..."}',
+          additionalProperties: { type: 'string' },
+        },
+        archive_base64: {
+          type: 'string',
+          description: 'Alternative to files: a base64-encoded zip, tar or tar.gz of the repository. Only .yaml and .yml files are validated',
+        },
+        target_version: {
+          type: 'string',
+          description: 'Expanso version deployed to the nodes (e.g. 4.12.0)',
+        },
+        lint: {
+          type: 'object',
+          description: 'Project lint config applied to every file, e.g. {"rules": {"http-without-tls": "off"}}',
+        },
+      },
+    },
+  },
   {
     name: 'get_component_schema',
     description:
@@ -144,14 +272,18 @@ export const TOOLS = [
         },
         category: {
           type: 'string',
-          description: 'Filter by category: input, processor, output',
-          enum: ['input', 'processor', 'output'],
+          description: 'Filter by category: input, processor, output, cache, rate_limit',
+          enum: ['input', 'processor', 'output', 'cache', 'rate_limit'],
         },
         list_only: {
           type: 'boolean',
           description: 'If true, only list available component names without full schemas',
           default: false,
         },
+        target_version: {
+          type: 'string',
+          description: 'Expanso version deployed to the node (e.g. 4.12.0). Reports components unavailable on that version and hides the fields known to be missing from it. Components and fields with no version data are marked as not checked',
+        },
       },
     },
   },
@@ -186,6 +318,56 @@ export const TOOLS = [
       },
     },
   },
+  {
+    name: 'evaluate_bloblang',
+    description:
+      'Run a Bloblang mapping against a sample input document locally and return the output document, metadata and any errors with their offsets in the mapping. Use this to check what a mapping actually produces.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        mapping: {
+          type: 'string',
+          description: 'Bloblang mapping to run (e.g., root.name = this.user.name.uppercase())',
+        },
+        input: {
+          description: 'Input document as JSON (what this refers to). Strings are also used as the raw message content.',
+        },
+        metadata: {
+          type: 'object',
+          description: 'Optional: input message metadata (read with @key or metadata("key"))',
+        },
+      },
+      required: ['mapping'],
+    },
+  },
+  {
+    name: 'simulate_pipeline',
+    description:
+      'Dry-run a pipeline: feed sample records through its processors (mapping, bloblang, switch, branch, dedupe, split, group_by_value, log) with inputs and outputs replaced by in-memory stand-ins. Returns per-step message snapshots and which messages were dropped or errored.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pipeline_yaml: {
+          type: 'string',
+          description: 'Pipeline YAML to simulate',
+        },
+        records: {
+          type: 'array',
+          description: 'Optional: input records to use. Generated from the pipeline (as generate_test_data does) when omitted',
+        },
+        schema: {
+          type: 'object',
+          description: 'Optional: schema or example object for generated records',
+        },
+        count: {
+          type: 'number',
+          description: 'Number of records to generate when records is omitted (default: 3, max: 100)',
+          default: 3,
+        },
+      },
+      required: ['pipeline_yaml'],
+    },
+  },
   {
     name: 'suggest_pipeline_pattern',
     description:
@@ -283,6 +465,10 @@ export const TOOLS = [
           description: 'Output format: summary (names only) or detailed (with descriptions)',
           default: 'detailed',
         },
+        target_version: {
+          type: 'string',
+          description: 'Expanso version deployed to the node (e.g. 4.12.0). Only lists components available on that version. Components with no version data are kept and listed under no_version_data',
+        },
       },
     },
   },
@@ -323,66 +509,6 @@ export const TOOLS = [
 // Pipeline Validation Helpers
 // ============================================================================
 
-/**
- * External validation result using typed API contract
- */
-interface ExternalValidationResult {
-  valid: boolean;
-  error_count: number;
-  hallucinations: Hallucination[];
-  corrected_yaml?: string;
-}
-
-/**
- * Call the external Expanso validator API with auto-correction enabled
- * Fails open on errors (returns valid) to avoid blocking on external service issues
- */
-async function callExternalValidator(
-  yaml: string
-): Promise<ExternalValidationResult> {
-  try {
-    const response = await fetch('https://validate.expanso.io/validate?auto_correct=true', {
-      method: 'POST',
-      headers: { 'Content-Type': 'text/plain' },
-      body: yaml,
-    });
-
-    if (!response.ok) {
-      // Fail open on server errors
-      if (response.status >= 500) {
-        console.error('External validator 5xx error:', response.status);
-        return { valid: true, error_count: 0, hallucinations: [] };
-      }
-      const text = await response.text();
-      return {
-        valid: false,
-        error_count: 1,
-        hallucinations: [{
-          category: 'UNKNOWN',
-          severity: 'ERROR',
-          path: 'root',
-          hallucination: 'request_failed',
-          message: text || `Validation failed with status ${response.status}`,
-        }],
-      };
-    }
-
-    // Response is now typed via OpenAPI contract
-    const result: ValidateResponse = await response.json();
-
-    return {
-      valid: result.valid,
-      error_count: result.error_count,
-      hallucinations: result.hallucinations,
-      corrected_yaml: result.corrected_yaml,
-    };
-  } catch (error) {
-    // Fail open on network errors
-    console.error('External validator error:', error);
-    return { valid: true, error_count: 0, hallucinations: [] };
-  }
-}
-
 /**
  * Validation result format for MCP tool response
  */
@@ -393,14 +519,22 @@ interface McpValidationResult {
     message: string;
     suggestion?: string;
     category?: string;
+    line?: number;
+    column?: number;
+    range?: SourceRange;
   }>;
   warnings: string[];
+  suggested_fixes?: SuggestedFix[];
+  compatibility_warnings?: CompatibilityWarning[];
+  suppressed?: AppliedSuppression[];
   corrected_yaml?: string;
   action_required?: string;
   external_validation?: {
     valid: boolean;
     error_count: number;
     hallucinations: Hallucination[];
+    /** The validator could not be reached; only local checks ran */
+    unavailable?: boolean;
   };
 }
 
@@ -409,23 +543,37 @@ interface McpValidationResult {
  * Returns corrected YAML when available - AI should use corrected version
  */
 async function validatePipelineForMcp(
+  env: Env,
   yaml: string,
-  includeExternal: boolean
+  options: {
+    includeExternal: boolean;
+    offline?: boolean;
+    targetVersion?: string;
+    lint?: LintConfig;
+    customRules?: CustomCompatibilityRule[];
+  }
 ): Promise<McpValidationResult> {
+  const { includeExternal, offline, targetVersion, lint, customRules } = options;
+
   // Run local validation
-  const localResult = validatePipelineYaml(yaml);
+  const localResult = validatePipelineYaml(yaml, { targetVersion, lint, customRules });
 
   // Optionally run external validation with auto-correction
   let externalResult: ExternalValidationResult | undefined;
   if (includeExternal) {
-    externalResult = await callExternalValidator(yaml);
+    externalResult = await getExternalValidator(env, { offline, targetVersion, lint, customRules })
+      .validate(yaml, { autoCorrect: true });
   }
 
   // Check if we have a corrected version
   const hasCorrectedYaml = externalResult?.corrected_yaml && !externalResult.valid;
 
-  // Combine local and external errors
-  const combinedErrors = [
+  // Combine local and external errors. Offline hallucinations come from the
+  // same local checks, so only their categories are added.
+  const combinedErrors = externalResult?.offline ? localResult.errors.map(error => ({
+    ...error,
+    category: categorizeError(error),
+  })) : [
     ...localResult.errors,
     ...(externalResult?.hallucinations
       .filter(h => h.severity === 'ERROR')
@@ -434,10 +582,15 @@ async function validatePipelineForMcp(
         message: h.message,
         suggestion: h.correction || undefined,
         category: h.category,
+        line: h.line || undefined,
       })) || []),
   ];
 
-  const isValid = localResult.valid && (externalResult?.valid ?? true);
+  // An unreachable validator checked nothing, so only local results count
+  const isValid = localResult.valid && (externalResult?.unavailable || (externalResult?.valid ?? true));
+  const warnings = externalResult?.unavailable
+    ? [...localResult.warnings, formatUnavailableWarning(externalResult)]
+    : localResult.warnings;
 
   // Determine action required
   let actionRequired: string | undefined;
@@ -450,13 +603,17 @@ async function validatePipelineForMcp(
   return {
     valid: isValid,
     errors: combinedErrors,
-    warnings: localResult.warnings,
+    warnings,
+    suggested_fixes: localResult.suggested_fixes,
+    compatibility_warnings: localResult.compatibility_warnings,
+    suppressed: localResult.suppressed,
     corrected_yaml: hasCorrectedYaml ? externalResult!.corrected_yaml : undefined,
     action_required: actionRequired,
     external_validation: externalResult ? {
       valid: externalResult.valid,
       error_count: externalResult.error_count,
       hallucinations: externalResult.hallucinations,
+      unavailable: externalResult.unavailable,
     } : undefined,
   };
 }
@@ -485,7 +642,10 @@ function formatMcpValidationResult(result: McpValidationResult): string {
   lines.push('Errors:');
 
   for (const error of result.errors) {
-    lines.push(`  • ${error.path}: ${error.message}`);
+    const location = error.line
+      ? ` (line ${error.line}${error.column ? `, column ${error.column}` : ''})`
+      : '';
+    lines.push(`  • ${error.path}${location}: ${error.message}`);
     if (error.suggestion) {
       lines.push(`    → Fix: ${error.suggestion}`);
     }
@@ -519,86 +679,258 @@ function formatMcpValidationResult(result: McpValidationResult): string {
   return lines.join('\n');
 }
 
-// Handle MCP JSON-RPC request
-export async function handleMcpRequest(request: Request, env: Env): Promise<Response> {
-  if (request.method !== 'POST') {
-    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-      status: 405,
-      headers: { 'Content-Type': 'application/json' },
-    });
+// ============================================================================
+// Streamable HTTP Transport
+// ============================================================================
+
+/**
+ * Handle a request to the MCP endpoint (Streamable HTTP transport)
+ *
+ * - POST: one JSON-RPC message or a batch array; requests get JSON responses,
+ *   notifications and client responses get 202 Accepted
+ * - GET: SSE stream of server-to-client messages for a session
+ * - DELETE: terminate a session
+ *
+ * Requests without an Mcp-Session-Id header are served statelessly so that
+ * simple clients (and curl) can call tools without initializing first.
+ */
+export async function handleMcpRequest(
+  request: Request,
+  env: Env,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const protocolVersion = request.headers.get(PROTOCOL_VERSION_HEADER);
+  if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    return mcpJsonResponse(
+      errorResponse(null, -32600, `Unsupported protocol version: ${protocolVersion}`),
+      headers,
+      400
+    );
   }
 
-  const body = (await request.json()) as McpRequest;
-  const response = await processRequest(body, env);
+  switch (request.method) {
+    case 'POST':
+      return handleMcpPost(request, env, headers);
+    case 'GET':
+      return handleSseConnection(request, env, headers);
+    case 'DELETE':
+      return handleMcpDelete(request, env, headers);
+    default:
+      return mcpJsonResponse({ error: 'Method not allowed' }, headers, 405);
+  }
+}
 
-  return new Response(JSON.stringify(response), {
-    headers: { 'Content-Type': 'application/json' },
-  });
+// Handle POSTed JSON-RPC messages
+async function handleMcpPost(
+  request: Request,
+  env: Env,
+  headers: Record<string, string>
+): Promise<Response> {
+  const tooLarge = () =>
+    mcpJsonResponse(errorResponse(null, -32600, `Request body is larger than ${MAX_BODY_BYTES} bytes`), headers, 413);
+  if (Number(request.headers.get('Content-Length') ?? 0) > MAX_BODY_BYTES) return tooLarge();
+  const bytes = request.body ? await readStream(request.body, MAX_BODY_BYTES) : new Uint8Array();
+  if (!bytes) return tooLarge();
+
+  let body: unknown;
+  try {
+    body = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return mcpJsonResponse(errorResponse(null, -32700, 'Parse error'), headers, 400);
+  }
+
+  const isBatch = Array.isArray(body);
+  const messages = (isBatch ? body : [body]) as unknown[];
+  if (messages.length === 0 || !messages.every(isJsonRpcMessage)) {
+    return mcpJsonResponse(errorResponse(null, -32600, 'Invalid Request'), headers, 400);
+  }
+
+  const store = getSessionStore(env);
+  const responseHeaders = { ...headers };
+
+  let session: McpSession | null = null;
+  const sessionId = request.headers.get(SESSION_HEADER);
+  if (sessionId) {
+    session = await store.get(sessionId);
+    if (!session) {
+      return mcpJsonResponse(errorResponse(null, -32001, 'Session not found'), headers, 404);
+    }
+    await touchSession(store, session);
+    responseHeaders[SESSION_HEADER] = session.id;
+  }
+
+  const responses: McpResponse[] = [];
+  for (const message of messages as McpMessage[]) {
+    // Responses to server-initiated requests need no reply
+    if (!('method' in message)) continue;
+
+    if (!('id' in message) || message.id === undefined) {
+      await handleNotification(message, store, session);
+      continue;
+    }
+
+    // initialize starts a new session unless the client is already in one
+    if (message.method === 'initialize' && !session) {
+      const params = message.params as
+        | { protocolVersion?: string; clientInfo?: McpSession['clientInfo'] }
+        | undefined;
+      session = await createSession(
+        store,
+        negotiateProtocolVersion(params?.protocolVersion),
+        params?.clientInfo
+      );
+      responseHeaders[SESSION_HEADER] = session.id;
+    }
+
+    responses.push(await processRequest(message as McpRequest, env, session));
+  }
+
+  if (responses.length === 0) {
+    return new Response(null, { status: 202, headers: responseHeaders });
+  }
+
+  return mcpJsonResponse(isBatch ? responses : responses[0], responseHeaders);
 }
 
-// Handle SSE connection for streaming MCP
-export function handleSseConnection(request: Request, env: Env): Response {
-  const encoder = new TextEncoder();
+// Handle a client notification (no response is sent)
+async function handleNotification(
+  notification: McpNotification,
+  store: SessionStore,
+  session: McpSession | null
+): Promise<void> {
+  switch (notification.method) {
+    case 'notifications/initialized':
+      if (session && !session.initialized) {
+        session.initialized = true;
+        await store.put(session);
+      }
+      break;
 
-  const stream = new ReadableStream({
-    async start(controller) {
-      // Send initial connection message
-      const initMessage = {
-        jsonrpc: '2.0',
-        method: 'initialize',
-        params: {
-          protocolVersion: '2024-11-05',
-          capabilities: {
-            tools: { listChanged: false },
-            resources: { listChanged: false },
-          },
-          serverInfo: {
-            name: 'expanso-mcp-server',
-            version: '1.0.0',
-          },
-        },
-      };
+    default:
+      // notifications/cancelled, notifications/progress, etc. need no handling
+      break;
+  }
+}
 
-      controller.enqueue(encoder.encode(`data: ${JSON.stringify(initMessage)}\n\n`));
+// Handle the GET stream. The server never sends unsolicited messages, so it
+// only carries keep-alives; clients that open one still get a valid stream.
+export async function handleSseConnection(
+  request: Request,
+  env: Env,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const accept = request.headers.get('Accept') || '';
+  if (!accept.includes('text/event-stream')) {
+    return mcpJsonResponse({ error: 'GET requires Accept: text/event-stream' }, headers, 406);
+  }
 
-      // Keep connection alive with periodic pings
-      const pingInterval = setInterval(() => {
+  const sessionId = request.headers.get(SESSION_HEADER);
+  if (!sessionId) {
+    return mcpJsonResponse(
+      errorResponse(null, -32000, `Missing ${SESSION_HEADER} header`),
+      headers,
+      400
+    );
+  }
+
+  const store = getSessionStore(env);
+  if (!(await store.get(sessionId))) {
+    return mcpJsonResponse(errorResponse(null, -32001, 'Session not found'), headers, 404);
+  }
+
+  const encoder = new TextEncoder();
+  let keepAlive: ReturnType<typeof setInterval> | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      keepAlive = setInterval(() => {
         try {
           controller.enqueue(encoder.encode(`: ping\n\n`));
         } catch {
-          clearInterval(pingInterval);
+          clearInterval(keepAlive);
         }
-      }, 30000);
-
-      // Handle incoming messages would require WebSocket upgrade
-      // For now, SSE is read-only from server to client
+      }, KEEPALIVE_MS);
+    },
+    cancel() {
+      clearInterval(keepAlive);
     },
   });
 
   return new Response(stream, {
     headers: {
+      ...headers,
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       Connection: 'keep-alive',
+      [SESSION_HEADER]: sessionId,
     },
   });
 }
 
+// Handle session termination
+async function handleMcpDelete(
+  request: Request,
+  env: Env,
+  headers: Record<string, string>
+): Promise<Response> {
+  const sessionId = request.headers.get(SESSION_HEADER);
+  if (!sessionId) {
+    return mcpJsonResponse(
+      errorResponse(null, -32000, `Missing ${SESSION_HEADER} header`),
+      headers,
+      400
+    );
+  }
+
+  const store = getSessionStore(env);
+  if (!(await store.get(sessionId))) {
+    return mcpJsonResponse(errorResponse(null, -32001, 'Session not found'), headers, 404);
+  }
+
+  await store.delete(sessionId);
+  return new Response(null, { status: 204, headers });
+}
+
+/**
+ * Pick the protocol version to use: the client's if we support it,
+ * otherwise our latest
+ */
+export function negotiateProtocolVersion(requested?: string): string {
+  if (requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+// Check that a value looks like a JSON-RPC 2.0 message
+function isJsonRpcMessage(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const message = value as Record<string, unknown>;
+  if (message.jsonrpc !== '2.0') return false;
+  return typeof message.method === 'string' || 'result' in message || 'error' in message;
+}
+
 // Process MCP request
-async function processRequest(request: McpRequest, env: Env): Promise<McpResponse> {
+async function processRequest(
+  request: McpRequest,
+  env: Env,
+  session: McpSession | null = null
+): Promise<McpResponse> {
   const { id, method, params } = request;
 
   try {
     switch (method) {
-      case 'initialize':
+      case 'initialize': {
+        const requested = (params as { protocolVersion?: string } | undefined)?.protocolVersion;
         return {
           jsonrpc: '2.0',
           id,
           result: {
-            protocolVersion: '2024-11-05',
+            protocolVersion: session?.protocolVersion ?? negotiateProtocolVersion(requested),
             capabilities: {
               tools: { listChanged: false },
               resources: { listChanged: false },
+              prompts: { listChanged: false },
             },
             serverInfo: {
               name: 'expanso-mcp-server',
@@ -606,6 +938,7 @@ async function processRequest(request: McpRequest, env: Env): Promise<McpRespons
             },
           },
         };
+      }
 
       case 'tools/list':
         return {
@@ -629,11 +962,29 @@ async function processRequest(request: McpRequest, env: Env): Promise<McpRespons
           result: { resources },
         };
 
+      case 'resources/templates/list':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: { resourceTemplates: RESOURCE_TEMPLATES },
+        };
+
       case 'resources/read':
         const uri = (params as { uri: string })?.uri;
         if (!uri) {
           return errorResponse(id, -32602, 'Missing uri parameter');
         }
+        if (isTemplateResourceUri(uri)) {
+          const templated = readTemplateResource(uri);
+          if (!templated) {
+            return errorResponse(id, -32602, 'Resource not found');
+          }
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: { contents: [templated] },
+          };
+        }
         const content = await handleReadResource(env, uri);
         if (!content) {
           return errorResponse(id, -32602, 'Resource not found');
@@ -652,6 +1003,33 @@ async function processRequest(request: McpRequest, env: Env): Promise<McpRespons
           },
         };
 
+      case 'prompts/list':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: { prompts: PROMPTS },
+        };
+
+      case 'prompts/get': {
+        const promptParams = params as { name?: string; arguments?: Record<string, string> } | undefined;
+        if (!promptParams?.name) {
+          return errorResponse(id, -32602, 'Missing prompt name');
+        }
+        const prompt = getPromptDefinition(promptParams.name);
+        if (!prompt) {
+          return errorResponse(id, -32602, `Unknown prompt: ${promptParams.name}`);
+        }
+        const missing = getMissingArguments(prompt, promptParams.arguments);
+        if (missing.length > 0) {
+          return errorResponse(id, -32602, `Missing required argument: ${missing.join(', ')}`);
+        }
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: getPrompt(prompt.name, promptParams.arguments),
+        };
+      }
+
       case 'ping':
         return {
           jsonrpc: '2.0',
@@ -686,12 +1064,17 @@ async function handleToolCall(
       const query = args?.query as string;
       const limit = Math.min((args?.limit as number) || 5, 20);
       const domain = args?.domain as string | undefined;
+      const rerank = args?.rerank === true;
+      const type = args?.type;
 
       if (!query) {
         return errorResponse(id, -32602, 'Missing required argument: query');
       }
+      if (type !== undefined && !isSearchType(type)) {
+        return errorResponse(id, -32602, `Invalid type: must be one of ${SEARCH_TYPES.join(', ')}`);
+      }
 
-      const results = await handleSearch(env, query, limit, domain);
+      const results = await handleSearch(env, query, limit, domain, { rerank, type });
       return {
         jsonrpc: '2.0',
         id,
@@ -708,11 +1091,15 @@ async function handleToolCall(
 
     case 'get_resource': {
       const uri = args?.uri as string;
+      const section = args?.section as string | undefined;
+      const neighbors = Math.min(Math.max(Math.floor(Number(args?.neighbors ?? 1)) || 0, 0), 5);
       if (!uri) {
         return errorResponse(id, -32602, 'Missing required argument: uri');
       }
 
-      const content = await handleReadResource(env, uri);
+      const content = isTemplateResourceUri(uri)
+        ? readTemplateResource(uri)
+        : await handleReadResource(env, uri);
       if (!content) {
         return {
           jsonrpc: '2.0',
@@ -729,6 +1116,25 @@ async function handleToolCall(
         };
       }
 
+      const text = 'text' in content ? content.text : content.content;
+      const excerpt = section ? extractSection(uri, text, section, neighbors) : null;
+      if (section && !excerpt) {
+        const headings = splitSections(uri, text).map(s => s.heading);
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content: [
+              {
+                type: 'text',
+                text: `Section "${section}" not found. Sections: ${headings.join(', ')}`,
+              },
+            ],
+            isError: true,
+          },
+        };
+      }
+
       return {
         jsonrpc: '2.0',
         id,
@@ -736,7 +1142,7 @@ async function handleToolCall(
           content: [
             {
               type: 'text',
-              text: content.content,
+              text: excerpt ? excerpt.content : text,
             },
           ],
         },
@@ -762,15 +1168,43 @@ async function handleToolCall(
     case 'validate_pipeline': {
       const yaml = args?.yaml as string;
       const includeExternal = (args?.include_external as boolean) ?? true;
+      const offline = args?.offline as boolean | undefined;
+      const targetVersion = args?.target_version as string | undefined;
+      const format = (args?.format as string | undefined) ?? 'text';
 
       if (!yaml) {
         return errorResponse(id, -32602, 'Missing required argument: yaml');
       }
+      if (targetVersion !== undefined && !isValidVersion(targetVersion)) {
+        return errorResponse(id, -32602, `Invalid target_version: ${targetVersion}`);
+      }
+      if (!isReportFormat(format)) {
+        return errorResponse(id, -32602, `Invalid format: ${format}. Use one of: ${REPORT_FORMATS.join(', ')}`);
+      }
+      const custom = await resolveCustomRules(env.CONTENT_CACHE, {
+        rules: args?.rules,
+        ruleSet: args?.rule_set as string | undefined,
+      });
+      if (custom.errors.length > 0) {
+        return errorResponse(id, -32602, `Invalid rules: ${custom.errors.join('; ')}`);
+      }
+      const lint = parseLintConfig(args?.lint, 'lint', custom.rules.map(rule => rule.id));
+      if (lint.errors.length > 0) {
+        return errorResponse(id, -32602, `Invalid lint config: ${lint.errors.map(e => e.message).join('; ')}`);
+      }
 
-      const result = await validatePipelineForMcp(yaml, includeExternal);
+      const result = await validatePipelineForMcp(env, yaml, {
+        includeExternal,
+        offline,
+        targetVersion,
+        lint: lint.config,
+        customRules: custom.rules,
+      });
 
-      // Format the result for human readability
-      const formattedText = formatMcpValidationResult(result);
+      // Human-readable text by default, or a report for CI
+      const formattedText = format === 'text'
+        ? formatMcpValidationResult(result)
+        : formatValidationReport(result, format, { uri: args?.path as string | undefined }).body;
 
       return {
         jsonrpc: '2.0',
@@ -782,6 +1216,62 @@ async function handleToolCall(
               text: formattedText,
             },
           ],
+          // Machine-readable result with line/column/range for editor integrations
+          structuredContent: result,
+        },
+      };
+    }
+
+    case 'validate_pipeline_batch': {
+      let files = args?.files as Record<string, unknown> | undefined;
+      const archive = args?.archive_base64 as string | undefined;
+      const targetVersion = args?.target_version as string | undefined;
+
+      if (targetVersion !== undefined && !isValidVersion(targetVersion)) {
+        return errorResponse(id, -32602, `Invalid target_version: ${targetVersion}`);
+      }
+      if (!files && archive) {
+        // base64 encodes 3 bytes in 4 characters
+        if (typeof archive !== 'string' || archive.length * 0.75 > MAX_BATCH_BYTES) {
+          return errorResponse(id, -32602, `archive_base64 must be a base64 string of at most ${MAX_BATCH_BYTES} bytes`);
+        }
+        try {
+          files = await readYamlFiles(Uint8Array.from(atob(archive), c => c.charCodeAt(0)), { maxFiles: MAX_BATCH_FILES });
+        } catch (error) {
+          return errorResponse(id, -32602, `Invalid archive_base64: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      if (!files || typeof files !== 'object' || Array.isArray(files)) {
+        return errorResponse(id, -32602, 'Missing required argument: files or archive_base64');
+      }
+      const invalid = Object.entries(files).find(([, yaml]) => typeof yaml !== 'string');
+      if (invalid) {
+        return errorResponse(id, -32602, `File ${invalid[0]} must be a YAML string`);
+      }
+      if (Object.keys(files).length === 0) {
+        return errorResponse(id, -32602, 'No YAML files to validate');
+      }
+      if (Object.keys(files).length > MAX_BATCH_FILES) {
+        return errorResponse(id, -32602, `Too many files: ${Object.keys(files).length} (max ${MAX_BATCH_FILES})`);
+      }
+      const lint = parseLintConfig(args?.lint, 'lint');
+      if (lint.errors.length > 0) {
+        return errorResponse(id, -32602, `Invalid lint config: ${lint.errors.map(e => e.message).join('; ')}`);
+      }
+
+      const result = validatePipelineBatch(files as Record<string, string>, { targetVersion, lint: lint.config });
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: formatBatchResult(result),
+            },
+          ],
+          structuredContent: result,
         },
       };
     }
@@ -790,10 +1280,16 @@ async function handleToolCall(
       const componentName = args?.component as string | undefined;
       const category = args?.category as ComponentCategory | undefined;
       const listOnly = (args?.list_only as boolean) ?? false;
+      const targetVersion = args?.target_version as string | undefined;
+
+      if (targetVersion !== undefined && !isValidVersion(targetVersion)) {
+        return errorResponse(id, -32602, `Invalid target_version: ${targetVersion}`);
+      }
 
       // If list_only, just return component names
       if (listOnly) {
-        const names = listComponentNames(category);
+        const names = listComponentNames(category, targetVersion);
+        const unversioned = targetVersion ? listUnversionedComponentNames(category) : [];
         return {
           jsonrpc: '2.0',
           id,
@@ -806,6 +1302,12 @@ async function handleToolCall(
                     components: names,
                     count: names.length,
                     category: category || 'all',
+                    ...(unversioned.length > 0
+                      ? {
+                          no_version_data: unversioned,
+                          note: `Components in no_version_data were listed without checking ${targetVersion}`,
+                        }
+                      : {}),
                   },
                   null,
                   2
@@ -849,6 +1351,35 @@ async function handleToolCall(
             },
           };
         }
+
+        // Drop fields the target version doesn't have, or explain why the component is missing
+        const versioned = targetVersion ? schemaAtVersion(schema, targetVersion) : schema;
+        if (!versioned) {
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(
+                    {
+                      error: describeAvailability(
+                        `${schema.name} ${schema.category}`,
+                        getComponentVersionInfo(schema.name, schema.category),
+                        targetVersion!
+                      ),
+                      hint: 'Use list_only=true with the same target_version to see the components available on it',
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+              isError: true,
+            },
+          };
+        }
         return {
           jsonrpc: '2.0',
           id,
@@ -856,7 +1387,7 @@ async function handleToolCall(
             content: [
               {
                 type: 'text',
-                text: formatComponentSchema(schema),
+                text: formatComponentSchema(versioned, targetVersion),
               },
             ],
           },
@@ -865,7 +1396,10 @@ async function handleToolCall(
 
       // If category specified, get all schemas for that category
       if (category) {
-        const schemas = getSchemasByCategory(category);
+        let schemas = getSchemasByCategory(category);
+        if (targetVersion) {
+          schemas = schemas.flatMap((s) => schemaAtVersion(s, targetVersion) ?? []);
+        }
         return {
           jsonrpc: '2.0',
           id,
@@ -873,7 +1407,7 @@ async function handleToolCall(
             content: [
               {
                 type: 'text',
-                text: schemas.map((s) => formatComponentSchema(s)).join('\n\n---\n\n'),
+                text: schemas.map((s) => formatComponentSchema(s, targetVersion)).join('\n\n---\n\n'),
               },
             ],
           },
@@ -959,6 +1493,60 @@ async function handleToolCall(
       };
     }
 
+    case 'evaluate_bloblang': {
+      const mapping = args?.mapping as string;
+      const metadata = args?.metadata as Record<string, unknown> | undefined;
+
+      if (!mapping) {
+        return errorResponse(id, -32602, 'Missing required argument: mapping');
+      }
+      if (typeof mapping !== 'string') {
+        return errorResponse(id, -32602, 'Argument mapping must be a string');
+      }
+
+      const result = await evaluateBloblang({ mapping, input: args?.input, metadata });
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          isError: result.errors.length > 0,
+        },
+      };
+    }
+
+    case 'simulate_pipeline': {
+      const pipeline_yaml = args?.pipeline_yaml as string;
+      const records = args?.records as unknown[] | undefined;
+      const schema = args?.schema as Record<string, unknown> | undefined;
+      const count = args?.count as number | undefined;
+
+      if (!pipeline_yaml) {
+        return errorResponse(id, -32602, 'Missing required argument: pipeline_yaml');
+      }
+
+      const result = await simulatePipeline({ pipeline_yaml, records, schema, count });
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        },
+      };
+    }
+
     case 'suggest_pipeline_pattern': {
       const use_case = args?.use_case as string;
       const input_type = args?.input_type as string | undefined;
@@ -1024,8 +1612,13 @@ async function handleToolCall(
       const tag = args?.tag as ComponentTag | undefined;
       const search = args?.search as string | undefined;
       const format = (args?.format as 'summary' | 'detailed') || 'detailed';
+      const targetVersion = args?.target_version as string | undefined;
 
-      const result = listComponents({ category, tag, search });
+      if (targetVersion !== undefined && !isValidVersion(targetVersion)) {
+        return errorResponse(id, -32602, `Invalid target_version: ${targetVersion}`);
+      }
+
+      const result = listComponents({ category, tag, search, targetVersion });
 
       // Summary format: just names grouped by category
       if (format === 'summary') {
@@ -1046,6 +1639,12 @@ async function handleToolCall(
                   {
                     total: result.count,
                     by_category: summary,
+                    ...(result.unversioned?.length
+                      ? {
+                          no_version_data: result.unversioned,
+                          note: `Components in no_version_data were listed without checking ${targetVersion}`,
+                        }
+                      : {}),
                     available_tags: getAvailableTags().slice(0, 10),
                     category_counts: getCategoryCounts(),
                   },
@@ -1106,10 +1705,25 @@ async function handleToolCall(
 }
 
 // Helper: Create error response
-function errorResponse(id: string | number, code: number, message: string): McpResponse {
+function errorResponse(id: string | number | null, code: number, message: string): McpResponse {
   return {
     jsonrpc: '2.0',
     id,
     error: { code, message },
   };
 }
+
+// Helper: JSON response for the MCP endpoint
+function mcpJsonResponse(
+  data: unknown,
+  headers: Record<string, string>,
+  status = 200
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+  });
+}
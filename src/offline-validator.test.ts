@@ -0,0 +1,219 @@
+/**
+ * Tests for offline validation
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { validateOffline, categorizeError } from './offline-validator';
+import { getExternalValidator, isOfflineMode } from './external-validator';
+
+function categories(yaml: string): string[] {
+  return validateOffline(yaml).hallucinations.map(h => h.category);
+}
+
+describe('Offline Validator', () => {
+  describe('hallucination categories', () => {
+    it('should report unknown components as IMAGINED_COMPONENT', () => {
+      const result = validateOffline(`
+input:
+  kafka_magic:
+    addresses: [localhost:9092]
+output:
+  stdout: {}
+`);
+      expect(result.valid).toBe(false);
+      expect(result.error_count).toBe(1);
+      expect(result.hallucinations[0]).toMatchObject({
+        category: 'IMAGINED_COMPONENT',
+        severity: 'ERROR',
+        path: 'input.kafka_magic',
+        hallucination: 'kafka_magic',
+        line: 3,
+        context: 'kafka_magic:',
+      });
+    });
+
+    it('should report unknown fields as IMAGINED_FIELD with the suggested correction', () => {
+      const result = validateOffline(`
+input:
+  kafka:
+    adresses: [localhost:9092]
+    topics: [events]
+output:
+  stdout: {}
+`);
+      const field = result.hallucinations.find(h => h.category === 'IMAGINED_FIELD');
+      expect(field).toMatchObject({
+        path: 'input.kafka.adresses',
+        hallucination: 'adresses',
+        correction: 'addresses',
+        line: 4,
+      });
+    });
+
+    it('should report wrong value types as WRONG_TYPE', () => {
+      expect(categories(`
+input:
+  generate:
+    mapping: root = {}
+    interval: fast
+output:
+  stdout: {}
+`)).toContain('WRONG_TYPE');
+    });
+
+    it('should report duplicate labels and undefined resources', () => {
+      const found = categories(`
+input:
+  stdin: {}
+pipeline:
+  processors:
+    - cache:
+        resource: missing
+        operator: get
+        key: k
+output:
+  stdout: {}
+cache_resources:
+  - label: shared
+    memory: {}
+  - label: shared
+    memory: {}
+`);
+      expect(found).toContain('DUPLICATE_LABEL');
+      expect(found).toContain('UNDEFINED_RESOURCE');
+    });
+
+    it('should report invalid Bloblang as IMAGINED_SYNTAX', () => {
+      const result = validateOffline(`
+input:
+  stdin: {}
+pipeline:
+  processors:
+    - mapping: root = this.name.shout()
+output:
+  stdout: {}
+`);
+      expect(result.hallucinations[0]).toMatchObject({
+        category: 'IMAGINED_SYNTAX',
+        hallucination: 'shout',
+      });
+    });
+
+    it('should report wrong top-level structure as IMAGINED_STRUCTURE', () => {
+      expect(categories(`
+apiVersion: v1
+input:
+  stdin: {}
+output:
+  stdout: {}
+`)).toContain('IMAGINED_STRUCTURE');
+    });
+
+    it('should fall back to UNKNOWN for unclassified errors', () => {
+      expect(categorizeError({ path: 'root', message: 'Failed to parse YAML: bad indentation' })).toBe('UNKNOWN');
+    });
+  });
+
+  describe('auto-fixes', () => {
+    const typo = `
+input:
+  kafaka:
+    addresses: [localhost:9092]
+    topics: [events]
+output:
+  stdout: {}
+`;
+
+    it('should report fixed typos as hallucinations with their correction', () => {
+      const result = validateOffline(typo);
+      expect(result.valid).toBe(false);
+      expect(result.hallucinations[0]).toMatchObject({
+        category: 'IMAGINED_COMPONENT',
+        severity: 'ERROR',
+        hallucination: 'kafaka',
+        correction: 'kafka',
+        line: 3,
+      });
+    });
+
+    it('should return the corrected YAML only when auto-correct is requested', () => {
+      expect(validateOffline(typo).corrected_yaml).toBeUndefined();
+      expect(validateOffline(typo, { autoCorrect: true }).corrected_yaml).toContain('  kafka:');
+    });
+
+    it('should treat deprecation renames as warnings', () => {
+      const result = validateOffline(`
+input:
+  stdin: {}
+pipeline:
+  processors:
+    - bloblang: root = this
+output:
+  stdout: {}
+`, { autoCorrect: true });
+      expect(result.valid).toBe(true);
+      expect(result.corrected_yaml).toBeUndefined();
+      expect(result.hallucinations[0]).toMatchObject({ severity: 'WARNING', hallucination: 'bloblang', correction: 'mapping' });
+    });
+  });
+
+  describe('results', () => {
+    it('should report a valid pipeline with no errors', () => {
+      const result = validateOffline('input:\n  stdin: {}\noutput:\n  stdout: {}\n');
+      expect(result).toMatchObject({ valid: true, error_count: 0, offline: true });
+      expect(result.hallucinations.filter(h => h.severity === 'ERROR')).toHaveLength(0);
+    });
+
+    it('should summarize with the first error when asked', () => {
+      const result = validateOffline(`
+input:
+  kafka_magic: {}
+output:
+  stdout: {}
+`, { summarize: true });
+      expect(result.summary).toMatchObject({
+        error_count: 1,
+        first_error: { line: 3, category: 'IMAGINED_COMPONENT', hallucination: 'kafka_magic' },
+      });
+      expect(result.summary?.top_issues?.[0]).toContain('input.kafka_magic');
+    });
+
+    it('should check against the target version', () => {
+      const yaml = `
+input:
+  kafka_franz:
+    seed_brokers: [localhost:9092]
+    topics: [events]
+output:
+  stdout: {}
+`;
+      expect(validateOffline(yaml).valid).toBe(true);
+      expect(validateOffline(yaml, { targetVersion: '3.50.0' }).valid).toBe(false);
+    });
+  });
+
+  describe('offline mode', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should follow VALIDATION_MODE unless the request overrides it', () => {
+      expect(isOfflineMode({ VALIDATION_MODE: 'offline' })).toBe(true);
+      expect(isOfflineMode({ VALIDATION_MODE: 'offline' }, false)).toBe(false);
+      expect(isOfflineMode({}, true)).toBe(true);
+      expect(isOfflineMode({})).toBe(false);
+    });
+
+    it('should validate without calling validate.expanso.io', async () => {
+      const fetchSpy = vi.fn();
+      vi.stubGlobal('fetch', fetchSpy);
+
+      const result = await getExternalValidator({ VALIDATION_MODE: 'offline' })
+        .validate('input:\n  kafka_magic: {}\noutput:\n  stdout: {}\n');
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(result.offline).toBe(true);
+      expect(result.hallucinations[0].category).toBe('IMAGINED_COMPONENT');
+    });
+  });
+});
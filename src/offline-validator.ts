@@ -0,0 +1,228 @@
+/**
+ * Offline Validator
+ *
+ * Stands in for validate.expanso.io when running air-gapped or in local
+ * development. Runs the local validator (component schemas, Bloblang linter,
+ * resource and compatibility checks) and reports its findings as the same
+ * Hallucination shape the external validator returns.
+ *
+ * Enabled with VALIDATION_MODE=offline or per request (offline: true).
+ */
+
+import { validatePipelineYaml, type ValidationError, type ValidatePipelineOptions } from './pipeline-validator';
+import type { CompatibilityWarning } from './compatibility-rules';
+import type { components } from './types/validate-api';
+import type {
+  ExternalValidateOptions,
+  ExternalValidationResult,
+  ExternalValidator,
+  Hallucination,
+} from './external-validator';
+
+type HallucinationType = components['schemas']['HallucinationType'];
+type Severity = components['schemas']['Severity'];
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Local error messages mapped to hallucination categories. First match wins,
+ * so resource checks come before the broader "Unknown ..." patterns.
+ */
+const ERROR_CATEGORIES: Array<{ pattern: RegExp; category: HallucinationType }> = [
+  { pattern: /^Unknown \w+ resource "/, category: 'UNDEFINED_RESOURCE' },
+  { pattern: /^Duplicate \w+ resource label "/, category: 'DUPLICATE_LABEL' },
+  { pattern: /^Unknown [\w ]+ (type|exporter): "/, category: 'IMAGINED_COMPONENT' },
+  { pattern: /^Unknown field: "/, category: 'IMAGINED_FIELD' },
+  { pattern: /^(Expected \w+ but got|Invalid duration format|Invalid value ")|must be (an object|a list)$/, category: 'WRONG_TYPE' },
+  {
+    pattern: /^(Invalid (key|Kubernetes-style key|top-level|pipeline key)|This looks like|Missing required|No [\w ]+ type found|Multiple pipeline documents|Components nested|Resource in )|exporter|single YAML document/,
+    category: 'IMAGINED_STRUCTURE',
+  },
+  {
+    pattern: /^(Syntax error|Unknown Bloblang|Invalid (function|standalone|JavaScript|Python|\$\{|"))|Bloblang|cannot mix named/,
+    category: 'IMAGINED_SYNTAX',
+  },
+];
+
+/**
+ * Auto-fixes applied before validation, as reported in fixes_applied.
+ * Each one corrects a hallucination in the submitted YAML.
+ */
+const FIX_CATEGORIES: Array<{ pattern: RegExp; category: HallucinationType; severity: Severity }> = [
+  { pattern: /^Component: "(.+)" → "(.+)"$/, category: 'IMAGINED_COMPONENT', severity: 'ERROR' },
+  { pattern: /^Bloblang method: "\.(.+)\(\)" → "\.(.+)\(\)"$/, category: 'IMAGINED_SYNTAX', severity: 'ERROR' },
+  { pattern: /^Structure: "(.+)" → "(.+)"$/, category: 'IMAGINED_STRUCTURE', severity: 'ERROR' },
+  // Deprecated but working config: worth a warning, not an error
+  { pattern: /^Deprecated \w+: "(.+)" → "(.+)"$/, category: 'UNKNOWN', severity: 'WARNING' },
+];
+
+const COMPATIBILITY_SEVERITY: Record<CompatibilityWarning['severity'], Severity> = {
+  // Compatibility checks are advisory; the local validator never fails on them
+  error: 'WARNING',
+  warning: 'WARNING',
+  info: 'INFO',
+};
+
+/**
+ * Hallucination category for a local validation error
+ */
+export function categorizeError(error: ValidationError): HallucinationType {
+  if (error.mapping_range) return 'IMAGINED_SYNTAX';
+  return ERROR_CATEGORIES.find(({ pattern }) => pattern.test(error.message))?.category ?? 'UNKNOWN';
+}
+
+/**
+ * The offending value: the quoted name or called function in the message,
+ * falling back to the last segment of the path
+ */
+function offendingValue(error: ValidationError): string {
+  const quoted = /"([^"]+)"/.exec(error.message);
+  if (quoted) return quoted[1];
+  const call = /: \.?(\w+)\(\)/.exec(error.message);
+  if (call) return call[1];
+  const segments = error.path.split('.');
+  return segments[segments.length - 1].replace(/\[\d+\]$/, '');
+}
+
+/**
+ * Direct replacement from a "Did you mean ...?" suggestion, otherwise the
+ * suggestion itself
+ */
+export function correctionFromSuggestion(suggestion: string | undefined): string | undefined {
+  if (!suggestion) return undefined;
+  const match = /^Did you mean:? "?\.?([^"?]+?)(\(\))?"?\?$/.exec(suggestion);
+  return match ? match[1] : suggestion;
+}
+
+function lineText(yaml: string, line: number | undefined): string | undefined {
+  if (!line) return undefined;
+  return yaml.split('\n')[line - 1]?.trim() || undefined;
+}
+
+/**
+ * 1-based line of the first occurrence of text, if any
+ */
+function findLine(yaml: string, text: string): number | undefined {
+  const index = yaml.indexOf(text);
+  return index === -1 ? undefined : yaml.slice(0, index).split('\n').length;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function errorToHallucination(error: ValidationError, yaml: string): Hallucination {
+  return {
+    category: categorizeError(error),
+    severity: 'ERROR',
+    path: error.path,
+    hallucination: offendingValue(error),
+    correction: correctionFromSuggestion(error.suggestion),
+    message: error.message,
+    line: error.line,
+    context: lineText(yaml, error.line),
+  };
+}
+
+function fixToHallucination(fix: string, yaml: string): Hallucination | null {
+  for (const { pattern, category, severity } of FIX_CATEGORIES) {
+    const match = pattern.exec(fix);
+    if (!match) continue;
+    const [, from, to] = match;
+    const line = findLine(yaml, from);
+    return {
+      category,
+      severity,
+      path: 'root',
+      hallucination: from,
+      correction: to,
+      message: fix,
+      line,
+      context: lineText(yaml, line),
+    };
+  }
+  return null;
+}
+
+function compatibilityToHallucination(warning: CompatibilityWarning, yaml: string): Hallucination {
+  return {
+    category: 'UNKNOWN',
+    severity: COMPATIBILITY_SEVERITY[warning.severity],
+    path: warning.path ?? 'root',
+    hallucination: warning.rule,
+    correction: warning.suggestion,
+    message: warning.message,
+    line: warning.line,
+    context: lineText(yaml, warning.line),
+  };
+}
+
+/**
+ * Validate YAML locally and report the findings the way validate.expanso.io
+ * would: hallucinations, error count, corrected YAML and an optional summary
+ */
+export function validateOffline(
+  yaml: string,
+  options: ExternalValidateOptions & ValidatePipelineOptions = {}
+): ExternalValidationResult {
+  const result = validatePipelineYaml(yaml, {
+    targetVersion: options.targetVersion,
+    lint: options.lint,
+    customRules: options.customRules,
+  });
+  // Errors point into the auto-fixed YAML when fixes were applied
+  const validatedYaml = result.fixed_yaml ?? yaml;
+
+  const hallucinations: Hallucination[] = [
+    ...(result.fixes_applied ?? [])
+      .map(fix => fixToHallucination(fix, yaml))
+      .filter((h): h is Hallucination => h !== null),
+    ...result.errors.map(error => errorToHallucination(error, validatedYaml)),
+    ...(result.compatibility_warnings ?? []).map(warning => compatibilityToHallucination(warning, validatedYaml)),
+  ];
+
+  const errors = hallucinations.filter(h => h.severity === 'ERROR');
+  const offline: ExternalValidationResult = {
+    valid: errors.length === 0,
+    error_count: errors.length,
+    hallucinations,
+    offline: true,
+  };
+
+  // Only the typo fixes are corrections; a lone deprecation rename leaves the YAML valid
+  if (options.autoCorrect && result.fixed_yaml && !offline.valid) {
+    offline.corrected_yaml = result.fixed_yaml;
+  }
+
+  if (options.summarize) {
+    const firstError = errors.find(h => h.line);
+    offline.summary = {
+      error_count: errors.length,
+      warning_count: hallucinations.filter(h => h.severity === 'WARNING').length,
+      total_count: hallucinations.length,
+      first_error: firstError ? {
+        line: firstError.line!,
+        message: firstError.message,
+        category: firstError.category,
+        hallucination: firstError.hallucination,
+        correction: firstError.correction ?? undefined,
+      } : undefined,
+      top_issues: errors.slice(0, 5).map(h => `${h.path}: ${h.message}`),
+    };
+  }
+
+  return offline;
+}
+
+/**
+ * Validator client that never leaves the worker
+ */
+export function createOfflineValidator(pipelineOptions: ValidatePipelineOptions = {}): ExternalValidator {
+  return {
+    async validate(yaml, options = {}) {
+      return validateOffline(yaml, { ...options, ...pipelineOptions });
+    },
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Tests for the Pipeline Simulator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { simulatePipeline } from './pipeline-simulator';
+
+describe('Pipeline Simulator', () => {
+  it('should run mappings and capture output messages', async () => {
+    const pipeline_yaml = `
+input:
+  kafka:
+    addresses: ["localhost:9092"]
+    topics: ["events"]
+pipeline:
+  processors:
+    - mapping: |
+        root = this
+        root.name = this.name.uppercase()
+output:
+  stdout: {}
+`;
+    const result = await simulatePipeline({ pipeline_yaml, records: [{ name: 'ada' }, { name: 'bob' }] });
+    expect(result.success).toBe(true);
+    expect(result.input.component).toBe('kafka');
+    expect(result.output.component).toBe('stdout');
+    expect(result.steps).toHaveLength(1);
+    expect(result.steps[0].path).toBe('pipeline.processors[0]');
+    expect(result.output.messages.map((m) => m.content)).toEqual([{ name: 'ADA' }, { name: 'BOB' }]);
+  });
+
+  it('should report dropped and errored messages per step', async () => {
+    const pipeline_yaml = `
+pipeline:
+  processors:
+    - mapping: 'root = if this.skip { deleted() } else { this }'
+    - mapping: 'root.total = this.price * this.qty'
+`;
+    const result = await simulatePipeline({
+      pipeline_yaml,
+      records: [{ skip: true }, { skip: false, price: 2, qty: 3 }, { skip: false, price: 'x', qty: 1 }],
+    });
+    expect(result.steps[0].dropped).toEqual([0]);
+    expect(result.steps[1].errored).toHaveLength(1);
+    expect(result.steps[1].errored[0].id).toBe(2);
+    expect(result.dropped).toEqual([{ id: 0, path: 'pipeline.processors[0]', reason: 'Deleted by mapping' }]);
+    expect(result.output.messages.map((m) => m.id)).toEqual([1, 2]);
+    expect(result.output.messages[0].content).toEqual({ total: 6 });
+    expect(result.output.messages[1].error).toContain('cannot apply *');
+  });
+
+  it('should route messages through switch cases', async () => {
+    const pipeline_yaml = `
+pipeline:
+  processors:
+    - switch:
+        - check: this.type == "a"
+          processors:
+            - mapping: 'root.route = "a"'
+        - processors:
+            - mapping: 'root.route = "other"'
+`;
+    const result = await simulatePipeline({ pipeline_yaml, records: [{ type: 'a' }, { type: 'b' }] });
+    expect(result.output.messages.map((m) => m.content)).toEqual([{ route: 'a' }, { route: 'other' }]);
+  });
+
+  it('should merge branch results with result_map', async () => {
+    const pipeline_yaml = `
+pipeline:
+  processors:
+    - branch:
+        request_map: 'root = this.user'
+        processors:
+          - mapping: 'root.greeting = "hi " + this.name'
+        result_map: 'root.greeting = this.greeting'
+`;
+    const result = await simulatePipeline({ pipeline_yaml, records: [{ id: 1, user: { name: 'ada' } }] });
+    expect(result.output.messages[0].content).toEqual({ id: 1, user: { name: 'ada' }, greeting: 'hi ada' });
+  });
+
+  it('should dedupe, group and split batches', async () => {
+    const pipeline_yaml = `
+pipeline:
+  processors:
+    - dedupe:
+        cache: ids
+        key: '\${! json("id") }'
+    - group_by_value:
+        value: '\${! json("kind") }'
+    - split:
+        size: 1
+`;
+    const records = [
+      { id: 1, kind: 'x' },
+      { id: 1, kind: 'x' },
+      { id: 2, kind: 'y' },
+      { id: 3, kind: 'x' },
+    ];
+    const result = await simulatePipeline({ pipeline_yaml, records });
+    expect(result.steps[0].dropped).toEqual([1]);
+    expect(result.steps[0].batches).toHaveLength(1);
+    expect(result.steps[1].batches.map((batch) => batch.map((m) => m.id))).toEqual([[0, 3], [2]]);
+    expect(result.steps[2].batches).toHaveLength(3);
+  });
+
+  it('should record log lines and pass through unsupported processors', async () => {
+    const pipeline_yaml = `
+pipeline:
+  processors:
+    - log:
+        level: DEBUG
+        message: 'got \${! this.id }'
+    - http:
+        url: http://example.com
+`;
+    const result = await simulatePipeline({ pipeline_yaml, records: [{ id: 7 }] });
+    expect(result.steps[0].logs).toEqual([{ id: 0, path: 'pipeline.processors[0]', level: 'DEBUG', message: 'got 7' }]);
+    expect(result.steps[1].note).toContain('Not simulated');
+    expect(result.warnings[0]).toContain('Processor "http" is not simulated');
+    expect(result.output.messages[0].content).toEqual({ id: 7 });
+  });
+
+  it('should generate records when none are supplied', async () => {
+    const result = await simulatePipeline({
+      pipeline_yaml: 'pipeline:\n  processors:\n    - mapping: root = this',
+      schema: { id: 'uuid' },
+      count: 2,
+    });
+    expect(result.input.messages).toHaveLength(2);
+    expect(result.output.messages).toHaveLength(2);
+  });
+
+  it('should report YAML parse errors', async () => {
+    const result = await simulatePipeline({ pipeline_yaml: 'pipeline: [' });
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0]).toContain('YAML parse error');
+  });
+});
@@ -0,0 +1,459 @@
+/**
+ * Pipeline Simulator
+ *
+ * Dry-runs a pipeline's processor chain against sample records. Inputs and
+ * outputs are replaced by in-memory stand-ins: records go straight into the
+ * input processors and whatever leaves the output processors is captured.
+ * Bloblang runs on the local evaluator (bloblang-evaluator).
+ */
+
+import * as yaml from 'yaml';
+import { evaluateBloblang } from './bloblang-evaluator';
+import { stringify } from './bloblang-builtins';
+import { generateTestData, type TestDataSchema } from './test-data-generator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SimulatePipelineInput {
+  pipeline_yaml: string;
+  /** Records to feed the pipeline; generated from the pipeline when omitted */
+  records?: unknown[];
+  /** Schema or example object for generated records */
+  schema?: TestDataSchema | Record<string, unknown>;
+  /** Number of generated records (default: 3, max: 100) */
+  count?: number;
+}
+
+export interface SimulatedMessage {
+  /** Index of the input record the message came from */
+  id: number;
+  content: unknown;
+  metadata: Record<string, unknown>;
+  /** Set once a processor fails on the message */
+  error?: string;
+}
+
+export interface SimulationLog {
+  id: number;
+  path: string;
+  level: string;
+  message: string;
+  fields?: unknown;
+}
+
+export interface SimulationStep {
+  /** Config path, e.g. pipeline.processors[0] */
+  path: string;
+  processor: string;
+  label?: string;
+  /** Messages after the step, grouped by batch */
+  batches: SimulatedMessage[][];
+  /** Ids of messages dropped by this step */
+  dropped: number[];
+  /** Messages that errored in this step */
+  errored: Array<{ id: number; error: string }>;
+  logs?: SimulationLog[];
+  note?: string;
+}
+
+export interface SimulatePipelineResult {
+  success: boolean;
+  input: { component: string | null; messages: SimulatedMessage[] };
+  steps: SimulationStep[];
+  output: { component: string | null; messages: SimulatedMessage[] };
+  dropped: Array<{ id: number; path: string; reason: string }>;
+  errored: Array<{ id: number; path: string; error: string }>;
+  warnings: string[];
+  errors?: string[];
+}
+
+type Batch = SimulatedMessage[];
+
+interface SimulationState {
+  /** In-memory stand-ins for dedupe caches, keyed by cache name */
+  caches: Map<string, Set<string>>;
+  dropped: SimulatePipelineResult['dropped'];
+  errored: SimulatePipelineResult['errored'];
+  logs: SimulationLog[];
+  warnings: Set<string>;
+}
+
+// Processors the simulator can run; anything else passes messages through
+export const SIMULATED_PROCESSORS = [
+  'mapping',
+  'bloblang',
+  'switch',
+  'branch',
+  'dedupe',
+  'split',
+  'group_by_value',
+  'log',
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Component name of an input/output/processor config, ignoring label and processors
+ */
+function componentName(config: unknown): string | null {
+  if (!isRecord(config)) return null;
+  return Object.keys(config).find((key) => key !== 'label' && key !== 'processors') ?? null;
+}
+
+function processorsOf(config: unknown): unknown[] {
+  return isRecord(config) && Array.isArray(config.processors) ? config.processors : [];
+}
+
+function fail(message: SimulatedMessage, error: string, path: string, state: SimulationState): SimulatedMessage {
+  state.errored.push({ id: message.id, path, error });
+  return { ...message, error };
+}
+
+/**
+ * Resolve ${! ... } interpolations against a message
+ */
+async function interpolate(text: string, message: SimulatedMessage): Promise<string> {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(/\$\{!([\s\S]*?)\}/g)) {
+    const evaluated = await evaluateBloblang({
+      mapping: match[1].trim(),
+      input: message.content,
+      metadata: message.metadata,
+      error: message.error,
+    });
+    if (evaluated.errors.length > 0) {
+      throw new Error(`interpolation ${match[0]} failed: ${evaluated.errors[0].message}`);
+    }
+    result += text.slice(last, match.index) + stringify(evaluated.output);
+    last = (match.index ?? 0) + match[0].length;
+  }
+  return result + text.slice(last);
+}
+
+/**
+ * Run a mapping on a message. Returns null when the mapping deletes it.
+ */
+async function applyMapping(
+  mapping: string,
+  message: SimulatedMessage,
+  path: string,
+  state: SimulationState
+): Promise<SimulatedMessage | null> {
+  const result = await evaluateBloblang({
+    mapping,
+    input: message.content,
+    metadata: message.metadata,
+    error: message.error,
+  });
+  if (result.errors.length > 0) {
+    return fail(message, result.errors[0].message, path, state);
+  }
+  if (result.deleted) {
+    state.dropped.push({ id: message.id, path, reason: 'Deleted by mapping' });
+    return null;
+  }
+  return { ...message, content: result.output, metadata: result.metadata };
+}
+
+// ============================================================================
+// Processors
+// ============================================================================
+
+async function runProcessors(
+  processors: unknown[],
+  batches: Batch[],
+  basePath: string,
+  state: SimulationState
+): Promise<Batch[]> {
+  let current = batches;
+  for (const [i, processor] of processors.entries()) {
+    current = await runProcessor(processor, current, `${basePath}[${i}]`, state);
+  }
+  return current;
+}
+
+async function runProcessor(processor: unknown, batches: Batch[], path: string, state: SimulationState): Promise<Batch[]> {
+  const name = componentName(processor);
+  if (!name || !isRecord(processor)) {
+    state.warnings.add(`${path}: Processor config is not an object; skipped`);
+    return batches;
+  }
+  const config = processor[name];
+
+  // Every supported processor except split and group_by_value works per message
+  const eachMessage = async (
+    fn: (message: SimulatedMessage) => Promise<SimulatedMessage | null>
+  ): Promise<Batch[]> => {
+    const result: Batch[] = [];
+    for (const batch of batches) {
+      const next: Batch = [];
+      for (const message of batch) {
+        const processed = await fn(message);
+        if (processed) next.push(processed);
+      }
+      if (next.length > 0) result.push(next);
+    }
+    return result;
+  };
+
+  switch (name) {
+    case 'mapping':
+    case 'bloblang':
+      if (typeof config !== 'string') {
+        state.warnings.add(`${path}: ${name} expects a Bloblang mapping string; skipped`);
+        return batches;
+      }
+      return eachMessage((message) => applyMapping(config, message, path, state));
+
+    case 'switch': {
+      const cases = Array.isArray(config) ? config : [];
+      return eachMessage(async (message) => {
+        let current: SimulatedMessage | null = message;
+        let matched = false;
+        for (const [i, switchCase] of cases.entries()) {
+          if (!current || !isRecord(switchCase)) break;
+          const casePath = `${path}.switch[${i}]`;
+
+          if (!matched && typeof switchCase.check === 'string' && switchCase.check.trim() !== '') {
+            const check = await evaluateBloblang({
+              mapping: switchCase.check,
+              input: current.content,
+              metadata: current.metadata,
+              error: current.error,
+            });
+            if (check.errors.length > 0) return fail(current, check.errors[0].message, `${casePath}.check`, state);
+            if (check.output !== true) continue;
+          }
+
+          matched = true;
+          const [result] = await runProcessors(processorsOf(switchCase), [[current]], `${casePath}.processors`, state);
+          current = result?.[0] ?? null;
+          // Fallthrough runs the next case's processors without checking it
+          if (switchCase.fallthrough !== true) break;
+        }
+        return current;
+      });
+    }
+
+    case 'branch': {
+      const branch = isRecord(config) ? config : {};
+      return eachMessage(async (message) => {
+        let request: SimulatedMessage | null = { ...message };
+        if (typeof branch.request_map === 'string') {
+          const mapped = await evaluateBloblang({
+            mapping: branch.request_map,
+            input: message.content,
+            metadata: message.metadata,
+            error: message.error,
+          });
+          if (mapped.errors.length > 0) return fail(message, mapped.errors[0].message, `${path}.branch.request_map`, state);
+          // A deleted request skips the branch for this message
+          if (mapped.deleted) return message;
+          request = { ...message, content: mapped.output, metadata: mapped.metadata };
+        }
+
+        const [result] = await runProcessors(processorsOf(branch), [[request]], `${path}.branch.processors`, state);
+        const response = result?.[0];
+        if (!response) return message;
+        if (response.error) return { ...message, error: response.error };
+        if (typeof branch.result_map !== 'string') return message;
+
+        const merged = await evaluateBloblang({
+          mapping: branch.result_map,
+          input: response.content,
+          metadata: message.metadata,
+          root: message.content,
+        });
+        if (merged.errors.length > 0) return fail(message, merged.errors[0].message, `${path}.branch.result_map`, state);
+        return { ...message, content: merged.output, metadata: merged.metadata };
+      });
+    }
+
+    case 'dedupe': {
+      const dedupe = isRecord(config) ? config : {};
+      const cacheName = typeof dedupe.cache === 'string' ? dedupe.cache : 'default';
+      const keyTemplate = typeof dedupe.key === 'string' ? dedupe.key : '';
+      if (!state.caches.has(cacheName)) state.caches.set(cacheName, new Set());
+      const seen = state.caches.get(cacheName) as Set<string>;
+
+      return eachMessage(async (message) => {
+        let key: string;
+        try {
+          key = await interpolate(keyTemplate, message);
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          if (dedupe.drop_on_err !== false) {
+            state.dropped.push({ id: message.id, path, reason: `Dedupe key failed: ${error}` });
+            return null;
+          }
+          return fail(message, error, path, state);
+        }
+        if (seen.has(key)) {
+          state.dropped.push({ id: message.id, path, reason: `Duplicate key "${key}"` });
+          return null;
+        }
+        seen.add(key);
+        return message;
+      });
+    }
+
+    case 'split': {
+      const size = isRecord(config) && typeof config.size === 'number' && config.size > 0 ? config.size : 1;
+      if (isRecord(config) && config.byte_size) {
+        state.warnings.add(`${path}: split byte_size is not simulated; splitting by size only`);
+      }
+      const result: Batch[] = [];
+      for (const batch of batches) {
+        for (let i = 0; i < batch.length; i += size) result.push(batch.slice(i, i + size));
+      }
+      return result;
+    }
+
+    case 'group_by_value': {
+      const template = isRecord(config) && typeof config.value === 'string' ? config.value : '';
+      const result: Batch[] = [];
+      for (const batch of batches) {
+        const groups = new Map<string, Batch>();
+        for (let message of batch) {
+          let value: string;
+          try {
+            value = await interpolate(template, message);
+          } catch (err) {
+            value = '';
+            message = fail(message, err instanceof Error ? err.message : String(err), path, state);
+          }
+          if (!groups.has(value)) groups.set(value, []);
+          groups.get(value)?.push(message);
+        }
+        result.push(...groups.values());
+      }
+      return result;
+    }
+
+    case 'log': {
+      const log = isRecord(config) ? config : {};
+      const level = typeof log.level === 'string' ? log.level : 'INFO';
+      return eachMessage(async (message) => {
+        const entry: SimulationLog = { id: message.id, path, level, message: '' };
+        try {
+          entry.message = await interpolate(typeof log.message === 'string' ? log.message : '', message);
+        } catch (err) {
+          entry.message = `failed to interpolate log message: ${err instanceof Error ? err.message : String(err)}`;
+        }
+        if (typeof log.fields_mapping === 'string') {
+          const fields = await evaluateBloblang({
+            mapping: log.fields_mapping,
+            input: message.content,
+            metadata: message.metadata,
+            error: message.error,
+          });
+          entry.fields = fields.errors.length > 0 ? { error: fields.errors[0].message } : fields.output;
+        }
+        state.logs.push(entry);
+        return message;
+      });
+    }
+
+    default:
+      state.warnings.add(`${path}: Processor "${name}" is not simulated; messages passed through unchanged`);
+      return batches;
+  }
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Generate sample records for a pipeline with the test data generator
+ */
+function generateRecords(input: SimulatePipelineInput): unknown[] {
+  const generated = generateTestData({
+    pipeline_yaml: input.pipeline_yaml,
+    schema: input.schema,
+    count: input.count ?? 3,
+    format: 'json',
+  });
+  return JSON.parse(generated.data) as unknown[];
+}
+
+/**
+ * Feed records through input, pipeline and output processors in order,
+ * recording a snapshot after each top-level processor
+ */
+export async function simulatePipeline(input: SimulatePipelineInput): Promise<SimulatePipelineResult> {
+  let config: unknown;
+  try {
+    config = yaml.parse(input.pipeline_yaml);
+  } catch (err) {
+    return {
+      success: false,
+      input: { component: null, messages: [] },
+      steps: [],
+      output: { component: null, messages: [] },
+      dropped: [],
+      errored: [],
+      warnings: [],
+      errors: [`YAML parse error: ${err instanceof Error ? err.message : String(err)}`],
+    };
+  }
+
+  const pipeline = isRecord(config) ? config : {};
+  const state: SimulationState = { caches: new Map(), dropped: [], errored: [], logs: [], warnings: new Set() };
+
+  const records = input.records ?? generateRecords(input);
+  const messages: SimulatedMessage[] = records.map((content, id) => ({ id, content, metadata: {} }));
+
+  const stages: Array<{ path: string; processors: unknown[] }> = [
+    { path: 'input.processors', processors: processorsOf(pipeline.input) },
+    { path: 'pipeline.processors', processors: processorsOf(pipeline.pipeline) },
+    { path: 'output.processors', processors: processorsOf(pipeline.output) },
+  ];
+
+  const steps: SimulationStep[] = [];
+  let batches: Batch[] = messages.length > 0 ? [messages] : [];
+  for (const stage of stages) {
+    for (const [i, processor] of stage.processors.entries()) {
+      const path = `${stage.path}[${i}]`;
+      const before = { dropped: state.dropped.length, errored: state.errored.length, logs: state.logs.length };
+      const warningCount = state.warnings.size;
+
+      batches = await runProcessor(processor, batches, path, state);
+
+      const name = componentName(processor) ?? 'unknown';
+      const logs = state.logs.slice(before.logs);
+      const step: SimulationStep = {
+        path,
+        processor: name,
+        batches,
+        dropped: state.dropped.slice(before.dropped).map((entry) => entry.id),
+        errored: state.errored.slice(before.errored).map(({ id, error }) => ({ id, error })),
+      };
+      if (isRecord(processor) && typeof processor.label === 'string') step.label = processor.label;
+      if (logs.length > 0) step.logs = logs;
+      if (!SIMULATED_PROCESSORS.includes(name) && state.warnings.size > warningCount) {
+        step.note = 'Not simulated; messages passed through unchanged';
+      }
+      steps.push(step);
+    }
+  }
+
+  return {
+    success: true,
+    input: { component: componentName(pipeline.input), messages },
+    steps,
+    output: { component: componentName(pipeline.output), messages: batches.flat() },
+    dropped: state.dropped,
+    errored: state.errored,
+    warnings: [...state.warnings],
+  };
+}
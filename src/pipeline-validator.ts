@@ -5,8 +5,42 @@
  * Based on Redpanda Connect (Benthos) component catalog.
  */
 
-import { getComponentSchema, type ComponentSchema, type FieldSchema } from './component-schemas';
-import { checkPipelineCompatibility, type CompatibilityWarning } from './compatibility-rules';
+import {
+  getComponentSchema,
+  getComponentVersionInfo,
+  type ComponentCategory,
+  type ComponentSchema,
+  type FieldSchema,
+} from './component-schemas';
+import { SERVICE_SECTIONS, type ServiceSectionSchema } from './service-schemas';
+import { lintBloblang } from './bloblang-linter';
+import { parseBloblang, walkBloblang } from './bloblang-parser';
+import { BLOBLANG_REFERENCE, type BloblangItem } from './bloblang-reference';
+import {
+  availabilityAt,
+  describeAvailability,
+  describeDeprecation,
+  hasVersionInfo,
+  isAvailableAt,
+  isDeprecatedAt,
+  isValidVersion,
+  type VersionInfo,
+} from './versioning';
+import {
+  checkPipelineCompatibilityWithOptions,
+  type AppliedSuppression,
+  type CompatibilityWarning,
+  type CustomCompatibilityRule,
+  type InlineSuppression,
+} from './compatibility-rules';
+import {
+  findLintDirectives,
+  isKnownRule,
+  parseLintConfig,
+  LINT_CONFIG_KEY,
+  type LintConfig,
+} from './lint-config';
+import { parseYamlSource, locateOffsets, type SourceRange } from './yaml-source';
 
 // ============================================================================
 // Component Registry - All valid Expanso/Benthos components
@@ -106,6 +140,14 @@ export const VALID_OUTPUTS = new Set([
   'discord', 'slack_reaction', 'timeplus', 'schema_registry',
 ]);
 
+export const VALID_CACHES = new Set([
+  'memory', 'redis', 'memcached', 'aws_dynamodb', 'aws_s3', 'file',
+  'gcp_cloud_storage', 'lru', 'ttlru', 'ristretto', 'mongodb', 'couchbase',
+  'multilevel', 'nats_kv', 'noop',
+]);
+
+export const VALID_RATE_LIMITS = new Set(['local', 'redis']);
+
 // ============================================================================
 // Bloblang Function & Method Registry
 // ============================================================================
@@ -478,9 +520,11 @@ interface AutoFixResult {
 
 /**
  * Apply HIGH confidence auto-fixes to YAML content
- * Returns the fixed YAML and a list of applied fixes
+ * Returns the fixed YAML and a list of applied fixes.
+ * Deprecated components and fields are only renamed when the replacement
+ * exists on the target version.
  */
-export function applyAutoFixes(yaml: string): AutoFixResult {
+export function applyAutoFixes(yaml: string, options: ValidatePipelineOptions = {}): AutoFixResult {
   let fixedYaml = yaml;
   const fixesApplied: string[] = [];
   const suggestedFixes: SuggestedFix[] = [];
@@ -525,29 +569,53 @@ export function applyAutoFixes(yaml: string): AutoFixResult {
     }
   }
 
-  // 4. Add medium/low confidence suggestions (not auto-applied)
+  // 4. Rename deprecated components and fields to drop-in replacements (HIGH confidence)
+  const source = parseYamlSource(fixedYaml);
+  if (!source.error && source.value && typeof source.value === 'object') {
+    const usages: VersionedUsage[] = [];
+    validatePipelineConfig(source.value, {}, usages);
+
+    const edits = findDeprecationRenames(usages, options.targetVersion)
+      .map(rename => ({ ...rename, range: source.locate(rename.path)?.range }))
+      .filter(edit => edit.range && fixedYaml.slice(edit.range.start.offset, edit.range.end.offset) === edit.from)
+      .sort((a, b) => a.range!.start.offset - b.range!.start.offset);
+
+    // Apply from the end so earlier offsets stay valid
+    for (const edit of [...edits].reverse()) {
+      const { start, end } = edit.range!;
+      fixedYaml = fixedYaml.slice(0, start.offset) + edit.to + fixedYaml.slice(end.offset);
+    }
+    fixesApplied.push(...new Set(edits.map(edit => `Deprecated ${edit.kind}: "${edit.from}" → "${edit.to}"`)));
+  }
+
+  // 5. Add medium/low confidence suggestions (not auto-applied)
   // Check for patterns that might need fixing but require user review
 
   // Suggest fixing "http" to "http_client" or "http_server" (medium confidence)
-  const httpPattern = /^(\s*)http(\s*:)/gm;
-  if (httpPattern.test(yaml) && !fixedYaml.includes('http_client') &&
+  // Only nested keys - a top-level "http:" is the service HTTP server section
+  const httpMatch = /^([ \t]+)http(\s*:)/m.exec(yaml);
+  if (httpMatch && !fixedYaml.includes('http_client') &&
       !fixedYaml.includes('http_server')) {
+    const start = httpMatch.index + httpMatch[1].length;
     suggestedFixes.push({
       original: 'http:',
       replacement: 'http_client: or http_server:',
       confidence: 'medium',
       reason: 'Ambiguous: use http_client for outbound requests, http_server for webhooks',
+      ...locateOffsets(yaml, start, start + 'http'.length),
     });
   }
 
   // Suggest fixing generic "sql" to specific variant (medium confidence)
-  const sqlPattern = /^(\s*)sql(\s*:)/gm;
-  if (sqlPattern.test(yaml)) {
+  const sqlMatch = /^(\s*)sql(\s*:)/m.exec(yaml);
+  if (sqlMatch) {
+    const start = sqlMatch.index + sqlMatch[1].length;
     suggestedFixes.push({
       original: 'sql:',
       replacement: 'sql_select: or sql_insert: or sql_raw:',
       confidence: 'medium',
       reason: 'Use sql_select for queries, sql_insert for inserts, sql_raw for custom SQL',
+      ...locateOffsets(yaml, start, start + 'sql'.length),
     });
   }
 
@@ -569,20 +637,36 @@ function escapeRegex(str: string): string {
 // Validation Result Types
 // ============================================================================
 
+/**
+ * Validation error. line/column/range are filled in by validatePipelineYaml
+ * and point into the validated YAML (fixed_yaml when auto-fixes were applied).
+ */
 export interface ValidationError {
   path: string;
   message: string;
   suggestion?: string;
+  /** 1-based line of the offending node */
+  line?: number;
+  /** 1-based column of the offending node */
+  column?: number;
+  /** Start and end of the offending node */
+  range?: SourceRange;
+  /** 0-based character offsets inside a Bloblang mapping value */
+  mapping_range?: { start: number; end: number };
 }
 
 /**
- * Suggested fix for medium/low confidence corrections
+ * Suggested fix for medium/low confidence corrections.
+ * Positions point into the original YAML.
  */
 export interface SuggestedFix {
   original: string;
   replacement: string;
   confidence: 'medium' | 'low';
   reason: string;
+  line?: number;
+  column?: number;
+  range?: SourceRange;
 }
 
 export interface ValidationResult {
@@ -597,6 +681,26 @@ export interface ValidationResult {
   suggested_fixes?: SuggestedFix[];
   /** Compatibility warnings for component combinations */
   compatibility_warnings?: import('./compatibility-rules').CompatibilityWarning[];
+  /** Compatibility warnings silenced by lint comments or the lint config */
+  suppressed?: AppliedSuppression[];
+}
+
+export interface ValidatePipelineOptions {
+  /** Expanso version the config must run on, e.g. "4.12.0" */
+  targetVersion?: string;
+  /** Resources declared in other files (batch validation), by kind then label */
+  sharedResources?: SharedResources;
+  /**
+   * The file only declares resources for other files, so input and output
+   * are not required and unused resources are not reported
+   */
+  resourcesOnly?: boolean;
+  /** Project lint config; the pipeline's own x-expanso-lint rules take precedence */
+  lint?: LintConfig;
+  /** `# expanso-lint: disable=` comments, found by validatePipelineYaml */
+  lintSuppressions?: InlineSuppression[];
+  /** Organization rules run alongside the built-in compatibility checks */
+  customRules?: CustomCompatibilityRule[];
 }
 
 // ============================================================================
@@ -606,7 +710,19 @@ export interface ValidationResult {
 /**
  * Validate a pipeline configuration object
  */
-export function validatePipeline(config: unknown): ValidationResult {
+export function validatePipeline(config: unknown, options: ValidatePipelineOptions = {}): ValidationResult {
+  return validatePipelineConfig(config, options, []);
+}
+
+/**
+ * Validate a pipeline configuration object, recording the components and
+ * mappings it uses
+ */
+function validatePipelineConfig(
+  config: unknown,
+  options: ValidatePipelineOptions,
+  usages: VersionedUsage[]
+): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: string[] = [];
 
@@ -619,7 +735,13 @@ export function validatePipeline(config: unknown): ValidationResult {
     return { valid: false, errors, warnings };
   }
 
-  const pipeline = config as Record<string, unknown>;
+  // The lint config is not part of the pipeline
+  const { [LINT_CONFIG_KEY]: lintValue, ...pipeline } = config as Record<string, unknown>;
+  const customRuleIds = (options.customRules ?? []).map(rule => rule.id);
+  const fileLint = parseLintConfig(lintValue, LINT_CONFIG_KEY, customRuleIds);
+  for (const error of fileLint.errors) {
+    warnings.push(`${error.message} (${error.path})`);
+  }
 
   // Check for common hallucination patterns - Structure Hallucinations (Category 1)
   const hallucinatedKeys = [
@@ -691,25 +813,32 @@ export function validatePipeline(config: unknown): ValidationResult {
     }
   }
 
+  // Resource labels referenced by components, checked against the declared resources
+  const refs: ResourceReference[] = [];
+
   // Validate required sections
-  if (!('input' in pipeline)) {
+  if (options.resourcesOnly) {
+    if ('input' in pipeline) validateComponent(pipeline.input, 'input', 'input', errors, refs, usages);
+  } else if (!('input' in pipeline)) {
     errors.push({
       path: 'root',
       message: 'Missing required "input" section',
       suggestion: 'Add an input section like: input: kafka: addresses: [...]',
     });
   } else {
-    validateComponent(pipeline.input, 'input', VALID_INPUTS, errors);
+    validateComponent(pipeline.input, 'input', 'input', errors, refs, usages);
   }
 
-  if (!('output' in pipeline)) {
+  if (options.resourcesOnly) {
+    if ('output' in pipeline) validateComponent(pipeline.output, 'output', 'output', errors, refs, usages);
+  } else if (!('output' in pipeline)) {
     errors.push({
       path: 'root',
       message: 'Missing required "output" section',
       suggestion: 'Add an output section like: output: aws_s3: bucket: my-bucket',
     });
   } else {
-    validateComponent(pipeline.output, 'output', VALID_OUTPUTS, errors);
+    validateComponent(pipeline.output, 'output', 'output', errors, refs, usages);
   }
 
   // Validate optional pipeline.processors section
@@ -717,7 +846,7 @@ export function validatePipeline(config: unknown): ValidationResult {
     const pipelineSection = pipeline.pipeline as Record<string, unknown>;
     if ('processors' in pipelineSection && Array.isArray(pipelineSection.processors)) {
       pipelineSection.processors.forEach((proc, index) => {
-        validateComponent(proc, `pipeline.processors[${index}]`, VALID_PROCESSORS, errors);
+        validateComponent(proc, `pipeline.processors[${index}]`, 'processor', errors, refs, usages);
       });
     }
   }
@@ -727,32 +856,71 @@ export function validatePipeline(config: unknown): ValidationResult {
     validateBuffer(pipeline.buffer, errors);
   }
 
+  // Validate service sections (http, logger, metrics, tracer, ...)
+  validateServiceSections(pipeline, errors);
+
+  // Validate resource sections and cross-check references
+  validateResources(pipeline, refs, usages, errors, warnings, options);
+
+  // Check components, fields and Bloblang against the deployed version and flag deprecations
+  validateUsages(usages, options.targetVersion, errors, warnings);
+
   // Run compatibility checks (non-blocking)
   let compatibilityWarnings: CompatibilityWarning[] = [];
+  let suppressed: AppliedSuppression[] = [];
   try {
-    compatibilityWarnings = checkPipelineCompatibility(pipeline);
+    ({ warnings: compatibilityWarnings, suppressed } = checkPipelineCompatibilityWithOptions(pipeline, {
+      rules: { ...options.lint?.rules, ...fileLint.config.rules },
+      suppressions: options.lintSuppressions,
+      customRules: options.customRules,
+    }));
   } catch {
     // Compatibility checks are advisory - don't fail validation if they error
   }
+  // Caches and rate limits shared from other files count as declared, and
+  // references validateResources checked are already errors when undeclared
+  const shared = options.sharedResources ?? {};
+  const covered = (kind: ResourceKind) => !!shared[kind] || refs.some(ref => ref.kind === kind);
+  compatibilityWarnings = compatibilityWarnings.filter(warning =>
+    !(warning.rule === 'cache-without-resource' && covered('cache')) &&
+    !(warning.rule === 'rate-limit-without-resource' && covered('rate_limit'))
+  );
 
   return {
     valid: errors.length === 0,
     errors,
     warnings,
     compatibility_warnings: compatibilityWarnings.length > 0 ? compatibilityWarnings : undefined,
+    suppressed: suppressed.length > 0 ? suppressed : undefined,
   };
 }
 
+type ComponentKind = 'input' | 'processor' | 'output';
+
+const VALID_TYPES: Record<ComponentKind, Set<string>> = {
+  input: VALID_INPUTS,
+  processor: VALID_PROCESSORS,
+  output: VALID_OUTPUTS,
+};
+
+// Guards against cyclic configs built from YAML aliases
+const MAX_NESTING_DEPTH = 32;
+
 /**
  * Validate a single component (input, processor, or output)
+ * Recurses into wrapper components (switch, branch, broker, etc.) so nested
+ * components get the same checks as top-level ones
  */
 function validateComponent(
   component: unknown,
   path: string,
-  validTypes: Set<string>,
-  errors: ValidationError[]
+  category: ComponentKind,
+  errors: ValidationError[],
+  refs: ResourceReference[] = [],
+  usages: VersionedUsage[] = [],
+  depth: number = 0
 ): void {
-  if (!component || typeof component !== 'object') {
+  if (!component || typeof component !== 'object' || Array.isArray(component)) {
     errors.push({
       path,
       message: `${path} must be an object`,
@@ -760,12 +928,30 @@ function validateComponent(
     return;
   }
 
+  if (depth > MAX_NESTING_DEPTH) {
+    errors.push({
+      path,
+      message: `Components nested more than ${MAX_NESTING_DEPTH} levels deep`,
+      suggestion: 'Check for YAML aliases that reference their own parent',
+    });
+    return;
+  }
+
   const comp = component as Record<string, unknown>;
 
-  // Filter out metadata fields to find the component type
-  const metadataFields = new Set(['_expanso_component_id', 'label', 'description', 'processors']);
+  // Filter out metadata fields to find the component type.
+  // "processors" is a sibling list on inputs/outputs, but a component type for processors
+  const metadataFields = new Set(['_expanso_component_id', 'label', 'description']);
+  if (category !== 'processor') {
+    metadataFields.add('processors');
+  }
   const componentKeys = Object.keys(comp).filter(k => !metadataFields.has(k) && !k.startsWith('_'));
 
+  // Inputs and outputs can carry their own processors
+  if (category !== 'processor' && Array.isArray(comp.processors)) {
+    validateComponentList(comp.processors, `${path}.processors`, 'processor', errors, refs, usages, depth);
+  }
+
   if (componentKeys.length === 0) {
     errors.push({
       path,
@@ -777,29 +963,23 @@ function validateComponent(
 
   // Check if it's a known component type
   const componentType = componentKeys[0];
-
-  // Special handling for broker/switch/fallback which wrap other components
-  if (['broker', 'switch', 'fallback', 'try', 'catch', 'dynamic'].includes(componentType)) {
-    // These are valid meta-components
-    return;
-  }
+  const validTypes = VALID_TYPES[category];
 
   // Validate Bloblang content in mapping/bloblang processors
   if (componentType === 'mapping' || componentType === 'bloblang') {
     const bloblangContent = comp[componentType];
     if (typeof bloblangContent === 'string') {
-      validateBloblang(bloblangContent, `${path}.${componentType}`, errors);
+      validateBloblang(bloblangContent, `${path}.${componentType}`, errors, usages);
     } else if (typeof bloblangContent === 'object' && bloblangContent !== null) {
       // Check for nested query field
       const nested = bloblangContent as Record<string, unknown>;
       if (typeof nested.query === 'string') {
-        validateBloblang(nested.query, `${path}.${componentType}.query`, errors);
+        validateBloblang(nested.query, `${path}.${componentType}.query`, errors, usages);
       }
     }
   }
 
   if (!validTypes.has(componentType)) {
-    const category = path.includes('processor') ? 'processor' : path.split('.')[0];
     const suggestions = findSimilar(componentType, validTypes);
 
     errors.push({
@@ -812,10 +992,26 @@ function validateComponent(
     return; // Don't validate fields for unknown component types
   }
 
-  // Field-level validation for known component types
-  const category = path.includes('processor') ? 'processor' : path.split('.')[0] as 'input' | 'output';
   const componentConfig = comp[componentType];
-  if (componentConfig && typeof componentConfig === 'object') {
+
+  // Record labels this component points at (cache, rate_limit, resource)
+  collectResourceReferences(componentType, componentConfig, `${path}.${componentType}`, category, refs);
+  usages.push({ kind: 'component', category, type: componentType, path: `${path}.${componentType}`, config: componentConfig });
+
+  // Walk components nested inside wrappers
+  validateNestedComponents(
+    componentType,
+    componentConfig,
+    `${path}.${componentType}`,
+    category,
+    errors,
+    refs,
+    usages,
+    depth
+  );
+
+  // Field-level validation for known component types
+  if (componentConfig && typeof componentConfig === 'object' && !Array.isArray(componentConfig)) {
     validateComponentFields(
       componentConfig as Record<string, unknown>,
       componentType,
@@ -826,6 +1022,171 @@ function validateComponent(
   }
 }
 
+/**
+ * Validate each component in a list, e.g. a processors array
+ */
+function validateComponentList(
+  list: unknown,
+  path: string,
+  category: ComponentKind,
+  errors: ValidationError[],
+  refs: ResourceReference[],
+  usages: VersionedUsage[],
+  depth: number
+): void {
+  if (!Array.isArray(list)) return;
+  list.forEach((child, index) => {
+    validateComponent(child, `${path}[${index}]`, category, errors, refs, usages, depth + 1);
+  });
+}
+
+/**
+ * Validate components nested inside wrapper components.
+ * path points at the wrapper's config, e.g. "pipeline.processors[2].switch"
+ */
+function validateNestedComponents(
+  componentType: string,
+  config: unknown,
+  path: string,
+  category: ComponentKind,
+  errors: ValidationError[],
+  refs: ResourceReference[],
+  usages: VersionedUsage[],
+  depth: number
+): void {
+  if (!config || typeof config !== 'object') return;
+  const obj = config as Record<string, unknown>;
+
+  // Bloblang fields on wrappers (check, request_map, result_map)
+  const checkBloblangFields = (target: Record<string, unknown>, targetPath: string) => {
+    for (const field of ['check', 'request_map', 'result_map']) {
+      if (typeof target[field] === 'string') {
+        validateBloblang(target[field] as string, `${targetPath}.${field}`, errors, usages);
+      }
+    }
+  };
+
+  if (category === 'processor') {
+    switch (componentType) {
+      // Processor lists: try: [...], catch: [...], for_each: [...], processors: [...]
+      case 'try':
+      case 'catch':
+      case 'for_each':
+      case 'processors':
+        validateComponentList(config, path, 'processor', errors, refs, usages, depth);
+        break;
+
+      // Objects with a processors list: branch, while, parallel, retry, cached
+      case 'branch':
+      case 'while':
+      case 'parallel':
+      case 'retry':
+      case 'cached':
+        checkBloblangFields(obj, path);
+        validateComponentList(obj.processors, `${path}.processors`, 'processor', errors, refs, usages, depth);
+        break;
+
+      // Case lists: switch: [{ check, processors }], group_by: [{ check, processors }]
+      case 'switch':
+      case 'group_by':
+        if (Array.isArray(config)) {
+          config.forEach((switchCase, index) => {
+            if (!switchCase || typeof switchCase !== 'object') return;
+            const casePath = `${path}[${index}]`;
+            checkBloblangFields(switchCase as Record<string, unknown>, casePath);
+            validateComponentList(
+              (switchCase as Record<string, unknown>).processors,
+              `${casePath}.processors`,
+              'processor',
+              errors,
+              refs,
+              usages,
+              depth
+            );
+          });
+        }
+        break;
+
+      // workflow: { branches: { name: { request_map, processors, result_map } } }
+      case 'workflow':
+        if (obj.branches && typeof obj.branches === 'object' && !Array.isArray(obj.branches)) {
+          for (const [name, branch] of Object.entries(obj.branches as Record<string, unknown>)) {
+            if (!branch || typeof branch !== 'object') continue;
+            const branchPath = `${path}.branches.${name}`;
+            checkBloblangFields(branch as Record<string, unknown>, branchPath);
+            validateComponentList(
+              (branch as Record<string, unknown>).processors,
+              `${branchPath}.processors`,
+              'processor',
+              errors,
+              refs,
+              usages,
+              depth
+            );
+          }
+        }
+        break;
+    }
+    return;
+  }
+
+  // Inputs and outputs
+  const childList = category === 'input' ? 'inputs' : 'outputs';
+  switch (componentType) {
+    // broker: { inputs/outputs: [...] }, sequence: { inputs: [...] }
+    case 'broker':
+    case 'sequence':
+      validateComponentList(obj[childList], `${path}.${childList}`, category, errors, refs, usages, depth);
+      break;
+
+    // fallback: [outputs]
+    case 'fallback':
+      validateComponentList(config, path, category, errors, refs, usages, depth);
+      break;
+
+    // dynamic: { inputs/outputs: { name: component } }
+    case 'dynamic': {
+      const children = obj[childList];
+      if (children && typeof children === 'object' && !Array.isArray(children)) {
+        for (const [name, child] of Object.entries(children as Record<string, unknown>)) {
+          validateComponent(child, `${path}.${childList}.${name}`, category, errors, refs, usages, depth + 1);
+        }
+      }
+      break;
+    }
+
+    // switch output: { cases: [{ check, output }] }
+    case 'switch':
+      if (Array.isArray(obj.cases)) {
+        obj.cases.forEach((switchCase, index) => {
+          if (!switchCase || typeof switchCase !== 'object') return;
+          const casePath = `${path}.cases[${index}]`;
+          const caseObj = switchCase as Record<string, unknown>;
+          checkBloblangFields(caseObj, casePath);
+          if (caseObj.output !== undefined) {
+            validateComponent(caseObj.output, `${casePath}.output`, 'output', errors, refs, usages, depth + 1);
+          }
+        });
+      }
+      break;
+
+    // Single wrapped child: retry/drop_on { output }, read_until { input }, batched { child }
+    case 'retry':
+    case 'drop_on':
+    case 'read_until':
+      if (obj[category] !== undefined) {
+        validateComponent(obj[category], `${path}.${category}`, category, errors, refs, usages, depth + 1);
+      }
+      break;
+
+    case 'batched':
+      if (obj.child !== undefined) {
+        validateComponent(obj.child, `${path}.child`, category, errors, refs, usages, depth + 1);
+      }
+      break;
+  }
+}
+
 // ============================================================================
 // Field-Level Validation
 // ============================================================================
@@ -836,7 +1197,7 @@ function validateComponent(
 function validateComponentFields(
   config: Record<string, unknown>,
   componentName: string,
-  category: 'input' | 'output' | 'processor',
+  category: ComponentCategory,
   path: string,
   errors: ValidationError[]
 ): void {
@@ -847,7 +1208,18 @@ function validateComponentFields(
     return;
   }
 
-  const schemaFields = schema.fields;
+  validateFields(config, schema.fields, path, errors);
+}
+
+/**
+ * Check required fields, unknown fields and field types against a field map
+ */
+function validateFields(
+  config: Record<string, unknown>,
+  schemaFields: Record<string, FieldSchema>,
+  path: string,
+  errors: ValidationError[]
+): void {
   const configKeys = Object.keys(config);
 
   // Check for required fields
@@ -986,7 +1358,10 @@ function validateFieldType(
 
   // Validate enum values
   if (schema.enum && typeof value === 'string') {
-    if (!schema.enum.includes(value)) {
+    const matches = schema.caseInsensitive
+      ? schema.enum.some(option => option.toLowerCase() === value.toLowerCase())
+      : schema.enum.includes(value);
+    if (!matches) {
       errors.push({
         path,
         message: `Invalid value "${value}"`,
@@ -1072,11 +1447,17 @@ function levenshteinDistance(a: string, b: string): number {
 function validateBloblang(
   content: string,
   path: string,
-  errors: ValidationError[]
+  errors: ValidationError[],
+  usages: VersionedUsage[]
 ): void {
-  // Check for known syntax errors (regex patterns)
+  usages.push({ kind: 'bloblang', path, mapping: content });
+
+  // Check for known hallucinated syntax first - these messages are more
+  // helpful than the parser's generic syntax errors
+  const hallucinations: string[] = [];
   for (const check of BLOBLANG_ERRORS) {
     if (check.pattern.test(content)) {
+      hallucinations.push(check.message);
       errors.push({
         path,
         message: check.message,
@@ -1085,94 +1466,29 @@ function validateBloblang(
     }
   }
 
-  // Validate method and function names
-  validateBloblangMethods(content, path, errors);
-}
-
-/**
- * Validate Bloblang method and function names
- * Detects invalid/misspelled methods like .parseJson() instead of .parse_json()
- */
-function validateBloblangMethods(
-  content: string,
-  path: string,
-  errors: ValidationError[]
-): void {
-  // Track already-reported methods to avoid duplicates
-  const reported = new Set<string>();
-
-  // Pattern 1: Method calls - .methodName( or .methodName()
-  const methodPattern = /\.([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
-  let match;
-
-  while ((match = methodPattern.exec(content)) !== null) {
-    const methodName = match[1];
-
-    // Skip if already reported
-    if (reported.has(methodName)) continue;
-
-    // Skip known valid methods
-    if (BLOBLANG_METHODS.has(methodName)) continue;
-
-    // Check if it looks like a misspelling or has method-like casing
-    const isCamelCase = /[a-z][A-Z]/.test(methodName);
-    const hasKnownMisspelling = methodName in BLOBLANG_MISSPELLINGS;
-    const looksLikeMethod = isCamelCase || hasKnownMisspelling ||
-      methodName.startsWith('parse') || methodName.startsWith('format') ||
-      methodName.startsWith('to') || methodName.startsWith('get') ||
-      methodName.startsWith('is') || methodName.startsWith('has');
-
-    if (!looksLikeMethod) continue;
-
-    reported.add(methodName);
-
-    // Get suggestion
-    const suggestion = findSimilarBloblang(methodName, 'method');
-
-    errors.push({
-      path,
-      message: `Unknown Bloblang method: .${methodName}()`,
-      suggestion: suggestion
-        ? `Did you mean .${suggestion}()?`
-        : 'Check Bloblang documentation for valid method names',
-    });
-  }
-
-  // Pattern 2: Function calls at expression start or after operators
-  const functionPattern = /(?:^|[=\s,(\[{])([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/gm;
-
-  while ((match = functionPattern.exec(content)) !== null) {
-    const funcName = match[1];
-
-    // Skip if already reported
-    if (reported.has(funcName)) continue;
-
-    // Skip known valid functions
-    if (BLOBLANG_FUNCTIONS.has(funcName)) continue;
-
-    // Skip known valid methods (might be chained)
-    if (BLOBLANG_METHODS.has(funcName)) continue;
-
-    // Skip common Bloblang keywords
-    if (['if', 'else', 'let', 'match', 'true', 'false', 'null'].includes(funcName)) continue;
-
-    // Check if this looks like a misspelled function
-    const hasKnownMisspelling = funcName in BLOBLANG_MISSPELLINGS;
-    const isCamelCase = /[a-z][A-Z]/.test(funcName);
-
-    // Only flag if it looks like a known misspelling or has camelCase
-    if (!hasKnownMisspelling && !isCamelCase) continue;
-
-    reported.add(funcName);
-
-    const suggestion = findSimilarBloblang(funcName, 'function');
+  // Parse and lint: unknown functions/methods, arity and parameter names
+  const diagnostics = lintBloblang(content, {
+    functions: BLOBLANG_FUNCTIONS,
+    methods: BLOBLANG_METHODS,
+  });
+  for (const diagnostic of diagnostics) {
+    if (hallucinations.length > 0 && diagnostic.code === 'syntax') continue;
+    if (diagnostic.name && hallucinations.some(message => message.includes(`${diagnostic.name}(`))) continue;
+
+    let suggestion = diagnostic.suggestion;
+    if (diagnostic.code === 'unknown_function' || diagnostic.code === 'unknown_method') {
+      const type = diagnostic.code === 'unknown_method' ? 'method' : 'function';
+      const similar = findSimilarBloblang(diagnostic.name as string, type);
+      if (similar) {
+        suggestion = type === 'method' ? `Did you mean .${similar}()?` : `Did you mean ${similar}()?`;
+      }
+    }
 
     errors.push({
       path,
-      message: `Unknown Bloblang function: ${funcName}()`,
-      suggestion: suggestion
-        ? `Did you mean ${suggestion}()?`
-        : 'Check Bloblang documentation for valid function names',
+      message: diagnostic.message,
+      suggestion,
+      mapping_range: { start: diagnostic.start, end: diagnostic.end },
     });
   }
 }
@@ -1240,6 +1556,637 @@ function validateBuffer(buffer: unknown, errors: ValidationError[]): void {
   }
 }
 
+// ============================================================================
+// Resource Validation
+// ============================================================================
+
+export type ResourceKind = 'cache' | 'rate_limit' | 'input' | 'processor' | 'output';
+
+/**
+ * Resources declared outside the validated file: label -> where it is
+ * declared, e.g. { cache: { lookups: "resources.yaml: cache_resources[0]" } }
+ */
+export type SharedResources = Partial<Record<ResourceKind, Record<string, string>>>;
+
+/**
+ * A resource declared in a *_resources section
+ */
+export interface DeclaredResource {
+  kind: ResourceKind;
+  label: string;
+  /** Path of the resource, e.g. "cache_resources[0]" */
+  path: string;
+}
+
+/**
+ * A label a component uses to point at a declared resource
+ */
+interface ResourceReference {
+  kind: ResourceKind;
+  label: string;
+  path: string;
+}
+
+/**
+ * Top-level resource sections and the kind of resource each declares
+ */
+export const RESOURCE_SECTIONS: Array<{ section: string; kind: ResourceKind }> = [
+  { section: 'cache_resources', kind: 'cache' },
+  { section: 'rate_limit_resources', kind: 'rate_limit' },
+  { section: 'input_resources', kind: 'input' },
+  { section: 'processor_resources', kind: 'processor' },
+  { section: 'output_resources', kind: 'output' },
+];
+
+/**
+ * Fields that hold resource labels, by component category and type
+ */
+const RESOURCE_REFERENCE_FIELDS: Record<ComponentKind, Record<string, Array<{ field: string; kind: ResourceKind }>>> = {
+  input: {
+    http_client: [{ field: 'rate_limit', kind: 'rate_limit' }],
+  },
+  processor: {
+    cache: [{ field: 'resource', kind: 'cache' }],
+    cached: [{ field: 'cache', kind: 'cache' }],
+    dedupe: [{ field: 'cache', kind: 'cache' }],
+    rate_limit: [{ field: 'resource', kind: 'rate_limit' }],
+    http: [{ field: 'rate_limit', kind: 'rate_limit' }],
+  },
+  output: {
+    cache: [{ field: 'target', kind: 'cache' }],
+    http_client: [{ field: 'rate_limit', kind: 'rate_limit' }],
+  },
+};
+
+/**
+ * Record the resource labels a component refers to.
+ * path points at the component config, e.g. "pipeline.processors[0].cache"
+ */
+function collectResourceReferences(
+  componentType: string,
+  config: unknown,
+  path: string,
+  category: ComponentKind,
+  refs: ResourceReference[]
+): void {
+  // resource: <label> works for inputs, processors and outputs
+  if (componentType === 'resource') {
+    if (typeof config === 'string' && !config.includes('${')) {
+      refs.push({ kind: category, label: config, path });
+    }
+    return;
+  }
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return;
+  const obj = config as Record<string, unknown>;
+
+  for (const { field, kind } of RESOURCE_REFERENCE_FIELDS[category][componentType] ?? []) {
+    const label = obj[field];
+    // Interpolated labels can't be checked statically
+    if (typeof label === 'string' && label && !label.includes('${')) {
+      refs.push({ kind, label, path: `${path}.${field}` });
+    }
+  }
+}
+
+/**
+ * Validate the *_resources sections and check that every referenced label
+ * is declared (error) and every declared resource is used (warning)
+ */
+function validateResources(
+  pipeline: Record<string, unknown>,
+  refs: ResourceReference[],
+  usages: VersionedUsage[],
+  errors: ValidationError[],
+  warnings: string[],
+  options: ValidatePipelineOptions
+): void {
+  const shared = options.sharedResources ?? {};
+
+  const declared: Record<ResourceKind, Map<string, string>> = {
+    cache: new Map(),
+    rate_limit: new Map(),
+    input: new Map(),
+    processor: new Map(),
+    output: new Map(),
+  };
+
+  // Validate resource components first; their own references count as uses
+  for (const { section, kind } of RESOURCE_SECTIONS) {
+    if (!(section in pipeline) || pipeline[section] === null) continue;
+
+    const resources = pipeline[section];
+    if (!Array.isArray(resources)) {
+      errors.push({
+        path: section,
+        message: `${section} must be a list`,
+        suggestion: `Use: ${section}: [- label: my_${kind}, <type>: {...}]`,
+      });
+      continue;
+    }
+
+    resources.forEach((resource, index) => {
+      const path = `${section}[${index}]`;
+      const label = resource && typeof resource === 'object'
+        ? (resource as Record<string, unknown>).label
+        : undefined;
+
+      if (typeof label !== 'string' || !label) {
+        errors.push({
+          path,
+          message: `Resource in ${section} is missing a label`,
+          suggestion: 'Add label: <name> so components can reference this resource',
+        });
+      } else if (declared[kind].has(label)) {
+        errors.push({
+          path: `${path}.label`,
+          message: `Duplicate ${kind} resource label "${label}"`,
+          suggestion: `Labels must be unique; "${label}" is already declared at ${declared[kind].get(label)}`,
+        });
+      } else {
+        declared[kind].set(label, path);
+      }
+
+      if (kind === 'cache' || kind === 'rate_limit') {
+        validateResourceComponent(resource, path, kind, errors, refs, usages);
+      } else {
+        validateComponent(resource, path, kind, errors, refs, usages);
+      }
+    });
+  }
+
+  // Dangling references
+  const used = new Set<string>();
+  for (const ref of refs) {
+    used.add(`${ref.kind}:${ref.label}`);
+    if (declared[ref.kind].has(ref.label) || shared[ref.kind]?.[ref.label]) continue;
+
+    const available = [...declared[ref.kind].keys(), ...Object.keys(shared[ref.kind] ?? {})];
+    const section = RESOURCE_SECTIONS.find(s => s.kind === ref.kind)!.section;
+    errors.push({
+      path: ref.path,
+      message: `Unknown ${ref.kind} resource "${ref.label}"`,
+      suggestion: available.length > 0
+        ? `Declared ${ref.kind} resources: ${available.join(', ')}`
+        : `Declare it under ${section}: - label: ${ref.label}`,
+    });
+  }
+
+  // Unused resources (a resource file declares them for other files)
+  if (options.resourcesOnly) return;
+  for (const { kind } of RESOURCE_SECTIONS) {
+    for (const [label, path] of declared[kind]) {
+      if (!used.has(`${kind}:${label}`)) {
+        warnings.push(`${path}: ${kind} resource "${label}" is declared but never used`);
+      }
+    }
+  }
+}
+
+/**
+ * List the labelled resources a config declares, without validating them
+ */
+export function listDeclaredResources(config: unknown): DeclaredResource[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return [];
+  const pipeline = config as Record<string, unknown>;
+
+  const declared: DeclaredResource[] = [];
+  for (const { section, kind } of RESOURCE_SECTIONS) {
+    const resources = pipeline[section];
+    if (!Array.isArray(resources)) continue;
+    resources.forEach((resource, index) => {
+      const label = resource && typeof resource === 'object'
+        ? (resource as Record<string, unknown>).label
+        : undefined;
+      if (typeof label === 'string' && label) {
+        declared.push({ kind, label, path: `${section}[${index}]` });
+      }
+    });
+  }
+  return declared;
+}
+
+/**
+ * Validate a cache or rate limit resource against its schema
+ */
+function validateResourceComponent(
+  resource: unknown,
+  path: string,
+  kind: 'cache' | 'rate_limit',
+  errors: ValidationError[],
+  refs: ResourceReference[],
+  usages: VersionedUsage[]
+): void {
+  if (!resource || typeof resource !== 'object' || Array.isArray(resource)) {
+    errors.push({
+      path,
+      message: `${path} must be an object`,
+    });
+    return;
+  }
+
+  const obj = resource as Record<string, unknown>;
+  const types = Object.keys(obj).filter(k => k !== 'label' && !k.startsWith('_'));
+  const validTypes = kind === 'cache' ? VALID_CACHES : VALID_RATE_LIMITS;
+  const name = kind === 'cache' ? 'cache' : 'rate limit';
+
+  if (types.length === 0) {
+    errors.push({
+      path,
+      message: `No ${name} type found in ${path}`,
+      suggestion: `Specify a ${name} type like: ${Array.from(validTypes).slice(0, 3).join(', ')}`,
+    });
+    return;
+  }
+
+  const type = types[0];
+  if (!validTypes.has(type)) {
+    const suggestions = findSimilar(type, validTypes);
+    errors.push({
+      path: `${path}.${type}`,
+      message: `Unknown ${name} type: "${type}"`,
+      suggestion: suggestions.length > 0
+        ? `Did you mean: ${suggestions.join(', ')}?`
+        : `Valid ${name} types: ${Array.from(validTypes).join(', ')}`,
+    });
+    return;
+  }
+
+  const config = obj[type];
+  usages.push({ kind: 'component', category: kind, type, path: `${path}.${type}`, config });
+
+  // multilevel caches are built from other cache resources
+  if (type === 'multilevel' && Array.isArray(config)) {
+    config.forEach((label, index) => {
+      if (typeof label === 'string') {
+        refs.push({ kind: 'cache', label, path: `${path}.multilevel[${index}]` });
+      }
+    });
+    return;
+  }
+
+  if (config && typeof config === 'object' && !Array.isArray(config)) {
+    validateComponentFields(config as Record<string, unknown>, type, kind, `${path}.${type}`, errors);
+  }
+}
+
+// ============================================================================
+// Version and Deprecation Checks
+// ============================================================================
+
+/**
+ * A component or mapping the config uses, recorded during validation
+ */
+type VersionedUsage =
+  | { kind: 'component'; category: ComponentCategory; type: string; path: string; config: unknown }
+  | { kind: 'bloblang'; path: string; mapping: string };
+
+/**
+ * A component, field or Bloblang function the config uses that carries
+ * version or deprecation info
+ */
+interface VersionedItem {
+  kind: 'component' | 'field' | 'bloblang';
+  /** Name as written in the config */
+  name: string;
+  /** How messages refer to the item, e.g. 'kafka input' or 'Field "expiration"' */
+  subject: string;
+  path: string;
+  info: VersionInfo;
+  /** Version info of the deprecation replacement, when it is known */
+  replacementInfo?: VersionInfo;
+  /** The replacement is already set next to a deprecated field */
+  replacementSet?: boolean;
+  mappingRange?: { start: number; end: number };
+}
+
+// Reference items with version info, keyed "function:name" or "method:name"
+const VERSIONED_BLOBLANG = new Map<string, BloblangItem>();
+for (const item of BLOBLANG_REFERENCE) {
+  if (item.introduced || item.deprecated || item.removed || item.deprecation) {
+    VERSIONED_BLOBLANG.set(`${item.type}:${item.name}`, item);
+  }
+}
+
+/**
+ * Find the versioned components, fields and Bloblang functions among usages
+ */
+function collectVersionedItems(usages: VersionedUsage[]): VersionedItem[] {
+  const items: VersionedItem[] = [];
+
+  for (const usage of usages) {
+    if (usage.kind === 'bloblang') {
+      if (VERSIONED_BLOBLANG.size === 0) continue;
+      walkBloblang(parseBloblang(usage.mapping).statements, (expr) => {
+        if (expr.kind !== 'call' && expr.kind !== 'method') return;
+        const type = expr.kind === 'call' ? 'function' : 'method';
+        const item = VERSIONED_BLOBLANG.get(`${type}:${expr.name}`);
+        if (!item) return;
+        const label = type === 'function' ? `${expr.name}()` : `.${expr.name}()`;
+        const replacement = item.deprecation?.replacement;
+        items.push({
+          kind: 'bloblang',
+          name: expr.name,
+          subject: `Bloblang ${type} ${label}`,
+          path: usage.path,
+          info: item,
+          replacementInfo: replacement ? VERSIONED_BLOBLANG.get(`${type}:${replacement}`) : undefined,
+          mappingRange: { start: expr.nameStart, end: expr.nameEnd },
+        });
+      });
+      continue;
+    }
+
+    const info = getComponentVersionInfo(usage.type, usage.category);
+    if (hasVersionInfo(info)) {
+      const replacement = info.deprecation?.replacement;
+      items.push({
+        kind: 'component',
+        name: usage.type,
+        subject: `${usage.type} ${usage.category.replace('_', ' ')}`,
+        path: usage.path,
+        info,
+        replacementInfo: replacement ? getComponentVersionInfo(replacement, usage.category) : undefined,
+      });
+    }
+
+    const schema = getComponentSchema(usage.type, usage.category);
+    if (schema && usage.config && typeof usage.config === 'object' && !Array.isArray(usage.config)) {
+      collectVersionedFields(usage.config as Record<string, unknown>, schema.fields, usage.path, items);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Find fields set in a config that carry version info, recursing into
+ * nested objects and arrays of objects
+ */
+function collectVersionedFields(
+  config: Record<string, unknown>,
+  fields: Record<string, FieldSchema>,
+  path: string,
+  items: VersionedItem[]
+): void {
+  for (const [key, value] of Object.entries(config)) {
+    const field = fields[key];
+    if (!field) continue;
+    const fieldPath = `${path}.${key}`;
+
+    if (hasVersionInfo(field)) {
+      const replacement = field.deprecation?.replacement;
+      items.push({
+        kind: 'field',
+        name: key,
+        subject: `Field "${key}"`,
+        path: fieldPath,
+        info: field,
+        replacementInfo: replacement ? fields[replacement] : undefined,
+        replacementSet: replacement !== undefined && replacement in config,
+      });
+    }
+
+    if (field.properties && value && typeof value === 'object' && !Array.isArray(value)) {
+      collectVersionedFields(value as Record<string, unknown>, field.properties, fieldPath, items);
+    }
+    if (field.items?.properties && Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (item && typeof item === 'object' && !Array.isArray(item)) {
+          collectVersionedFields(item as Record<string, unknown>, field.items!.properties!, `${fieldPath}[${index}]`, items);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Whether a deprecation applies on the target version. Deprecations are
+ * only reported once their replacement exists on that version.
+ */
+function isDeprecationActive(item: VersionedItem, target?: string): boolean {
+  if (!isDeprecatedAt(item.info, target)) return false;
+  return !target || !item.replacementInfo || isAvailableAt(item.replacementInfo, target);
+}
+
+/**
+ * Report items unavailable on the target version (error) and deprecated
+ * items (warning, naming the replacement)
+ */
+function validateUsages(
+  usages: VersionedUsage[],
+  target: string | undefined,
+  errors: ValidationError[],
+  warnings: string[]
+): void {
+  if (target !== undefined && !isValidVersion(target)) {
+    errors.push({
+      path: 'root',
+      message: `Invalid target version "${target}"`,
+      suggestion: 'Use a release version like 4.12.0',
+    });
+    return;
+  }
+
+  for (const item of collectVersionedItems(usages)) {
+    const availability = target ? availabilityAt(item.info, target) : 'available';
+    if (target && (availability === 'not_yet_introduced' || availability === 'removed')) {
+      const error: ValidationError = {
+        path: item.path,
+        message: describeAvailability(item.subject, item.info, target)!,
+      };
+      if (item.kind === 'component' && availability === 'not_yet_introduced') {
+        error.suggestion = `Upgrade the node to ${item.info.introduced} or later, or use a different component`;
+      }
+      if (item.mappingRange) error.mapping_range = item.mappingRange;
+      errors.push(error);
+      continue;
+    }
+
+    if (isDeprecationActive(item, target)) {
+      warnings.push(`${item.path}: ${describeDeprecation(item.subject, item.info)}`);
+    }
+  }
+
+  if (target) {
+    const unchecked = findUnversionedItems(usages);
+    if (unchecked.length > 0) {
+      warnings.push(`No version data for ${unchecked.join(', ')}; their availability on ${target} was not checked`);
+    }
+  }
+}
+
+/**
+ * Components, top-level fields and Bloblang functions in use that record no
+ * version data. Components and Bloblang items are named, fields are counted.
+ */
+function findUnversionedItems(usages: VersionedUsage[]): string[] {
+  const subjects = new Set<string>();
+  const fields = new Set<string>();
+
+  for (const usage of usages) {
+    if (usage.kind === 'bloblang') {
+      walkBloblang(parseBloblang(usage.mapping).statements, (expr) => {
+        if (expr.kind !== 'call' && expr.kind !== 'method') return;
+        const type = expr.kind === 'call' ? 'function' : 'method';
+        if (VERSIONED_BLOBLANG.has(`${type}:${expr.name}`)) return;
+        subjects.add(`Bloblang ${type} ${type === 'function' ? `${expr.name}()` : `.${expr.name}()`}`);
+      });
+      continue;
+    }
+
+    if (!hasVersionInfo(getComponentVersionInfo(usage.type, usage.category))) {
+      subjects.add(`${usage.type} ${usage.category.replace('_', ' ')}`);
+    }
+    const schema = getComponentSchema(usage.type, usage.category);
+    if (schema && usage.config && typeof usage.config === 'object' && !Array.isArray(usage.config)) {
+      for (const key of Object.keys(usage.config)) {
+        const field = schema.fields[key];
+        if (field && !hasVersionInfo(field)) fields.add(`${usage.category}.${usage.type}.${key}`);
+      }
+    }
+  }
+
+  const items = Array.from(subjects);
+  if (fields.size > 0) items.push(`${fields.size} field${fields.size === 1 ? '' : 's'}`);
+  return items;
+}
+
+/**
+ * Deprecated components and fields whose replacement takes the same config,
+ * as key renames for applyAutoFixes
+ */
+function findDeprecationRenames(
+  usages: VersionedUsage[],
+  target?: string
+): Array<{ kind: 'component' | 'field'; path: string; from: string; to: string }> {
+  const renames: Array<{ kind: 'component' | 'field'; path: string; from: string; to: string }> = [];
+  for (const item of collectVersionedItems(usages)) {
+    const deprecation = item.info.deprecation;
+    if (item.kind === 'bloblang' || !deprecation?.autoFix || !deprecation.replacement) continue;
+    if (item.replacementSet || !isDeprecationActive(item, target)) continue;
+    // Don't rename to something the target version lacks
+    if (target && item.replacementInfo && !isAvailableAt(item.replacementInfo, target)) continue;
+    renames.push({ kind: item.kind, path: item.path, from: item.name, to: deprecation.replacement });
+  }
+  return renames;
+}
+
+// ============================================================================
+// Service Section Validation
+// ============================================================================
+
+/**
+ * Validate the top-level service sections (http, logger, metrics, tracer,
+ * shutdown_timeout, shutdown_delay, tests) against their schemas
+ */
+function validateServiceSections(pipeline: Record<string, unknown>, errors: ValidationError[]): void {
+  for (const [name, section] of Object.entries(SERVICE_SECTIONS)) {
+    const value = pipeline[name];
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    if (section.exporters) {
+      validateExporterSection(value, section, errors);
+      continue;
+    }
+
+    const { schema } = section;
+    if (schema.type === 'object' && schema.properties) {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        validateFieldType(value, schema, name, errors);
+      } else {
+        validateFields(value as Record<string, unknown>, schema.properties, name, errors);
+      }
+      continue;
+    }
+
+    validateFieldType(value, schema, name, errors);
+
+    // Array sections (tests) get per-item field checks
+    if (schema.type === 'array' && Array.isArray(value) && schema.items?.properties) {
+      const itemFields = schema.items.properties;
+      value.forEach((item, index) => {
+        const itemPath = `${name}[${index}]`;
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+          validateFieldType(item, schema.items as FieldSchema, itemPath, errors);
+        } else {
+          validateFields(item as Record<string, unknown>, itemFields, itemPath, errors);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Validate a section that selects one exporter (metrics, tracer).
+ * Keys other than the section's own properties are exporter names.
+ */
+function validateExporterSection(
+  value: unknown,
+  section: ServiceSectionSchema,
+  errors: ValidationError[]
+): void {
+  const { name, schema } = section;
+  const exporters = section.exporters ?? {};
+  const exporterNames = Object.keys(exporters);
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push({
+      path: name,
+      message: `"${name}" must be an object with a single exporter`,
+      suggestion: `Valid exporters: ${exporterNames.join(', ')}`,
+    });
+    return;
+  }
+
+  const config = value as Record<string, unknown>;
+  const properties = schema.properties ?? {};
+  const selected = Object.keys(config).filter(key => !(key in properties));
+
+  for (const [key, fieldSchema] of Object.entries(properties)) {
+    if (key in config) {
+      validateFieldType(config[key], fieldSchema, `${name}.${key}`, errors);
+    }
+  }
+
+  if (selected.length > 1) {
+    errors.push({
+      path: name,
+      message: `"${name}" has multiple exporters: ${selected.join(', ')}`,
+      suggestion: `Choose exactly one exporter for ${name}`,
+    });
+  }
+
+  for (const exporter of selected) {
+    const exporterPath = `${name}.${exporter}`;
+
+    if (!(exporter in exporters)) {
+      const suggestion = findSimilarField(exporter, exporterNames);
+      errors.push({
+        path: exporterPath,
+        message: `Unknown ${name} exporter: "${exporter}"`,
+        suggestion: suggestion
+          ? `Did you mean "${suggestion}"?`
+          : `Valid exporters: ${exporterNames.join(', ')}`,
+      });
+      continue;
+    }
+
+    const exporterConfig = config[exporter];
+    if (exporterConfig === null || exporterConfig === undefined) {
+      // e.g. "json_api:" with no fields
+      continue;
+    }
+    if (typeof exporterConfig !== 'object' || Array.isArray(exporterConfig)) {
+      validateFieldType(exporterConfig, { type: 'object', description: exporter }, exporterPath, errors);
+      continue;
+    }
+    validateFields(exporterConfig as Record<string, unknown>, exporters[exporter], exporterPath, errors);
+  }
+}
+
 /**
  * Common Bloblang syntax errors that LLMs generate
  */
@@ -1352,7 +2299,7 @@ const BLOBLANG_ERRORS: Array<{
   {
     pattern: /\.reduce\s*\(/,
     message: 'Invalid JavaScript-style .reduce()',
-    suggestion: 'Use: this.fold(initial, (acc, x) -> acc + x)',
+    suggestion: 'Use: this.fold(initial, item -> item.tally + item.value)',
   },
   {
     pattern: /import\s+/,
@@ -1507,9 +2454,10 @@ function findSimilar(input: string, validTypes: Set<string>): string[] {
 
 /**
  * Parse YAML and validate as pipeline
- * Applies HIGH confidence auto-fixes before validation
+ * Applies HIGH confidence auto-fixes before validation, then attaches
+ * line/column/range from the YAML AST to every error and warning
  */
-export function validatePipelineYaml(yamlString: string): ValidationResult {
+export function validatePipelineYaml(yamlString: string, options: ValidatePipelineOptions = {}): ValidationResult {
   // Check for multiple YAML documents (--- separator) which is a common LLM mistake
   const documents = yamlString.split(/\n---\s*\n/);
   if (documents.length > 1) {
@@ -1519,12 +2467,15 @@ export function validatePipelineYaml(yamlString: string): ValidationResult {
     );
 
     if (pipelineDocs.length > 1) {
+      // Point at the first separator
+      const separator = yamlString.search(/\n---\s*\n/) + 1;
       return {
         valid: false,
         errors: [{
           path: 'root',
           message: 'Multiple pipeline documents detected. A pipeline must be a single YAML document',
           suggestion: 'Combine all processors into one pipeline: processors: [...] array. Do not use --- separators',
+          ...locateOffsets(yamlString, separator, separator + 3),
         }],
         warnings: [],
       };
@@ -1532,159 +2483,54 @@ export function validatePipelineYaml(yamlString: string): ValidationResult {
   }
 
   // Apply HIGH confidence auto-fixes before validation
-  const autoFixResult = applyAutoFixes(yamlString);
+  const autoFixResult = applyAutoFixes(yamlString, options);
   const yamlToValidate = autoFixResult.fixesApplied.length > 0
     ? autoFixResult.fixedYaml
     : yamlString;
 
-  try {
-    const config = parseYaml(yamlToValidate);
-    const validationResult = validatePipeline(config);
-
-    // Include auto-fix information in the result
-    const result: ValidationResult = {
-      ...validationResult,
-    };
+  const source = parseYamlSource(yamlToValidate);
 
-    // Add fixed_yaml if fixes were applied
-    if (autoFixResult.fixesApplied.length > 0) {
-      result.fixed_yaml = autoFixResult.fixedYaml;
-      result.fixes_applied = autoFixResult.fixesApplied;
-    }
-
-    // Add suggested fixes if any
-    if (autoFixResult.suggestedFixes.length > 0) {
-      result.suggested_fixes = autoFixResult.suggestedFixes;
-    }
-
-    return result;
-  } catch (error) {
-    // If validation failed, still include any fixes that were attempted
-    const result: ValidationResult = {
+  let result: ValidationResult;
+  if (source.error) {
+    result = {
       valid: false,
       errors: [{
         path: 'root',
-        message: `Failed to parse YAML: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        message: `Failed to parse YAML: ${source.error.message}`,
+        ...source.error.location,
       }],
       warnings: [],
     };
+  } else {
+    const suppressions = findLintDirectives(yamlToValidate, source);
 
-    if (autoFixResult.fixesApplied.length > 0) {
-      result.fixed_yaml = autoFixResult.fixedYaml;
-      result.fixes_applied = autoFixResult.fixesApplied;
-    }
+    // An empty document is an empty pipeline (missing input/output), not a type error
+    result = validatePipeline(source.value ?? {}, { ...options, lintSuppressions: suppressions });
 
-    if (autoFixResult.suggestedFixes.length > 0) {
-      result.suggested_fixes = autoFixResult.suggestedFixes;
+    const customRuleIds = (options.customRules ?? []).map(rule => rule.id);
+    for (const suppression of suppressions) {
+      for (const rule of suppression.rules.filter(rule => !isKnownRule(rule, customRuleIds))) {
+        result.warnings.push(`Unknown lint rule "${rule}" in expanso-lint comment on line ${suppression.line}`);
+      }
     }
 
-    return result;
+    // Attach source positions to errors and compatibility warnings
+    result.errors = result.errors.map(error => ({ ...error, ...source.locate(error.path) }));
+    if (result.compatibility_warnings) {
+      result.compatibility_warnings = result.compatibility_warnings.map(warning =>
+        warning.path ? { ...warning, ...source.locate(warning.path) } : warning
+      );
+    }
   }
-}
 
-/**
- * Parse YAML string to object
- * Uses a simple parser that handles common pipeline YAML patterns
- */
-function parseYaml(yamlStr: string): Record<string, unknown> {
-  // Try JSON first
-  try {
-    return JSON.parse(yamlStr);
-  } catch {
-    // Continue with YAML parsing
+  // Include auto-fix information in the result (even if validation failed)
+  if (autoFixResult.fixesApplied.length > 0) {
+    result.fixed_yaml = autoFixResult.fixedYaml;
+    result.fixes_applied = autoFixResult.fixesApplied;
   }
 
-  // Simple YAML parser for pipeline configs
-  const result: Record<string, unknown> = {};
-  const lines = yamlStr.split('\n');
-  const stack: { indent: number; obj: Record<string, unknown>; key?: string }[] = [
-    { indent: -1, obj: result },
-  ];
-
-  for (const line of lines) {
-    // Skip empty lines and comments
-    if (!line.trim() || line.trim().startsWith('#')) continue;
-
-    // Calculate indent
-    const indent = line.search(/\S/);
-    const content = line.trim();
-
-    // Pop stack until we find parent
-    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) {
-      stack.pop();
-    }
-
-    const parent = stack[stack.length - 1];
-
-    // Handle list items FIRST (before checking for colons, since list items may contain colons)
-    if (content.startsWith('- ')) {
-      const parentKey = parent.key;
-      if (parentKey) {
-        const parentParent = stack[stack.length - 2]?.obj;
-        if (parentParent) {
-          let arr = parentParent[parentKey] as unknown[];
-          if (!Array.isArray(arr)) {
-            arr = [];
-            (parentParent as Record<string, unknown>)[parentKey] = arr;
-          }
-
-          const itemContent = content.substring(2).trim();
-          // Check if it's a key: value in the list item
-          const itemColonIndex = itemContent.indexOf(':');
-          if (itemColonIndex > 0) {
-            const itemObj: Record<string, unknown> = {};
-            const itemKey = itemContent.substring(0, itemColonIndex).trim();
-            const itemValue = itemContent.substring(itemColonIndex + 1).trim();
-            if (itemValue) {
-              itemObj[itemKey] = itemValue;
-            } else {
-              itemObj[itemKey] = {};
-              stack.push({ indent: indent + 2, obj: itemObj[itemKey] as Record<string, unknown>, key: itemKey });
-            }
-            arr.push(itemObj);
-          } else {
-            arr.push(itemContent);
-          }
-        }
-      }
-    }
-    // Handle key: value
-    else {
-      const colonIndex = content.indexOf(':');
-      if (colonIndex > 0) {
-        const key = content.substring(0, colonIndex).trim();
-        let value = content.substring(colonIndex + 1).trim();
-
-        // Handle inline value
-        if (value) {
-          // Remove quotes
-          if ((value.startsWith('"') && value.endsWith('"')) ||
-              (value.startsWith("'") && value.endsWith("'"))) {
-            value = value.slice(1, -1);
-          }
-          // Handle arrays like [a, b, c]
-          if (value.startsWith('[') && value.endsWith(']')) {
-            const items = value.slice(1, -1).split(',').map(s => s.trim().replace(/['"]/g, ''));
-            (parent.obj as Record<string, unknown>)[key] = items;
-          } else if (value === 'true' || value === 'yes' || value === 'on') {
-            // YAML boolean: true, yes, on
-            (parent.obj as Record<string, unknown>)[key] = true;
-          } else if (value === 'false' || value === 'no' || value === 'off') {
-            // YAML boolean: false, no, off
-            (parent.obj as Record<string, unknown>)[key] = false;
-          } else if (!isNaN(Number(value))) {
-            (parent.obj as Record<string, unknown>)[key] = Number(value);
-          } else {
-            (parent.obj as Record<string, unknown>)[key] = value;
-          }
-        } else {
-          // Nested object
-          const newObj: Record<string, unknown> = {};
-          (parent.obj as Record<string, unknown>)[key] = newObj;
-          stack.push({ indent, obj: newObj, key });
-        }
-      }
-    }
+  if (autoFixResult.suggestedFixes.length > 0) {
+    result.suggested_fixes = autoFixResult.suggestedFixes;
   }
 
   return result;
@@ -1701,7 +2547,8 @@ export function formatValidationErrors(result: ValidationResult): string {
   const lines = ['✗ Pipeline validation failed:', ''];
 
   for (const error of result.errors) {
-    lines.push(`  • ${error.path}: ${error.message}`);
+    const location = error.line ? ` (line ${error.line}, column ${error.column})` : '';
+    lines.push(`  • ${error.path}${location}: ${error.message}`);
     if (error.suggestion) {
       lines.push(`    → ${error.suggestion}`);
     }
@@ -0,0 +1,116 @@
+/**
+ * Tests for MCP Prompt Templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PROMPTS,
+  getPrompt,
+  getPromptDefinition,
+  getMissingArguments,
+} from './prompts';
+
+describe('Prompt Templates', () => {
+  describe('prompt definitions', () => {
+    it('should define build, migrate and debug prompts', () => {
+      const names = PROMPTS.map(p => p.name);
+      expect(names).toContain('build_pipeline');
+      expect(names).toContain('migrate_config');
+      expect(names).toContain('debug_error');
+    });
+
+    it('should have unique names and descriptions', () => {
+      const names = new Set(PROMPTS.map(p => p.name));
+      expect(names.size).toBe(PROMPTS.length);
+      for (const prompt of PROMPTS) {
+        expect(prompt.description.length).toBeGreaterThan(20);
+        for (const arg of prompt.arguments) {
+          expect(arg.name).toBeTruthy();
+          expect(arg.description).toBeTruthy();
+        }
+      }
+    });
+
+    it('should look up definitions by name', () => {
+      expect(getPromptDefinition('build_pipeline')?.name).toBe('build_pipeline');
+      expect(getPromptDefinition('nonexistent')).toBeUndefined();
+    });
+  });
+
+  describe('getMissingArguments', () => {
+    const buildPrompt = getPromptDefinition('build_pipeline')!;
+
+    it('should report missing required arguments', () => {
+      expect(getMissingArguments(buildPrompt, {})).toEqual(['source', 'destination']);
+      expect(getMissingArguments(buildPrompt, { source: 'kafka' })).toEqual(['destination']);
+    });
+
+    it('should treat blank values as missing', () => {
+      expect(getMissingArguments(buildPrompt, { source: ' ', destination: 'stdout' })).toEqual(['source']);
+    });
+
+    it('should not require optional arguments', () => {
+      expect(getMissingArguments(buildPrompt, { source: 'kafka', destination: 'aws_s3' })).toEqual([]);
+    });
+  });
+
+  describe('build_pipeline', () => {
+    it('should include component schemas for known components', () => {
+      const result = getPrompt('build_pipeline', { source: 'kafka', destination: 'aws_s3' });
+      const text = result!.messages[0].content.text;
+
+      expect(result!.messages[0].role).toBe('user');
+      expect(text).toContain('reads from kafka and writes to aws_s3');
+      expect(text).toContain('# kafka');
+      expect(text).toContain('# aws_s3');
+    });
+
+    it('should include matching validated examples', () => {
+      const result = getPrompt('build_pipeline', { source: 'kafka', destination: 'aws_s3' });
+      expect(result!.messages[0].content.text).toContain('Validated Pipeline Examples');
+    });
+
+    it('should include requirements when provided', () => {
+      const result = getPrompt('build_pipeline', {
+        source: 'http_server',
+        destination: 'stdout',
+        requirements: 'drop messages without an id',
+      });
+      expect(result!.messages[0].content.text).toContain('Requirements: drop messages without an id');
+    });
+
+    it('should not include schemas for free-text systems', () => {
+      const result = getPrompt('build_pipeline', { source: 'my sensors', destination: 'a dashboard' });
+      expect(result!.messages[0].content.text).not.toContain('## Fields');
+    });
+  });
+
+  describe('migrate_config', () => {
+    it('should embed the config and source format', () => {
+      const config = 'input { kafka { topics => ["logs"] } }';
+      const result = getPrompt('migrate_config', { config, source_format: 'logstash' });
+      const text = result!.messages[0].content.text;
+
+      expect(text).toContain('logstash');
+      expect(text).toContain(config);
+    });
+  });
+
+  describe('debug_error', () => {
+    it('should include the error and a diagnosis', () => {
+      const result = getPrompt('debug_error', {
+        error_message: 'unknown input type "kafaka"',
+        yaml: 'input:\n  kafaka: {}',
+      });
+      const text = result!.messages[0].content.text;
+
+      expect(text).toContain('unknown input type "kafaka"');
+      expect(text).toContain('kafaka: {}');
+      expect(text).toContain('Known diagnosis:');
+    });
+  });
+
+  it('should return undefined for unknown prompts', () => {
+    expect(getPrompt('nonexistent', {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Prompt Templates
+ *
+ * Curated, parameterized prompts for the MCP prompts capability.
+ * Each template is filled in with the same examples and component schemas
+ * the tools use, so clients can offer them as slash commands.
+ */
+
+import { searchExamples, formatExamplesForContext } from './examples-registry';
+import { getComponentSchema, formatComponentSchema } from './component-schemas';
+import { VALID_INPUTS, VALID_OUTPUTS } from './pipeline-validator';
+import { explainError } from './error-explainer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: {
+    type: 'text';
+    text: string;
+  };
+}
+
+export interface GetPromptResult {
+  description: string;
+  messages: PromptMessage[];
+}
+
+type PromptArgs = Record<string, string | undefined>;
+
+// ============================================================================
+// Prompt Definitions
+// ============================================================================
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'build_pipeline',
+    description:
+      'Build a pipeline that reads from a source system and writes to a destination, grounded in validated examples and component schemas.',
+    arguments: [
+      {
+        name: 'source',
+        description: 'Where data comes from (e.g., kafka, http_server, aws_s3)',
+        required: true,
+      },
+      {
+        name: 'destination',
+        description: 'Where data goes (e.g., aws_s3, elasticsearch_v8, stdout)',
+        required: true,
+      },
+      {
+        name: 'requirements',
+        description: 'Optional: transformations, filtering or other requirements',
+      },
+    ],
+  },
+  {
+    name: 'migrate_config',
+    description:
+      'Migrate an existing pipeline config (Logstash, Fluentd, Vector, older Benthos, etc.) to an Expanso pipeline.',
+    arguments: [
+      {
+        name: 'config',
+        description: 'The existing configuration to migrate',
+        required: true,
+      },
+      {
+        name: 'source_format',
+        description: 'Optional: format of the existing config (logstash, fluentd, vector, benthos)',
+      },
+    ],
+  },
+  {
+    name: 'debug_error',
+    description:
+      'Diagnose a pipeline validation or runtime error and propose a minimal fix.',
+    arguments: [
+      {
+        name: 'error_message',
+        description: 'The error message to debug',
+        required: true,
+      },
+      {
+        name: 'yaml',
+        description: 'Optional: the pipeline YAML that produced the error',
+      },
+    ],
+  },
+];
+
+// ============================================================================
+// Lookup Functions
+// ============================================================================
+
+/**
+ * Get a prompt definition by name
+ */
+export function getPromptDefinition(name: string): PromptDefinition | undefined {
+  return PROMPTS.find((p) => p.name === name);
+}
+
+/**
+ * List required arguments that were not provided
+ */
+export function getMissingArguments(prompt: PromptDefinition, args: PromptArgs = {}): string[] {
+  return prompt.arguments
+    .filter((arg) => arg.required && !args[arg.name]?.trim())
+    .map((arg) => arg.name);
+}
+
+/**
+ * Render a prompt with the given arguments.
+ * Returns undefined for unknown prompts; callers should check
+ * getMissingArguments first.
+ */
+export function getPrompt(name: string, args: PromptArgs = {}): GetPromptResult | undefined {
+  switch (name) {
+    case 'build_pipeline':
+      return buildPipelinePrompt(args);
+    case 'migrate_config':
+      return migrateConfigPrompt(args);
+    case 'debug_error':
+      return debugErrorPrompt(args);
+    default:
+      return undefined;
+  }
+}
+
+// ============================================================================
+// Prompt Renderers
+// ============================================================================
+
+function buildPipelinePrompt(args: PromptArgs): GetPromptResult {
+  const source = (args.source ?? '').trim();
+  const destination = (args.destination ?? '').trim();
+  const requirements = args.requirements?.trim();
+
+  const sections: string[] = [
+    `Build an Expanso pipeline that reads from ${source} and writes to ${destination}.`,
+  ];
+  if (requirements) {
+    sections.push(`Requirements: ${requirements}`);
+  }
+
+  // Ground the request in component schemas when the names are real components
+  const inputSchema = VALID_INPUTS.has(source) ? getComponentSchema(source, 'input') : undefined;
+  const outputSchema = VALID_OUTPUTS.has(destination)
+    ? getComponentSchema(destination, 'output')
+    : undefined;
+  for (const schema of [inputSchema, outputSchema]) {
+    if (schema) {
+      sections.push(formatComponentSchema(schema));
+    }
+  }
+
+  const examples = searchExamples(`${source} ${destination} ${requirements ?? ''}`, 2);
+  const examplesContext = formatExamplesForContext(examples);
+  if (examplesContext) {
+    sections.push(examplesContext);
+  }
+
+  sections.push(PIPELINE_RULES);
+
+  return {
+    description: `Build a ${source} → ${destination} pipeline`,
+    messages: [userMessage(sections.join('\n\n'))],
+  };
+}
+
+function migrateConfigPrompt(args: PromptArgs): GetPromptResult {
+  const config = (args.config ?? '').trim();
+  const sourceFormat = args.source_format?.trim();
+
+  const sections: string[] = [
+    `Migrate the following ${sourceFormat ? `${sourceFormat} ` : ''}configuration to an Expanso pipeline.`,
+    'Keep the same sources, destinations and transformations. Map each plugin to the closest Expanso component and translate filters into Bloblang mapping processors.',
+    '```\n' + config + '\n```',
+  ];
+
+  const examples = searchExamples(config, 2);
+  const examplesContext = formatExamplesForContext(examples);
+  if (examplesContext) {
+    sections.push(examplesContext);
+  }
+
+  sections.push(PIPELINE_RULES);
+
+  return {
+    description: `Migrate ${sourceFormat ?? 'an existing'} config to Expanso`,
+    messages: [userMessage(sections.join('\n\n'))],
+  };
+}
+
+function debugErrorPrompt(args: PromptArgs): GetPromptResult {
+  const errorMessage = (args.error_message ?? '').trim();
+  const yaml = args.yaml?.trim();
+
+  const explanation = explainError({ error_message: errorMessage, context: yaml });
+
+  const sections: string[] = [
+    'Debug this Expanso pipeline error and propose the smallest change that fixes it.',
+    `Error:\n\`\`\`\n${errorMessage}\n\`\`\``,
+  ];
+  if (yaml) {
+    sections.push(`Pipeline:\n\`\`\`yaml\n${yaml}\n\`\`\``);
+  }
+
+  sections.push(
+    [
+      'Known diagnosis:',
+      `- Explanation: ${explanation.explanation}`,
+      `- Likely cause: ${explanation.cause}`,
+      `- Suggested fix: ${explanation.fix.description}`,
+      `- Related docs: ${explanation.related_docs.join(', ')}`,
+    ].join('\n')
+  );
+
+  sections.push(
+    'Explain the root cause in one or two sentences, then return the corrected YAML. Validate the result with the validate_pipeline tool before presenting it.'
+  );
+
+  return {
+    description: 'Debug a pipeline error',
+    messages: [userMessage(sections.join('\n\n'))],
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const PIPELINE_RULES = `Rules:
+- Produce ONE YAML document with input, pipeline.processors and output sections
+- Use only documented component and field names (check get_component_schema when unsure)
+- Use Bloblang method syntax such as this.parse_json(), never from_json()
+- Validate the final YAML with the validate_pipeline tool before presenting it`;
+
+function userMessage(text: string): PromptMessage {
+  return {
+    role: 'user',
+    content: { type: 'text', text },
+  };
+}
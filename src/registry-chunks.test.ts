@@ -0,0 +1,44 @@
+/**
+ * Tests for indexing the local registries as typed chunks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRegistryChunks, isSearchType } from './registry-chunks';
+import { readTemplateResource } from './resource-templates';
+import { buildBm25Index, searchBm25, type Bm25Document } from './bm25';
+
+describe('Registry Chunks', () => {
+  const chunks = buildRegistryChunks();
+
+  it('should emit component, bloblang and rule chunks', () => {
+    const types = new Set(chunks.map(chunk => chunk.metadata.type));
+    expect([...types]).toEqual(['component', 'bloblang', 'rule']);
+    expect(chunks.find(chunk => chunk.id === 'component_output_kafka')).toBeDefined();
+    expect(chunks.find(chunk => chunk.id === 'component_input_kafka')).toBeDefined();
+    expect(chunks.find(chunk => chunk.id === 'rule_http-without-tls')).toBeDefined();
+  });
+
+  it('should use unique IDs within the Vectorize limit', () => {
+    const ids = chunks.map(chunk => chunk.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids.every(id => id.length <= 64)).toBe(true);
+  });
+
+  it('should point every chunk at a readable resource', () => {
+    for (const chunk of chunks) {
+      expect(readTemplateResource(chunk.metadata.uri as string), chunk.id).not.toBeNull();
+    }
+  });
+
+  it('should make schema details searchable', () => {
+    const index = buildBm25Index(chunks.map(({ id, text, metadata }) => ({ id, text, ...(metadata as Omit<Bm25Document, 'id'>) })));
+    const upserts = searchBm25(index, 'output upsert', { type: 'component' }).map(match => match.document.id);
+    expect(upserts).toContain('component_output_mongodb');
+    expect(searchBm25(index, 'ts_format', { type: 'bloblang' })[0].document.id).toBe('bloblang_method_ts_format');
+  });
+
+  it('should recognize search types', () => {
+    expect(isSearchType('bloblang')).toBe(true);
+    expect(isSearchType('widget')).toBe(false);
+  });
+});
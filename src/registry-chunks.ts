@@ -0,0 +1,111 @@
+/**
+ * Registry Chunks
+ *
+ * Turns the local registries into typed chunks for the search indexes, so
+ * semantic queries reach component schemas ("which output supports
+ * upserts"), the Bloblang reference ("round a timestamp to the hour") and
+ * compatibility rules, not just llms.txt docs and examples. Each chunk's URI
+ * is a resource template URI that get_resource can read.
+ */
+
+import type { IndexChunk } from './index-sync';
+import { formatComponentSchema, getSchemasByCategory, type ComponentCategory } from './component-schemas';
+import { getCatalogEntry, type ComponentCategory as CatalogCategory } from './component-catalog';
+import { BLOBLANG_REFERENCE, formatBloblangReference } from './bloblang-reference';
+import { COMPATIBILITY_RULES, formatCompatibilityRule } from './compatibility-rules';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Values of the `type` metadata field, and of search_docs' `type` filter */
+export const SEARCH_TYPES = ['doc', 'example', 'component', 'bloblang', 'rule'] as const;
+
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export function isSearchType(value: unknown): value is SearchType {
+  return SEARCH_TYPES.includes(value as SearchType);
+}
+
+const COMPONENT_CATEGORIES: ComponentCategory[] = ['input', 'processor', 'output', 'cache', 'rate_limit', 'buffer'];
+
+// Registry chunks are reference docs, so they sit with docs.expanso.io for domain filters
+const REGISTRY_DOMAIN = 'docs.expanso.io';
+
+// ============================================================================
+// Chunks
+// ============================================================================
+
+function registryChunk(
+  id: string,
+  uri: string,
+  type: SearchType,
+  title: string,
+  summary: string,
+  text: string
+): IndexChunk {
+  return {
+    id: id.slice(0, 64),
+    text,
+    metadata: { uri, domain: REGISTRY_DOMAIN, title, snippet: summary.slice(0, 200), section: title, type },
+  };
+}
+
+/**
+ * One chunk per component schema; catalog tags are added to the text
+ */
+export function componentChunks(): IndexChunk[] {
+  return COMPONENT_CATEGORIES.flatMap(category =>
+    getSchemasByCategory(category).map(schema => {
+      const entry = getCatalogEntry(schema.name, category as CatalogCategory);
+      const tags = entry?.tags.length ? `\nTags: ${entry.tags.join(', ')}` : '';
+      return registryChunk(
+        `component_${category}_${schema.name}`,
+        `expanso://component/${category}/${schema.name}`,
+        'component',
+        `${schema.name} ${category}`,
+        schema.description,
+        formatComponentSchema(schema) + tags
+      );
+    })
+  );
+}
+
+/**
+ * One chunk per Bloblang function and method
+ */
+export function bloblangChunks(): IndexChunk[] {
+  return BLOBLANG_REFERENCE.map(item =>
+    registryChunk(
+      `bloblang_${item.type}_${item.name}`,
+      `expanso://bloblang/${item.name}`,
+      'bloblang',
+      `${item.name} (${item.type})`,
+      item.description,
+      formatBloblangReference([item])
+    )
+  );
+}
+
+/**
+ * One chunk per built-in compatibility rule
+ */
+export function ruleChunks(): IndexChunk[] {
+  return COMPATIBILITY_RULES.map(rule =>
+    registryChunk(
+      `rule_${rule.id}`,
+      `expanso://rule/${rule.id}`,
+      'rule',
+      rule.name,
+      rule.description,
+      formatCompatibilityRule(rule)
+    )
+  );
+}
+
+/**
+ * All chunks from the local registries
+ */
+export function buildRegistryChunks(): IndexChunk[] {
+  return [...componentChunks(), ...bloblangChunks(), ...ruleChunks()];
+}
@@ -0,0 +1,151 @@
+/**
+ * Tests for llms.txt resource discovery
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  crawlResources,
+  discoverResources,
+  getResources,
+  isAllowedResourceUri,
+  parseLlmsLinks,
+  refreshResources,
+  RESOURCE_REGISTRY_KEY,
+  SEED_RESOURCES,
+} from './resource-registry';
+import type { Env } from './index';
+
+const SITE: Record<string, string> = {
+  'https://docs.bacalhau.org/llms.txt': [
+    '# Bacalhau Docs',
+    '> Distributed compute over data',
+    '',
+    '## Docs',
+    '- [Getting Started](/llms/getting-started.txt): Install and run a first job',
+    '- [Reference](https://docs.bacalhau.org/llms/reference.txt)',
+    '- [Missing](/llms/missing.txt): Not published yet',
+    '- [Elsewhere](https://evil.example.com/llms/steal.txt): Off-domain',
+    '- [Home](https://docs.bacalhau.org/): Not an llms file',
+  ].join('\n'),
+  'https://docs.bacalhau.org/llms/getting-started.txt': '# Getting Started\n\nSee [CLI](cli.txt): Commands\n',
+  'https://docs.bacalhau.org/llms/reference.txt': '# API Reference\n\n> Every endpoint\n',
+  'https://docs.bacalhau.org/llms/cli.txt': '# CLI\n',
+};
+
+const fetcher = (async (input: RequestInfo | URL) => {
+  const text = SITE[String(input)];
+  return text === undefined ? new Response('Not found', { status: 404 }) : new Response(text);
+}) as typeof fetch;
+
+describe('Resource Registry', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should parse llms.txt links and resolve relative URLs', () => {
+    const links = parseLlmsLinks('https://docs.bacalhau.org/llms.txt', SITE['https://docs.bacalhau.org/llms.txt']);
+    expect(links[0]).toEqual({
+      uri: 'https://docs.bacalhau.org/llms/getting-started.txt',
+      name: 'Getting Started',
+      description: 'Install and run a first job',
+      mimeType: 'text/plain',
+    });
+    expect(links).toHaveLength(5);
+  });
+
+  it('should only allow llms.txt files on allowed https domains', () => {
+    const domains = ['docs.expanso.io'];
+    expect(isAllowedResourceUri('https://docs.expanso.io/llms.txt', domains)).toBe(true);
+    expect(isAllowedResourceUri('https://docs.expanso.io/llms/cli.txt', domains)).toBe(true);
+    expect(isAllowedResourceUri('http://docs.expanso.io/llms.txt', domains)).toBe(false);
+    expect(isAllowedResourceUri('https://docs.expanso.io/admin.txt', domains)).toBe(false);
+    expect(isAllowedResourceUri('https://docs.expanso.io/llms/../secrets.txt', domains)).toBe(false);
+    expect(isAllowedResourceUri('https://evil.example.com/llms.txt', domains)).toBe(false);
+  });
+
+  it('should crawl linked llms files on the same domain after the seed list', async () => {
+    const resources = await discoverResources(['docs.bacalhau.org'], fetcher);
+    const discovered = resources.slice(SEED_RESOURCES.length);
+
+    expect(resources.slice(0, SEED_RESOURCES.length)).toEqual(SEED_RESOURCES);
+    expect(discovered.map(r => [r.uri, r.name, r.description])).toEqual([
+      ['https://docs.bacalhau.org/llms.txt', 'Bacalhau Docs', 'Distributed compute over data'],
+      ['https://docs.bacalhau.org/llms/getting-started.txt', 'Getting Started', 'Install and run a first job'],
+      ['https://docs.bacalhau.org/llms/reference.txt', 'Reference', 'Every endpoint'],
+      ['https://docs.bacalhau.org/llms/cli.txt', 'CLI', 'Commands'],
+    ]);
+  });
+
+  it('should skip domains that are not in the allow-list', async () => {
+    const resources = await discoverResources([], fetcher);
+    expect(resources).toEqual(SEED_RESOURCES);
+  });
+
+  it('should report domains whose llms.txt cannot be fetched', async () => {
+    const { resources, unreachable } = await crawlResources(['docs.bacalhau.org', 'docs.expanso.io'], fetcher);
+    expect(unreachable).toEqual(['docs.expanso.io']);
+    expect(resources.some(r => r.uri === 'https://docs.bacalhau.org/llms/cli.txt')).toBe(true);
+  });
+
+  describe('cached registry', () => {
+    const cached = [{ uri: 'https://docs.expanso.io/llms.txt', name: 'Cached', description: '', mimeType: 'text/plain' }];
+
+    function kvEnv(domains: string) {
+      const store = new Map<string, string>();
+      const kv = {
+        get: vi.fn(async (key: string) => (store.has(key) ? JSON.parse(store.get(key)!) : null)),
+        put: vi.fn(async (key: string, value: string) => { store.set(key, value); }),
+      };
+      const env = { CONTENT_CACHE: kv as unknown as KVNamespace, DOCS_DOMAINS: domains } as Env;
+      return { store, kv, env };
+    }
+
+    it('should serve a stored registry of any age without crawling', async () => {
+      const { store, kv, env } = kvEnv('docs.bacalhau.org');
+      const crawl = vi.fn(fetcher);
+      vi.stubGlobal('fetch', crawl);
+
+      store.set(RESOURCE_REGISTRY_KEY, JSON.stringify({ resources: cached, updatedAt: '2020-01-01T00:00:00Z' }));
+      expect(await getResources(env)).toEqual(cached);
+      expect(crawl).not.toHaveBeenCalled();
+      expect(kv.put).not.toHaveBeenCalled();
+    });
+
+    it('should serve the seed list until a registry is stored', async () => {
+      const { env } = kvEnv('docs.bacalhau.org');
+      expect(await getResources(env)).toBe(SEED_RESOURCES);
+    });
+
+    it('should store the registry when every domain is reached', async () => {
+      const { kv, env } = kvEnv('docs.bacalhau.org');
+      await refreshResources(env, fetcher);
+
+      const rebuilt = await getResources(env);
+      expect(rebuilt.some(r => r.uri === 'https://docs.bacalhau.org/llms/cli.txt')).toBe(true);
+      expect(kv.put).toHaveBeenCalledWith(RESOURCE_REGISTRY_KEY, expect.any(String));
+    });
+
+    it('should keep the previous entries of unreachable domains and refresh the rest', async () => {
+      const { store, env } = kvEnv('docs.bacalhau.org,docs.example.org');
+      const previous = [
+        { uri: 'https://docs.example.org/llms/old.txt', name: 'Old', description: '', mimeType: 'text/plain' },
+        { uri: 'https://docs.bacalhau.org/llms/gone.txt', name: 'Gone', description: '', mimeType: 'text/plain' },
+      ];
+      store.set(RESOURCE_REGISTRY_KEY, JSON.stringify({ resources: previous, updatedAt: '2020-01-01T00:00:00Z' }));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await refreshResources(env, fetcher);
+      const uris = (await getResources(env)).map(r => r.uri);
+
+      expect(uris).toContain('https://docs.example.org/llms/old.txt');
+      expect(uris).toContain('https://docs.bacalhau.org/llms/cli.txt');
+      expect(uris).not.toContain('https://docs.bacalhau.org/llms/gone.txt');
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Could not reach docs.example.org'));
+    });
+  });
+
+  it('should use the seed list without KV', async () => {
+    expect(await getResources({} as Env)).toBe(SEED_RESOURCES);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Resource Registry
+ *
+ * Builds the list of llms.txt resources by crawling each domain in
+ * DOCS_DOMAINS: the domain's `llms.txt` index and the `llms/*.txt` files it
+ * links to, breadth first. SEED_RESOURCES is always included and keeps its
+ * curated names; only https URLs on allowed domains under `/llms.txt` or
+ * `/llms/*.txt` are ever listed or fetched.
+ *
+ * The registry is cached in KV under RESOURCE_REGISTRY_KEY. Only the
+ * scheduled handler crawls; requests serve whatever registry is stored.
+ */
+
+import type { Env } from './index';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Resource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceRegistry {
+  resources: Resource[];
+  /** ISO timestamp of the crawl */
+  updatedAt: string;
+}
+
+export interface Discovery {
+  resources: Resource[];
+  /** Domains whose llms.txt could not be fetched */
+  unreachable: string[];
+}
+
+export const RESOURCE_REGISTRY_KEY = 'resources:registry';
+
+const MAX_RESOURCES_PER_DOMAIN = 100;
+const FETCH_TIMEOUT_MS = 10_000;
+
+// Curated resources; always listed, and their names win over discovered ones
+export const SEED_RESOURCES: Resource[] = [
+  // expanso.io
+  {
+    uri: 'https://expanso.io/llms.txt',
+    name: 'Expanso Overview',
+    description: 'Master index for Expanso - upstream data governance platform',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://expanso.io/llms/product.txt',
+    name: 'Product Overview',
+    description: 'Expanso product capabilities and architecture',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://expanso.io/llms/industries.txt',
+    name: 'Industries',
+    description: 'Industry-specific solutions for healthcare, retail, manufacturing',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://expanso.io/llms/use-cases.txt',
+    name: 'Use Cases',
+    description: 'Common use cases for edge data processing',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://expanso.io/llms/comparisons.txt',
+    name: 'Comparisons',
+    description: 'How Expanso compares to alternatives',
+    mimeType: 'text/plain',
+  },
+
+  // docs.expanso.io
+  {
+    uri: 'https://docs.expanso.io/llms.txt',
+    name: 'Expanso Docs Index',
+    description: 'Documentation index for Expanso platform',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://docs.expanso.io/llms/getting-started.txt',
+    name: 'Getting Started',
+    description: 'Installation and first steps with Expanso',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://docs.expanso.io/llms/cli.txt',
+    name: 'CLI Reference',
+    description: 'Expanso CLI commands and usage',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://docs.expanso.io/llms/components.txt',
+    name: 'Pipeline Components',
+    description: 'Inputs, processors, and outputs for data pipelines',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://docs.expanso.io/llms/operations.txt',
+    name: 'Operations',
+    description: 'Deployment, monitoring, and scaling',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://docs.expanso.io/llms/guides.txt',
+    name: 'How-To Guides',
+    description: 'Practical integration and configuration guides',
+    mimeType: 'text/plain',
+  },
+
+  // examples.expanso.io
+  {
+    uri: 'https://examples.expanso.io/llms.txt',
+    name: 'Examples Index',
+    description: 'Production-ready pipeline examples',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://examples.expanso.io/llms/data-routing.txt',
+    name: 'Data Routing',
+    description: 'Circuit breakers, fan-out, priority queues',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://examples.expanso.io/llms/data-security.txt',
+    name: 'Data Security',
+    description: 'PII removal, encryption, schema validation',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://examples.expanso.io/llms/data-transformation.txt',
+    name: 'Data Transformation',
+    description: 'Time windows, deduplication, format conversion',
+    mimeType: 'text/plain',
+  },
+  {
+    uri: 'https://examples.expanso.io/llms/log-processing.txt',
+    name: 'Log Processing',
+    description: 'Filtering, enrichment, production pipelines',
+    mimeType: 'text/plain',
+  },
+];
+
+// ============================================================================
+// Allow-list
+// ============================================================================
+
+/**
+ * Parse the comma-separated DOCS_DOMAINS variable
+ */
+export function parseDomains(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(domain => domain.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Domains that may be crawled: DOCS_DOMAINS plus the seed resources' hosts
+ */
+export function allowedDomains(domains: string[]): string[] {
+  return [...new Set([...domains, ...SEED_RESOURCES.map(resource => new URL(resource.uri).hostname)])];
+}
+
+/**
+ * Whether a URL is an llms.txt resource on an allowed domain
+ */
+export function isAllowedResourceUri(uri: string, domains: string[]): boolean {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return false;
+  }
+  return url.protocol === 'https:' &&
+    !url.search && !url.hash && !url.port && !url.username &&
+    domains.includes(url.hostname) &&
+    /^\/(?:llms\.txt|llms\/[\w.-]+\.txt)$/.test(url.pathname);
+}
+
+// ============================================================================
+// Crawling
+// ============================================================================
+
+/**
+ * Read the links in an llms.txt file: `- [Name](url): description`.
+ * Relative URLs resolve against the file's own URL.
+ */
+export function parseLlmsLinks(baseUri: string, text: string): Resource[] {
+  const resources: Resource[] = [];
+  for (const match of text.matchAll(/\[([^\]\n]+)\]\(([^)\s]+)\)(?:[ \t]*:[ \t]*([^\n]+))?/g)) {
+    let uri: string;
+    try {
+      uri = new URL(match[2], baseUri).toString();
+    } catch {
+      continue;
+    }
+    resources.push({
+      uri,
+      name: match[1].trim(),
+      description: match[3]?.trim() ?? '',
+      mimeType: 'text/plain',
+    });
+  }
+  return resources;
+}
+
+/**
+ * Title and summary of an llms.txt file: its `#` heading and `>` blockquote
+ */
+function describeIndex(text: string): { name?: string; description?: string } {
+  return {
+    name: text.match(/^#\s+(.+)$/m)?.[1].trim(),
+    description: text.match(/^>\s*(.+)$/m)?.[1].trim(),
+  };
+}
+
+async function fetchText(uri: string, fetcher: typeof fetch): Promise<string | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetcher(uri, {
+      headers: { 'User-Agent': 'ExpansoMCPServer/1.0' },
+      signal: controller.signal,
+    });
+    return response.ok ? await response.text() : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Crawl one domain from its llms.txt, following links to other llms/*.txt
+ * files on the same domain. Null if the llms.txt itself can't be fetched.
+ */
+async function crawlDomain(domain: string, allowed: string[], fetcher: typeof fetch): Promise<Resource[] | null> {
+  const root = `https://${domain}/llms.txt`;
+  const found = new Map<string, Resource>();
+  const queue = [root];
+  const visited = new Set<string>();
+  const fetched = new Set<string>();
+
+  while (queue.length > 0 && visited.size < MAX_RESOURCES_PER_DOMAIN) {
+    const uri = queue.shift()!;
+    if (visited.has(uri)) continue;
+    visited.add(uri);
+
+    const text = await fetchText(uri, fetcher);
+    if (text === null) continue;
+    fetched.add(uri);
+
+    const summary = describeIndex(text);
+    const listed = found.get(uri);
+    found.set(uri, {
+      uri,
+      name: listed?.name || summary.name || new URL(uri).pathname,
+      description: listed?.description || summary.description || `llms.txt index for ${domain}`,
+      mimeType: 'text/plain',
+    });
+
+    for (const link of parseLlmsLinks(uri, text)) {
+      if (new URL(link.uri).hostname !== domain || !isAllowedResourceUri(link.uri, allowed)) continue;
+      if (!found.has(link.uri)) found.set(link.uri, link);
+      if (!visited.has(link.uri)) queue.push(link.uri);
+    }
+  }
+
+  if (!fetched.has(root)) return null;
+
+  // Dead links are left out
+  return [...found.values()].filter(resource => fetched.has(resource.uri));
+}
+
+/**
+ * Crawl every domain, noting the ones that couldn't be reached
+ */
+export async function crawlResources(domains: string[], fetcher: typeof fetch = fetch): Promise<Discovery> {
+  const allowed = allowedDomains(domains);
+  const resources = [...SEED_RESOURCES];
+  const known = new Set(resources.map(resource => resource.uri));
+  const unreachable: string[] = [];
+
+  for (const domain of domains.filter(domain => allowed.includes(domain))) {
+    const crawled = await crawlDomain(domain, allowed, fetcher);
+    if (!crawled) {
+      unreachable.push(domain);
+      continue;
+    }
+    for (const resource of crawled) {
+      if (known.has(resource.uri)) continue;
+      known.add(resource.uri);
+      resources.push(resource);
+    }
+  }
+
+  return { resources, unreachable };
+}
+
+/**
+ * Build the registry: the seed list, then everything discovered that it
+ * doesn't already cover
+ */
+export async function discoverResources(domains: string[], fetcher: typeof fetch = fetch): Promise<Resource[]> {
+  return (await crawlResources(domains, fetcher)).resources;
+}
+
+// ============================================================================
+// Cached Registry
+// ============================================================================
+
+function isRegistry(value: unknown): value is ResourceRegistry {
+  if (!value || typeof value !== 'object') return false;
+  const registry = value as Partial<ResourceRegistry>;
+  return typeof registry.updatedAt === 'string' && Array.isArray(registry.resources) &&
+    registry.resources.every(resource => typeof resource?.uri === 'string' && typeof resource?.name === 'string');
+}
+
+/**
+ * The stored registry, or null when there is none
+ */
+async function readRegistry(kv: KVNamespace): Promise<ResourceRegistry | null> {
+  try {
+    const value = await kv.get(RESOURCE_REGISTRY_KEY, { type: 'json' });
+    return isRegistry(value) ? value : null;
+  } catch {
+    // KV not available
+    return null;
+  }
+}
+
+/**
+ * Crawl the domains and store the result in KV. A domain that can't be
+ * reached keeps the entries the previous registry had for it, so an outage
+ * doesn't drop its pages.
+ */
+export async function refreshResources(env: Env, fetcher: typeof fetch = fetch): Promise<Resource[]> {
+  const { resources, unreachable } = await crawlResources(parseDomains(env.DOCS_DOMAINS), fetcher);
+  if (!env.CONTENT_CACHE) return resources;
+
+  if (unreachable.length > 0) {
+    console.warn(`Could not reach ${unreachable.join(', ')}, keeping their previous resources`);
+    const known = new Set(resources.map(resource => resource.uri));
+    for (const resource of (await readRegistry(env.CONTENT_CACHE))?.resources ?? []) {
+      if (known.has(resource.uri) || !unreachable.includes(new URL(resource.uri).hostname)) continue;
+      known.add(resource.uri);
+      resources.push(resource);
+    }
+  }
+
+  const registry: ResourceRegistry = { resources, updatedAt: new Date().toISOString() };
+  await env.CONTENT_CACHE.put(RESOURCE_REGISTRY_KEY, JSON.stringify(registry));
+  return resources;
+}
+
+/**
+ * The current resource list: the stored registry, however old, or the seed
+ * list until the cron trigger has stored one. Never crawls.
+ */
+export async function getResources(env: Env): Promise<Resource[]> {
+  if (!env.CONTENT_CACHE) return SEED_RESOURCES;
+  return (await readRegistry(env.CONTENT_CACHE))?.resources ?? SEED_RESOURCES;
+}
@@ -0,0 +1,80 @@
+/**
+ * Tests for MCP Resource Templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RESOURCE_TEMPLATES,
+  isTemplateResourceUri,
+  readTemplateResource,
+} from './resource-templates';
+import { PIPELINE_EXAMPLES } from './examples-registry';
+
+describe('Resource Templates', () => {
+  it('should define component, bloblang and example templates', () => {
+    const templates = RESOURCE_TEMPLATES.map((t) => t.uriTemplate);
+    expect(templates).toContain('expanso://component/{category}/{name}');
+    expect(templates).toContain('expanso://bloblang/{name}');
+    expect(templates).toContain('expanso://example/{id}');
+    expect(templates).toContain('expanso://rule/{id}');
+  });
+
+  it('should resolve a compatibility rule', () => {
+    const result = readTemplateResource('expanso://rule/http-without-tls');
+    expect(result?.text).toContain('Rule: http-without-tls');
+    expect(readTemplateResource('expanso://rule/no-such-rule')).toBeNull();
+  });
+
+  it('should only claim expanso:// URIs', () => {
+    expect(isTemplateResourceUri('expanso://bloblang/uuid_v4')).toBe(true);
+    expect(isTemplateResourceUri('https://docs.expanso.io/llms.txt')).toBe(false);
+  });
+
+  describe('component resources', () => {
+    it('should resolve a component schema', () => {
+      const result = readTemplateResource('expanso://component/input/kafka');
+      expect(result?.mimeType).toBe('text/markdown');
+      expect(result?.text).toContain('# kafka');
+    });
+
+    it('should respect the category', () => {
+      expect(readTemplateResource('expanso://component/output/kafka')).not.toBeNull();
+      expect(readTemplateResource('expanso://component/processor/kafka')).toBeNull();
+    });
+
+    it('should reject unknown categories and malformed paths', () => {
+      expect(readTemplateResource('expanso://component/widget/kafka')).toBeNull();
+      expect(readTemplateResource('expanso://component/kafka')).toBeNull();
+    });
+  });
+
+  describe('bloblang resources', () => {
+    it('should resolve a Bloblang method', () => {
+      const result = readTemplateResource('expanso://bloblang/parse_json');
+      expect(result?.text).toContain('## parse_json');
+      expect(result?.text).toContain('Signature:');
+    });
+
+    it('should return null for unknown items', () => {
+      expect(readTemplateResource('expanso://bloblang/from_json')).toBeNull();
+    });
+  });
+
+  describe('example resources', () => {
+    it('should resolve an example by id', () => {
+      const example = PIPELINE_EXAMPLES[0];
+      const result = readTemplateResource(`expanso://example/${example.id}`);
+      expect(result?.mimeType).toBe('application/yaml');
+      expect(result?.text).toBe(example.yaml);
+    });
+
+    it('should return null for unknown examples', () => {
+      expect(readTemplateResource('expanso://example/does-not-exist')).toBeNull();
+    });
+  });
+
+  it('should return null for unknown resource kinds', () => {
+    expect(readTemplateResource('expanso://pipeline/foo')).toBeNull();
+    expect(readTemplateResource('expanso://bloblang/%E0%A4%A')).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Resource Templates
+ *
+ * Exposes the local component schemas, Bloblang reference and pipeline
+ * examples as MCP resources, so clients can attach them as context
+ * without a tool round-trip.
+ *
+ * URI forms:
+ * - expanso://component/{category}/{name}
+ * - expanso://bloblang/{name}
+ * - expanso://example/{id}
+ * - expanso://rule/{id}
+ */
+
+import {
+  getComponentSchema,
+  formatComponentSchema,
+  type ComponentCategory,
+} from './component-schemas';
+import { getBloblangItem, formatBloblangReference } from './bloblang-reference';
+import { getExampleById } from './examples-registry';
+import { COMPATIBILITY_RULES, formatCompatibilityRule } from './compatibility-rules';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+// ============================================================================
+// Template Definitions
+// ============================================================================
+
+export const RESOURCE_URI_SCHEME = 'expanso://';
+
+const COMPONENT_CATEGORIES: ComponentCategory[] = [
+  'input',
+  'processor',
+  'output',
+  'cache',
+  'rate_limit',
+  'buffer',
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'expanso://component/{category}/{name}',
+    name: 'Component Schema',
+    description:
+      'Field schema for a pipeline component. category is one of input, processor, output, cache, rate_limit, buffer (e.g., expanso://component/input/kafka)',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'expanso://bloblang/{name}',
+    name: 'Bloblang Function or Method',
+    description:
+      'Signature, parameters and example for a Bloblang function or method (e.g., expanso://bloblang/parse_json)',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'expanso://example/{id}',
+    name: 'Pipeline Example',
+    description: 'Validated pipeline example YAML by id (e.g., expanso://example/http-to-kafka)',
+    mimeType: 'application/yaml',
+  },
+  {
+    uriTemplate: 'expanso://rule/{id}',
+    name: 'Compatibility Rule',
+    description: 'What a compatibility rule checks and how to fix it (e.g., expanso://rule/http-without-tls)',
+    mimeType: 'text/markdown',
+  },
+];
+
+// ============================================================================
+// Resolvers
+// ============================================================================
+
+/**
+ * Check whether a URI belongs to one of the templates
+ */
+export function isTemplateResourceUri(uri: string): boolean {
+  return uri.startsWith(RESOURCE_URI_SCHEME);
+}
+
+/**
+ * Resolve a templated resource URI to its contents.
+ * Returns null for malformed URIs or unknown components, items and examples.
+ */
+export function readTemplateResource(uri: string): ResourceContents | null {
+  if (!isTemplateResourceUri(uri)) {
+    return null;
+  }
+
+  let segments: string[];
+  try {
+    segments = uri.slice(RESOURCE_URI_SCHEME.length).split('/').map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+
+  const [kind, ...rest] = segments;
+
+  switch (kind) {
+    case 'component': {
+      if (rest.length !== 2) return null;
+      const [category, name] = rest;
+      if (!COMPONENT_CATEGORIES.includes(category as ComponentCategory)) return null;
+      const schema = getComponentSchema(name, category as ComponentCategory);
+      if (!schema) return null;
+      return { uri, mimeType: 'text/markdown', text: formatComponentSchema(schema) };
+    }
+
+    case 'bloblang': {
+      if (rest.length !== 1) return null;
+      const item = getBloblangItem(rest[0]);
+      if (!item) return null;
+      return { uri, mimeType: 'text/markdown', text: formatBloblangReference([item]) };
+    }
+
+    case 'example': {
+      if (rest.length !== 1) return null;
+      const example = getExampleById(rest[0]);
+      if (!example) return null;
+      return { uri, mimeType: 'application/yaml', text: example.yaml };
+    }
+
+    case 'rule': {
+      if (rest.length !== 1) return null;
+      const rule = COMPATIBILITY_RULES.find((r) => r.id === rest[0]);
+      if (!rule) return null;
+      return { uri, mimeType: 'text/markdown', text: formatCompatibilityRule(rule) };
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Tests for Component Schema Import
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertSchemaDump, mergeComponentSchema } from './schema-import';
+import type { ComponentSchema } from './component-schemas';
+
+const LIST_DUMP = {
+  inputs: [
+    {
+      name: 'nats',
+      type: 'input',
+      status: 'stable',
+      summary: 'Subscribe to a NATS subject.',
+      config: {
+        name: '',
+        type: 'object',
+        kind: 'scalar',
+        children: [
+          { name: 'urls', type: 'string', kind: 'array', description: 'A list of URLs to connect to. More text.', examples: [['nats://127.0.0.1:4222']] },
+          { name: 'subject', type: 'string', kind: 'scalar', description: 'A subject to consume from.' },
+          { name: 'queue', type: 'string', kind: 'scalar', description: 'An optional queue group.', is_optional: true },
+          { name: 'ack_wait', type: 'string', kind: 'scalar', description: 'Ack timeout.', default: '30s', version: '3.40.0' },
+          {
+            name: 'tls',
+            type: 'object',
+            kind: 'scalar',
+            description: 'TLS settings.',
+            children: [{ name: 'enabled', type: 'bool', kind: 'scalar', description: 'Enable TLS.', default: false }],
+          },
+        ],
+      },
+    },
+  ],
+  processors: [
+    {
+      name: 'mapping',
+      summary: 'Executes a Bloblang mapping.',
+      version: '4.5.0',
+      config: { name: '', type: 'string', kind: 'scalar', bloblang: true, description: 'The mapping.' },
+    },
+    {
+      name: 'compress',
+      summary: 'Compresses messages.',
+      config: {
+        name: '',
+        type: 'object',
+        children: [{ name: 'algorithm', type: 'string', kind: 'scalar', options: ['gzip', 'zlib'], description: 'Algorithm.' }],
+      },
+    },
+  ],
+  'rate-limits': [{ name: 'local', summary: 'Local rate limit.', config: { name: '', type: 'object', children: [] } }],
+};
+
+describe('Schema Import', () => {
+  describe('list --format json dumps', () => {
+    const schemas = convertSchemaDump(LIST_DUMP);
+
+    it('should convert components into their categories', () => {
+      expect(Object.keys(schemas.input)).toEqual(['nats']);
+      expect(Object.keys(schemas.processor)).toEqual(['mapping', 'compress']);
+      expect(Object.keys(schemas.rate_limit)).toEqual(['local']);
+      expect(schemas.input.nats.description).toBe('Subscribe to a NATS subject.');
+      expect(schemas.input.nats.docs_url).toBe('https://docs.expanso.io/components/inputs/nats');
+    });
+
+    it('should map field kinds, types and required flags', () => {
+      const fields = schemas.input.nats.fields;
+      expect(fields.urls).toMatchObject({ type: 'array', required: true, items: { type: 'string' } });
+      expect(fields.urls.description).toBe('A list of URLs to connect to.');
+      expect(fields.subject.required).toBe(true);
+      expect(fields.queue.required).toBe(false);
+      expect(fields.ack_wait).toMatchObject({ type: 'duration', required: false, default: '30s' });
+      expect(fields.tls.properties?.enabled).toMatchObject({ type: 'boolean', default: false });
+    });
+
+    it('should convert options to enums and single-value components to the empty field', () => {
+      expect(schemas.processor.compress.fields.algorithm.enum).toEqual(['gzip', 'zlib']);
+      expect(schemas.processor.mapping.fields['']).toMatchObject({ type: 'bloblang', required: true });
+    });
+
+    it('should record the version components and fields were introduced in', () => {
+      expect(schemas.processor.mapping.introduced).toBe('4.5.0');
+      expect(schemas.input.nats.fields.ack_wait.introduced).toBe('3.40.0');
+      expect(schemas.input.nats.introduced).toBeUndefined();
+    });
+  });
+
+  it('should convert jsonschema dumps', () => {
+    const schemas = convertSchemaDump({
+      definitions: {
+        output: {
+          allOf: [
+            {
+              anyOf: [
+                {
+                  type: 'object',
+                  properties: {
+                    nats: {
+                      type: 'object',
+                      properties: {
+                        subject: { type: 'string', description: 'Subject to publish to.' },
+                        max_in_flight: { type: 'integer', default: 64 },
+                      },
+                      required: ['subject'],
+                    },
+                  },
+                },
+              ],
+            },
+            { type: 'object', properties: { label: { type: 'string' }, processors: { type: 'array' } } },
+          ],
+        },
+      },
+    });
+    expect(Object.keys(schemas.output)).toEqual(['nats']);
+    expect(schemas.output.nats.fields.subject).toMatchObject({ type: 'string', required: true });
+    expect(schemas.output.nats.fields.max_in_flight).toMatchObject({ type: 'number', required: false, default: 64 });
+  });
+
+  it('should reject dumps that are not objects', () => {
+    expect(() => convertSchemaDump([])).toThrow('Schema dump must be a JSON object');
+  });
+
+  it('should layer hand-written schemas over generated ones', () => {
+    const generated = convertSchemaDump(LIST_DUMP).input.nats;
+    const override: ComponentSchema = {
+      name: 'nats',
+      description: 'Consume messages from NATS subjects.',
+      category: 'input',
+      fields: {
+        subject: { type: 'string', description: 'Subject to subscribe to', required: true, examples: ['events.>'] },
+        tls: { type: 'object', description: 'TLS', properties: { enabled: { type: 'boolean', description: 'Turn on TLS' } } },
+      },
+    };
+
+    const merged = mergeComponentSchema(generated, override);
+    expect(merged.description).toBe('Consume messages from NATS subjects.');
+    expect(merged.fields.subject.description).toBe('Subject to subscribe to');
+    expect(merged.fields.subject.examples).toEqual(['events.>']);
+    // Generated fields the override doesn't mention are kept
+    expect(merged.fields.ack_wait.default).toBe('30s');
+    expect(merged.fields.tls.properties?.enabled).toMatchObject({ description: 'Turn on TLS', default: false });
+    expect(mergeComponentSchema(undefined, override)).toBe(override);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Component Schema Import
+ *
+ * Converts a component spec dump from the Expanso/Benthos binary into
+ * ComponentSchema registries, and merges hand-written schemas over the
+ * generated ones. Used by scripts/build-schemas.ts and component-schemas.ts.
+ *
+ * Two dump formats are accepted:
+ * - `list --format json` with full specs: { inputs: [{ name, summary, config: { children } }], ... }
+ * - `jsonschema`: a JSON Schema with one definition per component category
+ */
+
+import type { ComponentCategory, ComponentSchema, FieldSchema, FieldType } from './component-schemas';
+
+// ============================================================================
+// Dump Types
+// ============================================================================
+
+/**
+ * A field spec as emitted by `list --format json`
+ */
+export interface FieldSpecDump {
+  name: string;
+  type?: string;
+  kind?: 'scalar' | 'array' | '2darray' | 'map';
+  description?: string;
+  default?: unknown;
+  is_optional?: boolean;
+  is_advanced?: boolean;
+  is_deprecated?: boolean;
+  interpolated?: boolean;
+  bloblang?: boolean;
+  options?: string[];
+  annotated_options?: Array<[string, string]>;
+  examples?: unknown[];
+  children?: FieldSpecDump[];
+  /** Version the field was introduced in */
+  version?: string;
+}
+
+/**
+ * A component spec as emitted by `list --format json`
+ */
+export interface ComponentSpecDump {
+  name: string;
+  type?: string;
+  status?: string;
+  summary?: string;
+  description?: string;
+  config?: FieldSpecDump;
+  /** Version the component was introduced in */
+  version?: string;
+}
+
+type JsonSchemaNode = Record<string, unknown>;
+
+export type GeneratedSchemas = Record<ComponentCategory, Record<string, ComponentSchema>>;
+
+// ============================================================================
+// Category Mapping
+// ============================================================================
+
+// Dump keys (plural, as printed by `list`) to registry categories
+const CATEGORY_KEYS: Record<string, ComponentCategory> = {
+  inputs: 'input',
+  input: 'input',
+  processors: 'processor',
+  processor: 'processor',
+  outputs: 'output',
+  output: 'output',
+  caches: 'cache',
+  cache: 'cache',
+  'rate-limits': 'rate_limit',
+  rate_limits: 'rate_limit',
+  rate_limit: 'rate_limit',
+  buffers: 'buffer',
+  buffer: 'buffer',
+};
+
+const DOCS_SECTIONS: Record<ComponentCategory, string> = {
+  input: 'inputs',
+  processor: 'processors',
+  output: 'outputs',
+  cache: 'caches',
+  rate_limit: 'rate_limits',
+  buffer: 'buffers',
+};
+
+const DURATION_PATTERN = /^\d+(\.\d+)?(ns|us|µs|ms|s|m|h)$/;
+
+function emptyRegistry(): GeneratedSchemas {
+  return { input: {}, processor: {}, output: {}, cache: {}, rate_limit: {}, buffer: {} };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * First sentence of a description, for fields and components without a summary
+ */
+function summarize(text: string | undefined): string {
+  if (!text) return '';
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  const end = trimmed.search(/\.(\s|$)/);
+  return end === -1 ? trimmed : trimmed.slice(0, end + 1);
+}
+
+// ============================================================================
+// `list --format json` Conversion
+// ============================================================================
+
+function scalarType(spec: FieldSpecDump): FieldType {
+  switch (spec.type) {
+    case 'int':
+    case 'float':
+      return 'number';
+    case 'bool':
+      return 'boolean';
+    case 'object':
+    case 'unknown':
+    case 'input':
+    case 'processor':
+    case 'output':
+    case 'buffer':
+    case 'cache':
+    case 'rate_limit':
+    case 'metrics':
+    case 'tracer':
+    case 'scanner':
+      return 'object';
+    default:
+      if (spec.bloblang) return 'bloblang';
+      if (spec.interpolated) return 'interpolated_string';
+      if (typeof spec.default === 'string' && DURATION_PATTERN.test(spec.default)) return 'duration';
+      return 'string';
+  }
+}
+
+export function convertFieldSpec(spec: FieldSpecDump): FieldSchema {
+  const scalar: FieldSchema = {
+    type: scalarType(spec),
+    description: summarize(spec.description),
+  };
+
+  const options = spec.options ?? spec.annotated_options?.map(([value]) => value);
+  if (options && options.length > 0) scalar.enum = options;
+  if (spec.children && spec.children.length > 0) {
+    scalar.properties = convertChildren(spec.children);
+  }
+
+  let field: FieldSchema;
+  switch (spec.kind) {
+    case 'array':
+      field = { type: 'array', description: scalar.description, items: scalar };
+      break;
+    case '2darray':
+      field = {
+        type: 'array',
+        description: scalar.description,
+        items: { type: 'array', description: scalar.description, items: scalar },
+      };
+      break;
+    case 'map':
+      field = { type: 'object', description: scalar.description };
+      break;
+    default:
+      field = scalar;
+  }
+
+  // Fields without a default are required unless marked optional
+  field.required = spec.default === undefined && !spec.is_optional;
+  if (spec.default !== undefined) field.default = spec.default;
+  if (spec.examples && spec.examples.length > 0) field.examples = spec.examples;
+  if (spec.version) field.introduced = spec.version;
+  return field;
+}
+
+function convertChildren(children: FieldSpecDump[]): Record<string, FieldSchema> {
+  const fields: Record<string, FieldSchema> = {};
+  for (const child of children) {
+    fields[child.name] = convertFieldSpec(child);
+  }
+  return fields;
+}
+
+function convertComponentSpec(spec: ComponentSpecDump, category: ComponentCategory): ComponentSchema {
+  const config = spec.config;
+  let fields: Record<string, FieldSchema>;
+  if (config?.children && config.children.length > 0) {
+    fields = convertChildren(config.children);
+  } else if (config && config.type && config.type !== 'object') {
+    // Components configured with a single value, e.g. `mapping: "root = this"`
+    fields = { '': convertFieldSpec({ ...config, name: '' }) };
+  } else {
+    fields = {};
+  }
+
+  const schema: ComponentSchema = {
+    name: spec.name,
+    description: spec.summary?.trim() || summarize(spec.description),
+    category,
+    fields,
+    docs_url: `https://docs.expanso.io/components/${DOCS_SECTIONS[category]}/${spec.name}`,
+  };
+  if (spec.version) schema.introduced = spec.version;
+  return schema;
+}
+
+// ============================================================================
+// `jsonschema` Conversion
+// ============================================================================
+
+function jsonSchemaType(node: JsonSchemaNode): FieldType {
+  switch (node.type) {
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return 'array';
+    case 'object':
+      return 'object';
+    default:
+      if (typeof node.default === 'string' && DURATION_PATTERN.test(node.default)) return 'duration';
+      return 'string';
+  }
+}
+
+function convertJsonSchemaNode(node: JsonSchemaNode, required: boolean): FieldSchema {
+  const field: FieldSchema = {
+    type: jsonSchemaType(node),
+    description: summarize(typeof node.description === 'string' ? node.description : undefined),
+    required,
+  };
+  if (node.default !== undefined) field.default = node.default;
+  if (Array.isArray(node.enum)) field.enum = node.enum.map(String);
+  if (Array.isArray(node.examples) && node.examples.length > 0) field.examples = node.examples;
+  if (isRecord(node.items)) field.items = convertJsonSchemaNode(node.items, false);
+  if (isRecord(node.properties)) field.properties = convertJsonSchemaProperties(node);
+  return field;
+}
+
+function convertJsonSchemaProperties(node: JsonSchemaNode): Record<string, FieldSchema> {
+  const requiredNames = Array.isArray(node.required) ? node.required : [];
+  const fields: Record<string, FieldSchema> = {};
+  for (const [name, child] of Object.entries(node.properties as Record<string, unknown>)) {
+    if (isRecord(child)) fields[name] = convertJsonSchemaNode(child, requiredNames.includes(name));
+  }
+  return fields;
+}
+
+/**
+ * Collect component name -> schema pairs from a category definition,
+ * which nests them in properties under allOf/anyOf/oneOf
+ */
+function collectJsonSchemaComponents(node: unknown, found: Record<string, JsonSchemaNode>): void {
+  if (!isRecord(node)) return;
+  if (isRecord(node.properties)) {
+    for (const [name, child] of Object.entries(node.properties)) {
+      if (name !== 'label' && name !== 'processors' && isRecord(child)) found[name] = child;
+    }
+  }
+  for (const key of ['allOf', 'anyOf', 'oneOf']) {
+    const branches = node[key];
+    if (Array.isArray(branches)) {
+      for (const branch of branches) collectJsonSchemaComponents(branch, found);
+    }
+  }
+}
+
+function convertJsonSchema(dump: JsonSchemaNode): GeneratedSchemas {
+  const registry = emptyRegistry();
+  const definitions = isRecord(dump.definitions) ? dump.definitions : isRecord(dump.$defs) ? dump.$defs : {};
+
+  for (const [key, definition] of Object.entries(definitions)) {
+    const category = CATEGORY_KEYS[key];
+    if (!category) continue;
+
+    const components: Record<string, JsonSchemaNode> = {};
+    collectJsonSchemaComponents(definition, components);
+    for (const [name, node] of Object.entries(components)) {
+      const fields = isRecord(node.properties)
+        ? convertJsonSchemaProperties(node)
+        : { '': convertJsonSchemaNode(node, true) };
+      registry[category][name] = {
+        name,
+        description: summarize(typeof node.description === 'string' ? node.description : undefined),
+        category,
+        fields,
+        docs_url: `https://docs.expanso.io/components/${DOCS_SECTIONS[category]}/${name}`,
+      };
+    }
+  }
+
+  return registry;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Convert a dump (either format) into schemas grouped by category
+ */
+export function convertSchemaDump(dump: unknown): GeneratedSchemas {
+  if (!isRecord(dump)) {
+    throw new Error('Schema dump must be a JSON object');
+  }
+  if (isRecord(dump.definitions) || isRecord(dump.$defs)) {
+    return convertJsonSchema(dump);
+  }
+
+  const registry = emptyRegistry();
+  for (const [key, specs] of Object.entries(dump)) {
+    const category = CATEGORY_KEYS[key];
+    if (!category || !Array.isArray(specs)) continue;
+    for (const spec of specs) {
+      // `list --format json` without full specs only has names
+      if (typeof spec === 'string' || !isRecord(spec) || typeof spec.name !== 'string') continue;
+      registry[category][spec.name] = convertComponentSpec(spec as unknown as ComponentSpecDump, category);
+    }
+  }
+  return registry;
+}
+
+function mergeFields(
+  generated: Record<string, FieldSchema>,
+  overrides: Record<string, FieldSchema>
+): Record<string, FieldSchema> {
+  const merged: Record<string, FieldSchema> = { ...generated };
+  for (const [name, override] of Object.entries(overrides)) {
+    const base = generated[name];
+    if (!base) {
+      merged[name] = override;
+      continue;
+    }
+    merged[name] = { ...base, ...override };
+    if (base.properties && override.properties) {
+      merged[name].properties = mergeFields(base.properties, override.properties);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Layer a hand-written schema over a generated one. Hand-written
+ * descriptions, examples and field settings win; generated fields the
+ * hand-written schema does not mention are kept.
+ */
+export function mergeComponentSchema(generated: ComponentSchema | undefined, override: ComponentSchema): ComponentSchema {
+  if (!generated) return override;
+  return {
+    ...generated,
+    ...override,
+    fields: mergeFields(generated.fields, override.fields),
+    examples: override.examples ?? generated.examples,
+    docs_url: override.docs_url ?? generated.docs_url,
+  };
+}
+
+/**
+ * Merge hand-written registries over generated ones, category by category
+ */
+export function mergeSchemaRegistries(
+  generated: GeneratedSchemas,
+  overrides: GeneratedSchemas
+): GeneratedSchemas {
+  const merged = emptyRegistry();
+  for (const category of Object.keys(merged) as ComponentCategory[]) {
+    merged[category] = { ...generated[category] };
+    for (const [name, override] of Object.entries(overrides[category])) {
+      merged[category][name] = mergeComponentSchema(generated[category][name], override);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,505 @@
+/**
+ * Service Section Schemas
+ *
+ * Schemas for the top-level, service-wide config sections that sit next to
+ * input/pipeline/output: http, logger, metrics, tracer, shutdown_timeout,
+ * shutdown_delay and tests.
+ */
+
+import type { FieldSchema } from './component-schemas';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ServiceSectionSchema {
+  name: string;
+  description: string;
+  /** Schema for the section value */
+  schema: FieldSchema;
+  /**
+   * For sections that pick one exporter (metrics, tracer):
+   * exporter type → exporter config fields
+   */
+  exporters?: Record<string, Record<string, FieldSchema>>;
+  docs_url?: string;
+}
+
+// ============================================================================
+// Shared Fields
+// ============================================================================
+
+const TLS_FIELD: FieldSchema = {
+  type: 'object',
+  description: 'TLS configuration',
+  required: false,
+};
+
+const TAGS_FIELD: FieldSchema = {
+  type: 'object',
+  description: 'Static tags added to every metric or span',
+  required: false,
+};
+
+// ============================================================================
+// Metrics Exporters
+// ============================================================================
+
+const METRICS_EXPORTERS: Record<string, Record<string, FieldSchema>> = {
+  prometheus: {
+    use_histogram_timing: {
+      type: 'boolean',
+      description: 'Export timing metrics as histograms instead of summaries',
+      required: false,
+      default: false,
+    },
+    histogram_buckets: {
+      type: 'array',
+      description: 'Bucket boundaries for histogram timing metrics',
+      required: false,
+      items: { type: 'number', description: 'Bucket upper bound' },
+    },
+    add_process_metrics: {
+      type: 'boolean',
+      description: 'Include process metrics (CPU, memory, file descriptors)',
+      required: false,
+      default: false,
+    },
+    add_go_metrics: {
+      type: 'boolean',
+      description: 'Include Go runtime metrics',
+      required: false,
+      default: false,
+    },
+    push_url: {
+      type: 'string',
+      description: 'Push gateway URL (metrics are pulled from /metrics when empty)',
+      required: false,
+    },
+    push_interval: {
+      type: 'duration',
+      description: 'How often to push metrics to the push gateway',
+      required: false,
+    },
+    push_job_name: {
+      type: 'string',
+      description: 'Job name used when pushing metrics',
+      required: false,
+      default: 'benthos_push',
+    },
+    push_basic_auth: {
+      type: 'object',
+      description: 'Basic auth for the push gateway',
+      required: false,
+    },
+    file_output_path: {
+      type: 'string',
+      description: 'Write metrics to this file on shutdown',
+      required: false,
+    },
+  },
+
+  statsd: {
+    address: {
+      type: 'string',
+      description: 'StatsD server address',
+      required: true,
+      examples: ['localhost:8125'],
+    },
+    flush_period: {
+      type: 'duration',
+      description: 'How often metrics are flushed',
+      required: false,
+      default: '100ms',
+    },
+    tag_format: {
+      type: 'string',
+      description: 'Tag format used by the StatsD server',
+      required: false,
+      default: 'none',
+      enum: ['none', 'datadog', 'influxdb'],
+    },
+  },
+
+  json_api: {},
+
+  influxdb: {
+    url: {
+      type: 'string',
+      description: 'InfluxDB server URL',
+      required: true,
+      examples: ['http://localhost:8086'],
+    },
+    db: {
+      type: 'string',
+      description: 'Database to write metrics to',
+      required: true,
+    },
+    username: { type: 'string', description: 'Username', required: false },
+    password: { type: 'string', description: 'Password', required: false },
+    interval: {
+      type: 'duration',
+      description: 'How often metrics are written',
+      required: false,
+      default: '1m',
+    },
+    ping_interval: {
+      type: 'duration',
+      description: 'How often the server is pinged',
+      required: false,
+      default: '20s',
+    },
+    timeout: {
+      type: 'duration',
+      description: 'Request timeout',
+      required: false,
+      default: '5s',
+    },
+    precision: {
+      type: 'string',
+      description: 'Timestamp precision',
+      required: false,
+      default: 's',
+      enum: ['ns', 'us', 'ms', 's', 'm', 'h'],
+    },
+    retention_policy: { type: 'string', description: 'Retention policy', required: false },
+    write_consistency: {
+      type: 'string',
+      description: 'Write consistency level',
+      required: false,
+      enum: ['any', 'one', 'quorum', 'all'],
+    },
+    include: {
+      type: 'object',
+      description: 'Optional runtime and debug gauges to include',
+      required: false,
+    },
+    tags: TAGS_FIELD,
+    tls: TLS_FIELD,
+  },
+
+  aws_cloudwatch: {
+    namespace: {
+      type: 'string',
+      description: 'CloudWatch metrics namespace',
+      required: false,
+      default: 'Benthos',
+    },
+    flush_period: {
+      type: 'duration',
+      description: 'How often metrics are flushed',
+      required: false,
+      default: '100ms',
+    },
+    region: { type: 'string', description: 'AWS region', required: false },
+    endpoint: { type: 'string', description: 'Custom endpoint URL', required: false },
+    credentials: {
+      type: 'object',
+      description: 'AWS credentials configuration',
+      required: false,
+    },
+  },
+
+  logger: {
+    push_interval: {
+      type: 'duration',
+      description: 'How often metrics are written to the log',
+      required: false,
+    },
+    flush_metrics: {
+      type: 'boolean',
+      description: 'Reset counters after each push',
+      required: false,
+      default: false,
+    },
+  },
+
+  none: {},
+};
+
+// ============================================================================
+// Tracer Exporters
+// ============================================================================
+
+const TRACER_EXPORTERS: Record<string, Record<string, FieldSchema>> = {
+  jaeger: {
+    agent_address: {
+      type: 'string',
+      description: 'Jaeger agent address (UDP)',
+      required: false,
+      examples: ['localhost:6831'],
+    },
+    collector_url: {
+      type: 'string',
+      description: 'Jaeger collector URL (HTTP), used instead of agent_address',
+      required: false,
+    },
+    sampler_type: {
+      type: 'string',
+      description: 'Sampler type',
+      required: false,
+      default: 'const',
+      enum: ['const', 'probabilistic'],
+    },
+    sampler_param: {
+      type: 'number',
+      description: 'Sampler parameter (1 = sample everything for const)',
+      required: false,
+      default: 1,
+    },
+    flush_interval: {
+      type: 'duration',
+      description: 'How often spans are flushed',
+      required: false,
+    },
+    tags: TAGS_FIELD,
+  },
+
+  open_telemetry_collector: {
+    http: {
+      type: 'array',
+      description: 'OTLP/HTTP collectors to send spans to',
+      required: false,
+      items: { type: 'object', description: 'Collector (address, secure)' },
+    },
+    grpc: {
+      type: 'array',
+      description: 'OTLP/gRPC collectors to send spans to',
+      required: false,
+      items: { type: 'object', description: 'Collector (address, secure)' },
+    },
+    sampling: {
+      type: 'object',
+      description: 'Sampling settings (enabled, ratio)',
+      required: false,
+    },
+    tags: TAGS_FIELD,
+  },
+
+  gcp_cloudtrace: {
+    project: {
+      type: 'string',
+      description: 'Google Cloud project ID',
+      required: true,
+    },
+    sampling_ratio: {
+      type: 'number',
+      description: 'Ratio of traces to sample (0 to 1)',
+      required: false,
+      default: 1,
+    },
+    flush_interval: {
+      type: 'duration',
+      description: 'How often spans are flushed',
+      required: false,
+    },
+    tags: TAGS_FIELD,
+  },
+
+  none: {},
+};
+
+// ============================================================================
+// Service Sections
+// ============================================================================
+
+export const SERVICE_SECTIONS: Record<string, ServiceSectionSchema> = {
+  http: {
+    name: 'http',
+    description: 'HTTP server for health checks, metrics and debug endpoints.',
+    docs_url: 'https://docs.expanso.io/components/http',
+    schema: {
+      type: 'object',
+      description: 'HTTP server settings',
+      properties: {
+        enabled: {
+          type: 'boolean',
+          description: 'Whether the HTTP server is started',
+          default: true,
+        },
+        address: {
+          type: 'string',
+          description: 'Address to listen on',
+          default: '0.0.0.0:4195',
+        },
+        root_path: {
+          type: 'string',
+          description: 'Prefix for all HTTP endpoints',
+          default: '/benthos',
+        },
+        debug_endpoints: {
+          type: 'boolean',
+          description: 'Expose debug endpoints such as /debug/pprof',
+          default: false,
+        },
+        cert_file: { type: 'string', description: 'TLS certificate file' },
+        key_file: { type: 'string', description: 'TLS key file' },
+        cors: {
+          type: 'object',
+          description: 'CORS settings',
+          properties: {
+            enabled: { type: 'boolean', description: 'Enable CORS headers' },
+            allowed_origins: {
+              type: 'array',
+              description: 'Allowed origins',
+              items: { type: 'string', description: 'Origin' },
+            },
+          },
+        },
+        basic_auth: {
+          type: 'object',
+          description: 'Basic authentication for all endpoints',
+          properties: {
+            enabled: { type: 'boolean', description: 'Enable basic auth' },
+            realm: { type: 'string', description: 'Auth realm' },
+            username: { type: 'string', description: 'Username' },
+            password_hash: { type: 'string', description: 'Hashed password' },
+            algorithm: {
+              type: 'string',
+              description: 'Password hash algorithm',
+              enum: ['md5', 'sha256', 'bcrypt', 'scrypt'],
+            },
+            salt: { type: 'string', description: 'Salt for scrypt' },
+          },
+        },
+      },
+    },
+  },
+
+  logger: {
+    name: 'logger',
+    description: 'Service-wide logging settings.',
+    docs_url: 'https://docs.expanso.io/components/logger',
+    schema: {
+      type: 'object',
+      description: 'Logger settings',
+      properties: {
+        level: {
+          type: 'string',
+          description: 'Minimum level to log',
+          default: 'INFO',
+          enum: ['OFF', 'FATAL', 'ERROR', 'WARN', 'INFO', 'DEBUG', 'TRACE', 'ALL', 'NONE'],
+          caseInsensitive: true,
+        },
+        format: {
+          type: 'string',
+          description: 'Log line format',
+          default: 'logfmt',
+          enum: ['json', 'logfmt'],
+        },
+        add_timestamp: {
+          type: 'boolean',
+          description: 'Add a timestamp to each log line',
+          default: false,
+        },
+        level_name: { type: 'string', description: 'Field name for the level', default: 'level' },
+        timestamp_name: { type: 'string', description: 'Field name for the timestamp', default: 'time' },
+        message_name: { type: 'string', description: 'Field name for the message', default: 'msg' },
+        static_fields: {
+          type: 'object',
+          description: 'Fields added to every log line',
+        },
+        file: {
+          type: 'object',
+          description: 'Write logs to a file (path, rotate, rotate_max_age_days)',
+        },
+      },
+    },
+  },
+
+  metrics: {
+    name: 'metrics',
+    description: 'Where service metrics are exported. Choose exactly one exporter.',
+    docs_url: 'https://docs.expanso.io/components/metrics',
+    schema: {
+      type: 'object',
+      description: 'Metrics exporter plus an optional mapping',
+      properties: {
+        mapping: {
+          type: 'bloblang',
+          description: 'Mapping applied to metric names and labels before export',
+        },
+      },
+    },
+    exporters: METRICS_EXPORTERS,
+  },
+
+  tracer: {
+    name: 'tracer',
+    description: 'Where tracing spans are exported. Choose exactly one exporter.',
+    docs_url: 'https://docs.expanso.io/components/tracers',
+    schema: {
+      type: 'object',
+      description: 'Tracer exporter',
+      properties: {},
+    },
+    exporters: TRACER_EXPORTERS,
+  },
+
+  shutdown_timeout: {
+    name: 'shutdown_timeout',
+    description: 'Maximum time to wait for a graceful shutdown before forcing exit.',
+    schema: {
+      type: 'duration',
+      description: 'Graceful shutdown timeout',
+      default: '20s',
+      examples: ['20s', '1m'],
+    },
+  },
+
+  shutdown_delay: {
+    name: 'shutdown_delay',
+    description: 'Delay before shutdown starts, e.g. to let load balancers drain.',
+    schema: {
+      type: 'duration',
+      description: 'Delay before shutting down',
+      default: '0s',
+    },
+  },
+
+  tests: {
+    name: 'tests',
+    description: 'Unit test definitions run by the config test command.',
+    docs_url: 'https://docs.expanso.io/configuration/unit-testing',
+    schema: {
+      type: 'array',
+      description: 'List of test cases',
+      items: {
+        type: 'object',
+        description: 'Test case',
+        properties: {
+          name: { type: 'string', description: 'Test name', required: true },
+          environment: { type: 'object', description: 'Environment variables for the test' },
+          target_processors: {
+            type: 'string',
+            description: 'JSON pointer to the processors under test',
+            default: '/pipeline/processors',
+          },
+          target_mapping: { type: 'string', description: 'Bloblang file to test instead of processors' },
+          mocks: { type: 'object', description: 'Mocked resources by label' },
+          input_batch: { type: 'array', description: 'Messages to send through the processors' },
+          input_batches: { type: 'array', description: 'Multiple batches of messages' },
+          output_batches: { type: 'array', description: 'Conditions for each output batch' },
+        },
+      },
+    },
+  },
+};
+
+// ============================================================================
+// Lookup Functions
+// ============================================================================
+
+/**
+ * Get the schema for a service section by name
+ */
+export function getServiceSection(name: string): ServiceSectionSchema | undefined {
+  return SERVICE_SECTIONS[name];
+}
+
+/**
+ * List exporter names for metrics or tracer
+ */
+export function listExporters(section: 'metrics' | 'tracer'): string[] {
+  return Object.keys(SERVICE_SECTIONS[section].exporters ?? {});
+}
@@ -0,0 +1,117 @@
+/**
+ * Tests for SARIF, JUnit and JSON validation reports
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validatePipelineYaml } from './pipeline-validator';
+import { toSarif, toJUnit, formatValidationReport, isReportFormat } from './validation-report';
+
+const INVALID_YAML = `input:
+  kafka:
+    adresses: [localhost:9092]
+    topics: [events]
+pipeline:
+  processors:
+    - cache:
+        resource: lookups
+        operator: get
+        key: \${! this.id }
+output:
+  http:
+    url: http://example.com
+`;
+
+const VALID_YAML = `input:
+  stdin: {}
+output:
+  stdout: {}
+`;
+
+describe('Validation Reports', () => {
+  describe('SARIF', () => {
+    const sarif = toSarif(validatePipelineYaml(INVALID_YAML), { uri: 'pipelines/orders.yaml' });
+    const run = sarif.runs[0];
+
+    it('should produce a SARIF 2.1.0 log with rules for every result', () => {
+      expect(sarif.version).toBe('2.1.0');
+      expect(run.tool.driver.name).toBe('expanso-pipeline-validator');
+      for (const result of run.results) {
+        expect(run.tool.driver.rules[result.ruleIndex].id).toBe(result.ruleId);
+      }
+      // Rules are listed once
+      const ids = run.tool.driver.rules.map(rule => rule.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should map validation errors to located results with a rename fix', () => {
+      const result = run.results.find(r => r.ruleId === 'imagined-field')!;
+      expect(result.level).toBe('error');
+      expect(result.message.text).toContain('Unknown field: "adresses"');
+      expect(result.locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'pipelines/orders.yaml' },
+        region: { startLine: 3, startColumn: 5, endLine: 3, endColumn: 13 },
+      });
+      expect(result.locations[0].logicalLocations).toEqual([{ fullyQualifiedName: 'input.kafka.adresses' }]);
+      expect(result.fixes?.[0].artifactChanges[0].replacements[0].insertedContent.text).toBe('addresses');
+    });
+
+    it('should map suggested fixes to notes with one fix per alternative', () => {
+      const result = run.results.find(r => r.ruleId === 'suggested-fix')!;
+      expect(result.level).toBe('note');
+      expect(result.fixes?.map(fix => fix.artifactChanges[0].replacements[0].insertedContent.text))
+        .toEqual(['http_client', 'http_server']);
+      expect(result.fixes?.[0].artifactChanges[0].replacements[0].deletedRegion.startLine).toBe(12);
+    });
+
+    it('should map compatibility warnings to rules named after the check', () => {
+      const result = run.results.find(r => r.ruleId === 'compatibility/kafka-consumer-group-missing')!;
+      expect(result.level).toBe('note');
+      expect(run.tool.driver.rules[result.ruleIndex].shortDescription.text).toBe('Kafka Without Consumer Group');
+    });
+
+    it('should have no results for a valid pipeline', () => {
+      expect(toSarif(validatePipelineYaml(VALID_YAML)).runs[0].results).toEqual([]);
+    });
+  });
+
+  describe('JUnit', () => {
+    it('should report one failing test case per error', () => {
+      const result = validatePipelineYaml(INVALID_YAML);
+      const xml = toJUnit(result, { uri: 'orders.yaml' });
+      expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+      expect(xml).toContain(`<testsuite name="orders.yaml" tests="${result.errors.length}" failures="${result.errors.length}"`);
+      expect(xml).toContain('<failure type="imagined-field" message="Unknown field: &quot;adresses&quot;">');
+      expect(xml).toContain('<system-out>');
+    });
+
+    it('should report a single passing test case for a valid pipeline', () => {
+      const xml = toJUnit(validatePipelineYaml(VALID_YAML));
+      expect(xml).toContain('tests="1" failures="0"');
+      expect(xml).toContain('<testcase classname="pipeline.yaml" name="pipeline is valid"/>');
+    });
+
+    it('should escape XML in messages', () => {
+      const xml = toJUnit({
+        valid: false,
+        errors: [{ path: 'root', message: 'Unexpected <tag> & "quotes"' }],
+        warnings: [],
+      });
+      expect(xml).toContain('Unexpected &lt;tag&gt; &amp; &quot;quotes&quot;');
+    });
+  });
+
+  describe('formatValidationReport', () => {
+    it('should return the body with its content type', () => {
+      const result = validatePipelineYaml(VALID_YAML);
+      expect(formatValidationReport(result, 'sarif').contentType).toBe('application/sarif+json');
+      expect(formatValidationReport(result, 'junit').contentType).toBe('application/xml');
+      expect(JSON.parse(formatValidationReport(result, 'json').body).valid).toBe(true);
+    });
+
+    it('should recognise supported formats', () => {
+      expect(isReportFormat('sarif')).toBe(true);
+      expect(isReportFormat('junit')).toBe(true);
+      expect(isReportFormat('html')).toBe(false);
+    });
+  });
+});
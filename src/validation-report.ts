@@ -0,0 +1,338 @@
+/**
+ * Validation Reports
+ *
+ * Machine-readable output for pipeline validation in CI: SARIF 2.1.0 for
+ * code-scanning dashboards, JUnit XML for test reporters, and plain JSON.
+ * Used by `/api/validate?format=` and the validate_pipeline tool's `format`
+ * argument.
+ */
+
+import type { SuggestedFix, ValidationError } from './pipeline-validator';
+import { COMPATIBILITY_RULES, type CompatibilityWarning } from './compatibility-rules';
+import { categorizeError, correctionFromSuggestion } from './offline-validator';
+import type { SourceRange } from './yaml-source';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+/**
+ * Validation findings to report: local errors plus any external ones, with
+ * the local validator's suggestions and compatibility warnings
+ */
+export interface ReportInput {
+  valid: boolean;
+  errors: Array<ValidationError & { category?: string }>;
+  warnings: string[];
+  suggested_fixes?: SuggestedFix[];
+  compatibility_warnings?: CompatibilityWarning[];
+}
+
+export interface ReportOptions {
+  /** Path of the validated file, used as the SARIF artifact and JUnit suite name */
+  uri?: string;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: { driver: { name: string; informationUri: string; rules: SarifRule[] } };
+    results: SarifResult[];
+  }>;
+}
+
+interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+interface SarifFix {
+  description: { text: string };
+  artifactChanges: Array<{
+    artifactLocation: { uri: string };
+    replacements: Array<{ deletedRegion: SarifRegion; insertedContent: { text: string } }>;
+  }>;
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation?: { artifactLocation: { uri: string }; region: SarifRegion };
+    logicalLocations?: Array<{ fullyQualifiedName: string }>;
+  }>;
+  fixes?: SarifFix[];
+}
+
+const DEFAULT_URI = 'pipeline.yaml';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+// Descriptions for rules derived from hallucination categories
+const CATEGORY_DESCRIPTIONS: Record<string, string> = {
+  IMAGINED_COMPONENT: 'Unknown component type',
+  IMAGINED_FIELD: 'Unknown field for the component',
+  IMAGINED_STRUCTURE: 'Invalid pipeline structure',
+  IMAGINED_SYNTAX: 'Invalid Bloblang',
+  WRONG_TYPE: 'Value has the wrong type',
+  DUPLICATE_LABEL: 'Resource label declared more than once',
+  UNDEFINED_RESOURCE: 'Reference to an undeclared resource',
+  UNKNOWN: 'Pipeline validation error',
+};
+
+// Categories whose "Did you mean" correction replaces the offending key
+const RENAMEABLE_CATEGORIES = new Set(['IMAGINED_COMPONENT', 'IMAGINED_FIELD']);
+
+const COMPATIBILITY_LEVELS: Record<CompatibilityWarning['severity'], SarifLevel> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+// ============================================================================
+// SARIF
+// ============================================================================
+
+/**
+ * Rule ID for a hallucination category, e.g. IMAGINED_FIELD -> imagined-field
+ */
+function categoryRuleId(category: string): string {
+  return category.toLowerCase().replace(/_/g, '-');
+}
+
+function toRegion(range: SourceRange | undefined, line?: number, column?: number): SarifRegion | undefined {
+  if (range) {
+    return {
+      startLine: range.start.line,
+      startColumn: range.start.column,
+      endLine: range.end.line,
+      endColumn: range.end.column,
+    };
+  }
+  return line ? { startLine: line, startColumn: column } : undefined;
+}
+
+function location(uri: string, region: SarifRegion | undefined, path?: string): SarifResult['locations'][number] {
+  return {
+    physicalLocation: region ? { artifactLocation: { uri }, region } : undefined,
+    logicalLocations: path ? [{ fullyQualifiedName: path }] : undefined,
+  };
+}
+
+function replacementFix(uri: string, region: SarifRegion, text: string, description: string): SarifFix {
+  return {
+    description: { text: description },
+    artifactChanges: [{
+      artifactLocation: { uri },
+      replacements: [{ deletedRegion: region, insertedContent: { text } }],
+    }],
+  };
+}
+
+function withSuggestion(message: string, suggestion: string | undefined): string {
+  return suggestion ? `${message}. ${suggestion}` : message;
+}
+
+/**
+ * Build a SARIF 2.1.0 log: errors, suggested fixes, compatibility warnings
+ * and plain warnings each become results with a rule and, where known, a
+ * source region and fix
+ */
+export function toSarif(input: ReportInput, options: ReportOptions = {}): SarifLog {
+  const uri = options.uri ?? DEFAULT_URI;
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  function rule(id: string, text: string, level: SarifLevel, fullText?: string): number {
+    let index = ruleIndexes.get(id);
+    if (index === undefined) {
+      index = rules.length;
+      ruleIndexes.set(id, index);
+      rules.push({
+        id,
+        shortDescription: { text },
+        fullDescription: fullText ? { text: fullText } : undefined,
+        defaultConfiguration: { level },
+      });
+    }
+    return index;
+  }
+
+  for (const error of input.errors) {
+    const category = error.category ?? categorizeError(error);
+    const ruleId = categoryRuleId(category);
+    const region = toRegion(error.range, error.line, error.column);
+    const result: SarifResult = {
+      ruleId,
+      ruleIndex: rule(ruleId, CATEGORY_DESCRIPTIONS[category] ?? CATEGORY_DESCRIPTIONS.UNKNOWN, 'error'),
+      level: 'error',
+      message: { text: withSuggestion(error.message, error.suggestion) },
+      locations: [location(uri, region, error.path)],
+    };
+
+    const correction = correctionFromSuggestion(error.suggestion);
+    if (region && error.range && RENAMEABLE_CATEGORIES.has(category) && correction && /^[\w.-]+$/.test(correction)) {
+      result.fixes = [replacementFix(uri, region, correction, `Rename to "${correction}"`)];
+    }
+    results.push(result);
+  }
+
+  for (const fix of input.suggested_fixes ?? []) {
+    const region = toRegion(fix.range, fix.line, fix.column);
+    // "http_client: or http_server:" offers alternatives; each is a separate fix
+    const alternatives = fix.replacement.split(' or ').map(text => text.trim().replace(/:$/, ''));
+    results.push({
+      ruleId: 'suggested-fix',
+      ruleIndex: rule('suggested-fix', 'Likely mistake that needs review', 'note'),
+      level: 'note',
+      message: { text: `${fix.reason} (${fix.confidence} confidence): replace "${fix.original}" with ${fix.replacement}` },
+      locations: [location(uri, region)],
+      fixes: fix.range && region
+        ? alternatives.map(text => replacementFix(uri, region, text, `Use "${text}"`))
+        : undefined,
+    });
+  }
+
+  for (const warning of input.compatibility_warnings ?? []) {
+    const ruleId = `compatibility/${warning.rule}`;
+    const check = COMPATIBILITY_RULES.find(c => c.id === warning.rule);
+    const level = COMPATIBILITY_LEVELS[warning.severity];
+    results.push({
+      ruleId,
+      ruleIndex: rule(ruleId, check?.name ?? warning.rule, level, check?.description),
+      level,
+      message: { text: withSuggestion(warning.message, warning.suggestion) },
+      locations: [location(uri, toRegion(warning.range, warning.line, warning.column), warning.path)],
+    });
+  }
+
+  for (const warning of input.warnings) {
+    results.push({
+      ruleId: 'validation-warning',
+      ruleIndex: rule('validation-warning', 'Pipeline validation warning', 'warning'),
+      level: 'warning',
+      message: { text: warning },
+      locations: [location(uri, undefined)],
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'expanso-pipeline-validator',
+          informationUri: 'https://docs.expanso.io',
+          rules,
+        },
+      },
+      results,
+    }],
+  };
+}
+
+// ============================================================================
+// JUnit
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Build a JUnit XML report with one failing test case per error, or a
+ * single passing case when the pipeline is valid. Warnings go to system-out.
+ */
+export function toJUnit(input: ReportInput, options: ReportOptions = {}): string {
+  const uri = escapeXml(options.uri ?? DEFAULT_URI);
+  const cases: string[] = [];
+
+  for (const error of input.errors) {
+    const category = error.category ?? categorizeError(error);
+    const location = error.line ? ` (line ${error.line}${error.column ? `, column ${error.column}` : ''})` : '';
+    const body = error.suggestion
+      ? `${error.path}${location}: ${error.message}\n${error.suggestion}`
+      : `${error.path}${location}: ${error.message}`;
+    cases.push(
+      `    <testcase classname="${uri}" name="${escapeXml(`${error.path}: ${error.message}`)}">\n` +
+      `      <failure type="${categoryRuleId(category)}" message="${escapeXml(error.message)}">${escapeXml(body)}</failure>\n` +
+      `    </testcase>`
+    );
+  }
+  if (cases.length === 0) {
+    cases.push(`    <testcase classname="${uri}" name="${input.valid ? 'pipeline is valid' : 'pipeline validation'}"/>`);
+  }
+
+  const notes = [
+    ...input.warnings,
+    ...(input.compatibility_warnings ?? []).map(w => `[${w.severity}] ${w.rule}: ${w.message}`),
+    ...(input.suggested_fixes ?? []).map(f => `[suggestion] ${f.original} → ${f.replacement}: ${f.reason}`),
+  ];
+  const systemOut = notes.length > 0
+    ? `\n    <system-out>${escapeXml(notes.join('\n'))}</system-out>`
+    : '';
+
+  const failures = input.errors.length;
+  const tests = Math.max(failures, 1);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="expanso-pipeline-validation" tests="${tests}" failures="${failures}">`,
+    `  <testsuite name="${uri}" tests="${tests}" failures="${failures}" errors="0" skipped="0">`,
+    cases.join('\n') + systemOut,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function isReportFormat(format: string): format is ReportFormat {
+  return (REPORT_FORMATS as string[]).includes(format);
+}
+
+/**
+ * Render a report as a response body with its content type. Text output is
+ * left to the caller's own formatter.
+ */
+export function formatValidationReport(
+  input: ReportInput,
+  format: Exclude<ReportFormat, 'text'>,
+  options: ReportOptions = {}
+): { contentType: string; body: string } {
+  switch (format) {
+    case 'sarif':
+      return { contentType: 'application/sarif+json', body: JSON.stringify(toSarif(input, options), null, 2) };
+    case 'junit':
+      return { contentType: 'application/xml', body: toJUnit(input, options) };
+    case 'json':
+      return { contentType: 'application/json', body: JSON.stringify(input, null, 2) };
+  }
+}
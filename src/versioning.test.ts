@@ -0,0 +1,89 @@
+/**
+ * Tests for Version Availability
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseVersion,
+  isValidVersion,
+  compareVersions,
+  availabilityAt,
+  describeAvailability,
+  describeDeprecation,
+  isDeprecatedAt,
+  formatVersionInfo,
+} from './versioning';
+
+describe('versioning', () => {
+  describe('parseVersion', () => {
+    it('should parse full, partial and prefixed versions', () => {
+      expect(parseVersion('4.12.0')).toEqual([4, 12, 0]);
+      expect(parseVersion('v4.12')).toEqual([4, 12, 0]);
+      expect(parseVersion('4')).toEqual([4, 0, 0]);
+      expect(parseVersion('4.12.1-rc1')).toEqual([4, 12, 1]);
+    });
+
+    it('should reject non-versions', () => {
+      expect(parseVersion('latest')).toBeNull();
+      expect(isValidVersion('4.x')).toBe(false);
+      expect(isValidVersion('4.5.0')).toBe(true);
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should compare numerically, not lexically', () => {
+      expect(compareVersions('4.10.0', '4.9.0')).toBeGreaterThan(0);
+      expect(compareVersions('3.61.0', '4.0.0')).toBeLessThan(0);
+      expect(compareVersions('4.5', '4.5.0')).toBe(0);
+    });
+  });
+
+  describe('availabilityAt', () => {
+    const info = { introduced: '4.5.0', deprecated: '4.20.0', removed: '5.0.0' };
+
+    it('should classify the target against each boundary', () => {
+      expect(availabilityAt(info, '4.4.9')).toBe('not_yet_introduced');
+      expect(availabilityAt(info, '4.5.0')).toBe('available');
+      expect(availabilityAt(info, '4.20.0')).toBe('deprecated');
+      expect(availabilityAt(info, '5.0.0')).toBe('removed');
+    });
+
+    it('should treat items without version info as always available', () => {
+      expect(availabilityAt({}, '1.0.0')).toBe('available');
+    });
+  });
+
+  describe('describeAvailability', () => {
+    it('should name the required version', () => {
+      expect(describeAvailability('kafka_franz input', { introduced: '3.61.0' }, '3.50.0'))
+        .toBe('kafka_franz input requires 3.61.0 or later (target 3.50.0)');
+      expect(describeAvailability('kafka_franz input', { introduced: '3.61.0' }, '4.0.0')).toBeUndefined();
+    });
+  });
+
+  describe('deprecation', () => {
+    it('should treat deprecation metadata without a version as deprecated everywhere', () => {
+      expect(isDeprecatedAt({ deprecation: { replacement: 'mapping' } }, '3.0.0')).toBe(true);
+      expect(isDeprecatedAt({}, '3.0.0')).toBe(false);
+    });
+
+    it('should compare the deprecated version against the target', () => {
+      const info = { deprecated: '4.20.0' };
+      expect(isDeprecatedAt(info, '4.19.0')).toBe(false);
+      expect(isDeprecatedAt(info, '4.20.0')).toBe(true);
+      expect(isDeprecatedAt(info)).toBe(true);
+    });
+
+    it('should name the replacement and migration note', () => {
+      expect(describeDeprecation('bloblang processor', { deprecation: { replacement: 'mapping' } }))
+        .toBe('bloblang processor is deprecated; use mapping instead');
+      expect(describeDeprecation('Field "x"', { deprecated: '4.1.0', deprecation: { note: 'Remove it.' } }))
+        .toBe('Field "x" is deprecated since 4.1.0. Remove it.');
+    });
+  });
+
+  it('should format version info as one line', () => {
+    expect(formatVersionInfo({ introduced: '4.5.0', deprecated: '4.20.0' })).toBe('introduced 4.5.0, deprecated 4.20.0');
+    expect(formatVersionInfo({})).toBe('');
+  });
+});
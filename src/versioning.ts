@@ -0,0 +1,161 @@
+/**
+ * Version Availability
+ *
+ * Components (and a few fields) record the Expanso version they were
+ * introduced, deprecated or removed in. These helpers compare those versions
+ * against the version deployed to a node (target_version), and describe
+ * deprecations along with their replacement.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VersionInfo {
+  /** First version the item is available in */
+  introduced?: string;
+  /** Version the item was deprecated in; it still works until removed */
+  deprecated?: string;
+  /** First version the item is no longer available in */
+  removed?: string;
+  /** Set on deprecated items, with or without a deprecated version */
+  deprecation?: Deprecation;
+}
+
+/**
+ * Why an item is deprecated and what replaces it
+ */
+export interface Deprecation {
+  /** Component or field to use instead */
+  replacement?: string;
+  /** Migration hint shown with the warning */
+  note?: string;
+  /** The replacement takes the same config, so applyAutoFixes may rename to it */
+  autoFix?: boolean;
+}
+
+export type Availability = 'available' | 'deprecated' | 'not_yet_introduced' | 'removed';
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/;
+
+/**
+ * Parse "4.12.0", "v4.12" or "4.12.0-rc1" into [major, minor, patch].
+ * Pre-release and build suffixes are ignored.
+ */
+export function parseVersion(version: string): [number, number, number] | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions: negative if a < b, zero if equal, positive if a > b.
+ * Unparseable versions sort before every valid one.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return (left ? 1 : 0) - (right ? 1 : 0);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+// ============================================================================
+// Availability
+// ============================================================================
+
+/**
+ * Whether an item records any version data. Items without it pass every
+ * target version unchecked, so callers should say so.
+ */
+export function hasVersionInfo(info: VersionInfo): boolean {
+  return Boolean(info.introduced || info.deprecated || info.removed || info.deprecation);
+}
+
+/**
+ * Whether an item can be used on the target version
+ */
+export function availabilityAt(info: VersionInfo, target: string): Availability {
+  if (info.introduced && compareVersions(target, info.introduced) < 0) return 'not_yet_introduced';
+  if (info.removed && compareVersions(target, info.removed) >= 0) return 'removed';
+  if (info.deprecated && compareVersions(target, info.deprecated) >= 0) return 'deprecated';
+  return 'available';
+}
+
+export function isAvailableAt(info: VersionInfo, target: string): boolean {
+  const availability = availabilityAt(info, target);
+  return availability === 'available' || availability === 'deprecated';
+}
+
+/**
+ * Whether an item is deprecated on the target version. Without a target the
+ * latest version is assumed. Items with deprecation metadata but no version
+ * are deprecated everywhere.
+ */
+export function isDeprecatedAt(info: VersionInfo, target?: string): boolean {
+  if (info.deprecated) return !target || compareVersions(target, info.deprecated) >= 0;
+  return info.deprecation !== undefined;
+}
+
+/**
+ * Explain a deprecation, e.g.
+ * 'bloblang processor is deprecated; use mapping instead'
+ */
+export function describeDeprecation(subject: string, info: VersionInfo): string {
+  let message = `${subject} is deprecated`;
+  if (info.deprecated) message += ` since ${info.deprecated}`;
+  if (info.deprecation?.replacement) message += `; use ${info.deprecation.replacement} instead`;
+  if (info.deprecation?.note) message += `. ${info.deprecation.note}`;
+  return message;
+}
+
+/**
+ * Explain why an item is unavailable or deprecated on the target version,
+ * e.g. 'kafka_franz input requires 3.61.0 or later (target 3.50.0)'
+ */
+export function describeAvailability(subject: string, info: VersionInfo, target: string): string | undefined {
+  switch (availabilityAt(info, target)) {
+    case 'not_yet_introduced':
+      return `${subject} requires ${info.introduced} or later (target ${target})`;
+    case 'removed':
+      return `${subject} was removed in ${info.removed} (target ${target})`;
+    case 'deprecated':
+      return `${subject} is deprecated since ${info.deprecated}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * One-line summary, e.g. "introduced 4.5.0, deprecated 4.30.0"
+ */
+export function formatVersionInfo(info: VersionInfo): string {
+  const parts: string[] = [];
+  if (info.introduced) parts.push(`introduced ${info.introduced}`);
+  if (info.deprecated) parts.push(`deprecated ${info.deprecated}`);
+  else if (info.deprecation) parts.push('deprecated');
+  if (info.removed) parts.push(`removed ${info.removed}`);
+  return parts.join(', ');
+}
+
+/**
+ * Copy only the version fields, dropping undefined ones
+ */
+export function pickVersionInfo(source: VersionInfo): VersionInfo {
+  const info: VersionInfo = {};
+  if (source.introduced) info.introduced = source.introduced;
+  if (source.deprecated) info.deprecated = source.deprecated;
+  if (source.removed) info.removed = source.removed;
+  if (source.deprecation) info.deprecation = source.deprecation;
+  return info;
+}
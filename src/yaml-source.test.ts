@@ -0,0 +1,211 @@
+/**
+ * Tests for YAML source positions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseYamlSource, parsePath, positionAt, locateOffsets } from './yaml-source';
+import { validatePipelineYaml } from './pipeline-validator';
+
+const PIPELINE = `input:
+  kafka:
+    addresses: [localhost:9092]
+    topics: [events]
+pipeline:
+  processors:
+    - mapping: root = this
+    - log:
+        message: hello
+output:
+  stdout: {}
+`;
+
+describe('YAML Source Positions', () => {
+  describe('parsePath', () => {
+    it('should split keys and indexes', () => {
+      expect(parsePath('pipeline.processors[0].mapping')).toEqual(['pipeline', 'processors', 0, 'mapping']);
+    });
+
+    it('should drop the root prefix', () => {
+      expect(parsePath('root.version')).toEqual(['version']);
+      expect(parsePath('root')).toEqual([]);
+    });
+  });
+
+  describe('positionAt', () => {
+    it('should return 1-based lines and columns', () => {
+      expect(positionAt('a: 1\nbb: 2', 0)).toEqual({ line: 1, column: 1, offset: 0 });
+      expect(positionAt('a: 1\nbb: 2', 6)).toEqual({ line: 2, column: 2, offset: 6 });
+    });
+
+    it('should clamp out-of-range offsets', () => {
+      expect(positionAt('abc', 99).offset).toBe(3);
+    });
+  });
+
+  describe('parseYamlSource', () => {
+    it('should parse YAML to plain values', () => {
+      const source = parseYamlSource(PIPELINE);
+      expect(source.error).toBeUndefined();
+      expect((source.value as { output: unknown }).output).toEqual({ stdout: {} });
+    });
+
+    it('should parse YAML 1.1 booleans', () => {
+      const source = parseYamlSource('enabled: yes\ndisabled: off');
+      expect(source.value).toEqual({ enabled: true, disabled: false });
+    });
+
+    it('should parse block scalars', () => {
+      const source = parseYamlSource('mapping: |\n  root = this\n  root.id = uuid_v4()\n');
+      expect(source.value).toEqual({ mapping: 'root = this\nroot.id = uuid_v4()\n' });
+    });
+
+    it('should locate map keys', () => {
+      const location = parseYamlSource(PIPELINE).locate('input.kafka.topics');
+      expect(location?.line).toBe(4);
+      expect(location?.column).toBe(5);
+      expect(location?.range.end).toMatchObject({ line: 4, column: 11 });
+    });
+
+    it('should locate array items', () => {
+      const location = parseYamlSource(PIPELINE).locate('pipeline.processors[1]');
+      expect(location?.line).toBe(8);
+      expect(location?.column).toBe(7);
+    });
+
+    it('should fall back to the deepest existing node', () => {
+      const location = parseYamlSource(PIPELINE).locate('pipeline.processors[1].log.level');
+      expect(location?.line).toBe(8);
+    });
+
+    it('should locate root paths at the start of the document', () => {
+      const location = parseYamlSource(`\n\n${PIPELINE}`).locate('root');
+      expect(location).toMatchObject({ line: 3, column: 1 });
+    });
+
+    it('should find the outermost path starting on a line', () => {
+      const source = parseYamlSource(PIPELINE);
+      expect(source.pathAt(2)).toBe('input.kafka');
+      expect(source.pathAt(7)).toBe('pipeline.processors[0]');
+      expect(source.pathAt(9)).toBe('pipeline.processors[1].log.message');
+      expect(source.pathAt(12)).toBeUndefined();
+    });
+
+    it('should report syntax errors with a location', () => {
+      const source = parseYamlSource('input:\n  kafka: [unclosed\noutput: {}\n');
+      expect(source.error?.message).toBeTruthy();
+      expect(source.error?.location.line).toBeGreaterThan(1);
+    });
+
+    it('should return alias expansion errors instead of throwing', () => {
+      const aliases = 'a: &a [x, x, x, x, x, x, x, x, x, x]\n' +
+        'b: &b [*a, *a, *a, *a, *a, *a, *a, *a, *a, *a]\n' +
+        'c: &c [*b, *b, *b, *b, *b, *b, *b, *b, *b, *b]\n' +
+        'd: [*c, *c, *c, *c, *c, *c, *c, *c, *c, *c]\n';
+      const source = parseYamlSource(aliases);
+      expect(source.value).toBeNull();
+      expect(source.error?.message).toContain('Excessive alias count');
+
+      const result = validatePipelineYaml(aliases);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toContain('Failed to parse YAML');
+    });
+  });
+
+  describe('locateOffsets', () => {
+    it('should build a range from offsets', () => {
+      const location = locateOffsets('ab\ncd', 3, 5);
+      expect(location).toEqual({
+        line: 2,
+        column: 1,
+        range: {
+          start: { line: 2, column: 1, offset: 3 },
+          end: { line: 2, column: 3, offset: 5 },
+        },
+      });
+    });
+  });
+
+  describe('validatePipelineYaml positions', () => {
+    it('should attach positions to unknown component errors', () => {
+      const result = validatePipelineYaml(`input:
+  not_a_real_input:
+    foo: bar
+output:
+  stdout: {}
+`);
+      const error = result.errors.find(e => e.path === 'input.not_a_real_input');
+      expect(error).toMatchObject({ line: 2, column: 3 });
+      expect(error?.range?.end.column).toBe(3 + 'not_a_real_input'.length);
+    });
+
+    it('should attach positions to unknown field errors', () => {
+      const result = validatePipelineYaml(`input:
+  kafka:
+    addresses: [localhost:9092]
+    topics: [events]
+    topicz: [typo]
+output:
+  stdout: {}
+`);
+      const error = result.errors.find(e => e.message.includes('topicz'));
+      expect(error).toMatchObject({ line: 5, column: 5 });
+    });
+
+    it('should locate errors inside nested processors', () => {
+      const result = validatePipelineYaml(`input:
+  stdin: {}
+pipeline:
+  processors:
+    - mapping: |
+        root = from_json(this)
+output:
+  stdout: {}
+`);
+      const error = result.errors.find(e => e.path === 'pipeline.processors[0].mapping');
+      expect(error?.line).toBe(5);
+    });
+
+    it('should locate parse errors', () => {
+      const result = validatePipelineYaml('input:\n  kafka: [unclosed\noutput: {}\n');
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toContain('Failed to parse YAML');
+      expect(result.errors[0].line).toBeDefined();
+    });
+
+    it('should locate multi-document separators', () => {
+      const result = validatePipelineYaml(`input:
+  stdin: {}
+---
+output:
+  stdout: {}
+`);
+      expect(result.errors[0]).toMatchObject({ line: 3, column: 1 });
+    });
+
+    it('should attach positions to suggested fixes', () => {
+      const result = validatePipelineYaml(`input:
+  stdin: {}
+output:
+  http:
+    url: http://example.com
+`);
+      const fix = result.suggested_fixes?.find(f => f.original === 'http:');
+      expect(fix).toMatchObject({ line: 4, column: 3 });
+    });
+
+    it('should attach positions to compatibility warnings', () => {
+      const result = validatePipelineYaml(`input:
+  http_server:
+    path: /ingest
+output:
+  sync_response: {}
+pipeline:
+  processors:
+    - try: []
+`);
+      const warning = result.compatibility_warnings?.find(w => w.rule === 'try-without-catch');
+      expect(warning?.path).toBe('pipeline.processors[0].try');
+      expect(warning).toMatchObject({ line: 8, column: 7 });
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * YAML Source Positions
+ *
+ * Parses pipeline YAML into a document AST (via the `yaml` package) and maps
+ * validator paths like "pipeline.processors[0].mapping" back to the exact
+ * node in the source, so errors can carry a line, column and range.
+ */
+
+import {
+  parseAllDocuments,
+  isMap,
+  isSeq,
+  isScalar,
+  type Document,
+  type Node,
+} from 'yaml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A point in the source text. line and column are 1-based, offset is 0-based.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * Location fields attached to errors, fixes and warnings
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+  range: SourceRange;
+}
+
+/**
+ * Where a scalar value is written, for rewriting it in place
+ */
+export interface ScalarSpan {
+  /** 0-based offsets, including quotes and block scalar indicators */
+  start: number;
+  end: number;
+  /** Unquoted and outside flow collections, so any plain text can replace it */
+  plain: boolean;
+}
+
+export interface ParsedYamlSource {
+  /** Plain JS value of the document (null when parsing failed) */
+  value: unknown;
+  /** Set when the source is not valid YAML */
+  error?: { message: string; location: SourceLocation };
+  /** Resolve a validator path to its location in the source */
+  locate(path: string): SourceLocation | undefined;
+  /** Path of the outermost key or list item that starts on a line (1-based) */
+  pathAt(line: number): string | undefined;
+  /** Source span of the scalar value at a validator path */
+  scalarAt(path: string): ScalarSpan | undefined;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse YAML (or JSON) into a value plus a path locator.
+ * Syntax errors are returned (not thrown) with their location, as are errors
+ * converting the document, such as the alias expansion limit.
+ * Uses YAML 1.1 booleans so yes/no/on/off behave like the Go decoder.
+ * Only the first non-empty document is used.
+ */
+export function parseYamlSource(text: string): ParsedYamlSource {
+  const documents = parseAllDocuments(text, { version: '1.1' });
+  const docs = Array.isArray(documents) ? documents : [];
+  return documentSource(text, docs.find((d) => d.contents !== null) ?? docs[0]);
+}
+
+/**
+ * Parse every non-empty document of a multi-document (`---`) stream, each
+ * with its own locators. Offsets are relative to the whole text.
+ */
+export function parseYamlDocuments(text: string): ParsedYamlSource[] {
+  const documents = parseAllDocuments(text, { version: '1.1' });
+  const docs = Array.isArray(documents) ? documents : [];
+  return docs.filter((d) => d.contents !== null || d.errors.length > 0).map((d) => documentSource(text, d));
+}
+
+function documentSource(text: string, doc: Document | undefined): ParsedYamlSource {
+  const failed = (message: string, location: SourceLocation): ParsedYamlSource => ({
+    value: null,
+    error: { message: message.split('\n')[0], location },
+    locate: () => undefined,
+    pathAt: () => undefined,
+    scalarAt: () => undefined,
+  });
+
+  if (doc && doc.errors.length > 0) {
+    const error = doc.errors[0];
+    return failed(error.message, locateOffsets(text, error.pos[0], error.pos[1]));
+  }
+
+  let value: unknown = null;
+  try {
+    value = doc ? doc.toJS() : null;
+  } catch (error) {
+    const start = (doc?.contents as Node | null)?.range?.[0] ?? 0;
+    return failed(error instanceof Error ? error.message : String(error), locateOffsets(text, start, start));
+  }
+
+  let lines: Map<number, string> | undefined;
+  return {
+    value,
+    locate: (path) => (doc ? locatePath(text, doc, path) : undefined),
+    pathAt: (line) => {
+      lines ??= doc ? indexLines(text, doc) : new Map();
+      return lines.get(line);
+    },
+    scalarAt: (path) => (doc ? scalarSpan(text, doc, path) : undefined),
+  };
+}
+
+// ============================================================================
+// Path Resolution
+// ============================================================================
+
+/**
+ * Split a validator path into keys and indexes.
+ * "root.pipeline.processors[0].mapping" → ['pipeline', 'processors', 0, 'mapping']
+ */
+export function parsePath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  for (const part of path.split('.')) {
+    const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+    if (!match) {
+      segments.push(part);
+      continue;
+    }
+    if (match[1]) segments.push(match[1]);
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+      segments.push(Number(index[1]));
+    }
+  }
+  if (segments[0] === 'root') segments.shift();
+  return segments;
+}
+
+/**
+ * Find the source node for a path. Map keys resolve to the key node so the
+ * offending name is underlined; array indexes resolve to the whole item.
+ * If the path leaves the document, the deepest existing node is used.
+ */
+function locatePath(text: string, doc: Document, path: string): SourceLocation | undefined {
+  const contents = doc.contents as Node | null;
+  if (!contents?.range) return undefined;
+
+  let node: Node = contents;
+  let target: Node | null = null;
+
+  for (const segment of parsePath(path)) {
+    let next: Node | null = null;
+    let highlight: Node | null = null;
+
+    if (typeof segment === 'number' && isSeq(node)) {
+      next = (node.items[segment] as Node | undefined) ?? null;
+      highlight = next;
+    } else if (isMap(node)) {
+      const pair = node.items.find(
+        (item) => isScalar(item.key) && String(item.key.value) === String(segment)
+      );
+      if (pair) {
+        highlight = pair.key as Node;
+        next = (pair.value as Node | null) ?? null;
+      }
+    }
+
+    if (!highlight?.range) break;
+    target = highlight;
+    if (!next) break;
+    node = next;
+  }
+
+  if (!target?.range) {
+    // Document-level problem: point at the start of the content
+    return locateOffsets(text, contents.range[0], contents.range[0]);
+  }
+  return locateOffsets(text, target.range[0], target.range[1]);
+}
+
+/**
+ * Find the scalar value node at a path. Block scalars end before their
+ * trailing line break so a replacement keeps the following lines intact.
+ */
+function scalarSpan(text: string, doc: Document, path: string): ScalarSpan | undefined {
+  let node: unknown = doc.contents;
+  let inFlow = false;
+
+  for (const segment of parsePath(path)) {
+    if (isSeq(node) && typeof segment === 'number') {
+      inFlow ||= Boolean(node.flow);
+      node = node.items[segment];
+    } else if (isMap(node)) {
+      inFlow ||= Boolean(node.flow);
+      node = node.items.find((item) => isScalar(item.key) && String(item.key.value) === String(segment))?.value;
+    } else {
+      return undefined;
+    }
+  }
+
+  if (!isScalar(node) || !node.range) return undefined;
+  const [start, end] = node.range;
+  return {
+    start,
+    end: start + text.slice(start, end).trimEnd().length,
+    plain: node.type === 'PLAIN' && !inFlow,
+  };
+}
+
+/**
+ * Map each line to the path of the first (outermost) key or list item on it
+ */
+function indexLines(text: string, doc: Document): Map<number, string> {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) lineStarts.push(i + 1);
+  }
+  const lineAt = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  const lines = new Map<number, string>();
+  const record = (node: Node | null | undefined, path: string) => {
+    if (!node?.range) return;
+    const line = lineAt(node.range[0]);
+    if (!lines.has(line)) lines.set(line, path);
+  };
+  // Pre-order, so a list item wins over the first key inside it
+  const visit = (node: unknown, path: string) => {
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        if (!isScalar(pair.key)) continue;
+        const keyPath = path ? `${path}.${String(pair.key.value)}` : String(pair.key.value);
+        record(pair.key as Node, keyPath);
+        visit(pair.value, keyPath);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => {
+        const itemPath = `${path}[${index}]`;
+        record(item as Node, itemPath);
+        visit(item, itemPath);
+      });
+    }
+  };
+  visit(doc.contents, '');
+  return lines;
+}
+
+// ============================================================================
+// Offset Helpers
+// ============================================================================
+
+/**
+ * Convert a 0-based offset to a 1-based line and column
+ */
+export function positionAt(text: string, offset: number): SourcePosition {
+  const clamped = Math.max(0, Math.min(offset, text.length));
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < clamped; i++) {
+    if (text.charCodeAt(i) === 10) {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: clamped - lineStart + 1, offset: clamped };
+}
+
+/**
+ * Build a location from a start and end offset
+ */
+export function locateOffsets(text: string, start: number, end: number): SourceLocation {
+  const startPos = positionAt(text, start);
+  const endPos = positionAt(text, Math.max(start, end));
+  return {
+    line: startPos.line,
+    column: startPos.column,
+    range: { start: startPos, end: endPos },
+  };
+}